@@ -1,34 +1,62 @@
 // defined by webpack plugin
-declare var BUILT: any;
+declare let BUILT: any;
 
-if (typeof window !== 'undefined' && typeof BUILT === 'undefined') {
-  throw new Error('It looks like you are using the Nodejs version of Kuzzle SDK ' +
-               'in a browser. ' +
-               'It is strongly recommended to use the browser-specific build instead. ' +
-               'Learn more at https://github.com/kuzzleio/sdk-javascript/tree/master#browser');
+if (typeof window !== "undefined" && typeof BUILT === "undefined") {
+  throw new Error(
+    "It looks like you are using the Nodejs version of Kuzzle SDK " +
+      "in a browser. " +
+      "It is strongly recommended to use the browser-specific build instead. " +
+      "Learn more at https://github.com/kuzzleio/sdk-javascript/tree/master#browser"
+  );
 }
 
-export * from './src/Kuzzle';
-export * from './src/protocols';
-export * from './src/protocols/abstract/Base';
-export * from './src/core/KuzzleEventEmitter';
+export * from "./src/Kuzzle";
+export * from "./src/KuzzleError";
+export * from "./src/VersionConflictError";
+export * from "./src/RequestAbortedError";
+export * from "./src/NetworkError";
+export * from "./src/protocols";
+export * from "./src/protocols/abstract/Base";
+export * from "./src/core/KuzzleEventEmitter";
 
-export * from './src/core/searchResult/SearchResultBase';
-export * from './src/core/searchResult/Document';
-export * from './src/core/searchResult/Profile';
-export * from './src/core/searchResult/Role';
-export * from './src/core/searchResult/Specifications';
-export * from './src/core/searchResult/User';
-export * from './src/core/Observer';
-export * from './src/core/RealtimeDocument';
-export * from './src/core/batchWriter/BatchController';
+export * from "./src/core/searchResult/SearchResultBase";
+export * from "./src/core/searchResult/Document";
+export * from "./src/core/searchResult/Profile";
+export * from "./src/core/searchResult/Role";
+export * from "./src/core/searchResult/Specifications";
+export * from "./src/core/searchResult/User";
+export * from "./src/core/Observer";
+export * from "./src/core/RealtimeDocument";
+export * from "./src/core/LiveQuery";
+export * from "./src/core/TypedCollection";
+export * from "./src/core/batchWriter/BatchController";
+export * from "./src/core/QueryMiddleware";
+export * from "./src/core/RetryPolicy";
+export * from "./src/core/RateLimiter";
+export * from "./src/core/QueryCache";
+export * from "./src/core/ReadBatcher";
+export * from "./src/core/validation/SpecificationsValidator";
+export * from "./src/core/validation/ValidationMiddleware";
+export * from "./src/core/koncorde/KoncordeFilter";
+export * from "./src/core/export/ExportFormatter";
+export * from "./src/core/export/CollectionExporter";
+export * from "./src/core/import/ImportParser";
+export * from "./src/core/import/CollectionImporter";
+export * from "./src/core/reindex";
+export * from "./src/core/fixtures/FixturesLoader";
+export * from "./src/core/migrations/MigrationRunner";
+export * from "./src/core/offlineQueue/OfflineQueueStorage";
+export * from "./src/core/offlineQueue/MemoryQueueStorage";
+export * from "./src/core/offlineQueue/FileQueueStorage";
+export * from "./src/core/offlineQueue/BrowserQueueStorage";
+export * from "./src/codegen/ControllerGenerator";
 
-export * from './src/types';
+export * from "./src/types";
 
-export * from './src/controllers/Auth';
-export * from './src/controllers/Base';
-export * from './src/controllers/Collection';
-export * from './src/controllers/Document';
-export * from './src/controllers/Index';
-export * from './src/controllers/Realtime';
-export * from './src/controllers/Server';
+export * from "./src/controllers/Auth";
+export * from "./src/controllers/Base";
+export * from "./src/controllers/Collection";
+export * from "./src/controllers/Document";
+export * from "./src/controllers/Index";
+export * from "./src/controllers/Realtime";
+export * from "./src/controllers/Server";
@@ -19,11 +19,34 @@ import { BaseRequest, JSONObject } from "./types";
 import { RequestPayload } from "./types/RequestPayload";
 import { ResponsePayload } from "./types/ResponsePayload";
 import { RequestTimeoutError } from "./RequestTimeoutError";
+import { RequestAbortedError } from "./RequestAbortedError";
 import { BaseProtocolRealtime } from "./protocols/abstract/Realtime";
+import {
+  OfflineQueueStorage,
+  QueuedRequest,
+  serializeQueue,
+} from "./core/offlineQueue/OfflineQueueStorage";
+import { MemoryQueueStorage } from "./core/offlineQueue/MemoryQueueStorage";
+import { QueryMiddleware, QueryMiddlewareChain } from "./core/QueryMiddleware";
+import { RetryOptions, RetryPolicy } from "./core/RetryPolicy";
+import { RateLimiter, RateLimiterOptions } from "./core/RateLimiter";
+import { QueryCache, QueryCacheOptions } from "./core/QueryCache";
+import { ReadBatcher, ReadBatcherOptions } from "./core/ReadBatcher";
 
 // Defined by webpack plugin
 declare const SDKVERSION: any;
 
+/**
+ * Tells if an offline queue storage method returned a promise
+ */
+function isThenable<T>(value: T | Promise<T>): value is Promise<T> {
+  return (
+    value !== null &&
+    value !== undefined &&
+    typeof (value as Promise<T>).then === "function"
+  );
+}
+
 export class Kuzzle extends KuzzleEventEmitter {
   // We need to define any string key because users can register new controllers
   [key: string]: any;
@@ -73,6 +96,8 @@ export class Kuzzle extends KuzzleEventEmitter {
    * List of every events emitted by the SDK.
    */
   public events = [
+    "batchFlush",
+    "batchFlushError",
     "callbackError",
     "connected",
     "discarded",
@@ -83,9 +108,11 @@ export class Kuzzle extends KuzzleEventEmitter {
     "offlineQueuePush",
     "offlineQueuePop",
     "queryError",
+    "queryRetry",
     "reAuthenticated",
     "reconnected",
     "reconnectionError",
+    "searchConcurrentModification",
     "tokenExpired",
   ];
 
@@ -104,6 +131,8 @@ export class Kuzzle extends KuzzleEventEmitter {
   private _autoQueue: any;
   private _autoReplay: any;
   private _offlineQueueLoader: any;
+  private _offlineQueueStorage: OfflineQueueStorage;
+  private _offlineQueueLoading: Promise<void>;
   private _queuing: boolean;
   private _queueFilter: any;
   private _queueMaxSize: any;
@@ -115,6 +144,11 @@ export class Kuzzle extends KuzzleEventEmitter {
   private _cookieAuthentication: boolean;
   private _reconnectInProgress: boolean;
   private _loggedIn: boolean;
+  private _middlewares: QueryMiddlewareChain;
+  private _retryPolicy: RetryPolicy;
+  private _rateLimiter: RateLimiter;
+  private _queryCache: QueryCache;
+  private _readBatcher: ReadBatcher;
 
   private __proxy__: any;
 
@@ -169,8 +203,16 @@ export class Kuzzle extends KuzzleEventEmitter {
       /**
        * Called before dequeuing requests after exiting offline mode,
        * to add items at the beginning of the offline queue
+       *
+       * @deprecated Use `offlineQueueStorage` instead
        */
       offlineQueueLoader?: (...any) => any;
+      /**
+       * Storage used to persist the offline queue, queued requests are
+       * reloaded from it when the SDK is instantiated
+       * Default: `MemoryQueueStorage`
+       */
+      offlineQueueStorage?: OfflineQueueStorage;
       /**
        * Number of maximum requests kept during offline mode
        * Default: `500`
@@ -212,6 +254,40 @@ export class Kuzzle extends KuzzleEventEmitter {
        * Default: `true`
        */
       deprecationWarning?: boolean;
+      /**
+       * Middlewares executed around every request
+       * (see `useMiddleware`)
+       * Default: `[]`
+       */
+      middlewares?: QueryMiddleware[];
+      /**
+       * Retry policy applied to idempotent requests rejected by a network
+       * error or a retryable API error (e.g. 503).
+       * Can be overridden per request with the `retry` option.
+       * Default: `false`
+       */
+      retry?: RetryOptions | boolean;
+      /**
+       * Maximum number of requests sent per second: requests exceeding it
+       * wait for their turn instead of being rejected by Kuzzle.
+       * With `auto`, the limit is the most permissive one of the current
+       * user profiles, and is updated on login and logout.
+       * Default: `0` (no limit)
+       */
+      rateLimit?: number | "auto" | RateLimiterOptions;
+      /**
+       * Coalesce concurrent identical read requests and cache their
+       * responses for a short time.
+       * Can be disabled per request with the `cache` option.
+       * Default: `false`
+       */
+      cache?: QueryCacheOptions | boolean;
+      /**
+       * Coalesce the `document.get` and `document.exists` calls made during
+       * the same tick into `document.mGet` requests.
+       * Default: `false`
+       */
+      batchReads?: ReadBatcherOptions | boolean;
     } = {}
   ) {
     super();
@@ -317,6 +393,10 @@ export class Kuzzle extends KuzzleEventEmitter {
       typeof options.offlineQueueLoader === "function"
         ? options.offlineQueueLoader
         : null;
+    this._offlineQueueStorage = options.offlineQueueStorage
+      ? options.offlineQueueStorage
+      : new MemoryQueueStorage();
+    this._offlineQueueLoading = null;
     this._queueFilter =
       typeof options.queueFilter === "function" ? options.queueFilter : null;
     this._queueMaxSize =
@@ -344,6 +424,30 @@ export class Kuzzle extends KuzzleEventEmitter {
 
     this._loggedIn = false;
 
+    this._middlewares = new QueryMiddlewareChain();
+    for (const middleware of options.middlewares || []) {
+      this._middlewares.add(middleware);
+    }
+
+    this._retryPolicy = new RetryPolicy(
+      options.retry === undefined ? false : options.retry
+    );
+
+    this._rateLimiter = new RateLimiter(options.rateLimit);
+
+    this._queryCache = options.cache
+      ? new QueryCache(typeof options.cache === "object" ? options.cache : {})
+      : null;
+
+    this._readBatcher = options.batchReads
+      ? new ReadBatcher(
+          this,
+          typeof options.batchReads === "object" ? options.batchReads : {}
+        )
+      : null;
+
+    this._loadOfflineQueue();
+
     this.on("loginAttempt", async (status) => {
       if (status.success) {
         this._loggedIn = true;
@@ -380,6 +484,40 @@ export class Kuzzle extends KuzzleEventEmitter {
       }
     });
 
+    if (this._queryCache) {
+      // Responses may depend on the user permissions, and notifications
+      // are missed while disconnected
+      for (const event of [
+        "disconnected",
+        "reconnected",
+        "loginAttempt",
+        "logoutAttempt",
+        "tokenExpired",
+      ]) {
+        this.on(event, () => this._queryCache.clear());
+      }
+    }
+
+    if (this._rateLimiter.auto) {
+      for (const event of [
+        "connected",
+        "reconnected",
+        "loginAttempt",
+        "logoutAttempt",
+        "reAuthenticated",
+        "tokenExpired",
+      ]) {
+        this.on(event, (status?: { success: boolean }) => {
+          // A failed login does not change the rights
+          if (event === "loginAttempt" && !status.success) {
+            return;
+          }
+
+          this._updateRateLimit();
+        });
+      }
+    }
+
     return proxify(this, {
       exposeApi: true,
       name: "kuzzle",
@@ -471,6 +609,48 @@ export class Kuzzle extends KuzzleEventEmitter {
     this._offlineQueueLoader = value;
   }
 
+  /**
+   * Registered query middlewares, in execution order
+   */
+  get middlewares(): QueryMiddleware[] {
+    return this._middlewares.middlewares;
+  }
+
+  /**
+   * Retry policy applied to idempotent requests
+   */
+  get retryPolicy(): RetryPolicy {
+    return this._retryPolicy;
+  }
+
+  /**
+   * Rate limiter applied to requests
+   */
+  get rateLimiter(): RateLimiter {
+    return this._rateLimiter;
+  }
+
+  /**
+   * Cache of read requests, or null if disabled
+   */
+  get queryCache(): QueryCache {
+    return this._queryCache;
+  }
+
+  /**
+   * Batcher of single document reads, or null if disabled
+   */
+  get readBatcher(): ReadBatcher {
+    return this._readBatcher;
+  }
+
+  /**
+   * Storage used to persist the offline queue
+   */
+  get offlineQueueStorage() {
+    return this._offlineQueueStorage;
+  }
+
   get port() {
     return this.protocol.port;
   }
@@ -757,6 +937,7 @@ export class Kuzzle extends KuzzleEventEmitter {
    */
   flushQueue() {
     this._offlineQueue = [];
+    this._persistOfflineQueue();
     return this;
   }
 
@@ -795,34 +976,25 @@ export class Kuzzle extends KuzzleEventEmitter {
     }
 
     const request = JSON.parse(JSON.stringify(req));
-    const options = JSON.parse(JSON.stringify(opts));
+    // The abort signal cannot be cloned
+    const options = JSON.parse(JSON.stringify({ ...opts, signal: undefined }));
 
     if (!request.requestId) {
       request.requestId = uuidv4();
     }
 
-    let queuable = true;
-    if (options && options.queuable === false) {
-      queuable = false;
-    }
-
-    if (this.queueFilter) {
-      queuable = queuable && this.queueFilter(request);
-    }
-
-    const requestTimeout =
-      typeof options.timeout === "number"
-        ? options.timeout
-        : this._requestTimeout;
-
     for (const [key, value] of Object.entries(options)) {
       // Ignore common SDK option
-      if (["queuable", "timeout"].includes(key)) {
+      if (["queuable", "retry", "timeout", "cache"].includes(key)) {
         continue;
       }
       request[key] = value;
     }
 
+    if (opts.signal) {
+      options.signal = opts.signal;
+    }
+
     if (request.refresh === undefined && options.refresh !== undefined) {
       request.refresh = options.refresh;
     }
@@ -858,6 +1030,48 @@ export class Kuzzle extends KuzzleEventEmitter {
 
     this.auth.authenticateRequest(request);
 
+    const send = () =>
+      this._middlewares.size === 0
+        ? this._sendQuery<TResult>(request, options)
+        : this._middlewares.run(request, options, () =>
+            this._sendQuery<TResult>(request, options)
+          );
+
+    return this._queryCache
+      ? this._queryCache.execute(request, options, send)
+      : send();
+  }
+
+  /**
+   * Queues or sends a fully formatted request
+   *
+   * @param request Request payload
+   * @param options Request options
+   */
+  private _sendQuery<TResult>(
+    request: RequestPayload,
+    options: JSONObject
+  ): Promise<ResponsePayload<TResult>> {
+    let queuable = true;
+    if (options && options.queuable === false) {
+      queuable = false;
+    }
+
+    if (this.queueFilter) {
+      queuable = queuable && this.queueFilter(request);
+    }
+
+    const requestTimeout =
+      typeof options.timeout === "number"
+        ? options.timeout
+        : this._requestTimeout;
+
+    const signal: AbortSignal = options.signal;
+
+    if (signal && signal.aborted) {
+      return Promise.reject(new RequestAbortedError(request, signal.reason));
+    }
+
     if (this._queuing) {
       if (queuable) {
         this._cleanQueue();
@@ -865,13 +1079,25 @@ export class Kuzzle extends KuzzleEventEmitter {
         this.emit("offlineQueuePush", { request });
 
         return new Promise((resolve, reject) => {
-          this.offlineQueue.push({
+          const queued = {
             reject,
             request,
             resolve,
+            signal,
             timeout: requestTimeout,
             ts: Date.now(),
-          });
+          };
+
+          this.offlineQueue.push(queued);
+          this._persistOfflineQueue();
+
+          if (signal) {
+            signal.addEventListener(
+              "abort",
+              () => this._dropQueuedRequest(queued),
+              { once: true }
+            );
+          }
         });
       }
 
@@ -882,13 +1108,47 @@ Discarded request: ${JSON.stringify(request)}`)
       );
     }
 
-    return this._timeoutRequest(requestTimeout, request, options).then(
-      (response: ResponsePayload<TResult>) => {
+    return this._retryPolicy
+      .execute<ResponsePayload<TResult>>(
+        request,
+        options.retry,
+        (attempt) =>
+          this._rateLimiter.schedule(
+            attempt,
+            () => this._timeoutRequest(requestTimeout, attempt, options),
+            signal
+          ),
+        (retry) => this.emit("queryRetry", retry),
+        signal
+      )
+      .then((response) => {
         debug("RESPONSE", response);
 
-        return this.deprecationHandler.logDeprecation(response);
-      }
-    );
+        return this.deprecationHandler.logDeprecation(
+          response
+        ) as ResponsePayload<TResult>;
+      });
+  }
+
+  /**
+   * Adds a middleware executed around every request sent to Kuzzle,
+   * including requests sent by custom controllers.
+   *
+   * @param middleware Object with `beforeSend`, `afterResponse` and/or `onError` hooks
+   */
+  useMiddleware(middleware: QueryMiddleware) {
+    this._middlewares.add(middleware);
+
+    return this;
+  }
+
+  /**
+   * Removes a previously added middleware.
+   *
+   * @returns `true` if the middleware was registered
+   */
+  removeMiddleware(middleware: QueryMiddleware): boolean {
+    return this._middlewares.remove(middleware);
   }
 
   /**
@@ -999,6 +1259,7 @@ Discarded request: ${JSON.stringify(request)}`)
    */
   private _cleanQueue() {
     const now = Date.now();
+    const initialLength = this.offlineQueue.length;
     let lastDocumentIndex = -1;
 
     if (this.queueTTL > 0) {
@@ -1034,23 +1295,74 @@ Discarded request: ${JSON.stringify(request)}`)
           );
         });
     }
+
+    if (this.offlineQueue.length !== initialLength) {
+      this._persistOfflineQueue();
+    }
+  }
+
+  /**
+   * Sets the rate limit to the most permissive one of the current user
+   * profiles. The limit is kept as is if the profiles cannot be fetched.
+   */
+  private async _updateRateLimit() {
+    try {
+      const user = await this.auth.getCurrentUser();
+      const profiles = await user.getProfiles();
+
+      this._rateLimiter.limit = RateLimiter.profilesLimit(profiles);
+    } catch (error) {
+      debug("RATE LIMIT UPDATE ERROR", error);
+    }
+  }
+
+  /**
+   * Removes a request aborted while waiting in the offline queue
+   */
+  private _dropQueuedRequest(queued: JSONObject) {
+    const index = this.offlineQueue.indexOf(queued);
+
+    if (index === -1) {
+      return;
+    }
+
+    this.offlineQueue.splice(index, 1);
+    this.emit("offlineQueuePop", queued.request);
+    this._persistOfflineQueue();
+
+    queued.reject(
+      new RequestAbortedError(queued.request, queued.signal.reason)
+    );
   }
 
   /**
    * Play all queued requests, in order.
    */
   private _dequeue() {
+    if (this._offlineQueueLoading) {
+      return this._offlineQueueLoading.then(() => this._dequeue());
+    }
+
     const uniqueQueue = {},
       dequeuingProcess = () => {
         if (this.offlineQueue.length > 0) {
-          this._timeoutRequest(
-            this.offlineQueue[0].timeout,
-            this.offlineQueue[0].request
-          )
+          if (this.offlineQueue[0].restored) {
+            this.auth.authenticateRequest(this.offlineQueue[0].request);
+          }
+
+          const { request, signal, timeout } = this.offlineQueue[0];
+
+          this._rateLimiter
+            .schedule(
+              request,
+              () => this._timeoutRequest(timeout, request, { signal }),
+              signal
+            )
             .then(this.offlineQueue[0].resolve)
             .catch(this.offlineQueue[0].reject);
 
           this.emit("offlineQueuePop", this.offlineQueue.shift().request);
+          this._persistOfflineQueue();
 
           setTimeout(() => {
             dequeuingProcess();
@@ -1093,6 +1405,8 @@ Discarded request: ${JSON.stringify(request)}`)
                   : (uniqueQueue[query.request.requestId] = true);
               });
 
+            // Loaded requests must survive a crash before being played
+            this._persistOfflineQueue();
             dequeuingProcess();
           } else {
             throw new Error(
@@ -1106,6 +1420,76 @@ Discarded request: ${JSON.stringify(request)}`)
     dequeuingProcess();
   }
 
+  /**
+   * Loads the requests persisted by the offline queue storage and puts them
+   * at the beginning of the offline queue.
+   *
+   * Restored requests do not have a caller waiting for their result anymore
+   * and are authenticated with the current token when replayed.
+   */
+  private _loadOfflineQueue() {
+    const restore = (persisted: QueuedRequest[]) => {
+      if (!Array.isArray(persisted) || persisted.length === 0) {
+        return;
+      }
+
+      const queued = new Set(
+        this._offlineQueue.map(({ request }) => request.requestId)
+      );
+      const restored = persisted
+        .filter(({ request }) => request && !queued.has(request.requestId))
+        .map(({ request, timeout, ts }) => ({
+          reject: () => undefined,
+          request,
+          resolve: () => undefined,
+          restored: true,
+          timeout,
+          ts,
+        }));
+
+      this._offlineQueue = restored.concat(this._offlineQueue);
+    };
+
+    let persisted: QueuedRequest[] | Promise<QueuedRequest[]>;
+
+    try {
+      persisted = this._offlineQueueStorage.load();
+    } catch (error) {
+      debug("OFFLINE QUEUE LOAD ERROR", error);
+      return;
+    }
+
+    if (!isThenable(persisted)) {
+      restore(persisted);
+      return;
+    }
+
+    this._offlineQueueLoading = persisted
+      .then(restore)
+      .catch((error) => debug("OFFLINE QUEUE LOAD ERROR", error))
+      .then(() => {
+        this._offlineQueueLoading = null;
+      });
+  }
+
+  /**
+   * Writes the current offline queue into the offline queue storage.
+   * Storage errors never prevent requests from being queued or played.
+   */
+  private _persistOfflineQueue() {
+    try {
+      const saved = this._offlineQueueStorage.save(
+        serializeQueue(this._offlineQueue)
+      );
+
+      if (isThenable(saved)) {
+        saved.catch((error) => debug("OFFLINE QUEUE SAVE ERROR", error));
+      }
+    } catch (error) {
+      debug("OFFLINE QUEUE SAVE ERROR", error);
+    }
+  }
+
   /**
    * Sends a request with a timeout
    *
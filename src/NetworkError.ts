@@ -0,0 +1,7 @@
+"use strict";
+
+/**
+ * Error rejecting a request because the connection to Kuzzle failed,
+ * or was lost before a response was received.
+ */
+export class NetworkError extends Error {}
@@ -0,0 +1,24 @@
+"use strict";
+
+import { RequestPayload } from "./types/RequestPayload";
+
+/**
+ * Error rejecting a request aborted with the `signal` option.
+ */
+export class RequestAbortedError extends Error {
+  /**
+   * The request that has been rejected
+   */
+  request: RequestPayload;
+
+  /**
+   * Abort reason given to the signal, if any
+   */
+  reason: any;
+
+  constructor(request: RequestPayload, reason?: any) {
+    super("Request aborted");
+    this.request = request;
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,46 @@
+"use strict";
+
+import { KuzzleError } from "./KuzzleError";
+
+/**
+ * Error rejecting a document write made with the `ifVersion` option,
+ * when the document has been modified since the expected version.
+ */
+export class VersionConflictError extends KuzzleError {
+  /**
+   * Version given with the `ifVersion` option
+   */
+  public expectedVersion: number;
+
+  /**
+   * Version of the document when the write was attempted
+   * (null if the document does not exist anymore)
+   */
+  public currentVersion: number | null;
+
+  constructor(
+    request: { action: string; index: string; collection: string; _id: string },
+    expectedVersion: number,
+    currentVersion: number | null
+  ) {
+    const document = `"${request.index}":"${request.collection}":"${request._id}"`;
+
+    super(
+      {
+        id: "services.storage.version_conflict",
+        message:
+          currentVersion === null
+            ? `Document ${document} does not exist anymore (expected version ${expectedVersion})`
+            : `Document ${document} is at version ${currentVersion} instead of version ${expectedVersion}`,
+        props: [String(currentVersion), String(expectedVersion)],
+        status: 409,
+      },
+      new Error().stack,
+      undefined,
+      { controller: "document", ...request }
+    );
+
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
@@ -0,0 +1,748 @@
+import { JSONObject } from "../types";
+import staticHttpRoutes from "../protocols/routes.json";
+
+/**
+ * API action argument
+ */
+export interface ApiParameterDefinition {
+  name: string;
+
+  /**
+   * TypeScript type of the argument
+   */
+  type: string;
+
+  required: boolean;
+
+  description?: string;
+}
+
+/**
+ * API action, as described by `server:publicApi` or `server:openapi`
+ */
+export interface ApiActionDefinition {
+  name: string;
+
+  description?: string;
+
+  /**
+   * Arguments taken from the route URL, passed as method arguments
+   * when they are required
+   */
+  pathParameters: ApiParameterDefinition[];
+
+  /**
+   * Arguments taken from the query string, passed as method options
+   */
+  queryParameters: ApiParameterDefinition[];
+
+  /**
+   * Request body, or null if the action does not take one
+   */
+  body: { required: boolean; type: string } | null;
+
+  /**
+   * TypeScript type of the response result
+   */
+  result: string;
+}
+
+export interface ApiControllerDefinition {
+  name: string;
+
+  actions: ApiActionDefinition[];
+}
+
+export interface ControllerGeneratorOptions {
+  /**
+   * Only generate these controllers
+   * Default: every controller except native ones
+   */
+  controllers?: string[];
+
+  /**
+   * Also generate controllers of the native Kuzzle API
+   * Default: `false`
+   */
+  includeNative?: boolean;
+
+  /**
+   * Module from which the SDK classes are imported in the generated code
+   * Default: `kuzzle-sdk`
+   */
+  sdkModule?: string;
+}
+
+const HTTP_VERBS = ["get", "post", "put", "patch", "delete", "head", "options"];
+
+const BODY_VERBS = ["POST", "PUT", "PATCH"];
+
+const RESERVED_WORDS = new Set([
+  "arguments",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "debugger",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "eval",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "import",
+  "in",
+  "instanceof",
+  "let",
+  "new",
+  "null",
+  "options",
+  "request",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "while",
+  "with",
+  "yield",
+]);
+
+/**
+ * Generates typed controller classes, extending `BaseController`, from the
+ * description of the API returned by `server:publicApi` or `server:openapi`.
+ *
+ * The generated code also exports a `useControllers` function registering
+ * every controller on a Kuzzle instance, and returning this instance typed
+ * with the controller accessors.
+ */
+export class ControllerGenerator {
+  private _options: ControllerGeneratorOptions;
+
+  constructor(options: ControllerGeneratorOptions = {}) {
+    if (
+      options.controllers !== undefined &&
+      !Array.isArray(options.controllers)
+    ) {
+      throw new Error('Invalid "controllers" option: expected an array');
+    }
+
+    this._options = {
+      controllers: options.controllers,
+      includeNative: Boolean(options.includeNative),
+      sdkModule: options.sdkModule || "kuzzle-sdk",
+    };
+  }
+
+  /**
+   * Generates the TypeScript source of the controllers
+   *
+   * @param api Result of `server:publicApi` or `server:openapi`
+   */
+  generate(api: JSONObject): string {
+    return this.render(this.parse(api));
+  }
+
+  /**
+   * Parses the result of `server:publicApi` or `server:openapi`
+   */
+  parse(api: JSONObject): ApiControllerDefinition[] {
+    if (api === null || typeof api !== "object" || Array.isArray(api)) {
+      throw new Error("Invalid API description: expected an object");
+    }
+
+    if (typeof api.openapi === "string" || typeof api.swagger === "string") {
+      return this.parseOpenApi(api);
+    }
+
+    return this.parsePublicApi(api);
+  }
+
+  /**
+   * Parses the result of `server:publicApi`.
+   *
+   * Only route URLs are described: responses are typed as `any` and
+   * query string arguments are not known.
+   */
+  parsePublicApi(publicApi: JSONObject): ApiControllerDefinition[] {
+    const controllers: ApiControllerDefinition[] = [];
+
+    for (const name of Object.keys(publicApi).sort()) {
+      if (!this._isSelected(name)) {
+        continue;
+      }
+
+      const actions: ApiActionDefinition[] = [];
+
+      for (const action of Object.keys(publicApi[name]).sort()) {
+        const routes = publicApi[name][action].http || [];
+        const parameters = routes.map((route) =>
+          (route.url.match(/:[^/]+/g) || []).map((param) => param.slice(1))
+        );
+        const required =
+          parameters.length === 0
+            ? []
+            : parameters[0].filter((param) =>
+                parameters.every((params) => params.includes(param))
+              );
+        const optional = Array.from(new Set([].concat(...parameters))).filter(
+          (param) => !required.includes(param)
+        );
+
+        actions.push({
+          body: routes.some((route) => BODY_VERBS.includes(route.verb))
+            ? { required: false, type: "JSONObject" }
+            : null,
+          name: action,
+          pathParameters: required.map((param) => ({
+            name: param,
+            required: true,
+            type: "string",
+          })),
+          queryParameters: optional.map((param) => ({
+            name: param,
+            required: false,
+            type: "string",
+          })),
+          result: "any",
+        });
+      }
+
+      controllers.push({ actions, name });
+    }
+
+    return controllers;
+  }
+
+  /**
+   * Parses the result of `server:openapi`.
+   *
+   * Operations are mapped to API actions using, in this order, the
+   * `x-kuzzle-controller` and `x-kuzzle-action` extensions, an operation ID
+   * in the `<controller>:<action>` format, or the first tag of the operation
+   * as controller and the operation ID as action.
+   * When an action is exposed by several routes, the first one is used.
+   */
+  parseOpenApi(openapi: JSONObject): ApiControllerDefinition[] {
+    const controllers = new Map<string, Map<string, ApiActionDefinition>>();
+    const paths = openapi.paths || {};
+
+    for (const path of Object.keys(paths)) {
+      const item = paths[path];
+
+      for (const verb of HTTP_VERBS) {
+        const operation = item[verb];
+
+        if (!operation) {
+          continue;
+        }
+
+        const { controller, action } = this._resolveOperation(operation);
+
+        if (!controller || !action || !this._isSelected(controller)) {
+          continue;
+        }
+
+        if (!controllers.has(controller)) {
+          controllers.set(controller, new Map());
+        }
+
+        if (controllers.get(controller).has(action)) {
+          continue;
+        }
+
+        controllers
+          .get(controller)
+          .set(
+            action,
+            this._parseOperation(openapi, path, action, item, operation)
+          );
+      }
+    }
+
+    return Array.from(controllers.keys())
+      .sort()
+      .map((name) => ({
+        actions: Array.from(controllers.get(name).keys())
+          .sort()
+          .map((action) => controllers.get(name).get(action)),
+        name,
+      }));
+  }
+
+  /**
+   * Renders the TypeScript source of parsed controllers
+   */
+  render(controllers: ApiControllerDefinition[]): string {
+    const blocks = [];
+
+    for (const controller of controllers) {
+      for (const action of controller.actions) {
+        blocks.push(this._renderTypes(controller, action));
+      }
+    }
+
+    for (const controller of controllers) {
+      blocks.push(this._renderController(controller));
+    }
+
+    blocks.push(this._renderRegistration(controllers));
+
+    const imports = ["ArgsDefault", "BaseController", "Kuzzle"];
+
+    if (blocks.some((block) => block.includes("JSONObject"))) {
+      imports.push("JSONObject");
+    }
+
+    const header = [
+      "/**",
+      " * Generated by kuzzle-sdk-codegen, do not edit manually.",
+      " */",
+      `import { ${imports.sort().join(", ")} } from ${JSON.stringify(
+        this._options.sdkModule
+      )};`,
+    ].join("\n");
+
+    return [header, ...blocks].join("\n\n") + "\n";
+  }
+
+  private _isSelected(controller: string): boolean {
+    if (this._options.controllers) {
+      return this._options.controllers.includes(controller);
+    }
+
+    return (
+      this._options.includeNative ||
+      !Object.prototype.hasOwnProperty.call(staticHttpRoutes, controller)
+    );
+  }
+
+  private _resolveOperation(operation: JSONObject): {
+    controller: string;
+    action: string;
+  } {
+    if (operation["x-kuzzle-controller"] && operation["x-kuzzle-action"]) {
+      return {
+        action: operation["x-kuzzle-action"],
+        controller: operation["x-kuzzle-controller"],
+      };
+    }
+
+    const operationId = operation.operationId;
+
+    if (typeof operationId !== "string") {
+      return { action: null, controller: null };
+    }
+
+    const separator = operationId.lastIndexOf(":");
+
+    if (separator > 0) {
+      return {
+        action: operationId.slice(separator + 1),
+        controller: operationId.slice(0, separator),
+      };
+    }
+
+    return {
+      action: operationId,
+      controller: Array.isArray(operation.tags) ? operation.tags[0] : null,
+    };
+  }
+
+  private _parseOperation(
+    openapi: JSONObject,
+    path: string,
+    action: string,
+    item: JSONObject,
+    operation: JSONObject
+  ): ApiActionDefinition {
+    const parameters = [
+      ...(item.parameters || []),
+      ...(operation.parameters || []),
+    ]
+      .map((parameter) => this._resolveRef(openapi, parameter))
+      .filter(Boolean);
+
+    const toDefinition = (parameter): ApiParameterDefinition => ({
+      description: parameter.description,
+      name: parameter.name,
+      required: parameter.in === "path" || Boolean(parameter.required),
+      type: this._schemaToType(openapi, parameter.schema),
+    });
+
+    const pathParameters = parameters
+      .filter((parameter) => parameter.in === "path")
+      .map(toDefinition);
+
+    // Path templates are not always described by parameters
+    for (const match of path.match(/{[^}]+}/g) || []) {
+      const name = match.slice(1, -1);
+
+      if (!pathParameters.some((parameter) => parameter.name === name)) {
+        pathParameters.push({ name, required: true, type: "string" });
+      }
+    }
+
+    const requestBody = this._resolveRef(openapi, operation.requestBody);
+    const bodySchema = this._getJsonSchema(openapi, requestBody);
+
+    const responses = operation.responses || {};
+    const response = this._resolveRef(
+      openapi,
+      responses["200"] || responses["201"] || responses.default
+    );
+    let resultSchema = this._getJsonSchema(openapi, response);
+
+    // Kuzzle responses are described with their envelope
+    if (
+      resultSchema &&
+      resultSchema.properties &&
+      resultSchema.properties.result
+    ) {
+      resultSchema = resultSchema.properties.result;
+    }
+
+    return {
+      body: requestBody
+        ? {
+            required: Boolean(requestBody.required),
+            type: this._schemaToType(openapi, bodySchema, "JSONObject"),
+          }
+        : null,
+      description: operation.description || operation.summary,
+      name: action,
+      pathParameters,
+      queryParameters: parameters
+        .filter((parameter) => parameter.in === "query")
+        .map(toDefinition),
+      result: this._schemaToType(openapi, resultSchema),
+    };
+  }
+
+  private _getJsonSchema(openapi: JSONObject, definition: JSONObject) {
+    if (!definition || !definition.content) {
+      return null;
+    }
+
+    const content =
+      definition.content["application/json"] ||
+      definition.content[Object.keys(definition.content)[0]];
+
+    return content ? this._resolveRef(openapi, content.schema) : null;
+  }
+
+  private _resolveRef(openapi: JSONObject, definition: JSONObject) {
+    if (!definition || typeof definition.$ref !== "string") {
+      return definition;
+    }
+
+    let resolved = openapi;
+
+    for (const segment of definition.$ref.replace(/^#\//, "").split("/")) {
+      resolved = resolved ? resolved[segment] : undefined;
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Converts a JSON schema to a TypeScript type
+   *
+   * @param openapi OpenAPI document, used to resolve references
+   * @param schema JSON schema
+   * @param fallback Type used when the schema is empty
+   * @param refs References being resolved, to stop on recursive schemas
+   */
+  private _schemaToType(
+    openapi: JSONObject,
+    schema: JSONObject,
+    fallback = "any",
+    refs: string[] = []
+  ): string {
+    if (!schema || typeof schema !== "object") {
+      return fallback;
+    }
+
+    if (typeof schema.$ref === "string") {
+      if (refs.includes(schema.$ref)) {
+        return "JSONObject";
+      }
+
+      return this._schemaToType(
+        openapi,
+        this._resolveRef(openapi, schema),
+        fallback,
+        [...refs, schema.$ref]
+      );
+    }
+
+    const type = this._schemaToBaseType(openapi, schema, fallback, refs);
+
+    return schema.nullable ? `${type} | null` : type;
+  }
+
+  private _schemaToBaseType(
+    openapi: JSONObject,
+    schema: JSONObject,
+    fallback: string,
+    refs: string[]
+  ): string {
+    const convert = (subSchema) =>
+      this._schemaToType(openapi, subSchema, "any", refs);
+
+    if (Array.isArray(schema.enum)) {
+      return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+    }
+
+    if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+      return (schema.oneOf || schema.anyOf)
+        .map((subSchema) => `(${convert(subSchema)})`)
+        .join(" | ");
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      return schema.allOf
+        .map((subSchema) => `(${convert(subSchema)})`)
+        .join(" & ");
+    }
+
+    if (Array.isArray(schema.type)) {
+      return schema.type
+        .map((type) => convert({ ...schema, type }))
+        .join(" | ");
+    }
+
+    switch (schema.type) {
+      case "string":
+        return "string";
+      case "number":
+      case "integer":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "null":
+        return "null";
+      case "array":
+        return `Array<${convert(schema.items)}>`;
+    }
+
+    if (schema.type !== "object" && !schema.properties) {
+      return fallback;
+    }
+
+    const required = schema.required || [];
+    const properties = Object.keys(schema.properties || {}).map(
+      (name) =>
+        `${this._propertyName(name)}${
+          required.includes(name) ? "" : "?"
+        }: ${convert(schema.properties[name])};`
+    );
+
+    if (
+      schema.additionalProperties &&
+      typeof schema.additionalProperties === "object"
+    ) {
+      properties.push(
+        `[key: string]: ${convert(schema.additionalProperties)};`
+      );
+    } else if (properties.length === 0) {
+      return "JSONObject";
+    }
+
+    return `{ ${properties.join(" ")} }`;
+  }
+
+  private _renderTypes(
+    controller: ApiControllerDefinition,
+    action: ApiActionDefinition
+  ): string {
+    const suffix = `${pascalCase(controller.name)}Controller${pascalCase(
+      action.name
+    )}`;
+    const options = action.pathParameters
+      .filter((parameter) => !parameter.required)
+      .concat(action.queryParameters)
+      .map((parameter) =>
+        [
+          parameter.description
+            ? `  /**\n   * ${parameter.description}\n   */`
+            : null,
+          `  ${this._propertyName(parameter.name)}?: ${parameter.type};`,
+        ]
+          .filter(Boolean)
+          .join("\n")
+      );
+
+    const args =
+      options.length === 0
+        ? `export interface Args${suffix} extends ArgsDefault {}`
+        : `export interface Args${suffix} extends ArgsDefault {\n${options.join(
+            "\n\n"
+          )}\n}`;
+
+    return `${args}\n\nexport type Result${suffix} = ${action.result};`;
+  }
+
+  private _renderController(controller: ApiControllerDefinition): string {
+    const className = `${pascalCase(controller.name)}Controller`;
+    const methods = controller.actions.map((action) =>
+      this._renderMethod(controller, action)
+    );
+
+    return [
+      `export class ${className} extends BaseController {`,
+      "  constructor(kuzzle: Kuzzle) {",
+      `    super(kuzzle, ${JSON.stringify(controller.name)});`,
+      "  }",
+      ...methods.map((method) => `\n${method}`),
+      "}",
+    ].join("\n");
+  }
+
+  private _renderMethod(
+    controller: ApiControllerDefinition,
+    action: ApiActionDefinition
+  ): string {
+    const suffix = `${pascalCase(controller.name)}Controller${pascalCase(
+      action.name
+    )}`;
+    const parameters = action.pathParameters.filter(
+      (parameter) => parameter.required
+    );
+    const signature = parameters.map(
+      (parameter) => `${identifier(parameter.name)}: ${parameter.type}`
+    );
+    const requestArgs = parameters.map((parameter) =>
+      this._propertyName(parameter.name) === identifier(parameter.name)
+        ? `      ${parameter.name},`
+        : `      ${this._propertyName(parameter.name)}: ${identifier(
+            parameter.name
+          )},`
+    );
+    const doc = ["  /**"];
+
+    if (action.description) {
+      doc.push(
+        ...action.description
+          .trim()
+          .split("\n")
+          .map((line) => `   * ${line}`.trimEnd()),
+        "   *"
+      );
+    }
+
+    for (const parameter of parameters) {
+      doc.push(
+        `   * @param ${identifier(parameter.name)} ${
+          parameter.description || ""
+        }`.trimEnd()
+      );
+    }
+
+    if (action.body) {
+      signature.push(
+        action.body.required
+          ? `body: ${action.body.type}`
+          : `body?: ${action.body.type}`
+      );
+      requestArgs.push("      body,");
+      doc.push("   * @param body Request body");
+    }
+
+    signature.push(`options: Args${suffix} = {}`);
+    doc.push("   * @param options Additional options", "   */");
+
+    return [
+      ...doc,
+      `  ${methodName(action.name)}(${signature.join(
+        ", "
+      )}): Promise<Result${suffix}> {`,
+      "    const request = {",
+      `      action: ${JSON.stringify(action.name)},`,
+      ...requestArgs,
+      "    };",
+      "",
+      "    return this.query(request, options).then((response) => response.result);",
+      "  }",
+    ].join("\n");
+  }
+
+  private _renderRegistration(controllers: ApiControllerDefinition[]): string {
+    const accessors = controllers.map((controller) => ({
+      accessor: camelCase(controller.name),
+      className: `${pascalCase(controller.name)}Controller`,
+    }));
+
+    return [
+      "/**",
+      " * Controllers registered by `useControllers`",
+      " */",
+      "export interface Controllers {",
+      ...accessors.map(
+        ({ accessor, className }) => `  ${accessor}: ${className};`
+      ),
+      "}",
+      "",
+      "/**",
+      " * Registers the generated controllers on a Kuzzle instance",
+      " */",
+      "export function useControllers(kuzzle: Kuzzle): Kuzzle & Controllers {",
+      ...accessors.map(
+        ({ accessor, className }) =>
+          `  kuzzle.useController(${className}, ${JSON.stringify(accessor)});`
+      ),
+      "",
+      "  return kuzzle as Kuzzle & Controllers;",
+      "}",
+    ].join("\n");
+  }
+
+  private _propertyName(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+  }
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function camelCase(name: string): string {
+  const pascal = pascalCase(name);
+
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Actions named after a BaseController member get an "Action" suffix
+ */
+function methodName(name: string): string {
+  const method = ["constructor", "kuzzle", "name", "query"].includes(name)
+    ? `${name}Action`
+    : name;
+
+  return /^[A-Za-z_$][\w$]*$/.test(method) ? method : JSON.stringify(method);
+}
+
+function identifier(name: string): string {
+  const id = /^[A-Za-z_$][\w$]*$/.test(name) ? name : camelCase(name);
+
+  return RESERVED_WORDS.has(id) || /^\d/.test(id) ? `_${id}` : id;
+}
@@ -0,0 +1,165 @@
+import { Kuzzle } from "../Kuzzle";
+import Http from "../protocols/Http";
+import { JSONObject } from "../types";
+import { ControllerGenerator } from "./ControllerGenerator";
+
+const USAGE = `Usage: kuzzle-sdk-codegen [options]
+
+Generates typed controllers from the API exposed by a Kuzzle server.
+
+Options:
+  --input <file>         Read the result of server:publicApi or server:openapi from a file
+  --host <host>          Kuzzle server host (default: localhost)
+  --port <port>          Kuzzle server port (default: 7512)
+  --ssl                  Use SSL to connect to the Kuzzle server
+  --username <username>  Log in with the "local" strategy before fetching the API
+  --password <password>  Password of the "local" strategy
+  --openapi              Fetch server:openapi instead of server:publicApi
+  --controllers <list>   Comma separated list of controllers to generate
+  --include-native       Also generate the native controllers
+  --sdk-module <module>  Module imported by the generated code (default: kuzzle-sdk)
+  --output <file>        Write the generated code to a file instead of stdout
+  --help                 Display this help
+`;
+
+const FLAGS = ["help", "include-native", "openapi", "ssl"];
+
+const OPTIONS = [
+  "controllers",
+  "host",
+  "input",
+  "output",
+  "password",
+  "port",
+  "sdk-module",
+  "username",
+];
+
+/**
+ * Parses command line arguments
+ */
+export function parseArgs(argv: string[]): JSONObject {
+  const args: JSONObject = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i].replace(/^--/, "");
+
+    if (!argv[i].startsWith("--")) {
+      throw new Error(`Unexpected argument "${argv[i]}"`);
+    }
+
+    if (FLAGS.includes(name)) {
+      args[name] = true;
+    } else if (OPTIONS.includes(name)) {
+      if (i + 1 >= argv.length || argv[i + 1].startsWith("--")) {
+        throw new Error(`Missing value for option "--${name}"`);
+      }
+
+      args[name] = argv[++i];
+    } else {
+      throw new Error(`Unknown option "--${name}"`);
+    }
+  }
+
+  return args;
+}
+
+async function fetchApi(args: JSONObject): Promise<JSONObject> {
+  const kuzzle = new Kuzzle(
+    new Http(args.host || "localhost", {
+      port: args.port ? parseInt(args.port, 10) : 7512,
+      ssl: Boolean(args.ssl),
+    })
+  );
+
+  await kuzzle.connect();
+
+  try {
+    if (args.username) {
+      await kuzzle.auth.login("local", {
+        password: args.password,
+        username: args.username,
+      });
+    }
+
+    if (!args.openapi) {
+      const { result } = await kuzzle.query({
+        action: "publicApi",
+        controller: "server",
+      });
+
+      return result;
+    }
+
+    // Native and application routes are described by separate documents
+    const scopes = args["include-native"] ? ["kuzzle", "app"] : ["app"];
+    let openapi: JSONObject = null;
+
+    for (const scope of scopes) {
+      const response = await kuzzle.query({
+        action: "openapi",
+        controller: "server",
+        scope,
+      });
+      const result: JSONObject = response.result;
+
+      openapi = openapi
+        ? { ...openapi, paths: { ...openapi.paths, ...result.paths } }
+        : result;
+    }
+
+    return openapi;
+  } finally {
+    kuzzle.disconnect();
+  }
+}
+
+/**
+ * Runs the code generator command
+ *
+ * @param argv Command line arguments
+ * @returns Exit code
+ */
+export async function run(
+  argv: string[],
+  output: { stdout: NodeJS.WritableStream; stderr: NodeJS.WritableStream } = {
+    stderr: process.stderr,
+    stdout: process.stdout,
+  }
+): Promise<number> {
+  const fs = require("fs"); // eslint-disable-line @typescript-eslint/no-var-requires
+
+  try {
+    const args = parseArgs(argv);
+
+    if (args.help) {
+      output.stdout.write(USAGE);
+      return 0;
+    }
+
+    const api = args.input
+      ? JSON.parse(fs.readFileSync(args.input, "utf8"))
+      : await fetchApi(args);
+
+    const generator = new ControllerGenerator({
+      controllers: args.controllers
+        ? args.controllers.split(",").map((name) => name.trim())
+        : undefined,
+      includeNative: Boolean(args["include-native"]),
+      sdkModule: args["sdk-module"],
+    });
+
+    const code = generator.generate(api);
+
+    if (args.output) {
+      fs.writeFileSync(args.output, code);
+    } else {
+      output.stdout.write(code);
+    }
+
+    return 0;
+  } catch (error) {
+    output.stderr.write(`${error.message}\n\n${USAGE}`);
+    return 1;
+  }
+}
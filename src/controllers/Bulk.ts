@@ -52,6 +52,7 @@ export class BulkController extends BaseController {
    * @param bulkData - Array of documents detailing the bulk operations to perform, following ElasticSearch Bulk API
    * @param options - Additional options
    *    - `queuable` If true, queues the request during downtime, until connected to Kuzzle again
+   *    - `refresh` If set to `wait_for`, Kuzzle will not respond until the documents are indexed
    *    - `timeout` Request Timeout in ms, after the delay if not resolved the promise will be rejected
    *
    * @returns An object containing 2 arrays: "successes" and "errors"
@@ -261,7 +262,9 @@ export interface ArgsBulkControllerDeleteByQuery extends ArgsDefault {
   refresh?: "wait_for" | "false";
 }
 
-export type ArgsBulkControllerImport = ArgsDefault;
+export interface ArgsBulkControllerImport extends ArgsDefault {
+  refresh?: "wait_for" | "false";
+}
 
 export interface ArgsBulkControllerUpdateByQuery extends ArgsDefault {
   refresh?: "wait_for" | "false";
@@ -18,7 +18,43 @@ import {
   KHit,
   mUpsertRequest,
 } from "../types";
-import { SearchResult } from "../core/searchResult/SearchResultBase";
+import { omit } from "../utils/object";
+import { VersionConflictError } from "../VersionConflictError";
+import {
+  SearchPaginationStrategy,
+  SearchResult,
+  SearchResultBase,
+} from "../core/searchResult/SearchResultBase";
+
+/**
+ * Options of the reads checking document versions before writes.
+ * These reads always bypass the query cache, to get the current versions.
+ */
+function readOptions({ queuable, retry, timeout }: ArgsDefault): ArgsDefault {
+  return { cache: false, queuable, retry, timeout };
+}
+
+/**
+ * Reports a document in conflict with its expected version in the errors
+ * of an m* action
+ */
+function conflictError(
+  document: { _id: string; body?: JSONObject; changes?: JSONObject },
+  error: VersionConflictError
+) {
+  return {
+    document: { _id: document._id, _source: document.body || document.changes },
+    reason: error.message,
+    status: error.status,
+  };
+}
+
+/**
+ * Reads made without options can be batched with the reads of other callers
+ */
+function isBatchable(options: ArgsDefault): boolean {
+  return Object.values(options).every((value) => value === undefined);
+}
 
 export class DocumentController extends BaseController {
   constructor(kuzzle) {
@@ -144,6 +180,7 @@ export class DocumentController extends BaseController {
    * @param options.refresh If set to `wait_for`, Kuzzle will not respond until the API key is indexed
    * @param options.silent If true, then Kuzzle will not generate notifications
    * @param options.timeout Request Timeout in ms, after the delay if not resolved the promise will be rejected
+   * @param options.ifVersion Only deletes the document if its version is still this one (checked by reading it first, not atomically)
    *
    * @returns The document ID
    */
@@ -153,6 +190,7 @@ export class DocumentController extends BaseController {
     _id: string,
     options: ArgsDocumentControllerDelete = {}
   ): Promise<string> {
+    const { ifVersion, ...opts } = options;
     const request = {
       _id,
       action: "delete",
@@ -161,7 +199,9 @@ export class DocumentController extends BaseController {
       silent: options.silent,
     };
 
-    return this.query(request, options).then((response) => response.result._id);
+    return this._checkVersion(request, ifVersion, opts)
+      .then(() => this.query(request, opts))
+      .then((response) => response.result._id);
   }
 
   /**
@@ -258,6 +298,10 @@ export class DocumentController extends BaseController {
     _id: string,
     options: ArgsDocumentControllerExists = {}
   ): Promise<boolean> {
+    if (this.kuzzle.readBatcher && isBatchable(options)) {
+      return this.kuzzle.readBatcher.exists(index, collection, _id);
+    }
+
     const request = {
       _id,
       action: "exists",
@@ -290,6 +334,10 @@ export class DocumentController extends BaseController {
     _id: string,
     options: ArgsDocumentControllerGet = {}
   ): Promise<KDocument<TKDocumentContent>> {
+    if (this.kuzzle.readBatcher && isBatchable(options)) {
+      return this.kuzzle.readBatcher.get(index, collection, _id);
+    }
+
     const request = {
       _id,
       action: "get",
@@ -350,6 +398,11 @@ export class DocumentController extends BaseController {
    *    - `timeout` Request Timeout in ms, after the delay if not resolved the promise will be rejected
    *    - `strict` If true, an error will occur if a document was not created
    *
+   * Documents given with an `ifVersion` property are only replaced if their
+   * version is still this one, and are otherwise reported in the errors with
+   * a 409 status (or reject with a `VersionConflictError` in strict mode)
+   * Versions are checked by reading the documents first, not atomically.
+   *
    * @returns An object containing 2 arrays: "successes" and "errors"
    */
   mCreateOrReplace<TKDocumentContent extends KDocumentContentGeneric>(
@@ -358,16 +411,34 @@ export class DocumentController extends BaseController {
     documents: mCreateOrReplaceRequest<TKDocumentContent>,
     options: ArgsDocumentControllerMCreateOrReplace = {}
   ): Promise<mCreateOrReplaceResponse> {
-    const request = {
-      action: "mCreateOrReplace",
-      body: { documents },
-      collection,
+    return this._checkVersions(
+      "mCreateOrReplace",
       index,
-      silent: options.silent,
-      strict: options.strict,
-    };
-
-    return this.query(request, options).then((response) => response.result);
+      collection,
+      documents,
+      options,
+      conflictError,
+      true
+    ).then(({ conflicts, writable }) => {
+      if (writable.length === 0) {
+        return { errors: conflicts, successes: [] };
+      }
+
+      const request = {
+        action: "mCreateOrReplace",
+        body: { documents: writable },
+        collection,
+        index,
+        silent: options.silent,
+        strict: options.strict,
+      };
+
+      return this.query(request, options).then(({ result }) =>
+        conflicts.length === 0
+          ? result
+          : { ...result, errors: conflicts.concat(result.errors) }
+      );
+    });
   }
 
   /**
@@ -385,6 +456,11 @@ export class DocumentController extends BaseController {
    *    - `timeout` Request Timeout in ms, after the delay if not resolved the promise will be rejected
    *    - `strict` If true, an error will occur if a document was not deleted
    *
+   * Documents given as `{ _id, ifVersion }` objects are only deleted if their
+   * version is still this one, and are otherwise reported in the errors
+   * (or reject with a `VersionConflictError` in strict mode)
+   * Versions are checked by reading the documents first, not atomically.
+   *
    * @returns An object containing 2 arrays: "successes" and "errors"
    */
   mDelete(
@@ -393,16 +469,37 @@ export class DocumentController extends BaseController {
     ids: mDeleteRequest,
     options: ArgsDocumentControllerMDelete = {}
   ): Promise<mDeleteResponse> {
-    const request = {
-      action: "mDelete",
-      body: { ids },
-      collection,
-      index,
-      silent: options.silent,
-      strict: options.strict,
-    };
+    const documents = ids.map((id) =>
+      typeof id === "string" ? { _id: id } : id
+    );
 
-    return this.query(request, options).then((response) => response.result);
+    return this._checkVersions(
+      "mDelete",
+      index,
+      collection,
+      documents,
+      options,
+      ({ _id }, error) => ({ _id, reason: error.message })
+    ).then(({ conflicts, writable }) => {
+      if (writable.length === 0) {
+        return { errors: conflicts, successes: [] };
+      }
+
+      const request = {
+        action: "mDelete",
+        body: { ids: writable.map(({ _id }) => _id) },
+        collection,
+        index,
+        silent: options.silent,
+        strict: options.strict,
+      };
+
+      return this.query(request, options).then(({ result }) =>
+        conflicts.length === 0
+          ? result
+          : { ...result, errors: conflicts.concat(result.errors) }
+      );
+    });
   }
 
   /**
@@ -460,6 +557,11 @@ export class DocumentController extends BaseController {
    *    - `timeout` Request Timeout in ms, after the delay if not resolved the promise will be rejected
    *    - `strict` If true, an error will occur if a document was not replaced
    *
+   * Documents given with an `ifVersion` property are only replaced if their
+   * version is still this one, and are otherwise reported in the errors with
+   * a 409 status (or reject with a `VersionConflictError` in strict mode)
+   * Versions are checked by reading the documents first, not atomically.
+   *
    * @returns An object containing 2 arrays: "successes" and "errors"
    */
   mReplace<TKDocumentContent extends KDocumentContentGeneric>(
@@ -468,16 +570,33 @@ export class DocumentController extends BaseController {
     documents: mReplaceRequest<TKDocumentContent>,
     options: ArgsDocumentControllerMReplace = {}
   ): Promise<mReplaceResponse> {
-    const request = {
-      action: "mReplace",
-      body: { documents },
-      collection,
+    return this._checkVersions(
+      "mReplace",
       index,
-      silent: options.silent,
-      strict: options.strict,
-    };
-
-    return this.query(request, options).then((response) => response.result);
+      collection,
+      documents,
+      options,
+      conflictError
+    ).then(({ conflicts, writable }) => {
+      if (writable.length === 0) {
+        return { errors: conflicts, successes: [] };
+      }
+
+      const request = {
+        action: "mReplace",
+        body: { documents: writable },
+        collection,
+        index,
+        silent: options.silent,
+        strict: options.strict,
+      };
+
+      return this.query(request, options).then(({ result }) =>
+        conflicts.length === 0
+          ? result
+          : { ...result, errors: conflicts.concat(result.errors) }
+      );
+    });
   }
 
   /**
@@ -499,6 +618,11 @@ export class DocumentController extends BaseController {
    *    - `timeout` Request Timeout in ms, after the delay if not resolved the promise will be rejected
    *    - `strict` If true, an error will occur if a document was not updated
    *
+   * Documents given with an `ifVersion` property are only updated if their
+   * version is still this one, and are otherwise reported in the errors with
+   * a 409 status (or reject with a `VersionConflictError` in strict mode)
+   * Versions are checked by reading the documents first, not atomically.
+   *
    * @returns An object containing 2 arrays: "successes" and "errors"
    */
   mUpdate<TKDocumentContent extends KDocumentContentGeneric>(
@@ -507,16 +631,33 @@ export class DocumentController extends BaseController {
     documents: mUpdateRequest<TKDocumentContent>,
     options: ArgsDocumentControllerMUpdate = {}
   ): Promise<mUpdateResponse> {
-    const request = {
-      action: "mUpdate",
-      body: { documents },
-      collection,
+    return this._checkVersions(
+      "mUpdate",
       index,
-      silent: options.silent,
-      strict: options.strict,
-    };
-
-    return this.query(request, options).then((response) => response.result);
+      collection,
+      documents,
+      options,
+      conflictError
+    ).then(({ conflicts, writable }) => {
+      if (writable.length === 0) {
+        return { errors: conflicts, successes: [] };
+      }
+
+      const request = {
+        action: "mUpdate",
+        body: { documents: writable },
+        collection,
+        index,
+        silent: options.silent,
+        strict: options.strict,
+      };
+
+      return this.query(request, options).then(({ result }) =>
+        conflicts.length === 0
+          ? result
+          : { ...result, errors: conflicts.concat(result.errors) }
+      );
+    });
   }
 
   /**
@@ -535,6 +676,11 @@ export class DocumentController extends BaseController {
    *    - `retryOnConflict` Number of times the database layer should retry in case of version conflict
    *    - `strict` If true, an error will occur if a document was not updated
    *
+   * Documents given with an `ifVersion` property are only updated if their
+   * version is still this one, and are otherwise reported in the errors with
+   * a 409 status (or reject with a `VersionConflictError` in strict mode)
+   * Versions are checked by reading the documents first, not atomically.
+   *
    * @returns An object containing 2 arrays: "successes" and "errors"
    */
   mUpsert<TKDocumentContent extends KDocumentContentGeneric>(
@@ -543,16 +689,34 @@ export class DocumentController extends BaseController {
     documents: mUpsertRequest<TKDocumentContent>,
     options: ArgsDocumentControllerMUpsert = {}
   ): Promise<mUpdateResponse> {
-    const request = {
-      action: "mUpsert",
-      body: { documents },
-      collection,
+    return this._checkVersions(
+      "mUpsert",
       index,
-      silent: options.silent,
-      strict: options.strict,
-    };
-
-    return this.query(request, options).then((response) => response.result);
+      collection,
+      documents,
+      options,
+      conflictError,
+      true
+    ).then(({ conflicts, writable }) => {
+      if (writable.length === 0) {
+        return { errors: conflicts, successes: [] };
+      }
+
+      const request = {
+        action: "mUpsert",
+        body: { documents: writable },
+        collection,
+        index,
+        silent: options.silent,
+        strict: options.strict,
+      };
+
+      return this.query(request, options).then(({ result }) =>
+        conflicts.length === 0
+          ? result
+          : { ...result, errors: conflicts.concat(result.errors) }
+      );
+    });
   }
 
   /**
@@ -568,6 +732,7 @@ export class DocumentController extends BaseController {
    * @param options.refresh If set to `wait_for`, Kuzzle will not respond until the API key is indexed
    * @param options.silent If true, then Kuzzle will not generate notifications
    * @param options.timeout Request Timeout in ms, after the delay if not resolved the promise will be rejected
+   * @param options.ifVersion Only replaces the document if its version is still this one (checked by reading it first, not atomically)
    *
    * @returns The replaced document
    */
@@ -578,6 +743,7 @@ export class DocumentController extends BaseController {
     content: Partial<TKDocumentContent>,
     options: ArgsDocumentControllerReplace = {}
   ): Promise<KDocument<TKDocumentContent>> {
+    const { ifVersion, ...opts } = options;
     const request = {
       _id,
       action: "replace",
@@ -587,7 +753,9 @@ export class DocumentController extends BaseController {
       silent: options.silent,
     };
 
-    return this.query(request, options).then((response) => response.result);
+    return this._checkVersion(request, ifVersion, opts)
+      .then(() => this.query(request, opts))
+      .then((response) => response.result);
   }
 
   /**
@@ -604,6 +772,7 @@ export class DocumentController extends BaseController {
    *    - `size` Maximum number of documents to retrieve per page
    *    - `scroll` When set, gets a forward-only cursor having its ttl set to the given value (e.g. `30s`)
    *    - `verb` (HTTP only) Forces the verb of the route
+   *    - `pagination` Strategy used to fetch the next pages (`scroll`, `searchAfter` or `fromSize`)
    *    - `timeout` Request Timeout in ms, after the delay if not resolved the promise will be rejected
    *
    * @returns A SearchResult
@@ -645,8 +814,10 @@ export class DocumentController extends BaseController {
       request[opt] = options[opt];
     }
 
+    SearchResultBase.preparePagination(request, options);
+
     const opts = { verb: options.verb || "POST", ...options };
-    return this.query(request, opts).then((response) => ({
+    return this.query(request, omit(opts, ["pagination"])).then((response) => ({
       opts,
       request,
       response,
@@ -668,6 +839,7 @@ export class DocumentController extends BaseController {
    * @param options.retryOnConflict Number of times the database layer should retry in case of version conflict
    * @param options.source If true, returns the updated document inside the response
    * @param options.timeout Request Timeout in ms, after the delay if not resolved the promise will be rejected
+   * @param options.ifVersion Only updates the document if its version is still this one (checked by reading it first, not atomically)
    *
    * @returns The replaced document
    */
@@ -678,6 +850,7 @@ export class DocumentController extends BaseController {
     content: Partial<TKDocumentContent>,
     options: ArgsDocumentControllerUpdate = {}
   ): Promise<KDocument<TKDocumentContent>> {
+    const { ifVersion, ...opts } = options;
     const request = {
       _id,
       action: "update",
@@ -689,7 +862,9 @@ export class DocumentController extends BaseController {
       source: options.source,
     };
 
-    return this.query(request, options).then((response) => response.result);
+    return this._checkVersion(request, ifVersion, opts)
+      .then(() => this.query(request, opts))
+      .then((response) => response.result);
   }
 
   /**
@@ -790,6 +965,113 @@ export class DocumentController extends BaseController {
     return this.query(request, options).then((response) => response.result);
   }
 
+  /**
+   * Rejects with a VersionConflictError if a document is not at
+   * the expected version anymore.
+   *
+   * This is not an atomic compare-and-swap: versions are checked by reading
+   * documents before writing them, so a write made between the read and
+   * the write is not detected, and is overwritten.
+   */
+  private _checkVersion(
+    request: { _id: string; action: string; collection: string; index: string },
+    ifVersion: number,
+    options: ArgsDefault
+  ): Promise<void> {
+    if (ifVersion === undefined) {
+      return Promise.resolve();
+    }
+
+    return this.get(
+      request.index,
+      request.collection,
+      request._id,
+      readOptions(options)
+    ).then((document) => {
+      if (document._version !== ifVersion) {
+        throw new VersionConflictError(request, ifVersion, document._version);
+      }
+    });
+  }
+
+  /**
+   * Separates documents which are not at their expected version anymore
+   * from the ones which can be written.
+   *
+   * Missing documents are left to be rejected by Kuzzle, unless the action
+   * would create them: they are then in conflict with their expected version.
+   */
+  private _checkVersions<
+    TDocument extends { _id: string; ifVersion?: number },
+    TError
+  >(
+    action: string,
+    index: string,
+    collection: string,
+    documents: TDocument[],
+    options: ArgsDefault & { strict?: boolean },
+    toError: (
+      document: Omit<TDocument, "ifVersion">,
+      error: VersionConflictError
+    ) => TError,
+    createsMissing = false
+  ): Promise<{
+    conflicts: TError[];
+    writable: Array<Omit<TDocument, "ifVersion">>;
+  }> {
+    const checked = documents.filter(
+      ({ ifVersion }) => ifVersion !== undefined
+    );
+
+    if (checked.length === 0) {
+      return Promise.resolve({ conflicts: [], writable: documents });
+    }
+
+    return this.mGet(
+      index,
+      collection,
+      checked.map(({ _id }) => _id),
+      readOptions(options)
+    ).then(({ successes }) => {
+      const versions = new Map<string, number>();
+      const conflicts: TError[] = [];
+      const writable: Array<Omit<TDocument, "ifVersion">> = [];
+
+      for (const { _id, _version } of successes) {
+        versions.set(_id, _version);
+      }
+
+      for (const { ifVersion, ...document } of documents) {
+        const version = versions.has(document._id)
+          ? versions.get(document._id)
+          : null;
+
+        if (
+          ifVersion === undefined ||
+          version === ifVersion ||
+          (version === null && !createsMissing)
+        ) {
+          writable.push(document);
+          continue;
+        }
+
+        const error = new VersionConflictError(
+          { _id: document._id, action, collection, index },
+          ifVersion,
+          version
+        );
+
+        if (options.strict) {
+          throw error;
+        }
+
+        conflicts.push(toError(document, error));
+      }
+
+      return { conflicts, writable };
+    });
+  }
+
   /**
    * Validates a document against existing validation rules.
    *
@@ -837,6 +1119,7 @@ export interface ArgsDocumentControllerCreateOrReplace extends ArgsDefault {
 export interface ArgsDocumentControllerDelete extends ArgsDefault {
   refresh?: "wait_for" | "false";
   silent?: boolean;
+  ifVersion?: number;
 }
 
 export interface ArgsDocumentControllerDeleteByQuery extends ArgsDefault {
@@ -906,6 +1189,7 @@ export interface ArgsDocumentControllerMUpsert extends ArgsDefault {
 export interface ArgsDocumentControllerReplace extends ArgsDefault {
   refresh?: "wait_for" | "false";
   silent?: boolean;
+  ifVersion?: number;
 }
 
 export interface ArgsDocumentControllerSearch extends ArgsDefault {
@@ -914,6 +1198,7 @@ export interface ArgsDocumentControllerSearch extends ArgsDefault {
   scroll?: string;
   lang?: string;
   verb?: string;
+  pagination?: SearchPaginationStrategy;
 }
 
 export interface ArgsDocumentControllerUpdate extends ArgsDefault {
@@ -921,6 +1206,7 @@ export interface ArgsDocumentControllerUpdate extends ArgsDefault {
   silent?: boolean;
   retryOnConflict?: number;
   source?: boolean;
+  ifVersion?: number;
 }
 
 export interface ArgsDocumentControllerUpdateByQuery extends ArgsDefault {
@@ -0,0 +1,557 @@
+import { Kuzzle } from "../Kuzzle";
+import { KuzzleEventEmitter } from "./KuzzleEventEmitter";
+import { KoncordeFilter } from "./koncorde/KoncordeFilter";
+import {
+  DocumentNotification,
+  JSONObject,
+  KDocumentContentGeneric,
+} from "../types";
+import { isEqual } from "../utils/object";
+import {
+  compareSortValues,
+  SortOrder,
+  sortValues,
+  toSortOrder,
+} from "../utils/sort";
+
+export type LiveQueryOptions = {
+  /**
+   * Maximum number of documents in the result set
+   *
+   * @default 10
+   */
+  size?: number;
+
+  /**
+   * Query language of the search body: `elasticsearch` or `koncorde`
+   *
+   * @default "elasticsearch"
+   */
+  lang?: string;
+};
+
+/**
+ * Document of a live query result set
+ */
+export type LiveQueryDocument<
+  TKDocumentContent extends KDocumentContentGeneric
+> = {
+  _id: string;
+  _source: TKDocumentContent;
+};
+
+function untranslatable(clause: string): Error {
+  return new Error(
+    `LiveQuery: the "${clause}" query clause has no Koncorde equivalent, use Koncorde filters with the "lang: koncorde" option instead`
+  );
+}
+
+function fieldAndValue(clause: string, term: JSONObject): [string, any] {
+  if (!term || typeof term !== "object" || Object.keys(term).length !== 1) {
+    throw new Error(
+      `LiveQuery: "${clause}" must be an object with exactly one field`
+    );
+  }
+
+  const field = Object.keys(term)[0];
+
+  return [field, term[field]];
+}
+
+function clauseList(bool: JSONObject, name: string): JSONObject[] {
+  if (!Object.prototype.hasOwnProperty.call(bool, name)) {
+    return [];
+  }
+
+  return (Array.isArray(bool[name]) ? bool[name] : [bool[name]])
+    .map(toKoncordeFilters)
+    .filter((filters) => Object.keys(filters).length > 0);
+}
+
+/**
+ * Translates an Elasticsearch query to the Koncorde filters matching
+ * the same documents
+ *
+ * @throws if the query uses clauses without Koncorde equivalent (e.g. `match`)
+ */
+function toKoncordeFilters(query: JSONObject): JSONObject {
+  if (!query || Object.keys(query).length === 0) {
+    return {};
+  }
+
+  const [clause, term] = fieldAndValue("query", query);
+
+  switch (clause) {
+    case "match_all":
+      return {};
+    case "ids":
+      return { ids: { values: term.values } };
+    case "term": {
+      const [field, value] = fieldAndValue(clause, term);
+
+      return {
+        equals: {
+          [field]:
+            value !== null && typeof value === "object" ? value.value : value,
+        },
+      };
+    }
+    case "terms": {
+      const [field, values] = fieldAndValue(clause, term);
+
+      // Koncorde "in" only accepts strings
+      return values.every((value) => typeof value === "string")
+        ? { in: { [field]: values } }
+        : { or: values.map((value) => ({ equals: { [field]: value } })) };
+    }
+    case "range": {
+      const [field, bounds] = fieldAndValue(clause, term);
+
+      for (const bound of Object.keys(bounds)) {
+        if (
+          !["gt", "gte", "lt", "lte"].includes(bound) ||
+          typeof bounds[bound] !== "number"
+        ) {
+          throw untranslatable(`range.${bound}`);
+        }
+      }
+
+      return { range: { [field]: bounds } };
+    }
+    case "exists":
+      return { exists: term.field };
+    case "prefix": {
+      const [field, value] = fieldAndValue(clause, term);
+      const prefix =
+        value !== null && typeof value === "object" ? value.value : value;
+
+      return {
+        regexp: {
+          [field]: {
+            value: `^${String(prefix).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`,
+          },
+        },
+      };
+    }
+    case "bool": {
+      const must = [...clauseList(term, "must"), ...clauseList(term, "filter")];
+      const mustNot = clauseList(term, "must_not");
+      const should = clauseList(term, "should");
+      const minimumShouldMatch =
+        term.minimum_should_match === undefined
+          ? undefined
+          : Number(term.minimum_should_match);
+      const bool: JSONObject = {};
+
+      if (minimumShouldMatch > 1) {
+        throw untranslatable("bool.minimum_should_match");
+      }
+
+      if (must.length > 0) {
+        bool.must = must;
+      }
+
+      if (mustNot.length > 0) {
+        bool.must_not = mustNot;
+      }
+
+      // As with Elasticsearch, "should" clauses are optional next to
+      // "must" clauses unless "minimum_should_match" says otherwise
+      if (
+        should.length > 0 &&
+        (must.length === 0 || minimumShouldMatch === 1)
+      ) {
+        bool.should = should;
+      }
+
+      return Object.keys(bool).length > 0 ? { bool } : {};
+    }
+    default:
+      throw untranslatable(clause);
+  }
+}
+
+/**
+ * Returns the positions, in a list of indexes, of its longest increasing
+ * subsequence: documents at those positions kept their relative order
+ */
+function longestIncreasingSubsequence(indexes: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = [];
+
+  for (let i = 0; i < indexes.length; i++) {
+    let low = 0;
+    let high = tails.length;
+
+    while (low < high) {
+      const middle = (low + high) >> 1;
+
+      if (indexes[tails[middle]] < indexes[i]) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  }
+
+  const result = new Set<number>();
+
+  for (
+    let i = tails.length > 0 ? tails[tails.length - 1] : -1;
+    i !== -1;
+    i = previous[i]
+  ) {
+    result.add(i);
+  }
+
+  return result;
+}
+
+/**
+ * Search result set maintained in realtime: documents are added, removed
+ * and moved as they start or stop matching the query, honoring its sort
+ * and the size of the result set.
+ *
+ * The following events are emitted when the result set changes:
+ *   - `added` `{ document, index }`: a document entered the result set at `index`
+ *   - `removed` `{ document, index }`: a document left the result set, from `index`
+ *   - `changed` `{ document, previous }`: the content of a document changed
+ *   - `moved` `{ document, from, to }`: a document moved in the result set
+ *   - `error` `error`: the result set could not be refreshed
+ *
+ * Removal indexes refer to the result set before the change, other
+ * indexes to the result set after the change.
+ *
+ * ```js
+ * const liveQuery = new LiveQuery(sdk, 'nyc-open-data', 'yellow-taxi', {
+ *   query: { term: { status: 'available' } },
+ *   sort: [{ rating: 'desc' }],
+ * }, { size: 20 });
+ *
+ * liveQuery.on('added', ({ document, index }) => render(document, index));
+ *
+ * await liveQuery.start();
+ * ```
+ *
+ * Live queries hold a realtime subscription, which must be released
+ * with the stop() method.
+ */
+export class LiveQuery<
+  TKDocumentContent extends KDocumentContentGeneric = KDocumentContentGeneric
+> extends KuzzleEventEmitter {
+  /**
+   * Index name
+   */
+  public readonly index: string;
+
+  /**
+   * Collection name
+   */
+  public readonly collection: string;
+
+  /**
+   * Koncorde filters of the realtime subscription
+   */
+  public readonly filters: JSONObject;
+
+  private _sdk: Kuzzle;
+  private _searchBody: JSONObject;
+  private _lang: string;
+  private _size: number;
+  private _order: SortOrder;
+  private _documents: LiveQueryDocument<TKDocumentContent>[] = [];
+  private _complete = true;
+  private _roomId: string = null;
+  private _buffer: DocumentNotification[] = null;
+  private _refreshing: Promise<void> = null;
+  private _nextRefresh: Promise<void> = null;
+
+  /**
+   * @param sdk SDK instance
+   * @param index Index name
+   * @param collection Collection name
+   * @param searchBody Search query and sort
+   * @param options
+   *    - `size` Maximum number of documents in the result set (default: `10`)
+   *    - `lang` Query language of the search body (default: `elasticsearch`)
+   *
+   * @throws if the query cannot be translated to valid Koncorde filters
+   */
+  constructor(
+    sdk: Kuzzle,
+    index: string,
+    collection: string,
+    searchBody: JSONObject = {},
+    options: LiveQueryOptions = {}
+  ) {
+    super();
+
+    Reflect.defineProperty(this, "_sdk", {
+      value: sdk,
+    });
+
+    this.index = index;
+    this.collection = collection;
+    this._searchBody = searchBody;
+    this._lang = options.lang;
+    this._size = options.size === undefined ? 10 : options.size;
+    this._order = toSortOrder(searchBody.sort);
+
+    this.filters =
+      options.lang === "koncorde"
+        ? searchBody.query || {}
+        : toKoncordeFilters(searchBody.query);
+
+    const { valid, reason } = KoncordeFilter.validate(this.filters);
+
+    if (!valid) {
+      throw new Error(`LiveQuery: invalid Koncorde filters: ${reason}`);
+    }
+  }
+
+  /**
+   * Documents of the result set, in order
+   */
+  get documents(): LiveQueryDocument<TKDocumentContent>[] {
+    return this._documents.slice();
+  }
+
+  /**
+   * True once started, until stopped
+   */
+  get running(): boolean {
+    return this._roomId !== null;
+  }
+
+  /**
+   * Subscribes to changes, then runs the search
+   */
+  async start(): Promise<this> {
+    if (this.running) {
+      return this;
+    }
+
+    this._buffer = [];
+    this._roomId = await this._sdk.realtime.subscribe(
+      this.index,
+      this.collection,
+      this.filters,
+      (notification: DocumentNotification) => this._onNotification(notification)
+    );
+
+    try {
+      await this.refresh();
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    return this;
+  }
+
+  /**
+   * Releases the realtime subscription. The result set is kept as is.
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    const roomId = this._roomId;
+
+    this._roomId = null;
+    this._buffer = null;
+
+    await this._sdk.realtime.unsubscribe(roomId);
+  }
+
+  /**
+   * Runs the search again and updates the result set.
+   *
+   * The result set is refreshed automatically when a document leaves it
+   * while other documents matching the query are not in it.
+   */
+  refresh(): Promise<void> {
+    if (!this._refreshing) {
+      this._refreshing = this._fetch().finally(() => {
+        this._refreshing = null;
+      });
+
+      return this._refreshing;
+    }
+
+    // Changes may have happened after the running search started
+    if (!this._nextRefresh) {
+      this._nextRefresh = this._refreshing
+        .catch(() => undefined)
+        .then(() => {
+          this._nextRefresh = null;
+          return this.refresh();
+        });
+    }
+
+    return this._nextRefresh;
+  }
+
+  private async _fetch(): Promise<void> {
+    if (this._buffer === null) {
+      this._buffer = [];
+    }
+
+    let result;
+
+    try {
+      result = await this._sdk.document.search<TKDocumentContent>(
+        this.index,
+        this.collection,
+        this._searchBody,
+        { lang: this._lang, size: this._size }
+      );
+    } catch (error) {
+      this._flush();
+      throw error;
+    }
+
+    this._complete = result.total <= result.hits.length;
+    this._update(result.hits.map(({ _id, _source }) => ({ _id, _source })));
+    this._flush();
+  }
+
+  /**
+   * Applies the changes which happened during a search
+   */
+  private _flush() {
+    const buffer = this._buffer || [];
+
+    this._buffer = null;
+
+    for (const notification of buffer) {
+      this._apply(notification);
+    }
+  }
+
+  private _onNotification(notification: DocumentNotification) {
+    // Stopped
+    if (this._roomId === null && this._buffer === null) {
+      return;
+    }
+
+    if (notification.type !== "document" || notification.event === "publish") {
+      return;
+    }
+
+    if (this._buffer !== null) {
+      this._buffer.push(notification);
+      return;
+    }
+
+    this._apply(notification);
+  }
+
+  private _apply(notification: DocumentNotification) {
+    const { _id, _source } = notification.result;
+    const current = this._documents.find((document) => document._id === _id);
+    const next = this._documents.filter((document) => document._id !== _id);
+
+    if (notification.event === "delete" || notification.scope === "out") {
+      if (current) {
+        this._update(next);
+        this._refillIfNeeded();
+      }
+
+      return;
+    }
+
+    const document = {
+      _id,
+      _source: current
+        ? ({ ...current._source, ..._source } as TKDocumentContent)
+        : (_source as TKDocumentContent),
+    };
+    const values = sortValues({ ...document._source, _id }, this._order);
+    let position = next.findIndex(
+      (other) =>
+        compareSortValues(
+          values,
+          sortValues({ ...other._source, _id: other._id }, this._order),
+          this._order
+        ) < 0
+    );
+
+    if (position === -1) {
+      position = next.length;
+    }
+
+    // Documents not in the result set may come before this one
+    if (position === next.length && !this._complete) {
+      if (current) {
+        this._update(next);
+        this._refillIfNeeded();
+      }
+
+      return;
+    }
+
+    next.splice(position, 0, document);
+
+    if (next.length > this._size) {
+      next.pop();
+      this._complete = false;
+    }
+
+    this._update(next);
+  }
+
+  private _refillIfNeeded() {
+    if (!this._complete && this._documents.length < this._size) {
+      this.refresh().catch((error) => this.emit("error", error));
+    }
+  }
+
+  /**
+   * Replaces the result set, emitting the differences
+   */
+  private _update(next: LiveQueryDocument<TKDocumentContent>[]) {
+    const previous = this._documents;
+    const previousIndexes = new Map(
+      previous.map((document, index) => [document._id, index])
+    );
+    const nextIds = new Set(next.map(({ _id }) => _id));
+
+    this._documents = next;
+
+    previous.forEach((document, index) => {
+      if (!nextIds.has(document._id)) {
+        this.emit("removed", { document, index });
+      }
+    });
+
+    const kept = next
+      .map((document, index) => ({ document, index }))
+      .filter(({ document }) => previousIndexes.has(document._id));
+    const inOrder = longestIncreasingSubsequence(
+      kept.map(({ document }) => previousIndexes.get(document._id))
+    );
+
+    next.forEach((document, index) => {
+      if (!previousIndexes.has(document._id)) {
+        this.emit("added", { document, index });
+      }
+    });
+
+    kept.forEach(({ document, index }, i) => {
+      const from = previousIndexes.get(document._id);
+
+      if (!isEqual(previous[from]._source, document._source)) {
+        this.emit("changed", { document, previous: previous[from] });
+      }
+
+      if (!inOrder.has(i)) {
+        this.emit("moved", { document, from, to: index });
+      }
+    });
+  }
+}
@@ -179,7 +179,10 @@ export class Observer {
 
     this.options = { ...this.options, ...options };
 
-    this.mode = this.sdk.protocol.name === "http" ? "pulling" : "realtime";
+    this.mode =
+      this.sdk.protocol.name === "http" && !this.sdk.protocol.realtimeStreaming
+        ? "pulling"
+        : "realtime";
   }
 
   /**
@@ -0,0 +1,308 @@
+import { DocumentNotification, JSONObject } from "../types";
+import { RequestPayload } from "../types/RequestPayload";
+import { requestKey } from "../utils/requestKey";
+import { DEFAULT_RETRY_ACTIONS } from "./RetryPolicy";
+
+export interface QueryCacheOptions {
+  /**
+   * Time to live of cached responses, in milliseconds, per `controller:action`.
+   * With `0`, only concurrent identical requests are coalesced.
+   * Set an action to `false` to disable its cache.
+   * Default: `DEFAULT_CACHE_TTLS`
+   */
+  ttls?: { [action: string]: number | false };
+
+  /**
+   * Maximum number of cached responses, the oldest ones being evicted first
+   * Default: `1000`
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Read actions cached by default, with the time to live of their responses
+ */
+export const DEFAULT_CACHE_TTLS: { [action: string]: number } = {
+  "collection:exists": 5000,
+  "collection:getMapping": 5000,
+  "collection:getSpecifications": 5000,
+  "collection:list": 5000,
+  "document:exists": 1000,
+  "document:get": 1000,
+  "document:mGet": 1000,
+  "index:exists": 5000,
+  "index:list": 5000,
+  "server:getConfig": 60000,
+  "server:info": 60000,
+};
+
+/**
+ * Controllers whose write actions invalidate cached responses
+ */
+const STORAGE_CONTROLLERS = ["bulk", "collection", "document", "index"];
+
+interface CacheEntry {
+  controller: string;
+  index: string;
+  collection: string;
+
+  /**
+   * IDs of the documents the response depends on, null if unknown
+   */
+  ids: string[];
+
+  /**
+   * Null until the response is received
+   */
+  expiresAt: number;
+
+  promise: Promise<any>;
+}
+
+/**
+ * IDs of the documents targeted by a request, null if they are unknown
+ */
+function documentIds(request: RequestPayload): string[] {
+  if (request._id !== undefined) {
+    return [request._id];
+  }
+
+  const body = request.body || {};
+
+  if (Array.isArray(body.ids)) {
+    return body.ids;
+  }
+
+  if (Array.isArray(body.documents)) {
+    return body.documents.map(({ _id }) => _id);
+  }
+
+  // Documents created with a generated ID are not cached yet
+  return request.action === "create" ? [] : null;
+}
+
+function clone<T>(response: T): T {
+  return JSON.parse(JSON.stringify(response));
+}
+
+/**
+ * Cache coalescing concurrent identical read requests into one network call
+ * and keeping their responses for a short time.
+ *
+ * Cached responses are invalidated by the write actions sent by the SDK
+ * and by the document notifications it receives.
+ */
+export class QueryCache {
+  private _ttls: { [action: string]: number | false };
+  private _maxEntries: number;
+  private _entries: Map<string, CacheEntry>;
+
+  constructor(options: QueryCacheOptions = {}) {
+    this._ttls = { ...DEFAULT_CACHE_TTLS, ...(options.ttls || {}) };
+    this._maxEntries =
+      typeof options.maxEntries === "number" ? options.maxEntries : 1000;
+    this._entries = new Map();
+
+    for (const [action, ttl] of Object.entries(this._ttls)) {
+      if (ttl !== false && (typeof ttl !== "number" || ttl < 0)) {
+        throw new Error(
+          `Invalid cache TTL for "${action}": expected a positive number or false`
+        );
+      }
+    }
+  }
+
+  /**
+   * Number of cached or pending responses
+   */
+  get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Sends a request, or returns the response of an identical one.
+   *
+   * Requests sent with `cache: false` are neither coalesced nor cached.
+   * Requests sent with an abort signal are not coalesced with pending ones,
+   * since aborting them would abort the other callers' request too.
+   *
+   * @param request Request payload
+   * @param options Request options
+   * @param send Function sending the request
+   */
+  execute<T>(
+    request: RequestPayload,
+    options: JSONObject,
+    send: () => Promise<T>
+  ): Promise<T> {
+    const ttl = this._ttls[`${request.controller}:${request.action}`];
+
+    if (typeof ttl !== "number" || options.cache === false) {
+      return this._isWrite(request) ? this._write(request, send) : send();
+    }
+
+    const key = requestKey(request, { ignoreKeys: [] });
+    const cached = this._entries.get(key);
+
+    if (cached) {
+      if (cached.expiresAt === null && !options.signal) {
+        return cached.promise.then(clone);
+      }
+
+      if (cached.expiresAt !== null && cached.expiresAt > Date.now()) {
+        return cached.promise.then(clone);
+      }
+    }
+
+    const promise = send();
+
+    if (options.signal) {
+      return promise;
+    }
+
+    const entry: CacheEntry = {
+      collection: request.collection,
+      controller: request.controller,
+      expiresAt: null,
+      ids: request.controller === "document" ? documentIds(request) : null,
+      index: request.index,
+      promise,
+    };
+
+    this._set(key, entry);
+
+    promise.then(
+      () => {
+        if (this._entries.get(key) !== entry) {
+          return;
+        }
+
+        if (ttl > 0) {
+          entry.expiresAt = Date.now() + ttl;
+        } else {
+          this._entries.delete(key);
+        }
+      },
+      () => {
+        if (this._entries.get(key) === entry) {
+          this._entries.delete(key);
+        }
+      }
+    );
+
+    return promise.then(clone);
+  }
+
+  /**
+   * Removes the cached responses which may be outdated by a request
+   */
+  invalidateRequest(request: RequestPayload) {
+    switch (request.controller) {
+      case "index":
+        this.clear();
+        break;
+      case "collection":
+        this._invalidate(
+          (entry) =>
+            entry.index === request.index &&
+            (!entry.collection ||
+              !request.collection ||
+              entry.collection === request.collection)
+        );
+        break;
+      case "bulk":
+      case "document":
+        this._invalidateDocuments(
+          request.index,
+          request.collection,
+          request.controller === "document" ? documentIds(request) : null
+        );
+        break;
+    }
+  }
+
+  /**
+   * Removes the cached responses which may be outdated by a document change
+   */
+  invalidateNotification(notification: DocumentNotification) {
+    if (notification.type !== "document") {
+      return;
+    }
+
+    this._invalidateDocuments(
+      notification.index,
+      notification.collection,
+      notification.result && notification.result._id
+        ? [notification.result._id]
+        : null
+    );
+  }
+
+  /**
+   * Removes every cached response
+   */
+  clear() {
+    this._entries.clear();
+  }
+
+  private _isWrite(request: RequestPayload): boolean {
+    return (
+      STORAGE_CONTROLLERS.includes(request.controller) &&
+      !DEFAULT_RETRY_ACTIONS.includes(`${request.controller}:${request.action}`)
+    );
+  }
+
+  /**
+   * Sends a write request, invalidating the responses read before and
+   * during its execution
+   */
+  private _write<T>(request: RequestPayload, send: () => Promise<T>) {
+    const promise = send();
+
+    this.invalidateRequest(request);
+
+    return promise.then(
+      (response) => {
+        this.invalidateRequest(request);
+        return response;
+      },
+      (error) => {
+        this.invalidateRequest(request);
+        throw error;
+      }
+    );
+  }
+
+  private _invalidateDocuments(
+    index: string,
+    collection: string,
+    ids: string[]
+  ) {
+    this._invalidate(
+      (entry) =>
+        entry.controller === "document" &&
+        entry.index === index &&
+        entry.collection === collection &&
+        (ids === null ||
+          entry.ids === null ||
+          entry.ids.some((id) => ids.includes(id)))
+    );
+  }
+
+  private _invalidate(predicate: (entry: CacheEntry) => boolean) {
+    for (const [key, entry] of this._entries) {
+      if (predicate(entry)) {
+        this._entries.delete(key);
+      }
+    }
+  }
+
+  private _set(key: string, entry: CacheEntry) {
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+
+    while (this._entries.size > this._maxEntries) {
+      this._entries.delete(this._entries.keys().next().value);
+    }
+  }
+}
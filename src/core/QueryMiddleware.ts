@@ -0,0 +1,188 @@
+import { JSONObject } from "../types";
+import { RequestPayload } from "../types/RequestPayload";
+import { ResponsePayload } from "../types/ResponsePayload";
+
+/**
+ * Hooks executed around each request sent with `Kuzzle.query`.
+ *
+ * Every hook can be asynchronous.
+ */
+export interface QueryMiddleware {
+  /**
+   * Middleware name, used in error messages
+   */
+  name?: string;
+
+  /**
+   * Called before the request is queued or sent.
+   *
+   * The request can be modified in place (e.g. to add volatile data),
+   * as well as the options (e.g. `timeout` or `queuable`).
+   */
+  beforeSend?: (
+    request: RequestPayload,
+    options: JSONObject
+  ) => void | Promise<void>;
+
+  /**
+   * Called when a response has been received.
+   *
+   * Returning a value replaces the response.
+   */
+  afterResponse?: (
+    response: ResponsePayload<any>,
+    request: RequestPayload,
+    options: JSONObject
+  ) => void | ResponsePayload<any> | Promise<void | ResponsePayload<any>>;
+
+  /**
+   * Called when the request has been rejected.
+   *
+   * Returning a value recovers from the error and resolves the request with it,
+   * throwing an error replaces the original one.
+   */
+  onError?: (
+    error: Error,
+    request: RequestPayload,
+    options: JSONObject
+  ) => void | ResponsePayload<any> | Promise<void | ResponsePayload<any>>;
+}
+
+/**
+ * Ordered list of query middlewares.
+ *
+ * `beforeSend` hooks are executed in registration order, `afterResponse`
+ * and `onError` hooks in reverse registration order, so the first registered
+ * middleware is the outermost one.
+ */
+export class QueryMiddlewareChain {
+  private _middlewares: QueryMiddleware[] = [];
+
+  /**
+   * Registered middlewares, in execution order
+   */
+  get middlewares(): QueryMiddleware[] {
+    return this._middlewares.slice();
+  }
+
+  get size(): number {
+    return this._middlewares.length;
+  }
+
+  add(middleware: QueryMiddleware) {
+    if (
+      middleware === null ||
+      typeof middleware !== "object" ||
+      Array.isArray(middleware)
+    ) {
+      throw new Error("Invalid middleware: expected an object");
+    }
+
+    for (const hook of ["beforeSend", "afterResponse", "onError"]) {
+      if (
+        middleware[hook] !== undefined &&
+        typeof middleware[hook] !== "function"
+      ) {
+        throw new Error(
+          `Invalid middleware${
+            middleware.name ? ` "${middleware.name}"` : ""
+          }: "${hook}" must be a function`
+        );
+      }
+    }
+
+    this._middlewares.push(middleware);
+  }
+
+  remove(middleware: QueryMiddleware): boolean {
+    const index = this._middlewares.indexOf(middleware);
+
+    if (index === -1) {
+      return false;
+    }
+
+    this._middlewares.splice(index, 1);
+
+    return true;
+  }
+
+  /**
+   * Executes the middlewares around the provided send function
+   *
+   * @param request Request payload
+   * @param options Request options
+   * @param send Function actually sending the request
+   */
+  async run(
+    request: RequestPayload,
+    options: JSONObject,
+    send: () => Promise<ResponsePayload<any>>
+  ): Promise<ResponsePayload<any>> {
+    // Take a snapshot so (un)registering a middleware during a request
+    // does not change the hooks executed for this request
+    const middlewares = this.middlewares;
+
+    for (const middleware of middlewares) {
+      if (middleware.beforeSend) {
+        await middleware.beforeSend(request, options);
+      }
+    }
+
+    let response: ResponsePayload<any>;
+
+    try {
+      response = await send();
+    } catch (error) {
+      // A response recovered by an "onError" hook also goes through
+      // the "afterResponse" hooks
+      response = await this._handleError(middlewares, error, request, options);
+    }
+
+    for (const middleware of middlewares.reverse()) {
+      if (middleware.afterResponse) {
+        const result = await middleware.afterResponse(
+          response,
+          request,
+          options
+        );
+
+        if (result !== undefined) {
+          response = result as ResponsePayload<any>;
+        }
+      }
+    }
+
+    return response;
+  }
+
+  private async _handleError(
+    middlewares: QueryMiddleware[],
+    error: Error,
+    request: RequestPayload,
+    options: JSONObject
+  ): Promise<ResponsePayload<any>> {
+    let currentError = error;
+
+    for (let i = middlewares.length - 1; i >= 0; i--) {
+      if (!middlewares[i].onError) {
+        continue;
+      }
+
+      try {
+        const result = await middlewares[i].onError(
+          currentError,
+          request,
+          options
+        );
+
+        if (result !== undefined) {
+          return result as ResponsePayload<any>;
+        }
+      } catch (err) {
+        currentError = err;
+      }
+    }
+
+    throw currentError;
+  }
+}
@@ -0,0 +1,214 @@
+import { RequestAbortedError } from "../RequestAbortedError";
+import { RequestPayload } from "../types/RequestPayload";
+import { Profile } from "./security/Profile";
+
+export interface RateLimiterOptions {
+  /**
+   * Maximum number of requests per second, `0` for no limit.
+   * With `auto`, the limit is the one of the current user profiles.
+   * Default: `0`
+   */
+  limit?: number | "auto";
+
+  /**
+   * Maximum number of requests sent at once after an idle period
+   * Default: the limit
+   */
+  burst?: number;
+}
+
+interface WaitingRequest {
+  run: () => void;
+  signal: AbortSignal;
+  onAbort: () => void;
+}
+
+function checkLimit(name: string, value: any) {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(
+      `Invalid rate limiter option "${name}": expected a positive number, got ${JSON.stringify(
+        value
+      )}`
+    );
+  }
+}
+
+/**
+ * Token bucket limiting the number of requests sent per second.
+ *
+ * Requests exceeding the limit wait for their turn, in order, instead of
+ * being rejected by Kuzzle.
+ */
+export class RateLimiter {
+  private _auto: boolean;
+  private _limit: number;
+  private _burst: number;
+  private _burstOption: number;
+  private _tokens: number;
+  private _refilledAt: number;
+  private _waiting: WaitingRequest[];
+  private _timer: ReturnType<typeof setTimeout>;
+
+  /**
+   * Most permissive rate limit of a list of profiles, as applied by Kuzzle.
+   * A profile without rate limit (`0`) lifts the limit.
+   */
+  static profilesLimit(profiles: Profile[]): number {
+    if (
+      profiles.length === 0 ||
+      profiles.some((profile) => !profile.rateLimit)
+    ) {
+      return 0;
+    }
+
+    return Math.max(...profiles.map((profile) => profile.rateLimit));
+  }
+
+  /**
+   * @param options Limit in requests per second, `auto`, or limiter options
+   */
+  constructor(options: RateLimiterOptions | number | "auto" = {}) {
+    const { limit = 0, burst }: RateLimiterOptions =
+      typeof options === "object" ? options : { limit: options };
+
+    if (burst !== undefined) {
+      checkLimit("burst", burst);
+    }
+
+    this._auto = limit === "auto";
+    this._burstOption = burst;
+    this._waiting = [];
+    this._timer = null;
+
+    this.limit = limit === "auto" ? 0 : limit;
+  }
+
+  /**
+   * `true` if the limit is derived from the current user profiles
+   */
+  get auto(): boolean {
+    return this._auto;
+  }
+
+  /**
+   * Maximum number of requests per second, `0` for no limit
+   */
+  get limit(): number {
+    return this._limit;
+  }
+
+  set limit(value: number) {
+    checkLimit("limit", value);
+
+    if (this._limit > 0) {
+      this._refill();
+    } else {
+      // Start with a full bucket when there was no limit
+      this._tokens = Infinity;
+      this._refilledAt = Date.now();
+    }
+
+    this._limit = value;
+    this._burst = Math.max(1, this._burstOption || value);
+    this._tokens = Math.min(this._tokens, this._burst);
+    this._drain();
+  }
+
+  /**
+   * Number of requests waiting for their turn
+   */
+  get pending(): number {
+    return this._waiting.length;
+  }
+
+  /**
+   * Sends a request as soon as the limit allows it.
+   * The request is sent synchronously if the limit is not reached.
+   *
+   * @param request Request payload
+   * @param send Function sending the request
+   * @param signal Abort signal removing the request from the waiting list
+   */
+  schedule<T>(
+    request: RequestPayload,
+    send: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (this._waiting.length === 0 && this._take()) {
+      return send();
+    }
+
+    if (signal && signal.aborted) {
+      return Promise.reject(new RequestAbortedError(request, signal.reason));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const waiting: WaitingRequest = {
+        onAbort: () => {
+          this._waiting.splice(this._waiting.indexOf(waiting), 1);
+          reject(new RequestAbortedError(request, signal.reason));
+        },
+        run: () => send().then(resolve, reject),
+        signal,
+      };
+
+      if (signal) {
+        signal.addEventListener("abort", waiting.onAbort, { once: true });
+      }
+
+      this._waiting.push(waiting);
+      this._drain();
+    });
+  }
+
+  private _refill() {
+    const now = Date.now();
+
+    this._tokens = Math.min(
+      this._burst,
+      this._tokens + ((now - this._refilledAt) * this._limit) / 1000
+    );
+    this._refilledAt = now;
+  }
+
+  private _take(): boolean {
+    if (this._limit === 0) {
+      return true;
+    }
+
+    this._refill();
+
+    if (this._tokens < 1) {
+      return false;
+    }
+
+    this._tokens -= 1;
+
+    return true;
+  }
+
+  /**
+   * Sends the waiting requests allowed by the limit, and schedules the next ones
+   */
+  private _drain() {
+    clearTimeout(this._timer);
+    this._timer = null;
+
+    while (this._waiting.length > 0 && this._take()) {
+      const waiting = this._waiting.shift();
+
+      if (waiting.signal) {
+        waiting.signal.removeEventListener("abort", waiting.onAbort);
+      }
+
+      waiting.run();
+    }
+
+    if (this._waiting.length > 0) {
+      this._timer = setTimeout(
+        () => this._drain(),
+        Math.ceil(((1 - this._tokens) * 1000) / this._limit)
+      );
+    }
+  }
+}
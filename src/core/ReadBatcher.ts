@@ -0,0 +1,213 @@
+import { Kuzzle } from "../Kuzzle";
+import { KuzzleError } from "../KuzzleError";
+import { debug } from "../utils/debug";
+import { InstrumentablePromise } from "./InstrumentablePromise";
+
+export interface ReadBatcherOptions {
+  /**
+   * Maximum number of documents fetched by a single mGet request.
+   * Default: the `limits.documentsReadCount` (or `limits.documentsFetchCount`)
+   * server configuration, fetched with `server:getConfig`
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * Maximum batch size used when the server configuration cannot be fetched
+ */
+const FALLBACK_BATCH_SIZE = 200;
+
+type PendingRead = {
+  action: "get" | "exists";
+  _id: string;
+  promise: InstrumentablePromise;
+};
+
+/**
+ * Coalesces the `document:get` and `document:exists` requests made during
+ * the same tick of the event loop into `document:mGet` requests, one per
+ * collection, split according to the server limits.
+ *
+ * Batched reads resolve like the single-document actions, except that
+ * a missing document is reported with a `services.storage.not_found` error
+ * built by the SDK.
+ */
+export class ReadBatcher {
+  private _sdk: Kuzzle;
+  private _maxBatchSize: Promise<number>;
+  private _pending: Map<string, PendingRead[]>;
+  private _timer: ReturnType<typeof setTimeout>;
+
+  constructor(sdk: Kuzzle, options: ReadBatcherOptions = {}) {
+    Reflect.defineProperty(this, "_sdk", { value: sdk });
+
+    if (options.maxBatchSize !== undefined) {
+      if (
+        typeof options.maxBatchSize !== "number" ||
+        options.maxBatchSize < 1
+      ) {
+        throw new Error(
+          `Invalid read batching option "maxBatchSize": expected a positive number, got ${JSON.stringify(
+            options.maxBatchSize
+          )}`
+        );
+      }
+
+      this._maxBatchSize = Promise.resolve(options.maxBatchSize);
+    } else {
+      this._maxBatchSize = null;
+    }
+
+    this._pending = new Map();
+    this._timer = null;
+  }
+
+  /**
+   * Number of reads waiting to be sent
+   */
+  get pending(): number {
+    let count = 0;
+
+    for (const reads of this._pending.values()) {
+      count += reads.length;
+    }
+
+    return count;
+  }
+
+  /**
+   * Gets a document with the next batch
+   */
+  get(index: string, collection: string, _id: string): Promise<any> {
+    return this._add(index, collection, "get", _id);
+  }
+
+  /**
+   * Checks if a document exists with the next batch
+   */
+  exists(index: string, collection: string, _id: string): Promise<boolean> {
+    return this._add(index, collection, "exists", _id);
+  }
+
+  /**
+   * Sends the pending reads without waiting for the next tick
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this._timer);
+    this._timer = null;
+
+    const pending = this._pending;
+    this._pending = new Map();
+
+    const maxBatchSize = await this._getMaxBatchSize();
+    const batches = [];
+
+    for (const [key, reads] of pending) {
+      const [index, collection] = JSON.parse(key);
+
+      for (let i = 0; i < reads.length; i += maxBatchSize) {
+        batches.push(
+          this._send(index, collection, reads.slice(i, i + maxBatchSize))
+        );
+      }
+    }
+
+    await Promise.all(batches);
+  }
+
+  private _add(
+    index: string,
+    collection: string,
+    action: "get" | "exists",
+    _id: string
+  ): Promise<any> {
+    const key = JSON.stringify([index, collection]);
+    const read = { _id, action, promise: new InstrumentablePromise() };
+
+    if (!this._pending.has(key)) {
+      this._pending.set(key, []);
+    }
+
+    this._pending.get(key).push(read);
+
+    if (this._timer === null) {
+      this._timer = setTimeout(() => this.flush(), 0);
+    }
+
+    return read.promise.promise;
+  }
+
+  /**
+   * Fetches the maximum number of documents per request from the server
+   * configuration, once
+   */
+  private _getMaxBatchSize(): Promise<number> {
+    if (this._maxBatchSize === null) {
+      this._maxBatchSize = this._sdk.server
+        .getConfig({})
+        .then((config) => {
+          // "documentsFetchCount" is the name of the limit in Kuzzle 2
+          const limits = (config && config.limits) || {};
+          const limit = limits.documentsReadCount || limits.documentsFetchCount;
+
+          return typeof limit === "number" && limit > 0
+            ? limit
+            : FALLBACK_BATCH_SIZE;
+        })
+        .catch((error) => {
+          debug("READ BATCHER CONFIG ERROR", error);
+          return FALLBACK_BATCH_SIZE;
+        });
+    }
+
+    return this._maxBatchSize;
+  }
+
+  private async _send(index: string, collection: string, reads: PendingRead[]) {
+    // A single read is sent as is, to get the exact API response
+    if (reads.length === 1) {
+      const [{ _id, action, promise }] = reads;
+
+      return this._sdk
+        .query({ _id, action, collection, controller: "document", index })
+        .then((response) => promise.resolve(response.result))
+        .catch((error) => promise.reject(error));
+    }
+
+    const ids = [...new Set(reads.map(({ _id }) => _id))];
+
+    try {
+      const { successes } = await this._sdk.document.mGet(
+        index,
+        collection,
+        ids
+      );
+      const documents = new Map(
+        successes.map((document) => [document._id, document])
+      );
+
+      for (const { _id, action, promise } of reads) {
+        if (action === "exists") {
+          promise.resolve(documents.has(_id));
+        } else if (documents.has(_id)) {
+          promise.resolve(documents.get(_id));
+        } else {
+          promise.reject(
+            new KuzzleError(
+              {
+                id: "services.storage.not_found",
+                message: `Document "${_id}" not found in "${index}":"${collection}".`,
+                status: 404,
+              },
+              new Error().stack
+            )
+          );
+        }
+      }
+    } catch (error) {
+      for (const { promise } of reads) {
+        promise.reject(error);
+      }
+    }
+  }
+}
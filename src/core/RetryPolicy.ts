@@ -0,0 +1,333 @@
+import { NetworkError } from "../NetworkError";
+import { RequestAbortedError } from "../RequestAbortedError";
+import { RequestTimeoutError } from "../RequestTimeoutError";
+import { RequestPayload } from "../types/RequestPayload";
+import { uuidv4 } from "../utils/uuidv4";
+
+/**
+ * Retry settings, either global or specific to an error status
+ */
+export interface RetryRule {
+  /**
+   * Maximum number of attempts, including the first one
+   * Default: `3`
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds.
+   * The delay doubles after each attempt.
+   * Default: `100`
+   */
+  baseDelay?: number;
+
+  /**
+   * Maximum delay between two attempts, in milliseconds
+   * Default: `5000`
+   */
+  maxDelay?: number;
+}
+
+export interface RetryOptions extends RetryRule {
+  /**
+   * Randomize delays between `0` and the computed backoff ("full jitter")
+   * to avoid many clients retrying at the same time.
+   * Default: `true`
+   */
+  jitter?: boolean;
+
+  /**
+   * Retry requests rejected because of a network error or a timeout
+   * Default: `true`
+   */
+  networkErrors?: boolean;
+
+  /**
+   * API error statuses triggering a retry, with optional specific settings
+   * Default: `{ 503: true }`
+   */
+  statuses?: { [status: number]: boolean | RetryRule };
+
+  /**
+   * Allow-list of `controller:action` pairs which can be safely retried
+   * Default: `DEFAULT_RETRY_ACTIONS`
+   */
+  actions?: string[];
+}
+
+/**
+ * Idempotent API actions retried by default
+ */
+export const DEFAULT_RETRY_ACTIONS = [
+  "auth:checkToken",
+  "auth:getCurrentUser",
+  "collection:exists",
+  "collection:getMapping",
+  "collection:getSpecifications",
+  "collection:list",
+  "collection:searchSpecifications",
+  "document:count",
+  "document:exists",
+  "document:get",
+  "document:mGet",
+  "document:search",
+  "index:exists",
+  "index:list",
+  "realtime:count",
+  "realtime:list",
+  "server:adminExists",
+  "server:getConfig",
+  "server:info",
+  "server:now",
+  "server:publicApi",
+];
+
+/**
+ * Codes of the Node.js errors raised when a connection fails or is lost
+ */
+const NETWORK_ERROR_CODES = [
+  "EAI_AGAIN",
+  "ECONNABORTED",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ENOTFOUND",
+  "EPIPE",
+  "ETIMEDOUT",
+];
+
+/**
+ * Tells if a request has been rejected by a transport error or a timeout,
+ * rather than by Kuzzle or by the SDK itself
+ */
+function isNetworkError(error: any): boolean {
+  return (
+    error instanceof NetworkError ||
+    error instanceof RequestTimeoutError ||
+    (error !== null &&
+      typeof error === "object" &&
+      NETWORK_ERROR_CODES.includes(error.code))
+  );
+}
+
+/**
+ * Throws if a retry rule has invalid settings
+ */
+function validateRule(rule: RetryRule, prefix = "") {
+  for (const key of ["maxAttempts", "baseDelay", "maxDelay"]) {
+    const min = key === "maxAttempts" ? 1 : 0;
+
+    if (
+      rule[key] !== undefined &&
+      (typeof rule[key] !== "number" || !(rule[key] >= min))
+    ) {
+      throw new Error(
+        `Invalid retry option "${prefix}${key}": expected a number greater than or equal to ${min}`
+      );
+    }
+  }
+}
+
+const DEFAULT_OPTIONS: RetryOptions = {
+  actions: DEFAULT_RETRY_ACTIONS,
+  baseDelay: 100,
+  jitter: true,
+  maxAttempts: 3,
+  maxDelay: 5000,
+  networkErrors: true,
+  statuses: { 503: true },
+};
+
+/**
+ * Retries idempotent requests rejected by a network error or
+ * by a retryable API error, with exponential backoff.
+ */
+export class RetryPolicy {
+  private _options: RetryOptions;
+  private _enabled: boolean;
+
+  /**
+   * @param options `false` to disable retries unless enabled per request
+   */
+  constructor(options: RetryOptions | boolean = false) {
+    this._enabled = options !== false;
+    this._options = RetryPolicy.mergeOptions(
+      DEFAULT_OPTIONS,
+      typeof options === "object" ? options : {}
+    );
+  }
+
+  /**
+   * `true` if requests are retried by default
+   */
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  get options(): RetryOptions {
+    return this._options;
+  }
+
+  static mergeOptions(
+    base: RetryOptions,
+    override: RetryOptions
+  ): RetryOptions {
+    if (
+      override === null ||
+      typeof override !== "object" ||
+      Array.isArray(override)
+    ) {
+      throw new Error(
+        `Invalid retry options: expected an object, got ${JSON.stringify(
+          override
+        )}`
+      );
+    }
+
+    validateRule(override);
+
+    for (const [status, rule] of Object.entries(override.statuses || {})) {
+      if (typeof rule === "object" && rule !== null) {
+        validateRule(rule, `statuses.${status}.`);
+      }
+    }
+
+    if (override.actions !== undefined && !Array.isArray(override.actions)) {
+      throw new Error('Invalid retry option "actions": expected an array');
+    }
+
+    return { ...base, ...override };
+  }
+
+  /**
+   * Sends a request, retrying it according to the policy.
+   * The first attempt is sent synchronously.
+   *
+   * @param request Request payload
+   * @param override Request specific options: `false` disables retries,
+   *                 an object overrides the policy options
+   * @param send Function sending a request
+   * @param onRetry Called before each retry
+   * @param signal Abort signal cancelling the pending retries
+   */
+  execute<T>(
+    request: RequestPayload,
+    override: RetryOptions | boolean | undefined,
+    send: (request: RequestPayload) => Promise<T>,
+    onRetry?: (retry: {
+      attempt: number;
+      delay: number;
+      error: Error;
+      request: RequestPayload;
+    }) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const options = this._resolve(override);
+
+    if (
+      !options ||
+      !options.actions.includes(`${request.controller}:${request.action}`)
+    ) {
+      return send(request);
+    }
+
+    const attempt = (current: RequestPayload, count: number): Promise<T> =>
+      send(current).catch((error) => {
+        const rule = this._getRule(options, error);
+
+        if (!rule || count >= rule.maxAttempts || (signal && signal.aborted)) {
+          throw error;
+        }
+
+        const delay = this.computeDelay(rule, count, options.jitter);
+        // A new request ID avoids collisions with a late response to the
+        // previous attempt
+        const next = { ...current, requestId: uuidv4() };
+
+        if (onRetry) {
+          onRetry({ attempt: count + 1, delay, error, request: next });
+        }
+
+        return new Promise<T>((resolve, reject) => {
+          const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestAbortedError(current, signal.reason));
+          };
+          const timer = setTimeout(() => {
+            if (signal) {
+              signal.removeEventListener("abort", onAbort);
+            }
+
+            attempt(next, count + 1).then(resolve, reject);
+          }, delay);
+
+          if (signal) {
+            signal.addEventListener("abort", onAbort, { once: true });
+          }
+        });
+      });
+
+    return attempt(request, 1);
+  }
+
+  /**
+   * Computes the delay before the next attempt
+   *
+   * @param rule Retry settings
+   * @param count Number of attempts already made
+   * @param jitter Randomize the delay
+   */
+  computeDelay(rule: RetryRule, count: number, jitter = true): number {
+    const backoff = Math.min(
+      rule.maxDelay,
+      rule.baseDelay * Math.pow(2, count - 1)
+    );
+
+    return jitter ? Math.round(Math.random() * backoff) : backoff;
+  }
+
+  private _resolve(override: RetryOptions | boolean | undefined) {
+    if (override === false || (override === undefined && !this._enabled)) {
+      return null;
+    }
+
+    if (override === undefined || override === true) {
+      return this._options;
+    }
+
+    return RetryPolicy.mergeOptions(this._options, override);
+  }
+
+  /**
+   * Returns the retry settings applicable to an error,
+   * or null if the error must not be retried.
+   */
+  private _getRule(options: RetryOptions, error: any): RetryRule {
+    const global = {
+      baseDelay: options.baseDelay,
+      maxAttempts: options.maxAttempts,
+      maxDelay: options.maxDelay,
+    };
+
+    if (error instanceof RequestAbortedError) {
+      return null;
+    }
+
+    if (isNetworkError(error)) {
+      return options.networkErrors ? global : null;
+    }
+
+    if (!error || typeof error.status !== "number") {
+      return null;
+    }
+
+    const statusRule = options.statuses && options.statuses[error.status];
+
+    if (!statusRule) {
+      return null;
+    }
+
+    return statusRule === true ? global : { ...global, ...statusRule };
+  }
+}
@@ -76,6 +76,10 @@ class Room {
       return this.kuzzle.tokenExpired();
     }
 
+    if (this.kuzzle.queryCache) {
+      this.kuzzle.queryCache.invalidateNotification(data);
+    }
+
     const fromSelf =
       data.volatile && data.volatile.sdkInstanceId === this.kuzzle.protocol.id;
 
@@ -0,0 +1,294 @@
+import { Kuzzle } from "../Kuzzle";
+import {
+  ArgsDocumentControllerCount,
+  ArgsDocumentControllerCreate,
+  ArgsDocumentControllerCreateOrReplace,
+  ArgsDocumentControllerDelete,
+  ArgsDocumentControllerExists,
+  ArgsDocumentControllerGet,
+  ArgsDocumentControllerMGet,
+  ArgsDocumentControllerReplace,
+  ArgsDocumentControllerSearch,
+  ArgsDocumentControllerUpdate,
+} from "../controllers/Document";
+import {
+  CollectionMappings,
+  JSONObject,
+  KDocument,
+  KDocumentContentGeneric,
+  KHit,
+  MappingsContent,
+} from "../types";
+import { SearchResult } from "./searchResult/SearchResultBase";
+
+/**
+ * Document controller bound to a collection, with a typed document content.
+ *
+ * @example
+ * ```
+ * const devices = new TypedCollection<DeviceContent>(sdk, "iot", "devices");
+ *
+ * const device = await devices.get("abeeway-H72K2");
+ * ```
+ */
+export class TypedCollection<
+  TKDocumentContent extends KDocumentContentGeneric = KDocumentContentGeneric
+> {
+  private _sdk: Kuzzle;
+  private _index: string;
+  private _collection: string;
+  private _mappings: CollectionMappings;
+
+  /**
+   * Creates a collection typed from its mappings.
+   *
+   * Mappings must be declared with a const assertion.
+   *
+   * @example
+   * ```
+   * const mappings = {
+   *   properties: { model: { type: "keyword" } }
+   * } as const;
+   *
+   * const devices = TypedCollection.fromMappings(sdk, "iot", "devices", mappings);
+   * ```
+   */
+  static fromMappings<TMappings extends CollectionMappings>(
+    sdk: Kuzzle,
+    index: string,
+    collection: string,
+    mappings: TMappings
+  ): TypedCollection<MappingsContent<TMappings>> {
+    return new TypedCollection<MappingsContent<TMappings>>(
+      sdk,
+      index,
+      collection,
+      mappings
+    );
+  }
+
+  /**
+   * @param sdk SDK instance
+   * @param index Index name
+   * @param collection Collection name
+   * @param mappings Collection mappings, if known
+   */
+  constructor(
+    sdk: Kuzzle,
+    index: string,
+    collection: string,
+    mappings: CollectionMappings = null
+  ) {
+    if (typeof index !== "string" || index.length === 0) {
+      throw new Error("TypedCollection: index is required");
+    }
+
+    if (typeof collection !== "string" || collection.length === 0) {
+      throw new Error("TypedCollection: collection is required");
+    }
+
+    Reflect.defineProperty(this, "_sdk", {
+      value: sdk,
+    });
+
+    this._index = index;
+    this._collection = collection;
+    this._mappings = mappings;
+  }
+
+  get index(): string {
+    return this._index;
+  }
+
+  get collection(): string {
+    return this._collection;
+  }
+
+  /**
+   * Mappings provided at creation, or null
+   */
+  get mappings(): CollectionMappings {
+    return this._mappings;
+  }
+
+  /**
+   * Counts documents matching a query.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/count/
+   */
+  count(
+    body?: JSONObject,
+    options: ArgsDocumentControllerCount = {}
+  ): Promise<number> {
+    return this._sdk.document.count(
+      this._index,
+      this._collection,
+      body,
+      options
+    );
+  }
+
+  /**
+   * Creates a new document.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/create/
+   */
+  create(
+    content: Partial<TKDocumentContent>,
+    _id: string = null,
+    options: ArgsDocumentControllerCreate = {}
+  ): Promise<KDocument<TKDocumentContent>> {
+    return this._sdk.document.create<TKDocumentContent>(
+      this._index,
+      this._collection,
+      content,
+      _id,
+      options
+    );
+  }
+
+  /**
+   * Creates or replaces a document.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/create-or-replace/
+   */
+  createOrReplace(
+    _id: string,
+    content: Partial<TKDocumentContent>,
+    options: ArgsDocumentControllerCreateOrReplace = {}
+  ): Promise<KDocument<TKDocumentContent>> {
+    return this._sdk.document.createOrReplace<TKDocumentContent>(
+      this._index,
+      this._collection,
+      _id,
+      content,
+      options
+    );
+  }
+
+  /**
+   * Deletes a document.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/delete/
+   */
+  delete(
+    _id: string,
+    options: ArgsDocumentControllerDelete = {}
+  ): Promise<string> {
+    return this._sdk.document.delete(
+      this._index,
+      this._collection,
+      _id,
+      options
+    );
+  }
+
+  /**
+   * Checks if a document exists.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/exists/
+   */
+  exists(
+    _id: string,
+    options: ArgsDocumentControllerExists = {}
+  ): Promise<boolean> {
+    return this._sdk.document.exists(
+      this._index,
+      this._collection,
+      _id,
+      options
+    );
+  }
+
+  /**
+   * Gets a document.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/get/
+   */
+  get(
+    _id: string,
+    options: ArgsDocumentControllerGet = {}
+  ): Promise<KDocument<TKDocumentContent>> {
+    return this._sdk.document.get<TKDocumentContent>(
+      this._index,
+      this._collection,
+      _id,
+      options
+    );
+  }
+
+  /**
+   * Gets multiple documents.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/m-get/
+   */
+  mGet(
+    ids: string[],
+    options: ArgsDocumentControllerMGet = {}
+  ): Promise<{
+    successes: KDocument<TKDocumentContent>[];
+    errors: string[];
+  }> {
+    return this._sdk.document.mGet<TKDocumentContent>(
+      this._index,
+      this._collection,
+      ids,
+      options
+    );
+  }
+
+  /**
+   * Replaces the content of an existing document.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/replace/
+   */
+  replace(
+    _id: string,
+    content: Partial<TKDocumentContent>,
+    options: ArgsDocumentControllerReplace = {}
+  ): Promise<KDocument<TKDocumentContent>> {
+    return this._sdk.document.replace<TKDocumentContent>(
+      this._index,
+      this._collection,
+      _id,
+      content,
+      options
+    );
+  }
+
+  /**
+   * Searches documents.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/search/
+   */
+  search(
+    searchBody: JSONObject = {},
+    options: ArgsDocumentControllerSearch = {}
+  ): Promise<SearchResult<KHit<TKDocumentContent>>> {
+    return this._sdk.document.search<TKDocumentContent>(
+      this._index,
+      this._collection,
+      searchBody,
+      options
+    );
+  }
+
+  /**
+   * Updates a document content.
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/update/
+   */
+  update(
+    _id: string,
+    changes: Partial<TKDocumentContent>,
+    options: ArgsDocumentControllerUpdate = {}
+  ): Promise<KDocument<TKDocumentContent>> {
+    return this._sdk.document.update<TKDocumentContent>(
+      this._index,
+      this._collection,
+      _id,
+      changes,
+      options
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { Kuzzle } from "../../Kuzzle";
 import {
   ArgsDocumentControllerCreate,
   ArgsDocumentControllerCreateOrReplace,
+  ArgsDocumentControllerDelete,
   ArgsDocumentControllerReplace,
   ArgsDocumentControllerUpdate,
   DocumentController,
@@ -126,6 +127,7 @@ export class BatchController extends DocumentController {
    * @param options.refresh If set to `wait_for`, Kuzzle will not respond until the API key is indexed
    * @param options.silent If true, then Kuzzle will not generate notifications
    * @param options.timeout Request Timeout in ms, after the delay if not resolved the promise will be rejected
+   * @param options.ifVersion Only replaces the document if its version is still this one, without batching
    *
    * @returns The replaced document
    */
@@ -136,6 +138,11 @@ export class BatchController extends DocumentController {
     content: Partial<TKDocumentContent>,
     options?: ArgsDocumentControllerReplace
   ): Promise<KDocument<TKDocumentContent>> {
+    // Versions are checked before writing, which cannot be batched
+    if (options && options.ifVersion !== undefined) {
+      return super.replace(index, collection, _id, content, options);
+    }
+
     const { idx, promise } = this.writer.addReplace(
       index,
       collection,
@@ -211,6 +218,7 @@ export class BatchController extends DocumentController {
    * @param options.retryOnConflict Number of times the database layer should retry in case of version conflict
    * @param options.source If true, returns the updated document inside the response
    * @param options.timeout Request Timeout in ms, after the delay if not resolved the promise will be rejected
+   * @param options.ifVersion Only updates the document if its version is still this one, without batching
    *
    * @returns The replaced document
    */
@@ -221,6 +229,11 @@ export class BatchController extends DocumentController {
     content: Partial<TKDocumentContent>,
     options?: ArgsDocumentControllerUpdate
   ): Promise<KDocument<TKDocumentContent>> {
+    // Versions are checked before writing, which cannot be batched
+    if (options && options.ifVersion !== undefined) {
+      return super.update(index, collection, _id, content, options);
+    }
+
     const { idx, promise } = this.writer.addUpdate(
       index,
       collection,
@@ -319,10 +332,21 @@ export class BatchController extends DocumentController {
    * @param options.refresh If set to `wait_for`, Kuzzle will not respond until the API key is indexed
    * @param options.silent If true, then Kuzzle will not generate notifications
    * @param options.timeout Request Timeout in ms, after the delay if not resolved the promise will be rejected
+   * @param options.ifVersion Only deletes the document if its version is still this one, without batching
    *
    * @returns The document ID
    */
-  async delete(index: string, collection: string, id: string): Promise<string> {
+  async delete(
+    index: string,
+    collection: string,
+    id: string,
+    options?: ArgsDocumentControllerDelete
+  ): Promise<string> {
+    // Versions are checked before writing, which cannot be batched
+    if (options && options.ifVersion !== undefined) {
+      return super.delete(index, collection, id, options);
+    }
+
     const { idx, promise } = this.writer.addDelete(
       index,
       collection,
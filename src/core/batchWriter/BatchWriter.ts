@@ -1,6 +1,7 @@
 import { Kuzzle } from "../../Kuzzle";
 import { JSONObject } from "../../types";
-import { BatchBuffer } from "./BatchBuffer";
+import { InstrumentablePromise } from "../InstrumentablePromise";
+import { BatchBuffer, DocumentsBuffer } from "./BatchBuffer";
 
 /**
  * This class handle buffers for every supported API action of the document controller:
@@ -10,9 +11,12 @@ import { BatchBuffer } from "./BatchBuffer";
  *
  * A timer will regularly execute the m* actions with the documents inside the buffers.
  *
- * If the interval is too big, buffers may contain too much documents for Kuzzle limits.
+ * A collection buffer is sent as soon as it reaches the max buffer size,
+ * and buffers exceeding Kuzzle limits are split into multiple m* requests.
  * (e.g. "limits.documentsWriteCount" is 200 by default)
  *
+ * Each m* request emits a "batchFlush" or "batchFlushError" event on the SDK.
+ *
  * @internal
  */
 export class BatchWriter {
@@ -46,32 +50,31 @@ export class BatchWriter {
   };
 
   get addCreate() {
-    // @todo implements the send of buffer if approaching the limit
-    return this.buffers.create.add.bind(this.buffers.create);
+    return this.add.bind(this, "create");
   }
 
   get addUpdate() {
-    return this.buffers.update.add.bind(this.buffers.update);
+    return this.add.bind(this, "update");
   }
 
   get addGet() {
-    return this.buffers.get.add.bind(this.buffers.get);
+    return this.add.bind(this, "get");
   }
 
   get addExists() {
-    return this.buffers.exists.add.bind(this.buffers.exists);
+    return this.add.bind(this, "exists");
   }
 
   get addDelete() {
-    return this.buffers.delete.add.bind(this.buffers.delete);
+    return this.add.bind(this, "delete");
   }
 
   get addReplace() {
-    return this.buffers.replace.add.bind(this.buffers.replace);
+    return this.add.bind(this, "replace");
   }
 
   get addCreateOrReplace() {
-    return this.buffers.createOrReplace.add.bind(this.buffers.createOrReplace);
+    return this.add.bind(this, "createOrReplace");
   }
 
   constructor(
@@ -139,6 +142,145 @@ export class BatchWriter {
     }
   }
 
+  /**
+   * Add a document to a buffer, and send the collection buffer right away
+   * if it reached the max buffer size
+   */
+  private add(
+    name: string,
+    index: string,
+    collection: string,
+    body: JSONObject,
+    _id?: string,
+    options?: JSONObject
+  ): { idx: number; promise: InstrumentablePromise } {
+    const result = this.buffers[name].add(
+      index,
+      collection,
+      body,
+      _id,
+      options
+    );
+
+    if (result.idx + 1 >= this.getMaxBufferSize(name)) {
+      this.flushCollection(name, index, collection);
+    }
+
+    return result;
+  }
+
+  private getMaxBufferSize(name: string): number {
+    return name === "get" || name === "exists"
+      ? this.maxReadBufferSize
+      : this.maxWriteBufferSize;
+  }
+
+  /**
+   * Remove a collection buffer from the current round and send it
+   */
+  private flushCollection(name: string, index: string, collection: string) {
+    const collectionBuffers = this.buffers[name].indexes.get(index);
+    const buffer = new BatchBuffer();
+
+    buffer.indexes.set(
+      index,
+      new Map([[collection, collectionBuffers.get(collection)]])
+    );
+    collectionBuffers.delete(collection);
+
+    switch (name) {
+      case "create":
+        return this.sendCreateBuffer(buffer);
+      case "update":
+        return this.sendUpdateBuffer(buffer);
+      case "replace":
+        return this.sendReplaceBuffer(buffer);
+      case "createOrReplace":
+        return this.sendCreateOrReplaceBuffer(buffer);
+      case "get":
+        return this.sendGetBuffer(buffer);
+      case "exists":
+        return this.sendExistsBuffer(buffer);
+      case "delete":
+        return this.sendDeleteBuffer(buffer);
+    }
+  }
+
+  /**
+   * Send the documents of a collection buffer with as many m* requests as
+   * needed to respect the max buffer size, and merge their results.
+   *
+   * The merged result is rejected if any of the requests fails.
+   */
+  private async sendChunks(
+    mAction: string,
+    index: string,
+    collection: string,
+    documents: DocumentsBuffer["documents"],
+    maxBufferSize: number,
+    send: (documents: DocumentsBuffer["documents"]) => Promise<any>
+  ) {
+    const chunks = [];
+
+    for (let i = 0; i < documents.length; i += maxBufferSize) {
+      chunks.push(documents.slice(i, i + maxBufferSize));
+    }
+
+    const results = await Promise.all(
+      chunks.map((chunk) =>
+        this.sendChunk(mAction, index, collection, chunk, send)
+      )
+    );
+
+    if (results.length === 1) {
+      return results[0];
+    }
+
+    if (Array.isArray(results[0])) {
+      return [].concat(...results);
+    }
+
+    return {
+      errors: [].concat(...results.map(({ errors }) => errors)),
+      successes: [].concat(...results.map(({ successes }) => successes)),
+    };
+  }
+
+  /**
+   * Send a single m* request and emit its metrics
+   */
+  private async sendChunk(
+    mAction: string,
+    index: string,
+    collection: string,
+    documents: DocumentsBuffer["documents"],
+    send: (documents: DocumentsBuffer["documents"]) => Promise<any>
+  ) {
+    const metrics = { action: mAction, collection, index };
+    const start = Date.now();
+
+    try {
+      const result = await send(documents);
+
+      this.sdk.emit("batchFlush", {
+        ...metrics,
+        duration: Date.now() - start,
+        size: documents.length,
+      });
+
+      return result;
+    } catch (error) {
+      this.sdk.emit("batchFlushError", {
+        ...metrics,
+        duration: Date.now() - start,
+        error,
+        size: documents.length,
+      });
+
+      throw error;
+    }
+  }
+
   private async sendWriteBuffer(
     mAction: any,
     buffer: BatchBuffer,
@@ -157,9 +299,17 @@ export class BatchWriter {
         }
 
         promises.push(
-          this.sdk.document[mAction](index, collection, documents as any, {
-            ...options,
-          })
+          this.sendChunks(
+            mAction,
+            index,
+            collection,
+            documents,
+            this.maxWriteBufferSize,
+            (chunk) =>
+              this.sdk.document[mAction](index, collection, chunk as any, {
+                ...options,
+              })
+          )
             .then(promise.resolve)
             .catch(promise.reject)
         );
@@ -210,11 +360,20 @@ export class BatchWriter {
           continue;
         }
 
-        const ids = documents.map(({ _id }) => _id);
-
         promises.push(
-          this.sdk.document
-            .mGet(index, collection, ids)
+          this.sendChunks(
+            "mGet",
+            index,
+            collection,
+            documents,
+            this.maxReadBufferSize,
+            (chunk) =>
+              this.sdk.document.mGet(
+                index,
+                collection,
+                chunk.map(({ _id }) => _id)
+              )
+          )
             .then(promise.resolve)
             .catch(promise.reject)
         );
@@ -237,20 +396,31 @@ export class BatchWriter {
           continue;
         }
 
-        const ids = documents.map(({ _id }) => _id);
         promises.push(
-          this.sdk.document
-            .mGet(index, collection, ids)
-            .then(({ successes }) => {
-              const successesId = successes.map(({ _id }) => _id);
-              const existences = new Array(ids.length);
-
-              for (let i = 0; i < existences.length; i++) {
-                existences[i] = successesId.includes(ids[i]);
-              }
-
-              promise.resolve(existences);
-            })
+          this.sendChunks(
+            "mGet",
+            index,
+            collection,
+            documents,
+            this.maxReadBufferSize,
+            (chunk) => {
+              const ids = chunk.map(({ _id }) => _id);
+
+              return this.sdk.document
+                .mGet(index, collection, ids)
+                .then(({ successes }) => {
+                  const successesId = successes.map(({ _id }) => _id);
+                  const existences = new Array(ids.length);
+
+                  for (let i = 0; i < existences.length; i++) {
+                    existences[i] = successesId.includes(ids[i]);
+                  }
+
+                  return existences;
+                });
+            }
+          )
+            .then(promise.resolve)
             .catch(promise.reject)
         );
       }
@@ -272,11 +442,20 @@ export class BatchWriter {
           continue;
         }
 
-        const ids = documents.map(({ _id }) => _id);
-
         promises.push(
-          this.sdk.document
-            .mDelete(index, collection, ids)
+          this.sendChunks(
+            "mDelete",
+            index,
+            collection,
+            documents,
+            this.maxWriteBufferSize,
+            (chunk) =>
+              this.sdk.document.mDelete(
+                index,
+                collection,
+                chunk.map(({ _id }) => _id)
+              )
+          )
             .then(promise.resolve)
             .catch(promise.reject)
         );
@@ -0,0 +1,251 @@
+import { Kuzzle } from "../../Kuzzle";
+import { JSONObject } from "../../types";
+import { KuzzleEventEmitter } from "../KuzzleEventEmitter";
+import {
+  ExportFormat,
+  ExportedDocument,
+  createExportFormatter,
+} from "./ExportFormatter";
+
+export interface CollectionExporterOptions {
+  /**
+   * Output format (default: `ndjson`)
+   */
+  format?: ExportFormat;
+
+  /**
+   * Query of the exported documents (default: every document)
+   */
+  query?: JSONObject;
+
+  /**
+   * Query language (`elasticsearch` or `koncorde`)
+   */
+  lang?: string;
+
+  /**
+   * Number of documents fetched per page (default: `100`)
+   */
+  size?: number;
+
+  /**
+   * TTL of the scroll cursor between two pages (default: `20s`)
+   */
+  scroll?: string;
+
+  /**
+   * CSV columns, as paths of document fields (`_id` being the document ID).
+   * Default to every field of the first page of documents.
+   */
+  fields?: string[];
+
+  /**
+   * CSV separator (default: `,`)
+   */
+  separator?: string;
+}
+
+export interface ExportProgress {
+  /**
+   * Number of exported documents
+   */
+  exported: number;
+
+  /**
+   * Total number of documents to export
+   */
+  total: number;
+}
+
+/**
+ * Node.js writable stream, or any object behaving like one
+ */
+export interface ExportWritable {
+  write(chunk: string): boolean;
+  once(event: string, listener: (...args: any[]) => void): any;
+  removeListener(event: string, listener: (...args: any[]) => void): any;
+  end?(): any;
+}
+
+/**
+ * Waits until a writable stream can be written to again
+ */
+function drain(destination: ExportWritable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onDrain = () => {
+      destination.removeListener("error", onError);
+      resolve();
+    };
+    const onError = (error: Error) => {
+      destination.removeListener("drain", onDrain);
+      reject(error);
+    };
+
+    destination.once("drain", onDrain);
+    destination.once("error", onError);
+  });
+}
+
+/**
+ * Streams the documents of a collection as NDJSON, CSV or JSON.
+ *
+ * Documents are fetched page by page with a scroll cursor, and a page is
+ * fetched only once the previous one has been consumed.
+ *
+ * Emits a `progress` event each time a page has been exported.
+ *
+ * @example
+ * ```
+ * const exporter = new CollectionExporter(sdk, "nyc-open-data", "yellow-taxi", {
+ *   format: "csv",
+ *   fields: ["_id", "name", "address.city"],
+ * });
+ *
+ * exporter.on("progress", ({ exported, total }) => console.log(exported, total));
+ *
+ * await exporter.pipe(fs.createWriteStream("yellow-taxi.csv"));
+ * ```
+ */
+export class CollectionExporter extends KuzzleEventEmitter {
+  private _sdk: Kuzzle;
+  private _index: string;
+  private _collection: string;
+  private _options: CollectionExporterOptions;
+
+  /**
+   * @param sdk SDK instance
+   * @param index Index name
+   * @param collection Collection name
+   * @param options Export options
+   */
+  constructor(
+    sdk: Kuzzle,
+    index: string,
+    collection: string,
+    options: CollectionExporterOptions = {}
+  ) {
+    super();
+
+    Reflect.defineProperty(this, "_sdk", {
+      value: sdk,
+    });
+
+    this._index = index;
+    this._collection = collection;
+    this._options = options;
+  }
+
+  /**
+   * Iterates over the exported text, one chunk per page of documents
+   */
+  async *chunks(): AsyncGenerator<string, void, undefined> {
+    const {
+      format = "ndjson",
+      query,
+      lang,
+      size = 100,
+      scroll = "20s",
+    } = this._options;
+
+    const formatter = createExportFormatter(format, this._options);
+
+    const result = await this._sdk.document.search(
+      this._index,
+      this._collection,
+      query ? { query } : {},
+      { lang, scroll, size }
+    );
+
+    const progress: ExportProgress = { exported: 0, total: result.total };
+    let begun = false;
+
+    for await (const page of result.iteratePages()) {
+      const documents: ExportedDocument[] = page.hits.map((hit) => ({
+        _id: hit._id,
+        body: hit._source,
+      }));
+
+      let chunk = begun ? "" : formatter.begin(documents);
+      begun = true;
+
+      for (const document of documents) {
+        chunk += formatter.format(document);
+      }
+
+      yield chunk;
+
+      progress.exported += documents.length;
+      progress.total = page.total;
+      this.emit("progress", { ...progress });
+    }
+
+    const end = (begun ? "" : formatter.begin([])) + formatter.end();
+
+    if (end.length > 0) {
+      yield end;
+    }
+  }
+
+  /**
+   * Writes the export to a Node.js writable stream, waiting for the stream
+   * to be drained when its buffer is full.
+   *
+   * @param destination Writable stream
+   * @param options.end Ends the stream once the export is done (default: `true`)
+   *
+   * @returns Export progress once every document has been written
+   */
+  async pipe(
+    destination: ExportWritable,
+    { end = true }: { end?: boolean } = {}
+  ): Promise<ExportProgress> {
+    const progress: ExportProgress = { exported: 0, total: 0 };
+    const onProgress = (current: ExportProgress) => {
+      Object.assign(progress, current);
+    };
+
+    this.on("progress", onProgress);
+
+    try {
+      for await (const chunk of this.chunks()) {
+        if (!destination.write(chunk)) {
+          await drain(destination);
+        }
+      }
+    } finally {
+      this.removeListener("progress", onProgress);
+    }
+
+    if (end && destination.end) {
+      destination.end();
+    }
+
+    return progress;
+  }
+
+  /**
+   * Returns the export as a web `ReadableStream` of UTF-8 bytes, to be used
+   * in browsers (e.g. with `new Response(stream).blob()`).
+   *
+   * Pages are fetched as the stream is read.
+   */
+  toReadableStream(): ReadableStream<Uint8Array> {
+    const chunks = this.chunks();
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+      async cancel() {
+        await chunks.return(undefined);
+      },
+      async pull(controller) {
+        const { done, value } = await chunks.next();
+
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value as string));
+        }
+      },
+    });
+  }
+}
@@ -0,0 +1,170 @@
+import { JSONObject } from "../../types";
+import { flatten } from "../../utils/object";
+
+export type ExportFormat = "ndjson" | "csv" | "json";
+
+/**
+ * Exported document, shaped like the documents of `document:mCreate`
+ */
+export type ExportedDocument = {
+  _id: string;
+  body: JSONObject;
+};
+
+export interface ExportFormatterOptions {
+  /**
+   * CSV columns, as paths of document fields (`_id` being the document ID)
+   */
+  fields?: string[];
+
+  /**
+   * CSV separator
+   */
+  separator?: string;
+}
+
+/**
+ * Turns exported documents into text
+ */
+export interface ExportFormatter {
+  /**
+   * Text written before the documents
+   *
+   * @param documents First exported documents
+   */
+  begin(documents: ExportedDocument[]): string;
+
+  /**
+   * Text of a document
+   */
+  format(document: ExportedDocument): string;
+
+  /**
+   * Text written after the documents
+   */
+  end(): string;
+}
+
+class NdjsonFormatter implements ExportFormatter {
+  begin(): string {
+    return "";
+  }
+
+  format(document: ExportedDocument): string {
+    return JSON.stringify(document) + "\n";
+  }
+
+  end(): string {
+    return "";
+  }
+}
+
+class JsonFormatter implements ExportFormatter {
+  private _first = true;
+
+  begin(): string {
+    return "[";
+  }
+
+  format(document: ExportedDocument): string {
+    const prefix = this._first ? "\n" : ",\n";
+
+    this._first = false;
+
+    return prefix + JSON.stringify(document);
+  }
+
+  end(): string {
+    return this._first ? "]\n" : "\n]\n";
+  }
+}
+
+class CsvFormatter implements ExportFormatter {
+  private _fields: string[];
+  private _separator: string;
+
+  constructor({ fields, separator = "," }: ExportFormatterOptions) {
+    this._fields = fields;
+    this._separator = separator;
+  }
+
+  /**
+   * Without explicit columns, every field of the first documents is exported
+   */
+  begin(documents: ExportedDocument[]): string {
+    if (!this._fields) {
+      const fields = new Set<string>();
+
+      for (const document of documents) {
+        for (const field of Object.keys(flatten(document.body || {}))) {
+          fields.add(field);
+        }
+      }
+
+      this._fields = ["_id", ...fields];
+    }
+
+    return this._line(this._fields);
+  }
+
+  format(document: ExportedDocument): string {
+    const values = flatten(document.body || {});
+
+    return this._line(
+      this._fields.map((field) =>
+        field === "_id" ? document._id : values[field]
+      )
+    );
+  }
+
+  end(): string {
+    return "";
+  }
+
+  private _line(values: any[]): string {
+    return (
+      values.map((value) => this._escape(value)).join(this._separator) + "\n"
+    );
+  }
+
+  private _escape(value: any): string {
+    if (value === undefined || value === null) {
+      return "";
+    }
+
+    const text =
+      typeof value === "object" ? JSON.stringify(value) : String(value);
+
+    if (
+      text.includes(this._separator) ||
+      text.includes('"') ||
+      text.includes("\n") ||
+      text.includes("\r")
+    ) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+
+    return text;
+  }
+}
+
+/**
+ * Creates the formatter of an export format
+ */
+export function createExportFormatter(
+  format: ExportFormat,
+  options: ExportFormatterOptions = {}
+): ExportFormatter {
+  switch (format) {
+    case "ndjson":
+      return new NdjsonFormatter();
+    case "json":
+      return new JsonFormatter();
+    case "csv":
+      return new CsvFormatter(options);
+    default:
+      throw new Error(
+        `Unknown export format "${format}". Expected one of: ndjson, csv, json`
+      );
+  }
+}
@@ -0,0 +1,479 @@
+import { Kuzzle } from "../../Kuzzle";
+import {
+  CollectionMappings,
+  JSONObject,
+  ProfilePolicy,
+  RoleRightsDefinition,
+} from "../../types";
+import { isEqual, isSubset, omit } from "../../utils/object";
+
+/**
+ * Description of the indexes, collections, documents and security
+ * to load into Kuzzle.
+ *
+ * Fixtures are plain objects, and can be written in JSON or YAML files.
+ *
+ * @example
+ * {
+ *   indexes: {
+ *     "nyc-open-data": {
+ *       collections: {
+ *         "yellow-taxi": {
+ *           mappings: { properties: { name: { type: "keyword" } } },
+ *           documents: [{ _id: "taxi-1", body: { name: "Marco" } }],
+ *         },
+ *       },
+ *     },
+ *   },
+ *   roles: { driver: { controllers: { document: { actions: { get: true } } } } },
+ *   profiles: { driver: { policies: [{ roleId: "driver" }] } },
+ *   users: {
+ *     marco: {
+ *       content: { profileIds: ["driver"] },
+ *       credentials: { local: { username: "marco", password: "password" } },
+ *     },
+ *   },
+ * }
+ */
+export type Fixtures = {
+  indexes?: {
+    [index: string]: {
+      collections?: {
+        [collection: string]: {
+          mappings?: CollectionMappings;
+          /**
+           * Only used to create the collection
+           */
+          settings?: JSONObject;
+          /**
+           * Documents must have an ID, to be loaded only once
+           */
+          documents?: Array<{ _id: string; body: JSONObject }>;
+        };
+      };
+    };
+  };
+
+  roles?: {
+    [roleId: string]: { controllers: RoleRightsDefinition };
+  };
+
+  profiles?: {
+    [profileId: string]: { policies: ProfilePolicy[]; rateLimit?: number };
+  };
+
+  /**
+   * Credentials are only used to create users
+   */
+  users?: {
+    [kuid: string]: { content: JSONObject; credentials?: JSONObject };
+  };
+};
+
+/**
+ * Change needed to load fixtures
+ */
+export type FixtureChange = {
+  type: "index" | "collection" | "document" | "role" | "profile" | "user";
+
+  /**
+   * Collections are updated when their mappings differ from the fixtures
+   */
+  action: "create" | "update" | "unchanged";
+
+  index?: string;
+
+  collection?: string;
+
+  /**
+   * ID of the document, role, profile or user
+   */
+  _id?: string;
+};
+
+export interface FixturesLoaderOptions {
+  /**
+   * Number of documents read or written per request, which must not exceed
+   * the `limits.documentsWriteCount` configuration of Kuzzle (default: `200`)
+   */
+  batchSize?: number;
+
+  /**
+   * If set to `wait_for`, Kuzzle will not respond until the documents are indexed
+   */
+  refresh?: "wait_for" | "false";
+}
+
+/**
+ * Changes of the same resources, and the function applying them
+ */
+type FixtureStep = {
+  changes: FixtureChange[];
+  run: () => Promise<void>;
+};
+
+/**
+ * Resources are created when missing, and updated when not unchanged
+ */
+function changeAction(
+  existing: any,
+  unchanged: () => boolean
+): FixtureChange["action"] {
+  if (!existing) {
+    return "create";
+  }
+
+  return unchanged() ? "unchanged" : "update";
+}
+
+/**
+ * Loads fixtures idempotently: only missing or different resources
+ * are created or replaced.
+ *
+ * @example
+ * ```
+ * const loader = new FixturesLoader(sdk);
+ *
+ * // Lists the changes without applying them
+ * const changes = await loader.diff(fixtures);
+ *
+ * await loader.apply(fixtures);
+ * ```
+ */
+export class FixturesLoader {
+  private _sdk: Kuzzle;
+  private _options: FixturesLoaderOptions;
+
+  /**
+   * @param sdk SDK instance
+   * @param options Loader options
+   */
+  constructor(sdk: Kuzzle, options: FixturesLoaderOptions = {}) {
+    Reflect.defineProperty(this, "_sdk", {
+      value: sdk,
+    });
+
+    this._options = options;
+  }
+
+  /**
+   * Lists the changes needed to load fixtures, without applying them
+   */
+  async diff(fixtures: Fixtures): Promise<FixtureChange[]> {
+    return this.apply(fixtures, { dryRun: true });
+  }
+
+  /**
+   * Loads fixtures.
+   *
+   * Documents are created or replaced, and users are created with their
+   * credentials or have their content replaced.
+   *
+   * @param fixtures Fixtures to load
+   * @param options.dryRun Only lists the changes (default: `false`)
+   *
+   * @returns Every change, including unchanged resources
+   */
+  async apply(
+    fixtures: Fixtures,
+    { dryRun = false }: { dryRun?: boolean } = {}
+  ): Promise<FixtureChange[]> {
+    this._checkDocumentIds(fixtures.indexes || {});
+
+    const steps = [
+      ...(await this._planIndexes(fixtures.indexes || {})),
+      ...(await this._planSecurity(fixtures)),
+    ];
+
+    if (!dryRun) {
+      for (const step of steps) {
+        if (step.changes.some(({ action }) => action !== "unchanged")) {
+          await step.run();
+        }
+      }
+    }
+
+    return steps.reduce(
+      (changes, step) => changes.concat(step.changes),
+      [] as FixtureChange[]
+    );
+  }
+
+  /**
+   * Documents without ID would be created again each time fixtures are loaded
+   */
+  private _checkDocumentIds(indexes: Fixtures["indexes"]) {
+    for (const [index, { collections = {} }] of Object.entries(indexes)) {
+      for (const [collection, { documents = [] }] of Object.entries(
+        collections
+      )) {
+        const position = documents.findIndex(
+          ({ _id }) => typeof _id !== "string" || _id.length === 0
+        );
+
+        if (position !== -1) {
+          throw new Error(
+            `Invalid fixtures: document #${position} of "${index}":"${collection}" has no _id`
+          );
+        }
+      }
+    }
+  }
+
+  private async _planIndexes(
+    indexes: Fixtures["indexes"]
+  ): Promise<FixtureStep[]> {
+    const steps: FixtureStep[] = [];
+
+    for (const [index, { collections = {} }] of Object.entries(indexes)) {
+      const indexExists = await this._sdk.index.exists(index);
+
+      steps.push({
+        changes: [
+          {
+            action: indexExists ? "unchanged" : "create",
+            index,
+            type: "index",
+          },
+        ],
+        run: () => this._sdk.index.create(index).then(() => undefined),
+      });
+
+      for (const [collection, definition] of Object.entries(collections)) {
+        const exists =
+          indexExists && (await this._sdk.collection.exists(index, collection));
+        let action: FixtureChange["action"] = "create";
+
+        if (exists) {
+          const mappings = definition.mappings
+            ? await this._sdk.collection.getMapping(index, collection)
+            : null;
+
+          action =
+            mappings && !isSubset(definition.mappings, mappings)
+              ? "update"
+              : "unchanged";
+        }
+
+        steps.push({
+          changes: [{ action, collection, index, type: "collection" }],
+          run: () =>
+            this._sdk.collection.create(
+              index,
+              collection,
+              exists
+                ? { mappings: definition.mappings }
+                : {
+                    mappings: definition.mappings,
+                    settings: definition.settings,
+                  }
+            ),
+        });
+
+        steps.push(
+          ...(await this._planDocuments(
+            index,
+            collection,
+            definition.documents || [],
+            exists
+          ))
+        );
+      }
+    }
+
+    return steps;
+  }
+
+  /**
+   * Documents are compared to the existing ones, metadata excepted
+   */
+  private async _planDocuments(
+    index: string,
+    collection: string,
+    documents: Array<{ _id: string; body: JSONObject }>,
+    collectionExists: boolean
+  ): Promise<FixtureStep[]> {
+    const { batchSize = 200, refresh } = this._options;
+    const steps: FixtureStep[] = [];
+
+    for (let i = 0; i < documents.length; i += batchSize) {
+      const batch = documents.slice(i, i + batchSize);
+      const existing = new Map<string, JSONObject>();
+
+      if (collectionExists) {
+        const { successes } = await this._sdk.document.mGet(
+          index,
+          collection,
+          batch.map(({ _id }) => _id)
+        );
+
+        for (const document of successes) {
+          existing.set(document._id, document._source);
+        }
+      }
+
+      const changes: FixtureChange[] = [];
+      const bulkData = [];
+
+      for (const { _id, body } of batch) {
+        let action: FixtureChange["action"] = "create";
+
+        if (existing.has(_id)) {
+          action = isEqual(
+            omit(body, ["_kuzzle_info"]),
+            omit(existing.get(_id), ["_kuzzle_info"])
+          )
+            ? "unchanged"
+            : "update";
+        }
+
+        changes.push({
+          _id,
+          action,
+          collection,
+          index,
+          type: "document",
+        });
+
+        if (action !== "unchanged") {
+          bulkData.push({ index: { _id } }, body);
+        }
+      }
+
+      steps.push({
+        changes,
+        run: async () => {
+          const { errors } = await this._sdk.bulk.import(
+            index,
+            collection,
+            bulkData,
+            { refresh }
+          );
+
+          if (errors.length > 0) {
+            throw new Error(
+              `Unable to load ${
+                errors.length
+              } documents in "${index}":"${collection}": ${JSON.stringify(
+                errors
+              )}`
+            );
+          }
+        },
+      });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Roles, then profiles, then users, so each can reference the previous ones
+   */
+  private async _planSecurity({
+    roles = {},
+    profiles = {},
+    users = {},
+  }: Fixtures): Promise<FixtureStep[]> {
+    const steps: FixtureStep[] = [];
+
+    const existingRoles = await this._fetch(Object.keys(roles), (ids) =>
+      this._sdk.security.mGetRoles(ids)
+    );
+
+    for (const [_id, role] of Object.entries(roles)) {
+      const existing = existingRoles.get(_id);
+
+      steps.push({
+        changes: [
+          {
+            _id,
+            action: changeAction(existing, () =>
+              isEqual(role.controllers, existing.controllers)
+            ),
+            type: "role",
+          },
+        ],
+        run: () =>
+          this._sdk.security
+            .createOrReplaceRole(_id, role)
+            .then(() => undefined),
+      });
+    }
+
+    const existingProfiles = await this._fetch(Object.keys(profiles), (ids) =>
+      this._sdk.security.mGetProfiles(ids)
+    );
+
+    for (const [_id, profile] of Object.entries(profiles)) {
+      const existing = existingProfiles.get(_id);
+      const unchanged = () =>
+        isEqual(profile.policies, existing.policies) &&
+        (profile.rateLimit === undefined ||
+          profile.rateLimit === existing.rateLimit);
+
+      steps.push({
+        changes: [
+          {
+            _id,
+            action: changeAction(existing, unchanged),
+            type: "profile",
+          },
+        ],
+        run: () =>
+          this._sdk.security
+            .createOrReplaceProfile(_id, profile)
+            .then(() => undefined),
+      });
+    }
+
+    const existingUsers = await this._fetch(Object.keys(users), (ids) =>
+      this._sdk.security.mGetUsers(ids)
+    );
+
+    for (const [_id, user] of Object.entries(users)) {
+      const existing = existingUsers.get(_id);
+      const unchanged = () =>
+        Object.keys(user.content).every((key) =>
+          isEqual(user.content[key], existing._source[key])
+        );
+
+      steps.push({
+        changes: [
+          {
+            _id,
+            action: changeAction(existing, unchanged),
+            type: "user",
+          },
+        ],
+        run: () =>
+          (existing
+            ? this._sdk.security.replaceUser(_id, user.content)
+            : this._sdk.security.createUser(_id, {
+                content: user.content,
+                credentials: user.credentials || {},
+              })
+          ).then(() => undefined),
+      });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Fetches existing security resources by ID
+   */
+  private async _fetch(
+    ids: string[],
+    mGet: (ids: string[]) => Promise<any[]>
+  ): Promise<Map<string, any>> {
+    const existing = new Map();
+
+    if (ids.length > 0) {
+      for (const resource of await mGet(ids)) {
+        existing.set(resource._id, resource);
+      }
+    }
+
+    return existing;
+  }
+}
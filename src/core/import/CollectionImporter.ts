@@ -0,0 +1,355 @@
+import { Kuzzle } from "../../Kuzzle";
+import { JSONObject } from "../../types";
+import { debug } from "../../utils/debug";
+import { uuidv4 } from "../../utils/uuidv4";
+import { KuzzleEventEmitter } from "../KuzzleEventEmitter";
+import {
+  ImportFormat,
+  ImportRow,
+  ImportSource,
+  parseImportRows,
+} from "./ImportParser";
+
+export interface CollectionImporterOptions {
+  /**
+   * Input format (default: `ndjson`)
+   */
+  format?: ImportFormat;
+
+  /**
+   * API action writing the documents (default: `mCreateOrReplace`)
+   *   - `mCreateOrReplace`: `document:mCreateOrReplace`, documents must have an `_id`
+   *   - `import`: `bulk:import`, documents without `_id` are created with a UUID v4
+   */
+  method?: "mCreateOrReplace" | "import";
+
+  /**
+   * Number of documents written per request, capped by the
+   * `limits.documentsWriteCount` server configuration, fetched with
+   * `server:getConfig` (default: this limit)
+   */
+  batchSize?: number;
+
+  /**
+   * Maximum number of requests running at the same time (default: `4`)
+   */
+  concurrency?: number;
+
+  /**
+   * If set to `wait_for`, Kuzzle will not respond until the documents are indexed
+   */
+  refresh?: "wait_for" | "false";
+
+  /**
+   * (`mCreateOrReplace` only) If true, Kuzzle will not generate notifications
+   */
+  silent?: boolean;
+
+  /**
+   * CSV separator, a single character (default: `,`)
+   */
+  separator?: string;
+
+  /**
+   * Converts CSV values, which are strings otherwise
+   */
+  cast?: (value: string, field: string) => any;
+}
+
+/**
+ * Batch size used when the server configuration cannot be fetched
+ */
+const FALLBACK_BATCH_SIZE = 200;
+
+export interface ImportFailure {
+  /**
+   * Line of the row in the input (the CSV header being the line 1)
+   */
+  row: number;
+
+  /**
+   * Document ID, if any
+   */
+  _id: string;
+
+  /**
+   * HTTP error status code
+   */
+  status: number;
+
+  /**
+   * Human readable reason
+   */
+  reason: string;
+}
+
+export interface ImportResult {
+  /**
+   * Number of written documents
+   */
+  imported: number;
+
+  /**
+   * Number of rows which could not be parsed or written
+   */
+  failed: number;
+
+  /**
+   * Rows which could not be parsed or written
+   */
+  failures: ImportFailure[];
+}
+
+/**
+ * Streams NDJSON or CSV documents into a collection.
+ *
+ * Rows are read only as fast as they are written: the source is not consumed
+ * while the maximum number of concurrent requests is reached.
+ *
+ * Rejected documents are reported as failures without stopping the import,
+ * which is aborted only if a request fails as a whole.
+ *
+ * Emits a `progress` event each time a batch of documents has been written.
+ *
+ * @example
+ * ```
+ * const importer = new CollectionImporter(sdk, "nyc-open-data", "yellow-taxi", {
+ *   format: "csv",
+ * });
+ *
+ * const { imported, failures } = await importer.import(
+ *   fs.createReadStream("yellow-taxi.csv")
+ * );
+ * ```
+ */
+export class CollectionImporter extends KuzzleEventEmitter {
+  private _sdk: Kuzzle;
+  private _index: string;
+  private _collection: string;
+  private _options: CollectionImporterOptions;
+
+  /**
+   * @param sdk SDK instance
+   * @param index Index name
+   * @param collection Collection name
+   * @param options Import options
+   */
+  constructor(
+    sdk: Kuzzle,
+    index: string,
+    collection: string,
+    options: CollectionImporterOptions = {}
+  ) {
+    super();
+
+    Reflect.defineProperty(this, "_sdk", {
+      value: sdk,
+    });
+
+    this._index = index;
+    this._collection = collection;
+    this._options = options;
+  }
+
+  /**
+   * Imports the documents of a source
+   *
+   * @param source Node.js readable stream, web `ReadableStream`, or iterable of text chunks
+   */
+  async import(source: ImportSource): Promise<ImportResult> {
+    const {
+      format = "ndjson",
+      method = "mCreateOrReplace",
+      concurrency = 4,
+    } = this._options;
+
+    if (method !== "mCreateOrReplace" && method !== "import") {
+      throw new Error(
+        `Unknown import method "${method}". Expected one of: mCreateOrReplace, import`
+      );
+    }
+
+    const writeLimit = await this._getWriteLimit();
+    const batchSize = Math.min(
+      this._options.batchSize || writeLimit,
+      writeLimit
+    );
+
+    const result: ImportResult = { failed: 0, failures: [], imported: 0 };
+    const pending = new Set<Promise<void>>();
+    let error: Error = null;
+    let batch: ImportRow[] = [];
+
+    const send = (rows: ImportRow[]) => {
+      const promise = this._write(method, rows, result).then(
+        () => {
+          pending.delete(promise);
+        },
+        (err) => {
+          pending.delete(promise);
+          error = error || err;
+        }
+      );
+
+      pending.add(promise);
+    };
+
+    try {
+      for await (const row of parseImportRows(source, format, this._options)) {
+        if (row.error) {
+          this._fail(result, row, 400, row.error);
+          continue;
+        }
+
+        if (method === "mCreateOrReplace" && !row.document._id) {
+          this._fail(result, row, 400, "Missing document _id");
+          continue;
+        }
+
+        batch.push(row);
+
+        if (batch.length >= batchSize) {
+          send(batch);
+          batch = [];
+
+          while (pending.size >= concurrency) {
+            await Promise.race(pending);
+          }
+
+          if (error) {
+            break;
+          }
+        }
+      }
+
+      if (batch.length > 0 && !error) {
+        send(batch);
+      }
+    } finally {
+      await Promise.all(pending);
+    }
+
+    if (error) {
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetches the maximum number of documents per write request from
+   * the server configuration
+   */
+  private async _getWriteLimit(): Promise<number> {
+    try {
+      const config = await this._sdk.server.getConfig({});
+      const limit =
+        config && config.limits && config.limits.documentsWriteCount;
+
+      return typeof limit === "number" && limit > 0
+        ? limit
+        : FALLBACK_BATCH_SIZE;
+    } catch (error) {
+      debug("COLLECTION IMPORTER CONFIG ERROR", error);
+      return FALLBACK_BATCH_SIZE;
+    }
+  }
+
+  /**
+   * Writes a batch of documents, and reports the rejected ones
+   */
+  private async _write(
+    method: string,
+    rows: ImportRow[],
+    result: ImportResult
+  ): Promise<void> {
+    const { refresh, silent } = this._options;
+    let response: { successes: any[]; errors: JSONObject[] };
+
+    // Rejections only give the ID of the documents: IDs are generated here
+    // for documents without one, so that each rejection can be traced back
+    // to its position in the batch
+    const ids = rows.map(({ document }) =>
+      method === "import" && !document._id ? uuidv4() : document._id
+    );
+
+    if (method === "import") {
+      const bulkData = [];
+
+      rows.forEach(({ document }, i) => {
+        bulkData.push({ index: { _id: ids[i] } }, document.body);
+      });
+
+      response = await this._sdk.bulk.import(
+        this._index,
+        this._collection,
+        bulkData,
+        { refresh }
+      );
+    } else {
+      response = await this._sdk.document.mCreateOrReplace(
+        this._index,
+        this._collection,
+        rows.map(({ document }, i) => ({
+          _id: ids[i],
+          body: document.body,
+        })),
+        { refresh, silent }
+      );
+    }
+
+    const positionsById = new Map<string, number[]>();
+
+    ids.forEach((id, position) => {
+      if (!positionsById.has(id)) {
+        positionsById.set(id, []);
+      }
+
+      positionsById.get(id).push(position);
+    });
+
+    for (const rejection of response.errors) {
+      // bulk:import errors are wrapped by the name of the bulk action
+      const item =
+        rejection.status === undefined && !rejection.document
+          ? rejection[Object.keys(rejection)[0]]
+          : rejection;
+      const id = item.document ? item.document._id : item._id;
+      const position = positionsById.has(id)
+        ? positionsById.get(id).shift()
+        : undefined;
+      const reason = item.error ? item.error.reason : item.reason;
+
+      this._fail(
+        result,
+        position === undefined
+          ? { document: { _id: id, body: null }, row: null }
+          : rows[position],
+        Number(item.status),
+        reason
+      );
+    }
+
+    result.imported += response.successes.length;
+
+    this.emit("progress", {
+      failed: result.failed,
+      imported: result.imported,
+    });
+  }
+
+  private _fail(
+    result: ImportResult,
+    row: ImportRow,
+    status: number,
+    reason: string
+  ) {
+    result.failed++;
+    result.failures.push({
+      _id: row.document ? row.document._id || null : null,
+      reason,
+      row: row.row,
+      status,
+    });
+  }
+}
@@ -0,0 +1,343 @@
+import { JSONObject } from "../../types";
+
+export type ImportFormat = "ndjson" | "csv";
+
+/**
+ * Imported document, shaped like the documents of `document:mCreateOrReplace`
+ */
+export type ImportedDocument = {
+  _id?: string;
+  body: JSONObject;
+};
+
+/**
+ * Document parsed from an input row, or the reason why it could not be
+ */
+export type ImportRow = {
+  /**
+   * Line of the row in the input (the CSV header being the line 1)
+   */
+  row: number;
+
+  document?: ImportedDocument;
+
+  error?: string;
+};
+
+/**
+ * Text or bytes to import: Node.js readable stream, web `ReadableStream`,
+ * or any iterable of chunks
+ */
+export type ImportSource =
+  | AsyncIterable<string | Uint8Array>
+  | Iterable<string | Uint8Array>
+  | ReadableStream<string | Uint8Array>;
+
+export interface ImportParserOptions {
+  /**
+   * CSV separator, a single character
+   */
+  separator?: string;
+
+  /**
+   * Converts CSV values, which are strings otherwise
+   */
+  cast?: (value: string, field: string) => any;
+}
+
+/**
+ * Iterates over the text chunks of a source, decoding bytes as UTF-8
+ */
+async function* readText(source: ImportSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const decode = (chunk: string | Uint8Array) =>
+    typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+  // Browsers' ReadableStream are not always async iterable
+  if (typeof (source as ReadableStream).getReader === "function") {
+    const reader = (source as ReadableStream<string | Uint8Array>).getReader();
+
+    try {
+      let item = await reader.read();
+
+      while (!item.done) {
+        yield decode(item.value);
+        item = await reader.read();
+      }
+    } finally {
+      await reader.cancel().catch(() => undefined);
+    }
+  } else {
+    for await (const chunk of source as AsyncIterable<string | Uint8Array>) {
+      yield decode(chunk);
+    }
+  }
+
+  const rest = decoder.decode();
+
+  if (rest.length > 0) {
+    yield rest;
+  }
+}
+
+/**
+ * Splits CSV text into records, handling quoted values spanning
+ * several chunks or lines
+ */
+class CsvSplitter {
+  private _separator: string;
+  private _field = "";
+  private _record: string[] = [];
+  private _quoted = false;
+  private _quotePending = false;
+  private _fieldQuoted = false;
+  private _lines = 1;
+  private _recordLine = 1;
+
+  constructor(separator: string) {
+    this._separator = separator;
+  }
+
+  /**
+   * Returns the records completed by a chunk, with their line number
+   */
+  push(text: string): Array<{ line: number; values: string[] }> {
+    const records = [];
+
+    for (const char of text) {
+      if (this._quoted) {
+        if (this._quotePending) {
+          this._quotePending = false;
+
+          if (char === '"') {
+            this._field += char;
+            continue;
+          }
+
+          this._quoted = false;
+        } else {
+          if (char === '"') {
+            this._quotePending = true;
+          } else {
+            if (char === "\n") {
+              this._lines++;
+            }
+
+            this._field += char;
+          }
+
+          continue;
+        }
+      }
+
+      if (char === '"' && this._field.length === 0 && !this._fieldQuoted) {
+        this._quoted = true;
+        this._fieldQuoted = true;
+      } else if (char === this._separator) {
+        this._endField();
+      } else if (char === "\n") {
+        records.push(this._endRecord());
+        this._lines++;
+        this._recordLine = this._lines;
+      } else if (char !== "\r") {
+        this._field += char;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Returns the last record, if the text does not end with a line break
+   */
+  end(): Array<{ line: number; values: string[] }> {
+    this._quoted = false;
+    this._quotePending = false;
+
+    if (this._field.length === 0 && this._record.length === 0) {
+      return [];
+    }
+
+    return [this._endRecord()];
+  }
+
+  private _endField() {
+    this._record.push(this._field);
+    this._field = "";
+    this._fieldQuoted = false;
+  }
+
+  private _endRecord() {
+    this._endField();
+
+    const record = { line: this._recordLine, values: this._record };
+
+    this._record = [];
+
+    return record;
+  }
+}
+
+function setPath(object: JSONObject, path: string, value: any) {
+  const keys = path.split(".");
+  let current = object;
+
+  for (const key of keys.slice(0, -1)) {
+    if (!current[key] || typeof current[key] !== "object") {
+      current[key] = {};
+    }
+
+    current = current[key];
+  }
+
+  current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Parses NDJSON lines, either shaped as `{ _id, body }` or being
+ * the document content itself
+ */
+async function* parseNdjson(source: ImportSource): AsyncGenerator<ImportRow> {
+  let buffer = "";
+  let line = 0;
+
+  const parse = (text: string): ImportRow => {
+    line++;
+
+    if (text.trim().length === 0) {
+      return null;
+    }
+
+    let parsed;
+
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      return { error: `Invalid JSON: ${error.message}`, row: line };
+    }
+
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return { error: "A document must be a JSON object", row: line };
+    }
+
+    const { _id, ...content } = parsed;
+    const document: ImportedDocument = {
+      body:
+        content.body && typeof content.body === "object"
+          ? content.body
+          : content,
+    };
+
+    if (_id !== undefined) {
+      document._id = _id;
+    }
+
+    return { document, row: line };
+  };
+
+  for await (const text of readText(source)) {
+    const lines = (buffer + text).split("\n");
+
+    buffer = lines.pop();
+
+    for (const content of lines) {
+      const row = parse(content);
+
+      if (row) {
+        yield row;
+      }
+    }
+  }
+
+  const row = parse(buffer);
+
+  if (row) {
+    yield row;
+  }
+}
+
+/**
+ * Parses CSV records, the first one holding the columns.
+ *
+ * Columns are paths of document fields (e.g. `address.city`),
+ * the `_id` column being the document ID. Empty values are ignored.
+ */
+async function* parseCsv(
+  source: ImportSource,
+  { separator = ",", cast = (value: string) => value }: ImportParserOptions
+): AsyncGenerator<ImportRow> {
+  const splitter = new CsvSplitter(separator);
+  let columns: string[] = null;
+
+  const parse = ({ line, values }): ImportRow => {
+    if (values.length === 1 && values[0].length === 0) {
+      return null;
+    }
+
+    if (!columns) {
+      columns = values;
+      return null;
+    }
+
+    if (values.length !== columns.length) {
+      return {
+        error: `Expected ${columns.length} values, got ${values.length}`,
+        row: line,
+      };
+    }
+
+    const document: ImportedDocument = { body: {} };
+
+    columns.forEach((column, i) => {
+      if (values[i].length === 0) {
+        return;
+      }
+
+      if (column === "_id") {
+        document._id = values[i];
+      } else {
+        setPath(document.body, column, cast(values[i], column));
+      }
+    });
+
+    return { document, row: line };
+  };
+
+  for await (const text of readText(source)) {
+    for (const record of splitter.push(text)) {
+      const row = parse(record);
+
+      if (row) {
+        yield row;
+      }
+    }
+  }
+
+  for (const record of splitter.end()) {
+    const row = parse(record);
+
+    if (row) {
+      yield row;
+    }
+  }
+}
+
+/**
+ * Iterates over the documents of an NDJSON or CSV source
+ */
+export function parseImportRows(
+  source: ImportSource,
+  format: ImportFormat,
+  options: ImportParserOptions = {}
+): AsyncGenerator<ImportRow> {
+  switch (format) {
+    case "ndjson":
+      return parseNdjson(source);
+    case "csv":
+      return parseCsv(source, options);
+    default:
+      throw new Error(
+        `Unknown import format "${format}". Expected one of: ndjson, csv`
+      );
+  }
+}
@@ -0,0 +1,407 @@
+import { KuzzleError } from "../../KuzzleError";
+import { JSONObject } from "../../types";
+import { getField } from "../../utils/object";
+import {
+  geoDistance,
+  inBoundingBox,
+  toBoundingBox,
+  toDistance,
+  toGeoPoint,
+} from "./geo";
+
+type Predicate = (document: JSONObject, _id: string) => boolean;
+
+export interface KoncordeValidationResult {
+  valid: boolean;
+
+  /**
+   * Why the filters are invalid
+   */
+  reason?: string;
+}
+
+const isObject = (value: any) =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const isScalar = (value: any) =>
+  value === null ||
+  typeof value === "string" ||
+  typeof value === "boolean" ||
+  (typeof value === "number" && Number.isFinite(value));
+
+class FilterSyntaxError extends Error {}
+
+function invalid(path: string, message: string): FilterSyntaxError {
+  return new FilterSyntaxError(`"${path}": ${message}`);
+}
+
+function field(path: string, term: any): [string, any] {
+  if (!isObject(term) || Object.keys(term).length !== 1) {
+    throw invalid(path, "must be an object with exactly one field");
+  }
+
+  const name = Object.keys(term)[0];
+
+  if (name.length === 0) {
+    throw invalid(path, "field name must not be empty");
+  }
+
+  return [name, term[name]];
+}
+
+function compileList(path: string, filters: any): Predicate[] {
+  if (!Array.isArray(filters) || filters.length === 0) {
+    throw invalid(path, "must be a non-empty array of filters");
+  }
+
+  return filters.map((filter, i) => compile(filter, `${path}[${i}]`));
+}
+
+function compileRange(path: string, term: any): Predicate {
+  const [name, bounds] = field(path, term);
+  const tests: Array<(value: number) => boolean> = [];
+
+  if (!isObject(bounds) || Object.keys(bounds).length === 0) {
+    throw invalid(`${path}.${name}`, "must be an object with range bounds");
+  }
+
+  if (
+    (bounds.gt !== undefined && bounds.gte !== undefined) ||
+    (bounds.lt !== undefined && bounds.lte !== undefined)
+  ) {
+    throw invalid(`${path}.${name}`, "a bound can only be given once");
+  }
+
+  for (const [bound, limit] of Object.entries(bounds)) {
+    if (typeof limit !== "number" || !Number.isFinite(limit)) {
+      throw invalid(`${path}.${name}.${bound}`, "must be a number");
+    }
+
+    switch (bound) {
+      case "gt":
+        tests.push((value) => value > limit);
+        break;
+      case "gte":
+        tests.push((value) => value >= limit);
+        break;
+      case "lt":
+        tests.push((value) => value < limit);
+        break;
+      case "lte":
+        tests.push((value) => value <= limit);
+        break;
+      default:
+        throw invalid(`${path}.${name}`, `unknown range bound "${bound}"`);
+    }
+  }
+
+  return (document) => {
+    const value = getField(document, name);
+
+    return typeof value === "number" && tests.every((test) => test(value));
+  };
+}
+
+/**
+ * Compiles `exists` terms: a field name, possibly followed by an array
+ * value in brackets (e.g. `tags["blue"]`), or the deprecated `{ field }` form
+ */
+function compileExists(path: string, term: any): Predicate {
+  const name = isObject(term) ? term.field : term;
+
+  if (typeof name !== "string" || name.length === 0) {
+    throw invalid(path, "must be a field name");
+  }
+
+  const match = name.match(/^(.+)\[(.+)\]$/);
+
+  if (match) {
+    let expected: any;
+
+    try {
+      expected = JSON.parse(match[2]);
+    } catch (error) {
+      throw invalid(path, `invalid array value ${match[2]}`);
+    }
+
+    if (!isScalar(expected)) {
+      throw invalid(path, "array values must be scalars");
+    }
+
+    return (document) => {
+      const value = getField(document, match[1]);
+
+      return Array.isArray(value) && value.includes(expected);
+    };
+  }
+
+  return (document) => {
+    const value = getField(document, name);
+
+    return value !== undefined && value !== null;
+  };
+}
+
+function compileRegexp(path: string, term: any): Predicate {
+  const [name, pattern] = field(path, term);
+  const source = isObject(pattern) ? pattern.value : pattern;
+  const flags = isObject(pattern) && pattern.flags ? pattern.flags : "";
+  let regexp: RegExp;
+
+  if (typeof source !== "string") {
+    throw invalid(`${path}.${name}`, "must be a regular expression string");
+  }
+
+  try {
+    regexp = new RegExp(source, flags);
+  } catch (error) {
+    throw invalid(`${path}.${name}`, error.message);
+  }
+
+  return (document) => {
+    const value = getField(document, name);
+
+    // Regular expressions with the "g" flag are stateful
+    regexp.lastIndex = 0;
+
+    return typeof value === "string" && regexp.test(value);
+  };
+}
+
+function compileGeoDistance(path: string, term: any): Predicate {
+  if (!isObject(term) || Object.keys(term).length !== 2) {
+    throw invalid(path, "must have a geopoint field and a distance");
+  }
+
+  const distance = toDistance(term.distance);
+  const name = Object.keys(term).find((key) => key !== "distance");
+  const center = name && toGeoPoint(term[name]);
+
+  if (distance === null) {
+    throw invalid(`${path}.distance`, "invalid distance");
+  }
+
+  if (!center) {
+    throw invalid(`${path}.${name}`, "invalid geopoint");
+  }
+
+  return (document) => {
+    const location = toGeoPoint(getField(document, name));
+
+    return location !== null && geoDistance(center, location) <= distance;
+  };
+}
+
+function compileGeoBoundingBox(path: string, term: any): Predicate {
+  const [name, value] = field(path, term);
+  const box = toBoundingBox(value);
+
+  if (!box) {
+    throw invalid(`${path}.${name}`, "invalid bounding box");
+  }
+
+  return (document) => {
+    const location = toGeoPoint(getField(document, name));
+
+    return location !== null && inBoundingBox(location, box);
+  };
+}
+
+function compileBool(path: string, term: any): Predicate {
+  if (!isObject(term) || Object.keys(term).length === 0) {
+    throw invalid(path, "must be an object with at least one clause");
+  }
+
+  for (const name of Object.keys(term)) {
+    if (!["must", "must_not", "should", "should_not"].includes(name)) {
+      throw invalid(path, `unknown clause "${name}"`);
+    }
+  }
+
+  const clauses = (name: string) =>
+    Object.prototype.hasOwnProperty.call(term, name)
+      ? compileList(
+          `${path}.${name}`,
+          Array.isArray(term[name]) ? term[name] : [term[name]]
+        )
+      : [];
+
+  const must = clauses("must");
+  const mustNot = clauses("must_not");
+  const should = clauses("should");
+  const shouldNot = clauses("should_not");
+
+  return (document, _id) =>
+    must.every((test) => test(document, _id)) &&
+    !mustNot.some((test) => test(document, _id)) &&
+    (should.length === 0 || should.some((test) => test(document, _id))) &&
+    (shouldNot.length === 0 || shouldNot.some((test) => !test(document, _id)));
+}
+
+function compile(filters: any, path: string): Predicate {
+  if (!isObject(filters)) {
+    throw invalid(path, "filters must be an object");
+  }
+
+  const keywords = Object.keys(filters);
+
+  if (keywords.length === 0) {
+    return () => true;
+  }
+
+  if (keywords.length > 1) {
+    throw invalid(path, "filters must have exactly one keyword");
+  }
+
+  const keyword = keywords[0];
+  const term = filters[keyword];
+  const termPath = path ? `${path}.${keyword}` : keyword;
+
+  switch (keyword) {
+    case "equals": {
+      const [name, expected] = field(termPath, term);
+
+      if (!isScalar(expected)) {
+        throw invalid(`${termPath}.${name}`, "must be a scalar value");
+      }
+
+      return (document) => getField(document, name) === expected;
+    }
+    case "in": {
+      const [name, values] = field(termPath, term);
+
+      if (
+        !Array.isArray(values) ||
+        values.length === 0 ||
+        !values.every((value) => typeof value === "string")
+      ) {
+        throw invalid(
+          `${termPath}.${name}`,
+          "must be a non-empty array of strings"
+        );
+      }
+
+      return (document) => values.includes(getField(document, name));
+    }
+    case "range":
+      return compileRange(termPath, term);
+    case "exists":
+      return compileExists(termPath, term);
+    case "missing": {
+      const exists = compileExists(termPath, term);
+
+      return (document, _id) => !exists(document, _id);
+    }
+    case "ids": {
+      if (
+        !isObject(term) ||
+        !Array.isArray(term.values) ||
+        !term.values.every((value) => typeof value === "string")
+      ) {
+        throw invalid(termPath, "must have an array of string values");
+      }
+
+      return (document, _id) => term.values.includes(_id);
+    }
+    case "regexp":
+      return compileRegexp(termPath, term);
+    case "geoDistance":
+      return compileGeoDistance(termPath, term);
+    case "geoBoundingBox":
+      return compileGeoBoundingBox(termPath, term);
+    case "and": {
+      const tests = compileList(termPath, term);
+
+      return (document, _id) => tests.every((test) => test(document, _id));
+    }
+    case "or": {
+      const tests = compileList(termPath, term);
+
+      return (document, _id) => tests.some((test) => test(document, _id));
+    }
+    case "not": {
+      const test = compile(term, termPath);
+
+      return (document, _id) => !test(document, _id);
+    }
+    case "bool":
+      return compileBool(termPath, term);
+    default:
+      throw invalid(termPath, "unknown keyword");
+  }
+}
+
+/**
+ * Koncorde filters evaluated locally, to know whether documents match
+ * a subscription without querying Kuzzle.
+ *
+ * Supported keywords: `equals`, `in`, `range`, `exists`, `missing`, `ids`,
+ * `regexp`, `geoDistance`, `geoBoundingBox`, `and`, `or`, `not` and `bool`.
+ *
+ * @see https://docs.kuzzle.io/core/2/api/koncorde-filters-syntax/
+ */
+export class KoncordeFilter {
+  private _filters: JSONObject;
+  private _test: Predicate;
+
+  /**
+   * Checks the syntax of Koncorde filters
+   */
+  static validate(filters: JSONObject): KoncordeValidationResult {
+    try {
+      compile(filters, "");
+    } catch (error) {
+      if (error instanceof FilterSyntaxError) {
+        return { reason: error.message, valid: false };
+      }
+
+      throw error;
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * @param filters Koncorde filters
+   * @throws {KuzzleError} if the filters are invalid, shaped like the error
+   *   returned by Kuzzle
+   */
+  constructor(filters: JSONObject) {
+    try {
+      this._test = compile(filters, "");
+    } catch (error) {
+      if (!(error instanceof FilterSyntaxError)) {
+        throw error;
+      }
+
+      throw new KuzzleError(
+        {
+          id: "api.assert.koncorde_dsl_error",
+          message: `Invalid Koncorde filters: ${error.message}`,
+          props: [error.message],
+          status: 400,
+        },
+        new Error().stack
+      );
+    }
+
+    this._filters = filters;
+  }
+
+  get filters(): JSONObject {
+    return this._filters;
+  }
+
+  /**
+   * Tests whether a document matches the filters
+   *
+   * @param document Document content
+   * @param _id Document ID, tested by the `ids` keyword (default: `document._id`)
+   */
+  test(document: JSONObject, _id?: string): boolean {
+    return this._test(
+      document || {},
+      _id === undefined && document ? document._id : _id
+    );
+  }
+}
@@ -0,0 +1,222 @@
+export type GeoPoint = { lat: number; lon: number };
+
+export type GeoBoundingBox = {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+};
+
+/**
+ * Mean Earth radius, in meters
+ */
+const EARTH_RADIUS = 6371008.8;
+
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+const GEOHASH_REGEXP = /^[0-9b-hjkmnp-z]{1,12}$/;
+
+const LAT_LON_REGEXP = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Distance units, in meters
+ */
+const DISTANCE_UNITS: { [unit: string]: number } = {
+  centimeter: 0.01,
+  centimeters: 0.01,
+  cm: 0.01,
+  feet: 0.3048,
+  foot: 0.3048,
+  ft: 0.3048,
+  in: 0.0254,
+  inch: 0.0254,
+  inches: 0.0254,
+  kilometer: 1000,
+  kilometers: 1000,
+  km: 1000,
+  m: 1,
+  meter: 1,
+  meters: 1,
+  mi: 1609.344,
+  mile: 1609.344,
+  miles: 1609.344,
+  millimeter: 0.001,
+  millimeters: 0.001,
+  mm: 0.001,
+  nauticalmile: 1852,
+  nauticalmiles: 1852,
+  nmi: 1852,
+  yard: 0.9144,
+  yards: 0.9144,
+  yd: 0.9144,
+};
+
+function isCoordinate(value: any, limit: number): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    Math.abs(value) <= limit
+  );
+}
+
+function point(lat: any, lon: any): GeoPoint {
+  return isCoordinate(lat, 90) && isCoordinate(lon, 180) ? { lat, lon } : null;
+}
+
+function decodeGeohash(geohash: string): GeoPoint {
+  let even = true;
+  const lat = [-90, 90];
+  const lon = [-180, 180];
+
+  for (const char of geohash) {
+    const bits = GEOHASH_ALPHABET.indexOf(char);
+
+    for (let mask = 16; mask > 0; mask >>= 1) {
+      const range = even ? lon : lat;
+      const middle = (range[0] + range[1]) / 2;
+
+      range[bits & mask ? 0 : 1] = middle;
+      even = !even;
+    }
+  }
+
+  return { lat: (lat[0] + lat[1]) / 2, lon: (lon[0] + lon[1]) / 2 };
+}
+
+/**
+ * Converts a geopoint to coordinates. Accepted formats:
+ *   - `{ lat, lon }`
+ *   - `{ latLon: [lat, lon] }` or `{ lat_lon: [lat, lon] }`, with any of the formats below
+ *   - `[lat, lon]`
+ *   - `"lat, lon"`
+ *   - a geohash
+ *
+ * @returns The coordinates, or null if the geopoint is invalid
+ */
+export function toGeoPoint(value: any): GeoPoint {
+  if (Array.isArray(value)) {
+    return value.length === 2 ? point(value[0], value[1]) : null;
+  }
+
+  if (typeof value === "string") {
+    const match = value.match(LAT_LON_REGEXP);
+
+    if (match) {
+      return point(Number(match[1]), Number(match[2]));
+    }
+
+    return GEOHASH_REGEXP.test(value) ? decodeGeohash(value) : null;
+  }
+
+  if (value !== null && typeof value === "object") {
+    if (value.latLon !== undefined || value.lat_lon !== undefined) {
+      return toGeoPoint(
+        value.latLon !== undefined ? value.latLon : value.lat_lon
+      );
+    }
+
+    return point(value.lat, value.lon);
+  }
+
+  return null;
+}
+
+/**
+ * Converts a distance to meters, from a number of meters or a string
+ * with a unit (e.g. `"500m"`, `"1.5 km"`, `"3 miles"`)
+ *
+ * @returns The distance in meters, or null if the distance is invalid
+ */
+export function toDistance(value: any): number {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = value
+    .toLowerCase()
+    .replace(/[\s_-]/g, "")
+    .match(/^(\d+(?:\.\d+)?)([a-z]*)$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const unit = match[2] || "m";
+
+  return DISTANCE_UNITS[unit] ? Number(match[1]) * DISTANCE_UNITS[unit] : null;
+}
+
+/**
+ * Converts a bounding box to its edges. Accepted formats:
+ *   - `{ top, left, bottom, right }`
+ *   - `{ topLeft, bottomRight }` or `{ top_left, bottom_right }`, with geopoints
+ *
+ * @returns The edges, or null if the bounding box is invalid
+ */
+export function toBoundingBox(value: any): GeoBoundingBox {
+  if (value === null || typeof value !== "object") {
+    return null;
+  }
+
+  if (value.top !== undefined) {
+    const { top, left, bottom, right } = value;
+
+    return isCoordinate(top, 90) &&
+      isCoordinate(bottom, 90) &&
+      isCoordinate(left, 180) &&
+      isCoordinate(right, 180)
+      ? { bottom, left, right, top }
+      : null;
+  }
+
+  const topLeft = toGeoPoint(
+    value.topLeft !== undefined ? value.topLeft : value.top_left
+  );
+  const bottomRight = toGeoPoint(
+    value.bottomRight !== undefined ? value.bottomRight : value.bottom_right
+  );
+
+  if (!topLeft || !bottomRight) {
+    return null;
+  }
+
+  return {
+    bottom: bottomRight.lat,
+    left: topLeft.lon,
+    right: bottomRight.lon,
+    top: topLeft.lat,
+  };
+}
+
+/**
+ * Great-circle distance between two points, in meters
+ */
+export function geoDistance(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Tests whether a point is in a bounding box, which can cross the antimeridian
+ */
+export function inBoundingBox(p: GeoPoint, box: GeoBoundingBox): boolean {
+  if (p.lat > box.top || p.lat < box.bottom) {
+    return false;
+  }
+
+  return box.left <= box.right
+    ? p.lon >= box.left && p.lon <= box.right
+    : p.lon >= box.left || p.lon <= box.right;
+}
@@ -0,0 +1,447 @@
+import { Kuzzle } from "../../Kuzzle";
+import { CollectionMappings, JSONObject } from "../../types";
+import { debug } from "../../utils/debug";
+import { uuidv4 } from "../../utils/uuidv4";
+
+/**
+ * Helpers given to migrations
+ */
+export interface MigrationContext {
+  sdk: Kuzzle;
+
+  /**
+   * Adds fields to the mappings of a collection
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/collection/update-mapping/
+   */
+  updateMapping(
+    index: string,
+    collection: string,
+    mappings: CollectionMappings
+  ): Promise<JSONObject>;
+
+  /**
+   * Replaces the validation specifications of a collection
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/collection/update-specifications/
+   */
+  updateSpecifications(
+    index: string,
+    collection: string,
+    specifications: JSONObject
+  ): Promise<JSONObject>;
+
+  /**
+   * Applies changes to the documents matching a query, and waits for
+   * the updated documents to be indexed
+   *
+   * @see https://docs.kuzzle.io/sdk/js/7/controllers/document/update-by-query/
+   */
+  updateByQuery(
+    index: string,
+    collection: string,
+    query: JSONObject,
+    changes: JSONObject
+  ): Promise<{ successes: any[]; errors: any[] }>;
+}
+
+export interface Migration {
+  /**
+   * Unique name of the migration, which must not start with an underscore
+   */
+  name: string;
+
+  /**
+   * Applies the migration
+   */
+  up: (context: MigrationContext) => Promise<void> | void;
+
+  /**
+   * Reverts the migration
+   */
+  down?: (context: MigrationContext) => Promise<void> | void;
+}
+
+export interface MigrationStatus {
+  name: string;
+
+  applied: boolean;
+
+  /**
+   * Application timestamp, or null
+   */
+  appliedAt: number;
+}
+
+export interface MigrationRunnerOptions {
+  /**
+   * Index of the collection storing the applied migrations
+   */
+  index: string;
+
+  /**
+   * Collection storing the applied migrations (default: `migrations`)
+   */
+  collection?: string;
+
+  /**
+   * Duration in ms after which a lock left by a crashed runner can be
+   * taken over. Must exceed the duration of the migrations (default: 15 minutes)
+   */
+  lockTtl?: number;
+
+  /**
+   * Name identifying this runner in locks (default: random ID)
+   */
+  owner?: string;
+}
+
+/**
+ * ID of the ledger document locking the migrations
+ */
+const LOCK_ID = "migrations-lock";
+
+/**
+ * Number of documents read per request when the server configuration
+ * cannot be fetched
+ */
+const FALLBACK_READ_LIMIT = 200;
+
+const LEDGER_MAPPINGS: CollectionMappings = {
+  dynamic: "false",
+  properties: {
+    appliedAt: { type: "date" },
+    expiresAt: { type: "date" },
+    lockedAt: { type: "date" },
+    name: { type: "keyword" },
+    owner: { type: "keyword" },
+  },
+};
+
+/**
+ * Applies or reverts ordered migrations.
+ *
+ * Applied migrations are recorded in a Kuzzle collection, which also holds
+ * a lock preventing several runners from migrating at the same time.
+ *
+ * @example
+ * ```
+ * const runner = new MigrationRunner(sdk, [
+ *   {
+ *     name: "2022-09-01-add-serial",
+ *     up: ({ updateMapping }) =>
+ *       updateMapping("iot", "devices", { properties: { serial: { type: "keyword" } } }),
+ *   },
+ * ], { index: "iot" });
+ *
+ * await runner.up();
+ * ```
+ */
+export class MigrationRunner {
+  private _sdk: Kuzzle;
+  private _migrations: Migration[];
+  private _index: string;
+  private _collection: string;
+  private _lockTtl: number;
+  private _owner: string;
+
+  /**
+   * @param sdk SDK instance
+   * @param migrations Migrations, in the order they must be applied
+   * @param options Runner options
+   */
+  constructor(
+    sdk: Kuzzle,
+    migrations: Migration[],
+    options: MigrationRunnerOptions
+  ) {
+    const names = new Set<string>();
+
+    for (const { name } of migrations) {
+      if (typeof name !== "string" || name.length === 0 || name[0] === "_") {
+        throw new Error(`MigrationRunner: invalid migration name "${name}"`);
+      }
+
+      if (names.has(name) || name === LOCK_ID) {
+        throw new Error(`MigrationRunner: duplicate migration name "${name}"`);
+      }
+
+      names.add(name);
+    }
+
+    if (!options || !options.index) {
+      throw new Error("MigrationRunner: options.index is required");
+    }
+
+    Reflect.defineProperty(this, "_sdk", {
+      value: sdk,
+    });
+
+    this._migrations = migrations;
+    this._index = options.index;
+    this._collection = options.collection || "migrations";
+    this._lockTtl = options.lockTtl || 15 * 60 * 1000;
+    this._owner = options.owner || uuidv4();
+  }
+
+  /**
+   * Lists the migrations and whether they are applied
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this._createLedger();
+
+    const applied = await this._getApplied();
+
+    return this._migrations.map(({ name }) => ({
+      applied: applied.has(name),
+      appliedAt: applied.has(name) ? applied.get(name) : null,
+      name,
+    }));
+  }
+
+  /**
+   * Applies the pending migrations, in order
+   *
+   * @param options.to Name of the last migration to apply (default: every migration)
+   *
+   * @returns Names of the applied migrations
+   */
+  async up({ to }: { to?: string } = {}): Promise<string[]> {
+    const last =
+      to === undefined ? this._migrations.length - 1 : this._find(to);
+
+    return this._locked(async (context) => {
+      const applied = await this._getApplied();
+      const names = [];
+
+      for (const migration of this._migrations.slice(0, last + 1)) {
+        if (applied.has(migration.name)) {
+          continue;
+        }
+
+        await migration.up(context);
+
+        await this._sdk.document.create(
+          this._index,
+          this._collection,
+          { appliedAt: Date.now(), name: migration.name },
+          migration.name,
+          { refresh: "wait_for" }
+        );
+
+        names.push(migration.name);
+      }
+
+      return names;
+    });
+  }
+
+  /**
+   * Reverts applied migrations, in reverse order
+   *
+   * @param options.to Name of the last migration to keep (default: reverts only the last applied migration)
+   *
+   * @returns Names of the reverted migrations
+   */
+  async down({ to }: { to?: string } = {}): Promise<string[]> {
+    const kept = to === undefined ? -1 : this._find(to);
+
+    return this._locked(async (context) => {
+      const applied = await this._getApplied();
+      const names = [];
+
+      for (let i = this._migrations.length - 1; i > kept; i--) {
+        const migration = this._migrations[i];
+
+        if (!applied.has(migration.name)) {
+          continue;
+        }
+
+        if (!migration.down) {
+          throw new Error(
+            `Migration "${migration.name}" cannot be reverted: it has no "down" function`
+          );
+        }
+
+        await migration.down(context);
+
+        await this._sdk.document.delete(
+          this._index,
+          this._collection,
+          migration.name,
+          { refresh: "wait_for" }
+        );
+
+        names.push(migration.name);
+
+        if (to === undefined) {
+          break;
+        }
+      }
+
+      return names;
+    });
+  }
+
+  private _find(name: string): number {
+    const position = this._migrations.findIndex(
+      (migration) => migration.name === name
+    );
+
+    if (position === -1) {
+      throw new Error(`MigrationRunner: unknown migration "${name}"`);
+    }
+
+    return position;
+  }
+
+  /**
+   * Returns the application date of applied migrations.
+   *
+   * The ledger is read with as many requests as needed to respect the
+   * `limits.documentsReadCount` server configuration, bypassing the query cache.
+   */
+  private async _getApplied(): Promise<Map<string, number>> {
+    const applied = new Map<string, number>();
+
+    if (this._migrations.length === 0) {
+      return applied;
+    }
+
+    const names = this._migrations.map(({ name }) => name);
+    const readLimit = await this._getReadLimit();
+
+    for (let i = 0; i < names.length; i += readLimit) {
+      const { successes } = await this._sdk.document.mGet(
+        this._index,
+        this._collection,
+        names.slice(i, i + readLimit),
+        { cache: false }
+      );
+
+      for (const document of successes) {
+        applied.set(document._id, document._source.appliedAt);
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Fetches the maximum number of documents per read request from
+   * the server configuration
+   */
+  private async _getReadLimit(): Promise<number> {
+    try {
+      const config = await this._sdk.server.getConfig({});
+      const limit = config && config.limits && config.limits.documentsReadCount;
+
+      return typeof limit === "number" && limit > 0
+        ? limit
+        : FALLBACK_READ_LIMIT;
+    } catch (error) {
+      debug("MIGRATION RUNNER CONFIG ERROR", error);
+      return FALLBACK_READ_LIMIT;
+    }
+  }
+
+  private async _createLedger() {
+    if (!(await this._sdk.index.exists(this._index))) {
+      await this._sdk.index.create(this._index);
+    }
+
+    await this._sdk.collection.create(this._index, this._collection, {
+      mappings: LEDGER_MAPPINGS,
+    });
+  }
+
+  /**
+   * Runs a function while holding the migrations lock
+   */
+  private async _locked<T>(
+    fn: (context: MigrationContext) => Promise<T>
+  ): Promise<T> {
+    await this._createLedger();
+    await this._lock();
+
+    try {
+      return await fn({
+        sdk: this._sdk,
+        updateByQuery: (index, collection, query, changes) =>
+          this._sdk.document.updateByQuery(index, collection, query, changes, {
+            refresh: "wait_for",
+          }),
+        updateMapping: (index, collection, mappings) =>
+          this._sdk.collection.updateMapping(index, collection, mappings),
+        updateSpecifications: (index, collection, specifications) =>
+          this._sdk.collection.updateSpecifications(
+            index,
+            collection,
+            specifications
+          ),
+      });
+    } finally {
+      await this._unlock(this._owner);
+    }
+  }
+
+  /**
+   * Creates the lock document, which fails if it already exists.
+   *
+   * Expired locks are deleted only if they have not been taken over
+   * by another runner in the meantime.
+   */
+  private async _lock(takeOver = true): Promise<void> {
+    const now = Date.now();
+
+    try {
+      await this._sdk.document.create(
+        this._index,
+        this._collection,
+        { expiresAt: now + this._lockTtl, lockedAt: now, owner: this._owner },
+        LOCK_ID,
+        { refresh: "wait_for" }
+      );
+      return;
+    } catch (error) {
+      if (error.id !== "services.storage.document_already_exists") {
+        throw error;
+      }
+    }
+
+    const lock = await this._sdk.document
+      .get(this._index, this._collection, LOCK_ID, { cache: false })
+      .catch(() => null);
+
+    if (takeOver && (!lock || lock._source.expiresAt <= now)) {
+      if (lock) {
+        await this._unlock(lock._source.owner);
+      }
+
+      return this._lock(false);
+    }
+
+    throw new Error(
+      lock
+        ? `Migrations are locked by "${lock._source.owner}" since ${new Date(
+            lock._source.lockedAt
+          ).toISOString()}`
+        : "Migrations are locked by another runner"
+    );
+  }
+
+  private async _unlock(owner: string): Promise<void> {
+    await this._sdk.document.deleteByQuery(
+      this._index,
+      this._collection,
+      {
+        query: {
+          bool: {
+            filter: [{ ids: { values: [LOCK_ID] } }, { term: { owner } }],
+          },
+        },
+      },
+      { refresh: "wait_for" }
+    );
+  }
+}
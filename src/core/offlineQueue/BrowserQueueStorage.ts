@@ -0,0 +1,78 @@
+import { OfflineQueueStorage, QueuedRequest } from "./OfflineQueueStorage";
+
+/**
+ * Key/value store compatible with the Web Storage API.
+ *
+ * Methods can be asynchronous, so IndexedDB wrappers exposing the same
+ * interface (e.g. localForage) can be used as well as `localStorage`.
+ */
+export interface KeyValueStore {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Browser offline queue storage.
+ *
+ * Uses `window.localStorage` by default.
+ */
+export class BrowserQueueStorage implements OfflineQueueStorage {
+  private _key: string;
+  private _store: KeyValueStore;
+
+  /**
+   * @param options
+   *    - `key` Key under which the offline queue is stored (default: `kuzzle-sdk-offline-queue`)
+   *    - `store` Web Storage compatible store (default: `window.localStorage`)
+   */
+  constructor(
+    options: {
+      key?: string;
+      store?: KeyValueStore;
+    } = {}
+  ) {
+    this._key =
+      typeof options.key === "string"
+        ? options.key
+        : "kuzzle-sdk-offline-queue";
+
+    if (options.store) {
+      this._store = options.store;
+    } else if (typeof window !== "undefined" && window.localStorage) {
+      this._store = window.localStorage;
+    } else {
+      throw new Error(
+        'BrowserQueueStorage: no "store" option provided and localStorage is not available'
+      );
+    }
+  }
+
+  /**
+   * Key under which the offline queue is stored
+   */
+  get key(): string {
+    return this._key;
+  }
+
+  async load(): Promise<QueuedRequest[]> {
+    const content = await this._store.getItem(this._key);
+
+    if (!content) {
+      return [];
+    }
+
+    const queue = JSON.parse(content);
+
+    return Array.isArray(queue) ? queue : [];
+  }
+
+  async save(queue: QueuedRequest[]): Promise<void> {
+    if (queue.length === 0) {
+      await this._store.removeItem(this._key);
+      return;
+    }
+
+    await this._store.setItem(this._key, JSON.stringify(queue));
+  }
+}
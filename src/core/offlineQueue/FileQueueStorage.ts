@@ -0,0 +1,67 @@
+import * as fs from "fs";
+
+import { OfflineQueueStorage, QueuedRequest } from "./OfflineQueueStorage";
+
+/**
+ * Node.js offline queue storage writing queued requests in a JSON file.
+ * It is not included in the browser build.
+ *
+ * The file is rewritten atomically (temporary file + rename) on every change
+ * of the offline queue.
+ */
+export class FileQueueStorage implements OfflineQueueStorage {
+  private _path: string;
+
+  /**
+   * @param path Path of the file used to persist the offline queue
+   */
+  constructor(path: string) {
+    if (typeof path !== "string" || path.length === 0) {
+      throw new Error('FileQueueStorage: "path" argument missing');
+    }
+
+    if (typeof window !== "undefined") {
+      throw new Error(
+        "FileQueueStorage is not supported in a browser, use BrowserQueueStorage instead"
+      );
+    }
+
+    this._path = path;
+  }
+
+  /**
+   * Path of the file used to persist the offline queue
+   */
+  get path(): string {
+    return this._path;
+  }
+
+  load(): QueuedRequest[] {
+    if (!fs.existsSync(this._path)) {
+      return [];
+    }
+
+    const content = fs.readFileSync(this._path, "utf8");
+
+    if (content.trim().length === 0) {
+      return [];
+    }
+
+    const queue = JSON.parse(content);
+
+    if (!Array.isArray(queue)) {
+      throw new Error(
+        `FileQueueStorage: invalid offline queue file "${this._path}": expected an array`
+      );
+    }
+
+    return queue;
+  }
+
+  save(queue: QueuedRequest[]) {
+    const tmpPath = `${this._path}.tmp`;
+
+    fs.writeFileSync(tmpPath, JSON.stringify(queue));
+    fs.renameSync(tmpPath, this._path);
+  }
+}
@@ -0,0 +1,17 @@
+import { OfflineQueueStorage, QueuedRequest } from "./OfflineQueueStorage";
+
+/**
+ * Default offline queue storage: queued requests only live in memory
+ * and are lost when the process exits.
+ */
+export class MemoryQueueStorage implements OfflineQueueStorage {
+  private _queue: QueuedRequest[] = [];
+
+  load(): QueuedRequest[] {
+    return this._queue;
+  }
+
+  save(queue: QueuedRequest[]) {
+    this._queue = queue;
+  }
+}
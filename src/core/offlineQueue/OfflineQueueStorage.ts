@@ -0,0 +1,56 @@
+import { RequestPayload } from "../../types/RequestPayload";
+
+/**
+ * Serializable representation of a request kept in the offline queue.
+ */
+export interface QueuedRequest {
+  /**
+   * Queued request payload (the authentication token is never stored)
+   */
+  request: RequestPayload;
+
+  /**
+   * Request timeout in milliseconds (`-1` to wait indefinitely)
+   */
+  timeout: number;
+
+  /**
+   * Timestamp at which the request has been queued
+   */
+  ts: number;
+}
+
+/**
+ * Storage backend used to persist the offline queue across restarts.
+ *
+ * Both methods can be either synchronous or asynchronous.
+ */
+export interface OfflineQueueStorage {
+  /**
+   * Loads previously persisted queued requests
+   */
+  load(): QueuedRequest[] | Promise<QueuedRequest[]>;
+
+  /**
+   * Replaces the persisted queue with the provided one
+   */
+  save(queue: QueuedRequest[]): void | Promise<void>;
+}
+
+/**
+ * Converts offline queue items to their serializable representation.
+ *
+ * The authentication token is removed from the request because it must not
+ * be written to a durable storage: it is added back when the request is replayed.
+ */
+export function serializeQueue(queue: Array<any>): QueuedRequest[] {
+  return queue.map(({ request, timeout, ts }) => {
+    const { jwt, ...payload } = request; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+    return {
+      request: payload,
+      timeout: typeof timeout === "number" ? timeout : -1,
+      ts: typeof ts === "number" ? ts : Date.now(),
+    };
+  });
+}
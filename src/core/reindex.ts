@@ -0,0 +1,307 @@
+import { Kuzzle } from "../Kuzzle";
+import { CollectionMappings, JSONObject } from "../types";
+import { debug } from "../utils/debug";
+import { KuzzleEventEmitter } from "./KuzzleEventEmitter";
+
+/**
+ * Collection read or written by a reindexation
+ */
+export type ReindexCollection = {
+  /**
+   * SDK instance connected to the Kuzzle holding the collection.
+   * Defaults to the SDK of the source collection for the target one.
+   */
+  sdk?: Kuzzle;
+  index: string;
+  collection: string;
+};
+
+/**
+ * Reindexed document
+ */
+export type ReindexDocument = {
+  _id: string;
+  body: JSONObject;
+};
+
+export interface ReindexProgress {
+  /**
+   * Number of documents written in the target collection
+   */
+  copied: number;
+
+  /**
+   * Number of documents discarded by the transform function
+   */
+  skipped: number;
+
+  /**
+   * Number of documents rejected by the target collection
+   */
+  failed: number;
+
+  /**
+   * Total number of documents to reindex
+   */
+  total: number;
+}
+
+export interface ReindexFailure {
+  _id: string;
+
+  /**
+   * HTTP error status code
+   */
+  status: number;
+
+  /**
+   * Human readable reason
+   */
+  reason: string;
+}
+
+export interface ReindexResult extends ReindexProgress {
+  /**
+   * Documents rejected by the target collection
+   */
+  failures: ReindexFailure[];
+}
+
+export interface ReindexOptions {
+  /**
+   * Query of the reindexed documents (default: every document)
+   */
+  query?: JSONObject;
+
+  /**
+   * Query language (`elasticsearch` or `koncorde`)
+   */
+  lang?: string;
+
+  /**
+   * Changes a document before it is written. Documents are discarded when
+   * it returns null or undefined.
+   */
+  transform?: (
+    document: ReindexDocument
+  ) => ReindexDocument | null | Promise<ReindexDocument | null>;
+
+  /**
+   * Mappings of the target collection (default: mappings of the source collection)
+   */
+  mappings?: CollectionMappings;
+
+  /**
+   * Number of documents copied per request, capped by the
+   * `limits.documentsWriteCount` configuration of the target Kuzzle,
+   * fetched with `server:getConfig` (default: `100`)
+   */
+  size?: number;
+
+  /**
+   * TTL of the scroll cursor between two pages (default: `20s`)
+   */
+  scroll?: string;
+
+  /**
+   * If set to `wait_for`, Kuzzle will not respond until the documents are indexed
+   */
+  refresh?: "wait_for" | "false";
+
+  /**
+   * If true, Kuzzle will trigger realtime notifications
+   */
+  notify?: boolean;
+}
+
+/**
+ * Write limit used when the server configuration cannot be fetched
+ */
+const FALLBACK_WRITE_LIMIT = 200;
+
+/**
+ * Copies the documents of a collection to another one, possibly in another
+ * Kuzzle instance.
+ *
+ * The target index and collection are created if needed, with the mappings
+ * of the source collection unless other mappings are provided.
+ *
+ * Documents are written as is with `bulk:mWrite`, metadata included,
+ * one page at a time.
+ *
+ * Emits a `progress` event each time a page of documents has been copied.
+ *
+ * @example
+ * ```
+ * const reindexer = new CollectionReindexer(
+ *   { sdk, index: "iot", collection: "devices" },
+ *   { index: "iot", collection: "devices-v2" },
+ *   {
+ *     mappings: { properties: { serial: { type: "keyword" } } },
+ *     transform: ({ _id, body }) => ({ _id, body: { ...body, serial: _id } }),
+ *   }
+ * );
+ *
+ * reindexer.on("progress", ({ copied, total }) => console.log(copied, total));
+ *
+ * const result = await reindexer.reindex();
+ * ```
+ */
+export class CollectionReindexer extends KuzzleEventEmitter {
+  private _sourceSdk: Kuzzle;
+  private _targetSdk: Kuzzle;
+  private _source: ReindexCollection;
+  private _target: ReindexCollection;
+  private _options: ReindexOptions;
+
+  /**
+   * @param source Collection to copy the documents from
+   * @param target Collection to copy the documents to
+   * @param options Reindexation options
+   */
+  constructor(
+    source: ReindexCollection,
+    target: ReindexCollection,
+    options: ReindexOptions = {}
+  ) {
+    super();
+
+    if (!source.sdk) {
+      throw new Error("reindex: the SDK of the source collection is required");
+    }
+
+    if (
+      (target.sdk || source.sdk) === source.sdk &&
+      source.index === target.index &&
+      source.collection === target.collection
+    ) {
+      throw new Error(
+        "reindex: the source and target collections must be different"
+      );
+    }
+
+    Reflect.defineProperty(this, "_sourceSdk", {
+      value: source.sdk,
+    });
+    Reflect.defineProperty(this, "_targetSdk", {
+      value: target.sdk || source.sdk,
+    });
+
+    this._source = { collection: source.collection, index: source.index };
+    this._target = { collection: target.collection, index: target.index };
+    this._options = options;
+  }
+
+  /**
+   * Copies the documents
+   *
+   * @returns The number of copied documents, and the rejected ones
+   */
+  async reindex(): Promise<ReindexResult> {
+    const source = this._source;
+    const target = this._target;
+    const {
+      query,
+      lang,
+      transform = (document: ReindexDocument) => document,
+      size = 100,
+      scroll = "20s",
+      refresh,
+      notify,
+    } = this._options;
+
+    const mappings =
+      this._options.mappings ||
+      (await this._sourceSdk.collection.getMapping(
+        source.index,
+        source.collection
+      ));
+
+    if (!(await this._targetSdk.index.exists(target.index))) {
+      await this._targetSdk.index.create(target.index);
+    }
+
+    await this._targetSdk.collection.create(target.index, target.collection, {
+      mappings,
+    });
+
+    const firstPage = await this._sourceSdk.document.search(
+      source.index,
+      source.collection,
+      query ? { query } : {},
+      { lang, scroll, size: Math.min(size, await this._getWriteLimit()) }
+    );
+
+    const result: ReindexResult = {
+      copied: 0,
+      failed: 0,
+      failures: [],
+      skipped: 0,
+      total: firstPage.total,
+    };
+
+    for await (const page of firstPage.iteratePages()) {
+      const documents = [];
+
+      for (const hit of page.hits) {
+        const document = await transform({ _id: hit._id, body: hit._source });
+
+        if (document) {
+          documents.push({ _id: document._id, _source: document.body });
+        } else {
+          result.skipped++;
+        }
+      }
+
+      if (documents.length > 0) {
+        const { successes, errors } = await this._targetSdk.bulk.mWrite(
+          target.index,
+          target.collection,
+          documents,
+          { notify, refresh }
+        );
+
+        result.copied += successes.length;
+        result.failed += errors.length;
+
+        for (const error of errors) {
+          result.failures.push({
+            _id: error.document._id,
+            reason: error.reason,
+            status: error.status,
+          });
+        }
+      }
+
+      result.total = page.total;
+
+      this.emit("progress", {
+        copied: result.copied,
+        failed: result.failed,
+        skipped: result.skipped,
+        total: result.total,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetches the maximum number of documents per write request from
+   * the configuration of the target Kuzzle
+   */
+  private async _getWriteLimit(): Promise<number> {
+    try {
+      const config = await this._targetSdk.server.getConfig({});
+      const limit =
+        config && config.limits && config.limits.documentsWriteCount;
+
+      return typeof limit === "number" && limit > 0
+        ? limit
+        : FALLBACK_WRITE_LIMIT;
+    } catch (error) {
+      debug("COLLECTION REINDEXER CONFIG ERROR", error);
+      return FALLBACK_WRITE_LIMIT;
+    }
+  }
+}
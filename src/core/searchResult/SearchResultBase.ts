@@ -1,6 +1,7 @@
 import { BaseRequest, JSONObject } from "../../types";
 import { RequestPayload } from "../../types/RequestPayload";
 import { Kuzzle } from "../../Kuzzle";
+import { omit } from "../../utils/object";
 
 export interface SearchResult<T> {
   /**
@@ -37,9 +38,164 @@ export interface SearchResult<T> {
    * @returns A SearchResult or null if no more pages
    */
   next(): Promise<SearchResult<T> | null>;
+
+  /**
+   * Iterates over the result pages, starting with this one.
+   *
+   * Leaving the loop early releases the scroll cursor of the search.
+   *
+   * @example
+   * for await (const page of result.iteratePages()) {
+   *   // process page.hits here
+   * }
+   */
+  iteratePages(): AsyncGenerator<SearchResult<T>, void, undefined>;
+
+  /**
+   * Iterates over the hits of every result page, starting with this one.
+   *
+   * Leaving the loop early releases the scroll cursor of the search.
+   *
+   * @example
+   * for await (const hit of result.iterateHits()) {
+   *   // process hit here
+   * }
+   */
+  iterateHits(): AsyncGenerator<T, void, undefined>;
+
+  /**
+   * Iterates over the result pages, like `iteratePages`
+   *
+   * @example
+   * for await (const page of result) {
+   *   // process page.hits here
+   * }
+   */
+  [Symbol.asyncIterator](): AsyncIterator<SearchResult<T>>;
+
+  /**
+   * Shortens the TTL of the scroll cursor of a search which has not been
+   * fully fetched, so it expires right away. Does nothing for other searches.
+   *
+   * Kuzzle cannot delete scroll cursors: this sends one more scroll request,
+   * whose page of results is discarded.
+   */
+  clear(): Promise<void>;
+}
+
+async function* iteratePages<T>(
+  first: SearchResult<T>
+): AsyncGenerator<SearchResult<T>, void, undefined> {
+  let page = first;
+
+  try {
+    while (page) {
+      yield page;
+      page = await page.next();
+    }
+  } finally {
+    // The loop has been left early, or a page could not be fetched
+    if (page) {
+      await page.clear().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Kuzzle does not allow to clear a scroll cursor: it is renewed with
+ * a TTL short enough to expire right away, at the cost of fetching one
+ * more page of results (the scroll action has no size parameter)
+ */
+const SCROLL_CLEAR_TTL = "1s";
+
+/**
+ * Ways of fetching the next pages of a search:
+ *   - "scroll": uses the scroll cursor of the search (`scroll` option)
+ *   - "searchAfter": starts after the last hit of the previous page, using
+ *     the sort values of the search (`size` option and sorted search)
+ *   - "fromSize": skips the hits already fetched (`size` option)
+ */
+export type SearchPaginationStrategy = "scroll" | "searchAfter" | "fromSize";
+
+const PAGINATION_STRATEGIES = ["scroll", "searchAfter", "fromSize"];
+
+function toSortList(sort: any): any[] {
+  if (!sort) {
+    return [];
+  }
+
+  if (typeof sort === "string") {
+    return [sort];
+  }
+
+  if (Array.isArray(sort)) {
+    return sort;
+  }
+
+  return Object.keys(sort);
 }
 
 export class SearchResultBase<T> implements SearchResult<T> {
+  /**
+   * Prepares a search request for its pagination strategy.
+   *
+   * Searches paginated with "search after" are sorted on the document `_id`
+   * last, so pages never skip hits having the same sort values.
+   *
+   * @param request Search request, with its `body` or `searchBody`
+   * @param options Search options, with an optional `pagination` strategy
+   */
+  static preparePagination(request: JSONObject, options: JSONObject = {}) {
+    const strategy = options.pagination;
+
+    if (
+      strategy !== undefined &&
+      strategy !== null &&
+      !PAGINATION_STRATEGIES.includes(strategy)
+    ) {
+      throw new Error(
+        `Unknown pagination strategy "${strategy}". Expected one of: ${PAGINATION_STRATEGIES.join(
+          ", "
+        )}`
+      );
+    }
+
+    const key = request.searchBody ? "searchBody" : "body";
+    const body = request[key];
+
+    if (!body || !request.size) {
+      return;
+    }
+
+    if (
+      strategy !== "searchAfter" &&
+      (strategy || request.scroll || !body.sort)
+    ) {
+      return;
+    }
+
+    const sorts = toSortList(body.sort);
+    const sortedOnId = sorts.some(
+      (sort) =>
+        (typeof sort === "string" ? sort : Object.keys(sort)[0]) === "_id"
+    );
+
+    if (sortedOnId) {
+      return;
+    }
+
+    // The search body is copied to leave the caller's one untouched
+    if (
+      body.sort &&
+      typeof body.sort === "object" &&
+      !Array.isArray(body.sort)
+    ) {
+      request[key] = { ...body, sort: { ...body.sort, _id: "asc" } };
+    } else {
+      request[key] = { ...body, sort: [...sorts, "_id"] };
+    }
+  }
+
   protected _searchAction: string;
   protected _scrollAction: string;
   protected _controller: string;
@@ -101,7 +257,9 @@ export class SearchResultBase<T> implements SearchResult<T> {
       return Promise.resolve(null);
     }
 
-    if (this._request.scroll) {
+    const strategy = this._getPaginationStrategy();
+
+    if (strategy === "scroll") {
       return this._kuzzle
         .query({
           action: this._scrollAction,
@@ -110,7 +268,7 @@ export class SearchResultBase<T> implements SearchResult<T> {
           scrollId: this._result.scrollId,
         })
         .then(({ result }) => this._buildNextSearchResult(result));
-    } else if (this._request.size && this._request.body.sort) {
+    } else if (strategy === "searchAfter") {
       const request = { ...this._request, action: this._searchAction };
       const hit = this._result.hits[this._result.hits.length - 1];
 
@@ -127,16 +285,8 @@ export class SearchResultBase<T> implements SearchResult<T> {
         );
       }
 
-      request.body.search_after = [];
-
-      let sorts;
-      if (typeof this._request.body.sort === "string") {
-        sorts = [this._request.body.sort];
-      } else if (Array.isArray(this._request.body.sort)) {
-        sorts = this._request.body.sort;
-      } else {
-        sorts = Object.keys(this._request.body.sort);
-      }
+      const body = this._getSearchBody();
+      const sorts = toSortList(body.sort);
 
       if (sorts.length === 0) {
         return Promise.reject(
@@ -146,19 +296,21 @@ export class SearchResultBase<T> implements SearchResult<T> {
         );
       }
 
+      body.search_after = [];
+
       for (const sort of sorts) {
         const key = typeof sort === "string" ? sort : Object.keys(sort)[0];
 
         const value =
           key === "_id" ? hit._id : this._get(hit._source, key.split("."));
 
-        request.body.search_after.push(value);
+        body.search_after.push(value);
       }
 
       return this._kuzzle
-        .query(request, this._options)
-        .then(({ result }) => this._buildNextSearchResult(result));
-    } else if (this._request.size) {
+        .query(request, omit(this._options, ["pagination"]))
+        .then(({ result }) => this._buildNextPage(result));
+    } else if (strategy === "fromSize") {
       if (this._request.from >= this._result.total) {
         return Promise.resolve(null);
       }
@@ -170,9 +322,17 @@ export class SearchResultBase<T> implements SearchResult<T> {
             action: this._searchAction,
             from: this.fetched,
           },
-          this._options
+          omit(this._options, ["pagination"])
         )
-        .then(({ result }) => this._buildNextSearchResult(result));
+        .then(({ result }) => this._buildNextPage(result));
+    }
+
+    if (this._options.pagination) {
+      return Promise.reject(
+        new Error(
+          `Unable to retrieve next results from search: missing parameters for the "${this._options.pagination}" pagination strategy`
+        )
+      );
     }
 
     return Promise.reject(
@@ -182,6 +342,39 @@ export class SearchResultBase<T> implements SearchResult<T> {
     );
   }
 
+  iteratePages(): AsyncGenerator<SearchResult<T>, void, undefined> {
+    return iteratePages(this);
+  }
+
+  async *iterateHits(): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.iteratePages()) {
+      yield* page.hits;
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<SearchResult<T>> {
+    return this.iteratePages();
+  }
+
+  clear(): Promise<void> {
+    if (
+      !this._request.scroll ||
+      !this._result.scrollId ||
+      this.fetched >= this.total
+    ) {
+      return Promise.resolve();
+    }
+
+    return this._kuzzle
+      .query({
+        action: this._scrollAction,
+        controller: this._request.controller,
+        scroll: SCROLL_CLEAR_TTL,
+        scrollId: this._result.scrollId,
+      })
+      .then(() => undefined);
+  }
+
   protected _get(object, path) {
     if (!object) {
       return object;
@@ -195,6 +388,61 @@ export class SearchResultBase<T> implements SearchResult<T> {
     return this._get(object[key], path);
   }
 
+  /**
+   * Returns the pagination strategy of the search, or null if the search
+   * cannot be paginated.
+   *
+   * Explicit strategies which cannot be applied to the search request
+   * are returned as an empty string.
+   */
+  protected _getPaginationStrategy(): SearchPaginationStrategy | "" | null {
+    const body = this._getSearchBody();
+    const strategy: SearchPaginationStrategy = this._options.pagination;
+
+    if (!strategy) {
+      if (this._request.scroll) {
+        return "scroll";
+      }
+
+      if (this._request.size) {
+        return body.sort ? "searchAfter" : "fromSize";
+      }
+
+      return null;
+    }
+
+    if (
+      (strategy === "scroll" && this._request.scroll) ||
+      (strategy === "searchAfter" && this._request.size && body.sort) ||
+      (strategy === "fromSize" && this._request.size)
+    ) {
+      return strategy;
+    }
+
+    return "";
+  }
+
+  protected _getSearchBody(): JSONObject {
+    return this._request.body || this._request.searchBody || {};
+  }
+
+  /**
+   * Builds the next page of a search which is not frozen by a scroll cursor,
+   * and warns when its total has changed since the previous page
+   */
+  protected _buildNextPage(result) {
+    if (result.total !== undefined && result.total !== this.total) {
+      this._kuzzle.emit("searchConcurrentModification", {
+        fetched: this.fetched,
+        previousTotal: this.total,
+        request: this._request,
+        total: result.total,
+      });
+    }
+
+    return this._buildNextSearchResult(result);
+  }
+
   protected _buildNextSearchResult(result) {
     const Constructor: any = this.constructor;
 
@@ -0,0 +1,586 @@
+import { Kuzzle } from "../../Kuzzle";
+import { KuzzleError } from "../../KuzzleError";
+import {
+  CollectionSpecifications,
+  FieldSpecification,
+  JSONObject,
+} from "../../types";
+import { RequestPayload } from "../../types/RequestPayload";
+
+/**
+ * Validation error of a document field
+ */
+export interface FieldValidationError {
+  /**
+   * Field path, using `/` as separator
+   */
+  field: string;
+
+  message: string;
+}
+
+export interface ValidationResult<TContent = JSONObject> {
+  valid: boolean;
+
+  errors: FieldValidationError[];
+
+  /**
+   * Validated document, with the default values of missing fields
+   * (unless validated as partial)
+   */
+  document: TContent;
+}
+
+interface CompiledField {
+  path: string;
+  spec: FieldSpecification;
+  children: Map<string, CompiledField>;
+}
+
+/**
+ * Checks a value against a field type.
+ * Returns an error message, or null if the value is valid.
+ */
+type TypeChecker = (value: any, typeOptions: JSONObject) => string | null;
+
+const isObject = (value: any) =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const toTimestamp = (value: any): number => {
+  if (value === "NOW") {
+    return Date.now();
+  }
+
+  return typeof value === "number" ? value : Date.parse(value);
+};
+
+const checkRange = (
+  value: number,
+  range: JSONObject,
+  toNumber: (bound: any) => number = Number
+) => {
+  if (!range) {
+    return null;
+  }
+
+  if (range.min !== undefined && value < toNumber(range.min)) {
+    return `Value must be greater than or equal to ${range.min}.`;
+  }
+
+  if (range.max !== undefined && value > toNumber(range.max)) {
+    return `Value must be lower than or equal to ${range.max}.`;
+  }
+
+  return null;
+};
+
+const checkNotEmpty = (value: any, typeOptions: JSONObject) =>
+  typeOptions.notEmpty && value.length === 0
+    ? "Value must not be empty."
+    : null;
+
+const EMAIL_REGEXP = /^[^\s@]+@[^\s@]+$/;
+
+const IPV4_REGEXP =
+  /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+
+const IPV6_REGEXP = /^(?=.*:)[0-9a-f:]+(:\d+\.\d+\.\d+\.\d+)?$/i;
+
+const GEO_SHAPE_TYPES = [
+  "circle",
+  "envelope",
+  "geometrycollection",
+  "linestring",
+  "multilinestring",
+  "multipoint",
+  "multipolygon",
+  "point",
+  "polygon",
+];
+
+const isGeoPoint = (value: any) => {
+  if (isObject(value)) {
+    return (
+      typeof value.lat === "number" &&
+      typeof value.lon === "number" &&
+      Math.abs(value.lat) <= 90 &&
+      Math.abs(value.lon) <= 180
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return (
+      value.length === 2 &&
+      value.every((coordinate) => typeof coordinate === "number")
+    );
+  }
+
+  // "lat,lon" string or geohash
+  return (
+    typeof value === "string" &&
+    (/^-?\d+(\.\d+)?\s*,\s*-?\d+(\.\d+)?$/.test(value) ||
+      /^[0-9b-hjkmnp-z]{1,12}$/.test(value))
+  );
+};
+
+const TYPE_CHECKERS: { [type: string]: TypeChecker } = {
+  anything: () => null,
+
+  boolean: (value) =>
+    typeof value === "boolean" ? null : "Value must be a boolean.",
+
+  date: (value, typeOptions) => {
+    if (typeof value !== "number" && typeof value !== "string") {
+      return "Value must be a date.";
+    }
+
+    const timestamp = toTimestamp(value);
+
+    if (Number.isNaN(timestamp)) {
+      return "Value must be a date.";
+    }
+
+    return checkRange(timestamp, typeOptions.range, toTimestamp);
+  },
+
+  email: (value, typeOptions) => {
+    if (typeof value !== "string") {
+      return "Value must be an email address.";
+    }
+
+    if (value.length === 0) {
+      return checkNotEmpty(value, typeOptions);
+    }
+
+    return EMAIL_REGEXP.test(value) ? null : "Value must be an email address.";
+  },
+
+  enum: (value, typeOptions) =>
+    typeOptions.values.includes(value)
+      ? null
+      : `Value must be one of: ${typeOptions.values.join(", ")}.`,
+
+  geo_point: (value) =>
+    isGeoPoint(value) ? null : "Value must be a geo point.",
+
+  geo_shape: (value, typeOptions) => {
+    if (
+      !isObject(value) ||
+      typeof value.type !== "string" ||
+      !GEO_SHAPE_TYPES.includes(value.type.toLowerCase())
+    ) {
+      return "Value must be a geo shape.";
+    }
+
+    if (
+      typeOptions.shapeTypes &&
+      !typeOptions.shapeTypes.includes(value.type.toLowerCase())
+    ) {
+      return `Geo shape type must be one of: ${typeOptions.shapeTypes.join(
+        ", "
+      )}.`;
+    }
+
+    return null;
+  },
+
+  integer: (value, typeOptions) =>
+    Number.isInteger(value)
+      ? checkRange(value, typeOptions.range)
+      : "Value must be an integer.",
+
+  ip_address: (value, typeOptions) => {
+    if (typeof value !== "string") {
+      return "Value must be an IP address.";
+    }
+
+    if (value.length === 0) {
+      return checkNotEmpty(value, typeOptions);
+    }
+
+    return IPV4_REGEXP.test(value) || IPV6_REGEXP.test(value)
+      ? null
+      : "Value must be an IP address.";
+  },
+
+  numeric: (value, typeOptions) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? checkRange(value, typeOptions.range)
+      : "Value must be a number.",
+
+  object: (value) => (isObject(value) ? null : "Value must be an object."),
+
+  string: (value, typeOptions) => {
+    if (typeof value !== "string") {
+      return "Value must be a string.";
+    }
+
+    const length = typeOptions.length;
+
+    if (length && length.min !== undefined && value.length < length.min) {
+      return `Value must contain at least ${length.min} characters.`;
+    }
+
+    if (length && length.max !== undefined && value.length > length.max) {
+      return `Value must contain at most ${length.max} characters.`;
+    }
+
+    return null;
+  },
+
+  url: (value, typeOptions) => {
+    if (typeof value !== "string") {
+      return "Value must be an URL.";
+    }
+
+    if (value.length === 0) {
+      return checkNotEmpty(value, typeOptions);
+    }
+
+    try {
+      new URL(value); // eslint-disable-line no-new
+    } catch (error) {
+      return "Value must be an URL.";
+    }
+
+    return null;
+  },
+};
+
+/**
+ * Type options accepted by each field type
+ */
+const TYPE_OPTIONS: { [type: string]: string[] } = {
+  anything: [],
+  boolean: [],
+  date: ["formats", "range"],
+  email: ["notEmpty"],
+  enum: ["values"],
+  geo_point: [],
+  geo_shape: ["shapeTypes"],
+  integer: ["range"],
+  ip_address: ["notEmpty"],
+  numeric: ["range"],
+  object: ["strict"],
+  string: ["length"],
+  url: ["notEmpty"],
+};
+
+/**
+ * Validates documents against collection specifications, without
+ * querying Kuzzle.
+ *
+ * Field definitions (types, mandatory fields, default values, multivalued
+ * fields and type options) are checked locally. The `validators` Koncorde
+ * filters and the `formats` option of dates are only checked by Kuzzle.
+ *
+ * @see https://docs.kuzzle.io/core/2/guides/advanced/data-validation/
+ */
+export class SpecificationsValidator {
+  private _specifications: CollectionSpecifications;
+  private _root: CompiledField;
+
+  /**
+   * Creates a validator from the specifications of a collection
+   *
+   * @param sdk SDK instance
+   * @param index Index name
+   * @param collection Collection name
+   */
+  static async fromCollection(
+    sdk: Kuzzle,
+    index: string,
+    collection: string
+  ): Promise<SpecificationsValidator> {
+    const result = await sdk.collection.getSpecifications(index, collection);
+
+    return new SpecificationsValidator(result.validation || result);
+  }
+
+  /**
+   * @param specifications Collection specifications
+   * @throws if the specifications are invalid
+   */
+  constructor(specifications: CollectionSpecifications) {
+    if (!isObject(specifications)) {
+      throw new Error("Invalid specifications: expected an object");
+    }
+
+    this._specifications = specifications;
+    this._root = this._compile(specifications);
+  }
+
+  get specifications(): CollectionSpecifications {
+    return this._specifications;
+  }
+
+  /**
+   * Validates a document content
+   *
+   * @param content Document content
+   * @param options
+   *    - `partial` Validate partial changes, as sent with `document:update`:
+   *      missing mandatory fields are allowed and default values are not applied
+   */
+  validate<TContent extends JSONObject = JSONObject>(
+    content: TContent,
+    options: { partial?: boolean } = {}
+  ): ValidationResult<TContent> {
+    const errors: FieldValidationError[] = [];
+
+    if (!isObject(content)) {
+      errors.push({ field: "", message: "Document must be an object." });
+
+      return { document: content, errors, valid: false };
+    }
+
+    const document = this._validateObject(
+      this._root,
+      content,
+      Boolean(options.partial),
+      errors
+    ) as TContent;
+
+    return { document, errors, valid: errors.length === 0 };
+  }
+
+  /**
+   * Validates a document content and throws an error shaped like the one
+   * returned by Kuzzle if it is invalid
+   *
+   * @param content Document content
+   * @param options
+   *    - `partial` Validate partial changes, as sent with `document:update`
+   *    - `request` Request to associate with the error
+   *
+   * @returns The document with the default values of missing fields
+   * @throws {KuzzleError}
+   */
+  assert<TContent extends JSONObject = JSONObject>(
+    content: TContent,
+    options: { partial?: boolean; request?: RequestPayload } = {}
+  ): TContent {
+    const { document, errors } = this.validate(content, options);
+
+    if (errors.length > 0) {
+      throw SpecificationsValidator.toKuzzleError(errors, options.request);
+    }
+
+    return document;
+  }
+
+  /**
+   * Converts field validation errors to an error shaped like
+   * the one returned by Kuzzle
+   */
+  static toKuzzleError(
+    errors: FieldValidationError[],
+    request?: RequestPayload
+  ): KuzzleError {
+    const details = errors
+      .map(({ field, message }) =>
+        field ? `Field "${field}": ${message}` : message
+      )
+      .join("\n");
+
+    return new KuzzleError(
+      {
+        count: errors.length,
+        errors,
+        id: "validation.check.failed_document",
+        message: `The document does not match validation specifications:\n${details}`,
+        props: [details],
+        status: 400,
+      },
+      new Error().stack,
+      undefined,
+      request
+    );
+  }
+
+  private _compile(specifications: CollectionSpecifications): CompiledField {
+    const root: CompiledField = {
+      children: new Map(),
+      path: "",
+      spec: {
+        type: "object",
+        typeOptions: { strict: Boolean(specifications.strict) },
+      },
+    };
+
+    const fields = specifications.fields || {};
+
+    // Parents are declared before their children
+    const paths = Object.keys(fields).sort(
+      (a, b) => a.split("/").length - b.split("/").length
+    );
+
+    for (const path of paths) {
+      const spec = fields[path];
+
+      this._checkField(path, spec);
+
+      const segments = path.split("/");
+      let parent = root;
+
+      for (const segment of segments.slice(0, -1)) {
+        parent = parent.children.get(segment);
+
+        if (!parent || parent.spec.type !== "object") {
+          throw new Error(
+            `Invalid specifications for field "${path}": parent fields must be declared with the "object" type`
+          );
+        }
+      }
+
+      parent.children.set(segments[segments.length - 1], {
+        children: new Map(),
+        path,
+        spec,
+      });
+    }
+
+    return root;
+  }
+
+  private _checkField(path: string, spec: FieldSpecification) {
+    const prefix = `Invalid specifications for field "${path}"`;
+
+    if (!isObject(spec) || typeof spec.type !== "string") {
+      throw new Error(`${prefix}: a type is required`);
+    }
+
+    if (!TYPE_CHECKERS[spec.type]) {
+      throw new Error(`${prefix}: unknown type "${spec.type}"`);
+    }
+
+    for (const option of Object.keys(spec.typeOptions || {})) {
+      if (!TYPE_OPTIONS[spec.type].includes(option)) {
+        throw new Error(
+          `${prefix}: option "${option}" is not supported by the "${spec.type}" type`
+        );
+      }
+    }
+
+    if (
+      spec.type === "enum" &&
+      !(
+        spec.typeOptions &&
+        Array.isArray(spec.typeOptions.values) &&
+        spec.typeOptions.values.length > 0
+      )
+    ) {
+      throw new Error(`${prefix}: enum fields require a list of values`);
+    }
+
+    if (
+      spec.defaultValue !== undefined &&
+      spec.defaultValue !== null &&
+      this._checkValue(spec, spec.defaultValue) !== null
+    ) {
+      throw new Error(`${prefix}: the default value does not match the field`);
+    }
+  }
+
+  private _validateObject(
+    field: CompiledField,
+    content: JSONObject,
+    partial: boolean,
+    errors: FieldValidationError[]
+  ): JSONObject {
+    const document = { ...content };
+
+    for (const [name, child] of field.children) {
+      if (
+        document[name] === undefined &&
+        !partial &&
+        child.spec.defaultValue !== undefined
+      ) {
+        document[name] = child.spec.defaultValue;
+      }
+
+      const value = document[name];
+
+      if (value === undefined || value === null) {
+        if (child.spec.mandatory && (!partial || value === null)) {
+          errors.push({ field: child.path, message: "Field is mandatory." });
+        }
+        continue;
+      }
+
+      const error = this._checkValue(child.spec, value);
+
+      if (error) {
+        errors.push({ field: child.path, message: error });
+        continue;
+      }
+
+      if (child.spec.type === "object") {
+        document[name] = Array.isArray(value)
+          ? value.map((item) =>
+              this._validateObject(child, item, partial, errors)
+            )
+          : this._validateObject(child, value, partial, errors);
+      }
+    }
+
+    if (field.spec.typeOptions && field.spec.typeOptions.strict) {
+      for (const name of Object.keys(content)) {
+        if (name !== "_kuzzle_info" && !field.children.has(name)) {
+          errors.push({
+            field: field.path ? `${field.path}/${name}` : name,
+            message: "Field is not allowed by the specifications.",
+          });
+        }
+      }
+    }
+
+    return document;
+  }
+
+  /**
+   * Checks a value, including multivalued constraints.
+   * Returns an error message, or null if the value is valid.
+   */
+  private _checkValue(spec: FieldSpecification, value: any): string | null {
+    const typeOptions = spec.typeOptions || {};
+    const multivalued = spec.multivalued;
+
+    if (!multivalued || !multivalued.value) {
+      // Geo points can be expressed as [lon, lat] arrays
+      return Array.isArray(value) &&
+        spec.type !== "anything" &&
+        spec.type !== "geo_point"
+        ? "Field is not multivalued."
+        : TYPE_CHECKERS[spec.type](value, typeOptions);
+    }
+
+    if (!Array.isArray(value)) {
+      return "Value must be an array.";
+    }
+
+    if (
+      multivalued.minCount !== undefined &&
+      value.length < multivalued.minCount
+    ) {
+      return `Field must contain at least ${multivalued.minCount} values.`;
+    }
+
+    if (
+      multivalued.maxCount !== undefined &&
+      value.length > multivalued.maxCount
+    ) {
+      return `Field must contain at most ${multivalued.maxCount} values.`;
+    }
+
+    for (const item of value) {
+      const error = TYPE_CHECKERS[spec.type](item, typeOptions);
+
+      if (error) {
+        return error;
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,164 @@
+import { Kuzzle } from "../../Kuzzle";
+import { QueryMiddleware } from "../QueryMiddleware";
+import { CollectionSpecifications, JSONObject } from "../../types";
+import { RequestPayload } from "../../types/RequestPayload";
+import {
+  FieldValidationError,
+  SpecificationsValidator,
+} from "./SpecificationsValidator";
+
+/**
+ * Validated document actions, and whether they send partial changes
+ */
+const SINGLE_ACTIONS = {
+  create: false,
+  createOrReplace: false,
+  replace: false,
+  update: true,
+  upsert: true,
+};
+
+const MULTI_ACTIONS = {
+  mCreate: false,
+  mCreateOrReplace: false,
+  mReplace: false,
+  mUpdate: true,
+  mUpsert: true,
+};
+
+/**
+ * Upserts send changes, and default values only written on creation.
+ * Whether the document exists is unknown: both are validated as partial
+ * changes, and mandatory fields are left to Kuzzle.
+ */
+function upsertContent({ changes, default: defaults }: JSONObject) {
+  return { ...defaults, ...changes };
+}
+
+/**
+ * Query middleware validating documents against collection specifications
+ * before they are sent to Kuzzle.
+ *
+ * Invalid requests are rejected with an error shaped like the one returned
+ * by Kuzzle, without being sent.
+ *
+ * @example
+ * ```
+ * const validation = new ValidationMiddleware();
+ *
+ * await validation.load(sdk, "nyc-open-data", "yellow-taxi");
+ * sdk.useMiddleware(validation);
+ * ```
+ */
+export class ValidationMiddleware implements QueryMiddleware {
+  public name = "validation";
+
+  private _validators = new Map<string, SpecificationsValidator>();
+
+  /**
+   * Registers the specifications of a collection
+   *
+   * @param index Index name
+   * @param collection Collection name
+   * @param specifications Specifications or validator
+   */
+  register(
+    index: string,
+    collection: string,
+    specifications: CollectionSpecifications | SpecificationsValidator
+  ): SpecificationsValidator {
+    const validator =
+      specifications instanceof SpecificationsValidator
+        ? specifications
+        : new SpecificationsValidator(specifications);
+
+    this._validators.set(this._key(index, collection), validator);
+
+    return validator;
+  }
+
+  /**
+   * Fetches and registers the specifications of a collection
+   *
+   * @param sdk SDK instance
+   * @param index Index name
+   * @param collection Collection name
+   */
+  async load(
+    sdk: Kuzzle,
+    index: string,
+    collection: string
+  ): Promise<SpecificationsValidator> {
+    return this.register(
+      index,
+      collection,
+      await SpecificationsValidator.fromCollection(sdk, index, collection)
+    );
+  }
+
+  unregister(index: string, collection: string): boolean {
+    return this._validators.delete(this._key(index, collection));
+  }
+
+  /**
+   * Returns the validator of a collection, or undefined
+   */
+  get(index: string, collection: string): SpecificationsValidator {
+    return this._validators.get(this._key(index, collection));
+  }
+
+  beforeSend(request: RequestPayload) {
+    if (request.controller !== "document" || !request.body) {
+      return;
+    }
+
+    const validator = this.get(request.index, request.collection);
+
+    if (!validator) {
+      return;
+    }
+
+    const errors: FieldValidationError[] = [];
+
+    if (SINGLE_ACTIONS[request.action] !== undefined) {
+      const content =
+        request.action === "upsert"
+          ? upsertContent(request.body)
+          : request.body;
+
+      errors.push(
+        ...validator.validate(content, {
+          partial: SINGLE_ACTIONS[request.action],
+        }).errors
+      );
+    } else if (
+      MULTI_ACTIONS[request.action] !== undefined &&
+      Array.isArray(request.body.documents)
+    ) {
+      request.body.documents.forEach((document: JSONObject, i: number) => {
+        const content =
+          request.action === "mUpsert"
+            ? upsertContent(document)
+            : document.body;
+        const result = validator.validate(content, {
+          partial: MULTI_ACTIONS[request.action],
+        });
+
+        for (const error of result.errors) {
+          errors.push({
+            field: `documents/${i}${error.field ? `/${error.field}` : ""}`,
+            message: error.message,
+          });
+        }
+      });
+    }
+
+    if (errors.length > 0) {
+      throw SpecificationsValidator.toKuzzleError(errors, request);
+    }
+  }
+
+  private _key(index: string, collection: string) {
+    return JSON.stringify([index, collection]);
+  }
+}
@@ -2,19 +2,33 @@
 
 import staticHttpRoutes from "./routes.json";
 import { KuzzleAbstractProtocol } from "./abstract/Base";
+import { NetworkError } from "../NetworkError";
 import { HttpRoutes, JSONObject } from "../types";
 import { RequestPayload } from "../types/RequestPayload";
+import { SseEvent, SseStream } from "./SseStream";
+
+/**
+ * Realtime notifications stream opened for a subscription
+ */
+interface RealtimeStream {
+  roomId: string;
+  channel: string;
+  stream: SseStream;
+}
 
 /**
  * Http protocol used to connect to a Kuzzle server.
  *
- * The Http protocol cannot use the realtime capabilities of Kuzzle.
+ * Unless the `sse` option is set, the Http protocol cannot use the realtime
+ * capabilities of Kuzzle.
  */
 export default class HttpProtocol extends KuzzleAbstractProtocol {
   private _routes: HttpRoutes;
   private _timeout: number;
   private _customRoutes: HttpRoutes;
   private _defaultHeaders: JSONObject;
+  private _sse: { path: string; reconnectionDelay: number };
+  private _streams: Map<string, RealtimeStream>;
 
   /**
    * @param host Kuzzle server hostname or IP
@@ -24,6 +38,7 @@ export default class HttpProtocol extends KuzzleAbstractProtocol {
    *    - `port` Kuzzle server port (default: `7512`)
    *    - `ssl` Use SSL to connect to Kuzzle server. Default `false` unless port is 443 or 7443.
    *    - `timeout` Connection timeout in milliseconds (default: `0`)
+   *    - `sse` Receive realtime notifications through Server-Sent Events streams, which requires a plugin exposing the stream endpoint (default: `false`)
    */
   constructor(
     host: string,
@@ -37,6 +52,14 @@ export default class HttpProtocol extends KuzzleAbstractProtocol {
       customRoutes?: HttpRoutes;
       timeout?: number;
       headers?: JSONObject;
+      /**
+       * Subscribe to realtime notifications with Server-Sent Events streams.
+       * Kuzzle does not provide the stream endpoint: it must be exposed by a
+       * plugin, following the contract described in `_openRealtimeStream`.
+       *   - `path` Stream endpoint path (default: `/_sse`)
+       *   - `reconnectionDelay` Delay before reopening a lost stream in ms (default: `1000`)
+       */
+      sse?: boolean | { path?: string; reconnectionDelay?: number };
     } = {}
   ) {
     super(host, options, "http");
@@ -53,6 +76,22 @@ export default class HttpProtocol extends KuzzleAbstractProtocol {
 
     this._defaultHeaders = options.headers || {};
 
+    this._streams = new Map();
+
+    if (options.sse) {
+      const sse = typeof options.sse === "object" ? options.sse : {};
+
+      this._sse = {
+        path: typeof sse.path === "string" ? sse.path : "/_sse",
+        reconnectionDelay:
+          typeof sse.reconnectionDelay === "number"
+            ? sse.reconnectionDelay
+            : 1000,
+      };
+    } else {
+      this._sse = null;
+    }
+
     for (const controller of Object.keys(this._customRoutes)) {
       const definition = this._customRoutes[controller];
 
@@ -101,6 +140,14 @@ export default class HttpProtocol extends KuzzleAbstractProtocol {
     return true;
   }
 
+  /**
+   * `true` if realtime notifications are received through
+   * Server-Sent Events streams
+   */
+  get realtimeStreaming(): boolean {
+    return this._sse !== null;
+  }
+
   /**
    * Connection timeout in milliseconds
    */
@@ -347,10 +394,26 @@ export default class HttpProtocol extends KuzzleAbstractProtocol {
    * @returns {Promise<any>}
    */
   send(request: RequestPayload, options: JSONObject = {}) {
+    if (this._sse && request.controller === "realtime") {
+      if (request.action === "subscribe") {
+        this._openRealtimeStream(request);
+        return;
+      }
+
+      if (request.action === "unsubscribe") {
+        this._closeRealtimeStream(request);
+        return;
+      }
+    }
+
     const formattedRequest = this.formatRequest(request, options);
 
     if (formattedRequest) {
-      this._sendHttpRequest(formattedRequest)
+      this._sendHttpRequest(
+        options.signal
+          ? { ...formattedRequest, signal: options.signal }
+          : formattedRequest
+      )
         .then((response) =>
           this.emit(formattedRequest.payload.requestId, response)
         )
@@ -360,14 +423,19 @@ export default class HttpProtocol extends KuzzleAbstractProtocol {
     }
   }
 
+  /**
+   * Sends an HTTP request, which can be aborted with a signal
+   */
   _sendHttpRequest({
     method,
     path,
     payload,
+    signal,
   }: {
     method: string;
     path: string;
     payload: JSONObject;
+    signal?: AbortSignal;
   }) {
     if (typeof XMLHttpRequest === "undefined") {
       // NodeJS implementation, using http.request:
@@ -384,12 +452,18 @@ export default class HttpProtocol extends KuzzleAbstractProtocol {
         (payload && payload.body) || ""
       );
 
+      const requestOptions: JSONObject = {
+        body: payload && payload.body,
+        headers: headers,
+        timeout: this._timeout,
+      };
+
+      if (signal) {
+        requestOptions.signal = signal;
+      }
+
       return httpClient
-        .request(url, method, {
-          body: payload && payload.body,
-          headers: headers,
-          timeout: this._timeout,
-        })
+        .request(url, method, requestOptions)
         .then((response) => {
           if (response.statusCode === 431) {
             throw new Error(
@@ -410,7 +484,9 @@ export default class HttpProtocol extends KuzzleAbstractProtocol {
 
       xhr.onreadystatechange = () => {
         if (xhr.readyState === 4 && xhr.status === 0) {
-          reject(new Error("Cannot connect to host. Is the host online?"));
+          reject(
+            new NetworkError("Cannot connect to host. Is the host online?")
+          );
         }
       };
 
@@ -434,10 +510,188 @@ export default class HttpProtocol extends KuzzleAbstractProtocol {
         }
       };
 
+      if (signal) {
+        signal.addEventListener("abort", () => xhr.abort(), { once: true });
+      }
+
       xhr.send(payload && payload.body);
     });
   }
 
+  /**
+   * Closes the realtime streams and clears pending requests
+   */
+  close() {
+    for (const { stream } of this._streams.values()) {
+      stream.close();
+    }
+
+    this._streams.clear();
+
+    super.close();
+  }
+
+  /**
+   * Opens a Server-Sent Events stream for a realtime:subscribe request.
+   *
+   * The server is expected to subscribe on behalf of the stream and to send:
+   *   - a `subscribed` event with the `roomId` and `channel` of the subscription
+   *   - a `message` event for each notification
+   *   - an `error` event with an API error if the subscription fails
+   *
+   * When a lost stream is reopened, notifications keep being emitted on the
+   * channel returned by the first subscription.
+   */
+  private _openRealtimeStream(request: RequestPayload) {
+    const query: JSONObject = {
+      body: request.body,
+      collection: request.collection,
+      index: request.index,
+      scope: request.scope,
+      users: request.users,
+      volatile: request.volatile,
+    };
+
+    // The token is never sent in the URL, where it would be logged:
+    // EventSource cannot send headers, so browsers must rely on cookies
+    const headers: JSONObject = { ...this._defaultHeaders };
+
+    if (request.jwt) {
+      if (typeof EventSource !== "undefined") {
+        this.emit(request.requestId, {
+          error: new Error(
+            "Authenticated realtime streams require the cookieAuth option in browsers"
+          ),
+          requestId: request.requestId,
+          status: 401,
+        });
+        return;
+      }
+
+      headers.authorization = `Bearer ${request.jwt}`;
+    }
+
+    const queryString = Object.keys(query)
+      .filter((key) => query[key] !== undefined && query[key] !== null)
+      .map((key) => {
+        const value =
+          typeof query[key] === "object"
+            ? JSON.stringify(query[key])
+            : query[key];
+
+        return `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+      })
+      .join("&");
+
+    const url = `${this.protocol}://${this.host}:${this.port}${this._sse.path}?${queryString}`;
+    let subscription: RealtimeStream = null;
+
+    const stream = new SseStream(url, {
+      events: ["subscribed", "error"],
+      headers,
+      onError: (error) => {
+        // The subscription could not be established: stop retrying
+        if (!subscription) {
+          stream.close();
+          this.emit(request.requestId, {
+            error,
+            requestId: request.requestId,
+          });
+          return;
+        }
+
+        // Lost streams are reopened by the SseStream itself
+        this.emit("realtimeStreamError", {
+          error,
+          roomId: subscription.roomId,
+        });
+      },
+      onEvent: (event: SseEvent) => {
+        let data;
+
+        try {
+          data = JSON.parse(event.data);
+        } catch (error) {
+          this.emit("discarded", event.data);
+          return;
+        }
+
+        if (event.event === "subscribed") {
+          if (subscription) {
+            return;
+          }
+
+          subscription = { channel: data.channel, roomId: data.roomId, stream };
+          this._streams.set(data.roomId, subscription);
+
+          this.emit(request.requestId, {
+            action: "subscribe",
+            controller: "realtime",
+            requestId: request.requestId,
+            result: { channel: data.channel, roomId: data.roomId },
+            status: 200,
+          });
+        } else if (event.event === "error") {
+          if (!subscription) {
+            stream.close();
+            this.emit(request.requestId, {
+              error: data.error || data,
+              requestId: request.requestId,
+              status: (data.error || data).status,
+            });
+          }
+        } else if (subscription) {
+          if (data.type === "TokenExpired") {
+            this.emit("tokenExpired");
+            return;
+          }
+
+          this.emit(subscription.channel, {
+            ...data,
+            room: subscription.channel,
+          });
+        }
+      },
+      reconnectionDelay: this._sse.reconnectionDelay,
+      withCredentials: this.cookieSupport,
+    });
+
+    stream.open();
+  }
+
+  /**
+   * Closes the stream of a realtime subscription, which ends the
+   * subscription server-side
+   */
+  private _closeRealtimeStream(request: RequestPayload) {
+    const roomId = request.body && request.body.roomId;
+    const subscription = this._streams.get(roomId);
+
+    if (!subscription) {
+      this.emit(request.requestId, {
+        error: {
+          id: "core.realtime.unknown_room",
+          message: `No subscription found for room "${roomId}".`,
+          status: 404,
+        },
+        requestId: request.requestId,
+        status: 404,
+      });
+      return;
+    }
+
+    subscription.stream.close();
+    this._streams.delete(roomId);
+
+    this.emit(request.requestId, {
+      action: "unsubscribe",
+      controller: "realtime",
+      requestId: request.requestId,
+      result: { roomId },
+      status: 200,
+    });
+  }
+
   _constructRoutes(publicApi) {
     const apiRoutes = Object.keys(publicApi)
       .map((key) => [key, publicApi[key]])
@@ -0,0 +1,133 @@
+"use strict";
+
+import { KuzzleAbstractProtocol } from "./abstract/Base";
+import { JSONObject } from "../types";
+import { RequestPayload } from "../types/RequestPayload";
+import * as DisconnectionOrigin from "./DisconnectionOrigin";
+import {
+  MemoryBackend,
+  MemoryNotification,
+  MemoryUser,
+} from "./memory/MemoryBackend";
+
+/**
+ * Protocol executing requests against an in-memory stand-in for Kuzzle,
+ * to test applications using the SDK without a Kuzzle server.
+ *
+ * Indexes, collections and documents are kept in a `MemoryBackend`,
+ * which can be shared by several SDK instances to test realtime
+ * notifications between them.
+ */
+export default class MemoryProtocol extends KuzzleAbstractProtocol {
+  private _backend: MemoryBackend;
+
+  /**
+   * @param options Memory protocol options
+   *    - `backend` Backend shared with other memory protocols (default: a new backend)
+   *    - `users` Users able to log in with the `local` strategy, by kuid
+   *    - `tokenTtl` Default validity of authentication tokens in ms (default: `3600000`)
+   */
+  constructor(
+    options: {
+      backend?: MemoryBackend;
+      users?: { [kuid: string]: MemoryUser };
+      tokenTtl?: number;
+    } = {}
+  ) {
+    super("memory", {}, "memory");
+
+    this._backend =
+      options.backend ||
+      new MemoryBackend({ tokenTtl: options.tokenTtl, users: options.users });
+  }
+
+  /**
+   * Backend storing the data
+   */
+  get backend(): MemoryBackend {
+    return this._backend;
+  }
+
+  get connected() {
+    return this.state === "ready";
+  }
+
+  connect(): Promise<void> {
+    if (this.state !== "ready") {
+      this.clientConnected();
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Executes a request on the backend, answering asynchronously
+   * as a network protocol would
+   */
+  send(request: RequestPayload) {
+    const envelope = {
+      action: request.action,
+      collection: request.collection,
+      controller: request.controller,
+      index: request.index,
+      requestId: request.requestId,
+      room: request.requestId,
+      volatile: request.volatile || {},
+    };
+
+    setTimeout(() => {
+      if (!this.isReady()) {
+        return;
+      }
+
+      let response: JSONObject;
+      let notifications: MemoryNotification[] = [];
+
+      try {
+        const output = this._backend.execute(this, request);
+
+        notifications = output.notifications;
+        response = {
+          ...envelope,
+          error: null,
+          result: output.result,
+          status: 200,
+        };
+      } catch (error) {
+        response = {
+          ...envelope,
+          error: {
+            count: error.count,
+            errors: error.errors,
+            id: error.id || "core.fatal.unexpected_error",
+            message: error.message,
+            props: error.props,
+            status: error.status || 500,
+          },
+          result: null,
+          status: error.status || 500,
+        };
+      }
+
+      this.emit(request.requestId, response);
+      this._deliver(notifications);
+    }, 0);
+  }
+
+  close() {
+    const notifications = this._backend.disconnect(this);
+
+    super.close();
+    this.emit("disconnect", {
+      origin: DisconnectionOrigin.USER_CONNECTION_CLOSED,
+    });
+
+    this._deliver(notifications);
+  }
+
+  private _deliver(notifications: MemoryNotification[]) {
+    for (const { connection, notification } of notifications) {
+      connection.emit(notification.room, notification);
+    }
+  }
+}
@@ -0,0 +1,293 @@
+"use strict";
+
+import { KuzzleError } from "../KuzzleError";
+import { BaseProtocolRealtime } from "./abstract/Realtime";
+import { JSONObject } from "../types";
+import { RequestPayload } from "../types/RequestPayload";
+import * as DisconnectionOrigin from "./DisconnectionOrigin";
+
+/**
+ * MQTT protocol used to connect to a Kuzzle server.
+ *
+ * Requests are published on the Kuzzle request topic and responses are
+ * received on the Kuzzle response topic, correlated by their `requestId`.
+ * Realtime notifications are received on topics named after the
+ * subscription channels.
+ *
+ * This protocol relies on the `mqtt` package, which must be installed
+ * separately unless a client module is provided with the `mqtt` option.
+ */
+export default class MqttProtocol extends BaseProtocolRealtime {
+  private _mqtt: any;
+  private _clientOptions: JSONObject;
+  private _requestTopic: string;
+  private _responseTopic: string;
+  private _qos: 0 | 1 | 2;
+  private _channels: Set<string>;
+  private client: any;
+
+  /**
+   * @param host Kuzzle server hostname or IP
+   * @param options MQTT connection options
+   *    - `autoReconnect` Automatically reconnect to kuzzle after a `disconnected` event. (default: `true`)
+   *    - `port` Kuzzle MQTT port (default: `1883`)
+   *    - `reconnectionDelay` Number of milliseconds between reconnection attempts (default: `1000`)
+   *    - `ssl` Use MQTTS to connect to Kuzzle server (default: `false`)
+   *    - `requestTopic` Topic on which requests are published (default: `Kuzzle/request`)
+   *    - `responseTopic` Topic on which responses are received (default: `Kuzzle/response`)
+   *    - `qos` Quality of service level of published messages (default: `0`)
+   *    - `clientId` MQTT client identifier (default: generated by the MQTT client)
+   *    - `username` MQTT username
+   *    - `password` MQTT password
+   *    - `mqtt` MQTT client module exposing a `connect(url, options)` method (default: `require('mqtt')`)
+   */
+  constructor(
+    host: string,
+    options: {
+      autoReconnect?: boolean;
+      port?: number;
+      reconnectionDelay?: number;
+      ssl?: boolean;
+      requestTopic?: string;
+      responseTopic?: string;
+      qos?: 0 | 1 | 2;
+      clientId?: string;
+      username?: string;
+      password?: string;
+      mqtt?: { connect: (url: string, options: JSONObject) => any };
+    } = {}
+  ) {
+    super(
+      host,
+      { ...options, port: options.port === undefined ? 1883 : options.port },
+      "mqtt"
+    );
+
+    if (typeof host !== "string" || host === "") {
+      throw new Error("host is required");
+    }
+
+    if (
+      options.mqtt !== undefined &&
+      typeof options.mqtt.connect !== "function"
+    ) {
+      throw new Error('Invalid "mqtt" option: expected a "connect" method');
+    }
+
+    if (options.qos !== undefined && ![0, 1, 2].includes(options.qos)) {
+      throw new Error('Invalid "qos" option: expected 0, 1 or 2');
+    }
+
+    this._mqtt = options.mqtt || null;
+    this._requestTopic = options.requestTopic || "Kuzzle/request";
+    this._responseTopic = options.responseTopic || "Kuzzle/response";
+    this._qos = options.qos || 0;
+    this._channels = new Set();
+
+    this._clientOptions = {
+      // Reconnections are handled by the protocol itself
+      reconnectPeriod: 0,
+    };
+
+    for (const opt of ["clientId", "username", "password"]) {
+      if (options[opt] !== undefined) {
+        this._clientOptions[opt] = options[opt];
+      }
+    }
+
+    this.client = null;
+  }
+
+  /**
+   * Topic on which requests are published
+   */
+  get requestTopic(): string {
+    return this._requestTopic;
+  }
+
+  /**
+   * Topic on which responses are received
+   */
+  get responseTopic(): string {
+    return this._responseTopic;
+  }
+
+  /**
+   * Connect to the MQTT broker
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const url = `${this.ssl ? "mqtts" : "mqtt"}://${this.host}:${this.port}`;
+
+      super.connect();
+
+      if (!this._mqtt) {
+        this._mqtt = require("mqtt");
+      }
+
+      this.client = this._mqtt.connect(url, this._clientOptions);
+
+      this.client.on("connect", () => {
+        this.client.subscribe(this._responseTopic, { qos: this._qos });
+
+        // Channels must be subscribed again after a reconnection
+        for (const channel of this._channels) {
+          this.client.subscribe(channel, { qos: this._qos });
+        }
+
+        this.clientConnected();
+
+        resolve();
+      });
+
+      this.client.on("message", (topic, payload) => {
+        this._onMessage(topic, payload);
+      });
+
+      this.client.on("close", () => {
+        if (this.state === "offline") {
+          return;
+        }
+
+        const wasConnecting = this.state === "connecting";
+        const error: any = new Error("Connection closed by the MQTT broker");
+        error.status = 503;
+
+        this._disposeClient();
+        this.clientNetworkError(error);
+
+        if (wasConnecting) {
+          reject(error);
+        }
+      });
+
+      this.client.on("error", (error) => {
+        const err = error instanceof Error ? error : new Error(String(error));
+        const wasConnecting = this.state === "connecting";
+
+        this._disposeClient();
+        this.clientNetworkError(err);
+
+        if (wasConnecting) {
+          reject(err);
+        }
+      });
+    });
+  }
+
+  /**
+   * Publishes a request on the Kuzzle request topic
+   *
+   * @param request
+   */
+  send(request: RequestPayload) {
+    if (!this.client || !this.client.connected) {
+      return;
+    }
+
+    this.client.publish(this._requestTopic, JSON.stringify(request), {
+      qos: this._qos,
+    });
+  }
+
+  /**
+   * Closes the connection
+   */
+  close() {
+    this.state = "offline";
+    this.wasConnected = false;
+    this.stopRetryingToConnect = true;
+
+    const client = this.client;
+    this._disposeClient();
+
+    if (client) {
+      client.end(true);
+    }
+
+    this._channels.clear();
+    this.clientDisconnected(DisconnectionOrigin.USER_CONNECTION_CLOSED);
+    this.removeAllListeners();
+    super.close();
+  }
+
+  private _onMessage(topic: string, payload: any) {
+    let data;
+
+    try {
+      data = JSON.parse(payload.toString());
+    } catch (error) {
+      this.emit("discarded", payload.toString());
+      return;
+    }
+
+    if (data.type === "TokenExpired") {
+      this.emit("tokenExpired");
+      return;
+    }
+
+    if (topic === this._responseTopic) {
+      const requestId = data.requestId || data.room;
+
+      if (!requestId || !this.pendingRequests.has(requestId)) {
+        // Responses to other clients are published on the same topic
+        if (data.error && !requestId) {
+          this.emit("queryError", {
+            error: new KuzzleError(
+              data.error,
+              new Error().stack,
+              this.constructor.name
+            ),
+            request: data,
+          });
+        }
+        return;
+      }
+
+      this._trackChannels(this.pendingRequests.get(requestId).request, data);
+      this.emit(requestId, data);
+      return;
+    }
+
+    // Notifications are published on a topic named after the channel
+    this.emit(data.room || topic, data);
+  }
+
+  /**
+   * Subscribes to the topics of channels returned by `realtime:subscribe`
+   * and unsubscribes from them on `realtime:unsubscribe`
+   */
+  private _trackChannels(request: RequestPayload, response: JSONObject) {
+    if (request.controller !== "realtime" || response.error) {
+      return;
+    }
+
+    if (request.action === "subscribe" && response.result) {
+      const { channel } = response.result;
+
+      if (channel && !this._channels.has(channel)) {
+        this._channels.add(channel);
+        this.client.subscribe(channel, { qos: this._qos });
+      }
+    } else if (request.action === "unsubscribe" && request.body) {
+      const prefix = `${request.body.roomId}-`;
+
+      for (const channel of this._channels) {
+        if (channel.startsWith(prefix)) {
+          this._channels.delete(channel);
+          this.client.unsubscribe(channel);
+        }
+      }
+    }
+  }
+
+  private _disposeClient() {
+    if (this.client) {
+      this.client.removeAllListeners();
+      // Avoid crashes on errors emitted after disposal
+      this.client.on("error", () => undefined);
+    }
+
+    this.client = null;
+  }
+}
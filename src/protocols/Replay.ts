@@ -0,0 +1,135 @@
+"use strict";
+
+import { KuzzleAbstractProtocol } from "./abstract/Base";
+import { JSONObject } from "../types";
+import { RequestPayload } from "../types/RequestPayload";
+import * as DisconnectionOrigin from "./DisconnectionOrigin";
+import {
+  Cassette,
+  CassetteInteraction,
+  CassetteMatchingOptions,
+  loadCassette,
+  withoutCredentials,
+} from "./replay/Cassette";
+import { requestKey } from "../utils/requestKey";
+
+/**
+ * Protocol answering requests with the responses recorded in a cassette
+ * by a `CassetteRecorder`, to run tests without a Kuzzle server.
+ *
+ * Each request is answered by the first interaction not replayed yet whose
+ * request matches, ignoring the request ID, the authentication token,
+ * the credentials sent to `auth:login` and timestamps. The notifications recorded with an interaction are emitted
+ * after its response.
+ */
+export default class ReplayProtocol extends KuzzleAbstractProtocol {
+  private _interactions: CassetteInteraction[];
+  private _keys: string[];
+  private _replayed: boolean[];
+  private _matching: CassetteMatchingOptions;
+
+  /**
+   * @param cassette Recorded cassette, or path of a cassette file (Node.js only)
+   * @param options Replay protocol options
+   *    - `ignore` Dot-separated paths of request fields ignored when matching requests
+   *    - `ignoreKeys` Names of fields ignored at any depth when matching requests (default: `["timestamp", "createdAt", "updatedAt"]`)
+   */
+  constructor(
+    cassette: Cassette | string,
+    options: CassetteMatchingOptions = {}
+  ) {
+    super("replay", {}, "replay");
+
+    if (!cassette) {
+      throw new Error('ReplayProtocol: "cassette" argument missing');
+    }
+
+    const { interactions } =
+      typeof cassette === "string" ? loadCassette(cassette) : cassette;
+
+    this._matching = options;
+    this._interactions = interactions;
+    this._keys = interactions.map(({ request }) =>
+      requestKey(withoutCredentials(request), options)
+    );
+    this._replayed = interactions.map(() => false);
+  }
+
+  /**
+   * Number of recorded interactions not replayed yet
+   */
+  get remaining(): number {
+    return this._replayed.filter((replayed) => !replayed).length;
+  }
+
+  get connected() {
+    return this.state === "ready";
+  }
+
+  connect(): Promise<void> {
+    if (this.state !== "ready") {
+      this.clientConnected();
+    }
+
+    return Promise.resolve();
+  }
+
+  send(request: RequestPayload) {
+    const key = requestKey(withoutCredentials(request), this._matching);
+    const index = this._keys.findIndex(
+      (candidate, i) => !this._replayed[i] && candidate === key
+    );
+
+    if (index !== -1) {
+      this._replayed[index] = true;
+    }
+
+    setTimeout(() => {
+      if (!this.isReady()) {
+        return;
+      }
+
+      if (index === -1) {
+        this.emit(request.requestId, {
+          error: new Error(
+            `No recorded interaction matches the request ${key}`
+          ),
+          status: 400,
+        });
+        return;
+      }
+
+      const { response, notifications } = this._interactions[index];
+
+      this.emit(request.requestId, this._response(request, response));
+
+      for (const { event, payload } of notifications) {
+        this.emit(event, JSON.parse(JSON.stringify(payload)));
+      }
+    }, 0);
+  }
+
+  close() {
+    super.close();
+    this.emit("disconnect", {
+      origin: DisconnectionOrigin.USER_CONNECTION_CLOSED,
+    });
+  }
+
+  private _response(request: RequestPayload, recorded: JSONObject) {
+    const response = JSON.parse(JSON.stringify(recorded));
+
+    response.requestId = request.requestId;
+
+    if (response.room === recorded.requestId) {
+      response.room = request.requestId;
+    }
+
+    // SDK errors are recorded without status, they are thrown as is
+    if (response.error && !response.error.status) {
+      response.error = new Error(response.error.message);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,257 @@
+"use strict";
+
+import { JSONObject } from "../types";
+
+/**
+ * Event received from a Server-Sent Events stream
+ */
+export interface SseEvent {
+  /**
+   * Event type (default: `message`)
+   */
+  event: string;
+
+  /**
+   * Event payload
+   */
+  data: string;
+
+  /**
+   * Last event ID
+   */
+  id?: string;
+}
+
+/**
+ * Minimal Server-Sent Events client.
+ *
+ * Uses the `EventSource` API in browsers and a streamed `http.request`
+ * in Node.js. The stream is automatically reopened when it ends
+ * unexpectedly, until `close` is called.
+ */
+export class SseStream {
+  private _url: string;
+  private _headers: JSONObject;
+  private _withCredentials: boolean;
+  private _reconnectionDelay: number;
+  private _events: string[];
+  private _onEvent: (event: SseEvent) => void;
+  private _onError: (error: Error) => void;
+  private _closed: boolean;
+  private _lastEventId: string;
+  private _source: any;
+  private _request: any;
+  private _reconnectTimer: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param url Stream URL
+   * @param options
+   *    - `events` Named events to listen to in browsers, in addition to `message`
+   *    - `headers` HTTP headers (Node.js only)
+   *    - `onError` Called when the stream fails, before reconnecting
+   *    - `onEvent` Called for each received event
+   *    - `reconnectionDelay` Delay before reopening the stream, in milliseconds (default: `1000`)
+   *    - `withCredentials` Send cookies with the request (browsers only)
+   */
+  constructor(
+    url: string,
+    options: {
+      events?: string[];
+      headers?: JSONObject;
+      onError?: (error: Error) => void;
+      onEvent: (event: SseEvent) => void;
+      reconnectionDelay?: number;
+      withCredentials?: boolean;
+    }
+  ) {
+    this._url = url;
+    this._headers = options.headers || {};
+    this._withCredentials = Boolean(options.withCredentials);
+    this._reconnectionDelay =
+      typeof options.reconnectionDelay === "number"
+        ? options.reconnectionDelay
+        : 1000;
+    this._events = options.events || [];
+    this._onEvent = options.onEvent;
+    this._onError = options.onError || (() => undefined);
+    this._closed = false;
+    this._lastEventId = null;
+    this._source = null;
+    this._request = null;
+    this._reconnectTimer = null;
+  }
+
+  get url(): string {
+    return this._url;
+  }
+
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  open() {
+    if (typeof EventSource !== "undefined") {
+      this._openEventSource();
+    } else {
+      this._openHttpStream();
+    }
+
+    return this;
+  }
+
+  close() {
+    this._closed = true;
+    clearTimeout(this._reconnectTimer);
+
+    if (this._source) {
+      this._source.close();
+      this._source = null;
+    }
+
+    if (this._request) {
+      this._request.destroy();
+      this._request = null;
+    }
+  }
+
+  /**
+   * Browser implementation, reconnections are handled by EventSource itself
+   */
+  private _openEventSource() {
+    this._source = new EventSource(this._url, {
+      withCredentials: this._withCredentials,
+    });
+
+    const listener = (event: MessageEvent) => {
+      // Connection errors are dispatched as "error" events without data
+      if (typeof event.data !== "string") {
+        return;
+      }
+
+      this._onEvent({
+        data: event.data,
+        event: event.type,
+        id: event.lastEventId || undefined,
+      });
+    };
+
+    this._source.addEventListener("message", listener);
+
+    for (const name of this._events) {
+      this._source.addEventListener(name, listener);
+    }
+
+    this._source.onerror = () => {
+      if (!this._closed) {
+        this._onError(new Error(`Realtime stream error (${this._url})`));
+      }
+    };
+  }
+
+  /**
+   * Node.js implementation
+   */
+  private _openHttpStream() {
+    const client = this._url.startsWith("https:")
+      ? require("https") // eslint-disable-line @typescript-eslint/no-var-requires
+      : require("http"); // eslint-disable-line @typescript-eslint/no-var-requires
+
+    const headers = {
+      ...this._headers,
+      Accept: "text/event-stream",
+      "Cache-Control": "no-cache",
+    };
+
+    if (this._lastEventId !== null) {
+      headers["Last-Event-ID"] = this._lastEventId;
+    }
+
+    this._request = client.get(this._url, { headers }, (response) => {
+      if (response.statusCode !== 200) {
+        response.resume();
+        this._failed(
+          new Error(
+            `Realtime stream error (${this._url}): HTTP status ${response.statusCode}`
+          )
+        );
+        return;
+      }
+
+      response.setEncoding("utf8");
+
+      let buffer = "";
+
+      response.on("data", (chunk: string) => {
+        buffer += chunk;
+
+        const blocks = buffer.split(/\r?\n\r?\n/);
+        buffer = blocks.pop();
+
+        for (const block of blocks) {
+          this._parseBlock(block);
+        }
+      });
+
+      response.on("end", () => {
+        this._failed(new Error(`Realtime stream ended (${this._url})`));
+      });
+    });
+
+    this._request.on("error", (error) => this._failed(error));
+  }
+
+  private _parseBlock(block: string) {
+    const event: SseEvent = { data: "", event: "message" };
+    const data = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      // Comments are used as keep-alive messages
+      if (line.length === 0 || line[0] === ":") {
+        continue;
+      }
+
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      let value = separator === -1 ? "" : line.slice(separator + 1);
+
+      if (value[0] === " ") {
+        value = value.slice(1);
+      }
+
+      if (field === "data") {
+        data.push(value);
+      } else if (field === "event") {
+        event.event = value;
+      } else if (field === "id") {
+        event.id = value;
+        this._lastEventId = value;
+      } else if (field === "retry" && /^\d+$/.test(value)) {
+        this._reconnectionDelay = parseInt(value, 10);
+      }
+    }
+
+    if (data.length === 0) {
+      return;
+    }
+
+    event.data = data.join("\n");
+    this._onEvent(event);
+  }
+
+  private _failed(error: Error) {
+    this._request = null;
+
+    if (this._closed) {
+      return;
+    }
+
+    this._onError(error);
+
+    clearTimeout(this._reconnectTimer);
+    this._reconnectTimer = setTimeout(() => {
+      if (!this._closed) {
+        this._openHttpStream();
+      }
+    }, this._reconnectionDelay);
+  }
+}
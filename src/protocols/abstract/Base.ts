@@ -1,6 +1,8 @@
 "use strict";
 
 import { KuzzleError } from "../../KuzzleError";
+import { NetworkError } from "../../NetworkError";
+import { RequestAbortedError } from "../../RequestAbortedError";
 import { uuidv4 } from "../../utils/uuidv4";
 import { KuzzleEventEmitter } from "../../core/KuzzleEventEmitter";
 import { PendingRequest } from "./PendingRequest";
@@ -140,6 +142,12 @@ export abstract class KuzzleAbstractProtocol extends KuzzleEventEmitter {
   }
 
   query(request: RequestPayload, options) {
+    const signal: AbortSignal = options && options.signal;
+
+    if (signal && signal.aborted) {
+      return Promise.reject(new RequestAbortedError(request, signal.reason));
+    }
+
     if (!this.isReady()) {
       this.emit("discarded", request);
       return Promise.reject(
@@ -153,9 +161,24 @@ Discarded request: ${JSON.stringify(request)}`)
     const pending = new PendingRequest(request);
     this._pendingRequests.set(request.requestId, pending);
 
+    // Rejects the request without waiting for its response, which is ignored
+    const onAbort = () => {
+      this._pendingRequests.delete(request.requestId);
+      this.removeAllListeners(request.requestId);
+      pending.reject(new RequestAbortedError(request, signal.reason));
+    };
+
+    if (signal) {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+
     this.once(request.requestId, (response) => {
       this._pendingRequests.delete(request.requestId);
 
+      if (signal) {
+        signal.removeEventListener("abort", onAbort);
+      }
+
       if (response.error) {
         let error: KuzzleError;
 
@@ -205,7 +228,7 @@ Discarded request: ${JSON.stringify(request)}`)
    * Emits an event for each discarded pending request.
    */
   clear() {
-    const rejectedError = new Error(
+    const rejectedError = new NetworkError(
       "Network error: request was sent but no response has been received"
     );
     for (const pending of this._pendingRequests.values()) {
@@ -1,2 +1,8 @@
 export { default as WebSocket } from "./WebSocket";
 export { default as Http } from "./Http";
+export { default as Mqtt } from "./Mqtt";
+export { default as MemoryProtocol } from "./Memory";
+export { MemoryBackend } from "./memory/MemoryBackend";
+export { default as ReplayProtocol } from "./Replay";
+export * from "./replay/Cassette";
+export { CassetteRecorder } from "./replay/CassetteRecorder";
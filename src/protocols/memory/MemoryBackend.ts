@@ -0,0 +1,1243 @@
+import { CollectionMappings, JSONObject } from "../../types";
+import { uuidv4 } from "../../utils/uuidv4";
+import { SpecificationsValidator } from "../../core/validation/SpecificationsValidator";
+import { KoncordeFilter } from "../../core/koncorde/KoncordeFilter";
+import {
+  compareSortValues,
+  SortOrder,
+  sortValues,
+  toSortOrder,
+} from "../../utils/sort";
+import { compileQuery, DocumentPredicate } from "./queries";
+
+/**
+ * Client of a MemoryBackend, receiving realtime notifications
+ */
+export interface MemoryConnection {
+  id: string;
+
+  emit(event: string, payload: JSONObject): any;
+}
+
+/**
+ * User able to log in with the `local` strategy
+ */
+export interface MemoryUser {
+  content?: JSONObject;
+
+  credentials?: {
+    local?: { username: string; password: string };
+  };
+}
+
+export interface MemoryBackendOptions {
+  /**
+   * Users able to log in, by kuid
+   */
+  users?: { [kuid: string]: MemoryUser };
+
+  /**
+   * Default validity of authentication tokens, in ms (default: 1 hour)
+   */
+  tokenTtl?: number;
+
+  /**
+   * Maximum number of documents read or written per request
+   */
+  limits?: {
+    documentsFetchCount?: number;
+    documentsWriteCount?: number;
+  };
+}
+
+/**
+ * Notification to deliver to a connection, on the channel named by its `room`
+ */
+export type MemoryNotification = {
+  connection: MemoryConnection;
+  notification: JSONObject;
+};
+
+type StoredDocument = {
+  _source: JSONObject;
+  _version: number;
+};
+
+type StoredCollection = {
+  mappings: CollectionMappings;
+  settings: JSONObject;
+  specifications: JSONObject;
+  validator: SpecificationsValidator;
+  documents: Map<string, StoredDocument>;
+};
+
+type Subscriber = {
+  connection: MemoryConnection;
+  channel: string;
+  scope: string;
+  users: string;
+};
+
+type MemoryRoom = {
+  index: string;
+  collection: string;
+  filter: KoncordeFilter;
+  subscribers: Subscriber[];
+};
+
+type ScrollCursor = {
+  hits: JSONObject[];
+  total: number;
+  offset: number;
+  size: number;
+};
+
+type ActionContext = {
+  connection: MemoryConnection;
+  request: JSONObject;
+  kuid: string;
+  notifications: MemoryNotification[];
+};
+
+function apiError(status: number, id: string, message: string): Error {
+  const error: any = new Error(message);
+  error.status = status;
+  error.id = id;
+  return error;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Applies partial changes like Elasticsearch: objects are merged,
+ * other values are replaced
+ */
+function merge(target: JSONObject, changes: JSONObject): JSONObject {
+  const result = { ...target };
+
+  for (const [key, value] of Object.entries(changes)) {
+    result[key] =
+      isObject(value) && isObject(result[key])
+        ? merge(result[key], value)
+        : value;
+  }
+
+  return result;
+}
+
+function deletePath(object: JSONObject, path: string) {
+  const keys = path.split(".");
+  let current = object;
+
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(current[key])) {
+      return;
+    }
+
+    current = current[key];
+  }
+
+  delete current[keys[keys.length - 1]];
+}
+
+/**
+ * Short deterministic hash, used to name rooms and channels
+ */
+function hash(value: any): string {
+  const text = JSON.stringify(value);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+
+  h1 =
+    Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+    Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 =
+    Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+    Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (
+    (h2 >>> 0).toString(16).padStart(8, "0") +
+    (h1 >>> 0).toString(16).padStart(8, "0")
+  );
+}
+
+function encodeBase64(text: string): string {
+  return typeof btoa === "function"
+    ? btoa(text)
+    : Buffer.from(text).toString("base64");
+}
+
+/**
+ * In-memory stand-in for a Kuzzle server, storing indexes, collections
+ * and documents, and dispatching realtime notifications to its connections.
+ *
+ * Permissions are not checked: authenticated and anonymous users can
+ * execute every action.
+ */
+export class MemoryBackend {
+  private _indexes = new Map<string, Map<string, StoredCollection>>();
+  private _rooms = new Map<string, MemoryRoom>();
+  private _scrolls = new Map<string, ScrollCursor>();
+  private _tokens = new Map<string, { kuid: string; expiresAt: number }>();
+  private _users: { [kuid: string]: MemoryUser };
+  private _tokenTtl: number;
+  private _limits: { documentsFetchCount: number; documentsWriteCount: number };
+  private _actions: { [action: string]: (context: ActionContext) => any };
+
+  constructor(options: MemoryBackendOptions = {}) {
+    this._users = options.users || {};
+    this._tokenTtl = options.tokenTtl || 3600000;
+    this._limits = {
+      documentsFetchCount: 10000,
+      documentsWriteCount: 200,
+      ...options.limits,
+    };
+
+    this._actions = {
+      "auth:checkToken": (context) => this._checkToken(context),
+      "auth:getCurrentUser": (context) => this._getCurrentUser(context),
+      "auth:login": (context) => this._login(context),
+      "auth:logout": (context) => this._logout(context),
+      "auth:refreshToken": (context) => this._refreshToken(context),
+
+      "collection:create": (context) => this._createCollection(context),
+      "collection:delete": ({ request }) => {
+        this._collections(request.index).delete(this._collectionName(request));
+      },
+      "collection:deleteSpecifications": ({ request }) => {
+        const collection = this._collection(request);
+        collection.specifications = null;
+        collection.validator = null;
+        return { acknowledged: true };
+      },
+      "collection:exists": ({ request }) =>
+        this._indexes.has(request.index) &&
+        this._indexes.get(request.index).has(request.collection),
+      "collection:getMapping": ({ request }) =>
+        this._collection(request).mappings,
+      "collection:getSpecifications": ({ request }) => {
+        const { specifications } = this._collection(request);
+
+        if (!specifications) {
+          throw apiError(
+            404,
+            "services.storage.not_found",
+            `No specifications for "${request.index}":"${request.collection}"`
+          );
+        }
+
+        return {
+          collection: request.collection,
+          index: request.index,
+          validation: specifications,
+        };
+      },
+      "collection:list": ({ request }) => ({
+        collections: [...this._collections(request.index).keys()]
+          .sort()
+          .map((name) => ({ name, type: "stored" })),
+        type: "all",
+      }),
+      "collection:refresh": ({ request }) => {
+        this._collection(request);
+        return null;
+      },
+      "collection:truncate": ({ request }) => {
+        this._collection(request).documents.clear();
+        return { acknowledged: true };
+      },
+      "collection:update": (context) => {
+        this._collection(context.request);
+        return this._createCollection(context);
+      },
+      "collection:updateMapping": ({ request }) => {
+        const collection = this._collection(request);
+        collection.mappings = merge(collection.mappings, request.body || {});
+        return collection.mappings;
+      },
+      "collection:updateSpecifications": ({ request }) => {
+        const collection = this._collection(request);
+        collection.validator = this._validator(request.body);
+        collection.specifications = request.body;
+        return request.body;
+      },
+      "collection:validateSpecifications": ({ request }) => {
+        this._validator(request.body);
+        return { valid: true };
+      },
+
+      "document:count": ({ request }) => ({
+        count: this._search(request).length,
+      }),
+      "document:create": (context) => {
+        const { request } = context;
+        const _id = request._id || uuidv4();
+
+        if (this._collection(request).documents.has(_id)) {
+          throw apiError(
+            409,
+            "services.storage.document_already_exists",
+            `Document "${_id}" already exists`
+          );
+        }
+
+        return this._write(context, "create", _id, request.body);
+      },
+      "document:createOrReplace": (context) => {
+        const { request } = context;
+        const created = !this._collection(request).documents.has(request._id);
+
+        return {
+          ...this._write(
+            context,
+            created ? "create" : "replace",
+            this._requireId(request),
+            request.body
+          ),
+          created,
+        };
+      },
+      "document:delete": (context) =>
+        this._delete(context, this._requireId(context.request)),
+      "document:deleteByQuery": (context) => {
+        const documents = this._search(context.request).map(({ _id }) =>
+          this._delete(context, _id)
+        );
+
+        return { documents, ids: documents.map(({ _id }) => _id) };
+      },
+      "document:deleteFields": (context) => {
+        const { request } = context;
+        const content = clone(this._get(request, request._id)._source);
+
+        for (const field of (request.body && request.body.fields) || []) {
+          deletePath(content, field);
+        }
+
+        return this._write(context, "replace", request._id, content);
+      },
+      "document:exists": ({ request }) =>
+        this._collection(request).documents.has(request._id),
+      "document:get": ({ request }) => this._get(request, request._id),
+      "document:mCreate": (context) =>
+        this._mWrite(context, "create", (document) => {
+          const _id = document._id || uuidv4();
+
+          if (this._collection(context.request).documents.has(_id)) {
+            throw apiError(
+              409,
+              "services.storage.document_already_exists",
+              `Document "${_id}" already exists`
+            );
+          }
+
+          return {
+            ...this._write(context, "create", _id, document.body),
+            created: true,
+          };
+        }),
+      "document:mCreateOrReplace": (context) =>
+        this._mWrite(context, "createOrReplace", (document) => {
+          const created = !this._collection(context.request).documents.has(
+            document._id
+          );
+
+          return {
+            ...this._write(
+              context,
+              created ? "create" : "replace",
+              this._requireId(document),
+              document.body
+            ),
+            created,
+          };
+        }),
+      "document:mDelete": (context) => this._mDelete(context),
+      "document:mGet": ({ request }) => {
+        const ids: string[] = (request.body && request.body.ids) || [];
+        const collection = this._collection(request);
+
+        this._checkLimit(ids.length, "documentsFetchCount");
+
+        return {
+          errors: ids.filter((_id) => !collection.documents.has(_id)),
+          successes: ids
+            .filter((_id) => collection.documents.has(_id))
+            .map((_id) => this._get(request, _id)),
+        };
+      },
+      "document:mReplace": (context) =>
+        this._mWrite(context, "replace", (document) => {
+          this._get(context.request, document._id);
+          return this._write(context, "replace", document._id, document.body);
+        }),
+      "document:mUpdate": (context) =>
+        this._mWrite(context, "update", (document) =>
+          this._update(context, document._id, document.body)
+        ),
+      "document:mUpsert": (context) =>
+        this._mWrite(context, "upsert", (document) =>
+          this._upsert(
+            context,
+            document._id,
+            document.changes,
+            document.default
+          )
+        ),
+      "document:replace": (context) => {
+        const { request } = context;
+        this._get(request, request._id);
+        return this._write(context, "replace", request._id, request.body);
+      },
+      "document:scroll": ({ request }) => {
+        const cursor = this._scrolls.get(request.scrollId);
+
+        if (!cursor) {
+          throw apiError(
+            404,
+            "services.storage.unknown_scroll_id",
+            `Unknown scroll ID "${request.scrollId}"`
+          );
+        }
+
+        return this._page(cursor, request.scrollId);
+      },
+      "document:search": ({ request }) => this._searchPage(request),
+      "document:update": (context) => {
+        const { request } = context;
+        const document = this._update(context, request._id, request.body);
+
+        return request.source
+          ? document
+          : { ...document, _source: request.body || {} };
+      },
+      "document:updateByQuery": (context) => {
+        const { request } = context;
+        const { changes, query } = request.body || ({} as JSONObject);
+        const matching = this._search({
+          ...request,
+          body: { query },
+        });
+
+        return {
+          errors: [],
+          successes: matching.map(({ _id }) => ({
+            ...this._update(context, _id, changes || {}),
+            status: 200,
+          })),
+        };
+      },
+      "document:upsert": (context) => {
+        const { request } = context;
+        const { changes, default: defaults } = request.body || ({} as any);
+
+        return this._upsert(context, request._id, changes, defaults);
+      },
+      "document:validate": ({ request }) => {
+        const { validator } = this._collection(request);
+
+        if (validator) {
+          validator.assert(request.body, { request: request as any });
+        }
+
+        return true;
+      },
+
+      "index:create": ({ request }) => {
+        if (this._indexes.has(request.index)) {
+          throw apiError(
+            412,
+            "services.storage.index_already_exists",
+            `Index "${request.index}" already exists`
+          );
+        }
+
+        this._indexes.set(request.index, new Map());
+
+        return { acknowledged: true };
+      },
+      "index:delete": ({ request }) => {
+        this._collections(request.index);
+        this._indexes.delete(request.index);
+
+        return { acknowledged: true };
+      },
+      "index:exists": ({ request }) => this._indexes.has(request.index),
+      "index:list": () => ({ indexes: [...this._indexes.keys()].sort() }),
+      "index:mDelete": ({ request }) => {
+        const indexes: string[] = (request.body && request.body.indexes) || [];
+        const deleted = indexes.filter((index) => this._indexes.has(index));
+
+        for (const index of deleted) {
+          this._indexes.delete(index);
+        }
+
+        return { deleted };
+      },
+
+      "realtime:count": ({ request }) => ({
+        count: this._room(request.body.roomId).subscribers.length,
+      }),
+      "realtime:publish": (context) => {
+        const { request } = context;
+
+        this._collection(request);
+        this._notify(context, "publish", request._id || null, null, {
+          _source: request.body,
+        });
+
+        return { published: true };
+      },
+      "realtime:subscribe": (context) => this._subscribe(context),
+      "realtime:unsubscribe": (context) => {
+        const { roomId } = context.request.body;
+
+        this._unsubscribe(
+          context.notifications,
+          context.connection,
+          this._room(roomId),
+          roomId
+        );
+
+        return { roomId };
+      },
+
+      "server:getConfig": () => ({ limits: clone(this._limits) }),
+      "server:info": () => ({
+        serverInfo: { kuzzle: { version: "memory" } },
+      }),
+      "server:now": () => ({ now: Date.now() }),
+    };
+  }
+
+  /**
+   * Executes an API request.
+   *
+   * @returns The result of the request, and the notifications it triggered
+   * @throws Errors with the `status` and `id` of Kuzzle API errors
+   */
+  execute(
+    connection: MemoryConnection,
+    request: JSONObject
+  ): { result: any; notifications: MemoryNotification[] } {
+    const action = this._actions[`${request.controller}:${request.action}`];
+
+    if (!action) {
+      throw apiError(
+        404,
+        "api.process.action_not_found",
+        `API action "${request.controller}":"${request.action}" is not supported by the memory backend`
+      );
+    }
+
+    const context: ActionContext = {
+      connection,
+      kuid: this._authenticate(request),
+      notifications: [],
+      request: clone(request),
+    };
+
+    const result = clone(action(context));
+
+    return { notifications: context.notifications, result };
+  }
+
+  /**
+   * Removes the subscriptions of a connection
+   *
+   * @returns The notifications it triggered
+   */
+  disconnect(connection: MemoryConnection): MemoryNotification[] {
+    const notifications = [];
+
+    for (const [roomId, room] of this._rooms) {
+      this._unsubscribe(notifications, connection, room, roomId);
+    }
+
+    return notifications;
+  }
+
+  private _authenticate(request: JSONObject): string {
+    if (
+      !request.jwt ||
+      (request.controller === "auth" &&
+        (request.action === "login" || request.action === "checkToken"))
+    ) {
+      return "-1";
+    }
+
+    const token = this._tokens.get(request.jwt);
+
+    if (!token || token.expiresAt < Date.now()) {
+      throw apiError(401, "security.token.invalid", "Invalid token.");
+    }
+
+    return token.kuid;
+  }
+
+  private _createToken(kuid: string, expiresIn?: string | number) {
+    let ttl = this._tokenTtl;
+
+    if (typeof expiresIn === "number") {
+      ttl = expiresIn;
+    } else if (typeof expiresIn === "string") {
+      const match = expiresIn.match(/^(\d+)\s*(ms|s|m|h|d)?$/);
+      const units = { d: 86400000, h: 3600000, m: 60000, ms: 1, s: 1000 };
+
+      if (match) {
+        ttl = Number(match[1]) * units[match[2] || "ms"];
+      }
+    }
+
+    const expiresAt = Date.now() + ttl;
+    const payload = {
+      _id: kuid,
+      exp: Math.floor(expiresAt / 1000),
+      iat: Math.floor(Date.now() / 1000),
+      jti: uuidv4(),
+    };
+    const jwt = [
+      encodeBase64(JSON.stringify({ alg: "none", typ: "JWT" })),
+      encodeBase64(JSON.stringify(payload)),
+      "memory",
+    ].join(".");
+
+    this._tokens.set(jwt, { expiresAt, kuid });
+
+    return { _id: kuid, expiresAt, jwt, ttl };
+  }
+
+  private _login({ request }: ActionContext) {
+    const { username, password } = request.body || ({} as JSONObject);
+
+    if (request.strategy !== "local") {
+      throw apiError(
+        400,
+        "security.credentials.unknown_strategy",
+        `Unknown authentication strategy "${request.strategy}"`
+      );
+    }
+
+    const kuid = Object.keys(this._users).find((id) => {
+      const credentials = this._users[id].credentials;
+
+      return (
+        credentials &&
+        credentials.local &&
+        credentials.local.username === username &&
+        credentials.local.password === password
+      );
+    });
+
+    if (!kuid) {
+      throw apiError(
+        401,
+        "security.credentials.invalid",
+        "Invalid username or password"
+      );
+    }
+
+    return this._createToken(kuid, request.expiresIn);
+  }
+
+  private _logout({ request }: ActionContext) {
+    this._tokens.delete(request.jwt);
+    return { acknowledged: true };
+  }
+
+  private _checkToken({ request }: ActionContext) {
+    const token = this._tokens.get(request.body && request.body.token);
+
+    if (!token || token.expiresAt < Date.now()) {
+      return { state: "Invalid token.", valid: false };
+    }
+
+    return { expiresAt: token.expiresAt, kuid: token.kuid, valid: true };
+  }
+
+  private _refreshToken(context: ActionContext) {
+    const token = this._createToken(context.kuid, context.request.expiresIn);
+
+    this._tokens.delete(context.request.jwt);
+
+    return token;
+  }
+
+  private _getCurrentUser({ kuid }: ActionContext) {
+    if (kuid === "-1") {
+      return { _id: "-1", _source: { profileIds: ["anonymous"] } };
+    }
+
+    return {
+      _id: kuid,
+      _source: {
+        profileIds: ["default"],
+        ...this._users[kuid].content,
+      },
+      strategies: ["local"],
+    };
+  }
+
+  private _collections(index: string): Map<string, StoredCollection> {
+    if (!this._indexes.has(index)) {
+      throw apiError(
+        404,
+        "services.storage.unknown_index",
+        `Index "${index}" does not exist`
+      );
+    }
+
+    return this._indexes.get(index);
+  }
+
+  private _collectionName(request: JSONObject): string {
+    const collections = this._collections(request.index);
+
+    if (!collections.has(request.collection)) {
+      throw apiError(
+        404,
+        "services.storage.unknown_collection",
+        `Collection "${request.index}":"${request.collection}" does not exist`
+      );
+    }
+
+    return request.collection;
+  }
+
+  private _collection(request: JSONObject): StoredCollection {
+    return this._collections(request.index).get(this._collectionName(request));
+  }
+
+  private _createCollection({ request }: ActionContext) {
+    const collections = this._collections(request.index);
+    const body = request.body || {};
+
+    // Mappings can be given directly, as with the deprecated format
+    const mappings =
+      body.properties || body.dynamic || body._meta ? body : body.mappings;
+    const existing = collections.get(request.collection);
+
+    if (existing) {
+      existing.mappings = merge(existing.mappings, mappings || {});
+    } else {
+      collections.set(request.collection, {
+        documents: new Map(),
+        mappings: merge(
+          { _meta: {}, dynamic: "true", properties: {} },
+          mappings || {}
+        ),
+        settings: body.settings || {},
+        specifications: null,
+        validator: null,
+      });
+    }
+
+    return { acknowledged: true };
+  }
+
+  private _validator(specifications: JSONObject): SpecificationsValidator {
+    try {
+      return new SpecificationsValidator(specifications as any);
+    } catch (error) {
+      throw apiError(
+        400,
+        "validation.assert.invalid_specifications",
+        error.message
+      );
+    }
+  }
+
+  private _requireId(document: JSONObject): string {
+    if (!document._id) {
+      throw apiError(
+        400,
+        "api.assert.missing_argument",
+        'Missing argument "_id".'
+      );
+    }
+
+    return document._id;
+  }
+
+  private _checkLimit(
+    count: number,
+    limit: "documentsFetchCount" | "documentsWriteCount"
+  ) {
+    if (count > this._limits[limit]) {
+      throw apiError(
+        400,
+        limit === "documentsFetchCount"
+          ? "services.storage.get_limit_exceeded"
+          : "services.storage.write_limit_exceeded",
+        `Number of documents exceeds the server configured value (${this._limits[limit]})`
+      );
+    }
+  }
+
+  private _get(request: JSONObject, _id: string) {
+    const document = this._collection(request).documents.get(_id);
+
+    if (!document) {
+      throw apiError(
+        404,
+        "services.storage.not_found",
+        `Document "${_id}" not found in "${request.index}":"${request.collection}".`
+      );
+    }
+
+    return { _id, _source: document._source, _version: document._version };
+  }
+
+  /**
+   * Stores a document content, with its metadata, and notifies subscribers
+   */
+  private _write(
+    context: ActionContext,
+    action: string,
+    _id: string,
+    content: JSONObject,
+    partial = false
+  ) {
+    const { request, kuid } = context;
+    const collection = this._collection(request);
+    const previous = collection.documents.get(_id);
+    let body = clone(content || {});
+
+    delete body._kuzzle_info;
+
+    if (collection.validator) {
+      body = collection.validator.assert(body, {
+        partial,
+        request: request as any,
+      });
+    }
+
+    const now = Date.now();
+    const document: StoredDocument = {
+      _source: {
+        ...(partial && previous ? previous._source : {}),
+        ...(partial && previous ? merge(previous._source, body) : body),
+        _kuzzle_info: {
+          author: previous ? previous._source._kuzzle_info.author : kuid,
+          createdAt: previous ? previous._source._kuzzle_info.createdAt : now,
+          updatedAt: previous ? now : null,
+          updater: previous ? kuid : null,
+        },
+      },
+      _version: previous ? previous._version + 1 : 1,
+    };
+
+    collection.documents.set(_id, document);
+
+    this._notify(context, action, _id, previous, document);
+
+    return { _id, _source: document._source, _version: document._version };
+  }
+
+  private _update(context: ActionContext, _id: string, changes: JSONObject) {
+    this._get(context.request, _id);
+
+    return this._write(context, "update", _id, changes, true);
+  }
+
+  private _upsert(
+    context: ActionContext,
+    _id: string,
+    changes: JSONObject,
+    defaults: JSONObject
+  ) {
+    if (this._collection(context.request).documents.has(_id)) {
+      return { ...this._update(context, _id, changes || {}), created: false };
+    }
+
+    return {
+      ...this._write(context, "create", this._requireId({ _id }), {
+        ...defaults,
+        ...changes,
+      }),
+      created: true,
+    };
+  }
+
+  private _delete(context: ActionContext, _id: string) {
+    const { request } = context;
+    const document = this._get(request, _id);
+
+    this._collection(request).documents.delete(_id);
+    this._notify(context, "delete", _id, document, null);
+
+    return { _id, _source: document._source };
+  }
+
+  /**
+   * Writes documents one by one, reporting the rejected ones
+   */
+  private _mWrite(
+    context: ActionContext,
+    action: string,
+    write: (document: JSONObject) => JSONObject
+  ) {
+    const { request } = context;
+    const documents: JSONObject[] =
+      (request.body && request.body.documents) || [];
+    const successes = [];
+    const errors = [];
+
+    this._collection(request);
+    this._checkLimit(documents.length, "documentsWriteCount");
+
+    for (const document of documents) {
+      try {
+        successes.push(write(document));
+      } catch (error) {
+        if (!error.status) {
+          throw error;
+        }
+
+        errors.push({
+          document:
+            action === "upsert"
+              ? { _id: document._id, changes: document.changes }
+              : { _id: document._id, body: document.body },
+          reason: error.message,
+          status: error.status,
+        });
+      }
+    }
+
+    this._assertStrict(request, errors);
+
+    return { errors, successes };
+  }
+
+  private _mDelete(context: ActionContext) {
+    const { request } = context;
+    const ids: string[] = (request.body && request.body.ids) || [];
+    const collection = this._collection(request);
+    const successes = [];
+    const errors = [];
+
+    this._checkLimit(ids.length, "documentsWriteCount");
+
+    for (const _id of ids) {
+      if (collection.documents.has(_id)) {
+        successes.push(this._delete(context, _id)._id);
+      } else {
+        errors.push({ _id, reason: "Document not found", status: 404 });
+      }
+    }
+
+    this._assertStrict(request, errors);
+
+    return { errors, successes };
+  }
+
+  private _assertStrict(request: JSONObject, errors: JSONObject[]) {
+    if (request.strict && errors.length > 0) {
+      const error: any = apiError(
+        400,
+        "api.process.incomplete_multiple_request",
+        `${errors.length} documents could not be written`
+      );
+      error.errors = errors;
+      error.count = errors.length;
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the documents matching the query of a request, sorted
+   */
+  private _search(request: JSONObject): JSONObject[] {
+    const collection = this._collection(request);
+    const body = request.body || request.searchBody || {};
+    const test = this._compileSearch(request.lang, body.query);
+    const order: SortOrder = toSortOrder(body.sort);
+    const hits = [];
+
+    for (const [_id, document] of collection.documents) {
+      if (test({ ...document._source, _id })) {
+        hits.push({
+          _id,
+          _score: 1,
+          _source: document._source,
+          _version: document._version,
+        });
+      }
+    }
+
+    if (order.length > 0) {
+      const values = (hit: JSONObject) =>
+        sortValues({ ...hit._source, _id: hit._id }, order);
+
+      hits.sort((a, b) => compareSortValues(values(a), values(b), order));
+    }
+
+    return hits;
+  }
+
+  /**
+   * Returns the sorted hits following the "search_after" values of a request
+   */
+  private _searchAfter(request: JSONObject, hits: JSONObject[]): JSONObject[] {
+    const body = request.body || request.searchBody || {};
+    const order: SortOrder = toSortOrder(body.sort);
+
+    if (order.length === 0 || !body.search_after) {
+      return hits;
+    }
+
+    return hits.filter(
+      (hit) =>
+        compareSortValues(
+          sortValues({ ...hit._source, _id: hit._id }, order),
+          body.search_after,
+          order
+        ) > 0
+    );
+  }
+
+  private _compileSearch(lang: string, query: JSONObject): DocumentPredicate {
+    if (lang !== "koncorde") {
+      return compileQuery(query);
+    }
+
+    const filter = new KoncordeFilter(query || {});
+
+    return (document) => filter.test(document, document._id);
+  }
+
+  private _searchPage(request: JSONObject) {
+    const from = request.from || 0;
+    const size = request.size === undefined ? 10 : request.size;
+
+    this._checkLimit(from + size, "documentsFetchCount");
+
+    // Like Elasticsearch, the total counts every hit matching the query
+    const matching = this._search(request);
+    const cursor: ScrollCursor = {
+      hits: this._searchAfter(request, matching),
+      offset: from,
+      size,
+      total: matching.length,
+    };
+
+    if (request.scroll) {
+      const scrollId = uuidv4();
+      this._scrolls.set(scrollId, cursor);
+      return this._page(cursor, scrollId);
+    }
+
+    return this._page(cursor, undefined);
+  }
+
+  private _page(cursor: ScrollCursor, scrollId: string) {
+    const hits = cursor.hits.slice(cursor.offset, cursor.offset + cursor.size);
+
+    cursor.offset += cursor.size;
+
+    if (scrollId && cursor.offset >= cursor.hits.length) {
+      this._scrolls.delete(scrollId);
+    }
+
+    return {
+      aggregations: {},
+      hits,
+      remaining: Math.max(cursor.hits.length - cursor.offset, 0),
+      scrollId,
+      total: cursor.total,
+    };
+  }
+
+  private _room(roomId: string): MemoryRoom {
+    if (!this._rooms.has(roomId)) {
+      throw apiError(
+        404,
+        "core.realtime.unknown_room",
+        `Unknown room "${roomId}"`
+      );
+    }
+
+    return this._rooms.get(roomId);
+  }
+
+  private _subscribe(context: ActionContext) {
+    const { request, connection } = context;
+    const filters = request.body || {};
+    const scope = request.scope || "all";
+    const users = request.users || "none";
+
+    this._collection(request);
+
+    const roomId = hash([request.index, request.collection, filters]);
+    const channel = `${roomId}-${hash([scope, users])}`;
+
+    if (!this._rooms.has(roomId)) {
+      this._rooms.set(roomId, {
+        collection: request.collection,
+        filter: new KoncordeFilter(filters),
+        index: request.index,
+        subscribers: [],
+      });
+    }
+
+    const room = this._rooms.get(roomId);
+
+    if (
+      !room.subscribers.some(
+        (subscriber) =>
+          subscriber.connection === connection && subscriber.channel === channel
+      )
+    ) {
+      this._notifyUsers(context.notifications, room, request, "in");
+      room.subscribers.push({ channel, connection, scope, users });
+    }
+
+    return { channel, roomId };
+  }
+
+  private _unsubscribe(
+    notifications: MemoryNotification[],
+    connection: MemoryConnection,
+    room: MemoryRoom,
+    roomId: string
+  ) {
+    const count = room.subscribers.length;
+
+    room.subscribers = room.subscribers.filter(
+      (subscriber) => subscriber.connection !== connection
+    );
+
+    if (room.subscribers.length === 0) {
+      this._rooms.delete(roomId);
+    } else if (room.subscribers.length < count) {
+      this._notifyUsers(
+        notifications,
+        room,
+        { collection: room.collection, index: room.index },
+        "out"
+      );
+    }
+  }
+
+  private _notifyUsers(
+    notifications: MemoryNotification[],
+    room: MemoryRoom,
+    request: JSONObject,
+    user: "in" | "out"
+  ) {
+    for (const subscriber of room.subscribers) {
+      if (subscriber.users === "all" || subscriber.users === user) {
+        notifications.push({
+          connection: subscriber.connection,
+          notification: {
+            action: user === "in" ? "subscribe" : "unsubscribe",
+            collection: room.collection,
+            controller: "realtime",
+            index: room.index,
+            protocol: "memory",
+            result: {
+              count: room.subscribers.length + (user === "in" ? 1 : 0),
+            },
+            room: subscriber.channel,
+            timestamp: Date.now(),
+            type: "user",
+            user,
+            volatile: clone(request.volatile) || {},
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Notifies the subscribers of the rooms matching a document
+   * before or after a change
+   */
+  private _notify(
+    context: ActionContext,
+    action: string,
+    _id: string,
+    previous: { _source: JSONObject },
+    document: { _source: JSONObject; _version?: number }
+  ) {
+    const { request } = context;
+
+    if (request.silent) {
+      return;
+    }
+
+    let event = "write";
+
+    if (action === "delete") {
+      event = "delete";
+    } else if (action === "publish") {
+      event = "publish";
+    }
+
+    for (const room of this._rooms.values()) {
+      if (
+        room.index !== request.index ||
+        room.collection !== request.collection
+      ) {
+        continue;
+      }
+
+      const before =
+        Boolean(previous) && room.filter.test(previous._source, _id);
+      const after =
+        Boolean(document) && room.filter.test(document._source, _id);
+
+      if (!before && !after) {
+        continue;
+      }
+
+      const scope = after ? "in" : "out";
+      const source = document ? document._source : previous._source;
+
+      for (const subscriber of room.subscribers) {
+        if (subscriber.scope !== "all" && subscriber.scope !== scope) {
+          continue;
+        }
+
+        context.notifications.push({
+          connection: subscriber.connection,
+          notification: {
+            action,
+            collection: request.collection,
+            controller: action === "publish" ? "realtime" : "document",
+            event,
+            index: request.index,
+            protocol: "memory",
+            result: clone({
+              _id,
+              _source: source,
+              _updatedFields:
+                action === "update"
+                  ? Object.keys(request.body || {})
+                  : undefined,
+              _version: document ? document._version : undefined,
+            }),
+            room: subscriber.channel,
+            scope,
+            timestamp: Date.now(),
+            type: "document",
+            volatile: clone(request.volatile) || {},
+          },
+        });
+      }
+    }
+  }
+}
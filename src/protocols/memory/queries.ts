@@ -0,0 +1,189 @@
+import { JSONObject } from "../../types";
+import { getField } from "../../utils/object";
+
+/**
+ * Tests whether a document matches a compiled query
+ */
+export type DocumentPredicate = (document: JSONObject) => boolean;
+
+function invalid(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.id = "services.storage.invalid_search_query";
+  return error;
+}
+
+/**
+ * Tests a field value, array fields matching if one of their items matches
+ */
+function some(value: any, test: (item: any) => boolean): boolean {
+  return Array.isArray(value) ? value.some(test) : test(value);
+}
+
+function tokenize(text: any): string[] {
+  return String(text)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+function fieldAndValue(clause: string, term: JSONObject): [string, any] {
+  if (!term || typeof term !== "object" || Object.keys(term).length !== 1) {
+    throw invalid(`"${clause}" must be an object with exactly one field`);
+  }
+
+  const field = Object.keys(term)[0];
+
+  return [field, term[field]];
+}
+
+/**
+ * Unwraps the long form of clauses, e.g. `{ term: { name: { value: "foo" } } }`
+ */
+function unwrap(value: any, key: string): any {
+  return value !== null && typeof value === "object" && key in value
+    ? value[key]
+    : value;
+}
+
+function clauses(bool: JSONObject, name: string): DocumentPredicate[] {
+  if (!Object.prototype.hasOwnProperty.call(bool, name)) {
+    return [];
+  }
+
+  return (Array.isArray(bool[name]) ? bool[name] : [bool[name]]).map(
+    compileQuery
+  );
+}
+
+function compileRange(term: JSONObject): DocumentPredicate {
+  const [field, bounds] = fieldAndValue("range", term);
+  const tests: Array<(value: any) => boolean> = [];
+
+  for (const [bound, limit] of Object.entries(bounds || {})) {
+    switch (bound) {
+      case "gt":
+        tests.push((value) => value > limit);
+        break;
+      case "gte":
+        tests.push((value) => value >= limit);
+        break;
+      case "lt":
+        tests.push((value) => value < limit);
+        break;
+      case "lte":
+        tests.push((value) => value <= limit);
+        break;
+      default:
+        throw invalid(`"range" does not support the "${bound}" parameter`);
+    }
+  }
+
+  return (document) =>
+    some(
+      getField(document, field),
+      (value) =>
+        value !== undefined &&
+        value !== null &&
+        tests.every((test) => test(value))
+    );
+}
+
+/**
+ * Compiles an Elasticsearch query into a predicate, rejecting unsupported
+ * clauses. Documents are tested with their `_id` among their fields.
+ *
+ * Supported clauses: `match_all`, `ids`, `term`, `terms`, `match`, `range`,
+ * `exists`, `prefix` and `bool`. `match` clauses only check that every word
+ * of the query is in the field, ignoring the case.
+ */
+export function compileQuery(query: JSONObject): DocumentPredicate {
+  if (!query || Object.keys(query).length === 0) {
+    return () => true;
+  }
+
+  if (typeof query !== "object" || Object.keys(query).length !== 1) {
+    throw invalid("A query must be an object with exactly one clause");
+  }
+
+  const clause = Object.keys(query)[0];
+  const term = query[clause];
+
+  switch (clause) {
+    case "match_all":
+      return () => true;
+    case "match_none":
+      return () => false;
+    case "ids":
+      return (document) => (term.values || []).includes(document._id);
+    case "term": {
+      const [field, value] = fieldAndValue(clause, term);
+      const expected = unwrap(value, "value");
+
+      return (document) =>
+        some(getField(document, field), (item) => item === expected);
+    }
+    case "terms": {
+      const [field, values] = fieldAndValue(clause, term);
+
+      if (!Array.isArray(values)) {
+        throw invalid('"terms" values must be an array');
+      }
+
+      return (document) =>
+        some(getField(document, field), (item) => values.includes(item));
+    }
+    case "match": {
+      const [field, value] = fieldAndValue(clause, term);
+      const tokens = tokenize(unwrap(value, "query"));
+
+      return (document) =>
+        some(getField(document, field), (item) => {
+          if (item === undefined || item === null) {
+            return false;
+          }
+
+          const words = tokenize(item);
+
+          return tokens.every((token) => words.includes(token));
+        });
+    }
+    case "range":
+      return compileRange(term);
+    case "exists":
+      return (document) => {
+        const value = getField(document, term.field);
+        return (
+          value !== undefined &&
+          value !== null &&
+          !(Array.isArray(value) && value.length === 0)
+        );
+      };
+    case "prefix": {
+      const [field, value] = fieldAndValue(clause, term);
+      const prefix = unwrap(value, "value");
+
+      return (document) =>
+        some(
+          getField(document, field),
+          (item) => typeof item === "string" && item.startsWith(prefix)
+        );
+    }
+    case "bool": {
+      const must = [...clauses(term, "must"), ...clauses(term, "filter")];
+      const mustNot = clauses(term, "must_not");
+      const should = clauses(term, "should");
+      const minimumShouldMatch =
+        term.minimum_should_match !== undefined
+          ? Number(term.minimum_should_match)
+          : Number(must.length === 0 && should.length > 0);
+
+      return (document) =>
+        must.every((test) => test(document)) &&
+        !mustNot.some((test) => test(document)) &&
+        should.filter((test) => test(document)).length >= minimumShouldMatch;
+    }
+    default:
+      throw invalid(`Unsupported query clause "${clause}"`);
+  }
+}
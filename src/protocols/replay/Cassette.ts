@@ -0,0 +1,75 @@
+import * as fs from "fs";
+
+import { JSONObject } from "../../types";
+import { omit } from "../../utils/object";
+import {
+  DEFAULT_IGNORED_FIELDS,
+  DEFAULT_IGNORED_KEYS,
+  requestKey,
+  RequestKeyOptions,
+} from "../../utils/requestKey";
+
+/**
+ * Event emitted by a protocol while a request was being executed,
+ * e.g. a realtime notification
+ */
+export type CassetteEvent = {
+  event: string;
+  payload: JSONObject;
+};
+
+/**
+ * Request sent to Kuzzle, with its response and the notifications
+ * received until the next request
+ */
+export type CassetteInteraction = {
+  request: JSONObject;
+  response: JSONObject;
+  notifications: CassetteEvent[];
+};
+
+/**
+ * Traffic recorded between the SDK and Kuzzle
+ */
+export type Cassette = {
+  version: 1;
+  interactions: CassetteInteraction[];
+};
+
+export type CassetteMatchingOptions = RequestKeyOptions;
+
+export { DEFAULT_IGNORED_FIELDS, DEFAULT_IGNORED_KEYS, requestKey };
+
+/**
+ * Removes the credentials sent to `auth:login`, whatever the authentication
+ * strategy: the body of login requests is neither recorded nor matched
+ */
+export function withoutCredentials(request: JSONObject): JSONObject {
+  if (request.controller !== "auth" || request.action !== "login") {
+    return request;
+  }
+
+  return omit(request, ["body"]);
+}
+
+/**
+ * Reads a cassette from a JSON file (Node.js only)
+ */
+export function loadCassette(path: string): Cassette {
+  const cassette = JSON.parse(fs.readFileSync(path, "utf8"));
+
+  if (!cassette || !Array.isArray(cassette.interactions)) {
+    throw new Error(
+      `Invalid cassette file "${path}": expected an "interactions" array`
+    );
+  }
+
+  return cassette;
+}
+
+/**
+ * Writes a cassette to a JSON file (Node.js only)
+ */
+export function saveCassette(path: string, cassette: Cassette) {
+  fs.writeFileSync(path, JSON.stringify(cassette, null, 2));
+}
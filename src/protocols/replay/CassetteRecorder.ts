@@ -0,0 +1,210 @@
+import { KuzzleAbstractProtocol } from "../abstract/Base";
+import { JSONObject } from "../../types";
+import { RequestPayload } from "../../types/RequestPayload";
+import {
+  Cassette,
+  CassetteInteraction,
+  saveCassette,
+  withoutCredentials,
+} from "./Cassette";
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * API errors have a status, unlike the errors raised by the SDK itself
+ */
+function isApiError(error: unknown): error is { status: number } {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    Boolean(Reflect.get(error, "status"))
+  );
+}
+
+/**
+ * Keeps SDK errors, which are not serializable, as API-like errors
+ * without status
+ */
+function serializeResponse(response: JSONObject): JSONObject {
+  if (
+    response &&
+    response.error instanceof Error &&
+    !isApiError(response.error)
+  ) {
+    return {
+      ...response,
+      error: { message: response.error.message },
+    };
+  }
+
+  return clone(response);
+}
+
+/**
+ * Records the requests sent through a protocol, their responses and the
+ * realtime notifications received, to replay them with a `ReplayProtocol`.
+ *
+ * Requests are recorded as sent, except for their authentication token and
+ * the credentials sent to `auth:login`, unless the `keepCredentials` option
+ * is set.
+ */
+export class CassetteRecorder {
+  private _protocol: KuzzleAbstractProtocol;
+  private _path: string;
+  private _interactions: CassetteInteraction[];
+  private _pending: Map<string, CassetteInteraction>;
+  private _channels: Set<string>;
+  private _recording: boolean;
+  private _keepCredentials: boolean;
+  private _restore: () => void;
+
+  /**
+   * @param protocol Protocol to record
+   * @param options
+   *    - `path` Path of the cassette file written by `save` (Node.js only)
+   *    - `keepCredentials` Record the body of `auth:login` requests (default: `false`)
+   */
+  constructor(
+    protocol: KuzzleAbstractProtocol,
+    options: { path?: string; keepCredentials?: boolean } = {}
+  ) {
+    if (!protocol) {
+      throw new Error('CassetteRecorder: "protocol" argument missing');
+    }
+
+    this._protocol = protocol;
+    this._path = options.path;
+    this._interactions = [];
+    this._pending = new Map();
+    this._channels = new Set();
+    this._recording = false;
+    this._keepCredentials = Boolean(options.keepCredentials);
+  }
+
+  /**
+   * True while the traffic is recorded
+   */
+  get recording(): boolean {
+    return this._recording;
+  }
+
+  /**
+   * Recorded traffic. Requests still waiting for a response are not included.
+   */
+  get cassette(): Cassette {
+    return {
+      interactions: clone(
+        this._interactions.filter(({ response }) => response !== null)
+      ),
+      version: 1,
+    };
+  }
+
+  /**
+   * Starts recording the requests sent through the protocol
+   */
+  start(): this {
+    if (this._recording) {
+      return this;
+    }
+
+    const protocol = this._protocol;
+    const query = protocol.query;
+    const emit = protocol.emit;
+
+    const ownMethods = ["query", "emit"].filter((name) =>
+      Object.prototype.hasOwnProperty.call(protocol, name)
+    );
+
+    this._recording = true;
+    this._restore = () => {
+      for (const name of ["query", "emit"]) {
+        Reflect.deleteProperty(protocol, name);
+      }
+
+      if (ownMethods.includes("query")) {
+        protocol.query = query;
+      }
+
+      if (ownMethods.includes("emit")) {
+        protocol.emit = emit;
+      }
+    };
+
+    protocol.query = (request: RequestPayload, options: JSONObject) => {
+      const recorded = clone(
+        this._keepCredentials ? request : withoutCredentials(request)
+      );
+
+      delete recorded.jwt;
+
+      const interaction: CassetteInteraction = {
+        notifications: [],
+        request: recorded,
+        response: null,
+      };
+
+      this._interactions.push(interaction);
+      this._pending.set(request.requestId, interaction);
+
+      return query.call(protocol, request, options);
+    };
+
+    protocol.emit = (event: string, ...payload: any[]) => {
+      this._onEvent(event, payload[0]);
+
+      return emit.call(protocol, event, ...payload);
+    };
+
+    return this;
+  }
+
+  /**
+   * Stops recording, restoring the protocol methods
+   */
+  stop(): this {
+    if (this._recording) {
+      this._restore();
+      this._recording = false;
+    }
+
+    return this;
+  }
+
+  /**
+   * Writes the recorded traffic to a cassette file (Node.js only)
+   *
+   * @param path Cassette file path (default: the `path` option)
+   */
+  save(path: string = this._path) {
+    if (!path) {
+      throw new Error('CassetteRecorder: no cassette "path" given');
+    }
+
+    saveCassette(path, this.cassette);
+  }
+
+  private _onEvent(event: string, payload: JSONObject) {
+    const interaction = this._pending.get(event);
+
+    if (interaction) {
+      this._pending.delete(event);
+      interaction.response = serializeResponse(payload);
+
+      if (payload && payload.result && payload.result.channel) {
+        this._channels.add(payload.result.channel);
+      }
+
+      return;
+    }
+
+    if (this._channels.has(event) && this._interactions.length > 0) {
+      this._interactions[this._interactions.length - 1].notifications.push({
+        event,
+        payload: clone(payload),
+      });
+    }
+  }
+}
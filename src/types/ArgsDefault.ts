@@ -1,3 +1,5 @@
+import { RetryOptions } from "../core/RetryPolicy";
+
 /**
  * Generic API action arguments
  */
@@ -6,5 +8,11 @@ export interface ArgsDefault {
 
   timeout?: number;
 
+  retry?: RetryOptions | boolean;
+
+  signal?: AbortSignal;
+
+  cache?: boolean;
+
   [name: string]: any;
 }
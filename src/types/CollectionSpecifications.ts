@@ -0,0 +1,75 @@
+import { JSONObject } from "./JSONObject";
+
+/**
+ * Validation rules of a document field
+ *
+ * @example
+ * {
+ *   "type": "integer",
+ *   "mandatory": true,
+ *   "defaultValue": 42,
+ *   "typeOptions": {
+ *     "range": { "min": 0, "max": 100 }
+ *   }
+ * }
+ *
+ * @see https://docs.kuzzle.io/core/2/guides/advanced/data-validation/#field-definitions
+ */
+export type FieldSpecification = {
+  /**
+   * Field type (`anything`, `boolean`, `date`, `email`, `enum`, `geo_point`,
+   * `geo_shape`, `integer`, `ip_address`, `numeric`, `object`, `string`, `url`)
+   */
+  type: string;
+
+  /**
+   * The field must be present in created documents
+   */
+  mandatory?: boolean;
+
+  /**
+   * Value used when the field is missing from a created document
+   */
+  defaultValue?: any;
+
+  /**
+   * Allow the field to contain an array of values
+   */
+  multivalued?: {
+    value: boolean;
+    minCount?: number;
+    maxCount?: number;
+  };
+
+  /**
+   * Type specific options (e.g. `range`, `length`, `values`, `strict`)
+   */
+  typeOptions?: JSONObject;
+};
+
+/**
+ * Validation specifications of a collection.
+ *
+ * Nested fields are declared with their path, using `/` as separator
+ * (e.g. `address/zipcode`), and their parent must be an `object` field.
+ *
+ * @see https://docs.kuzzle.io/core/2/guides/advanced/data-validation/
+ */
+export type CollectionSpecifications = {
+  /**
+   * Reject fields which are not declared
+   */
+  strict?: boolean;
+
+  /**
+   * Fields validation rules
+   */
+  fields?: {
+    [path: string]: FieldSpecification;
+  };
+
+  /**
+   * Advanced validation rules, expressed as Koncorde filters
+   */
+  validators?: JSONObject[];
+};
@@ -0,0 +1,97 @@
+import { JSONObject } from "./JSONObject";
+import { KDocumentContent } from "./KDocument";
+import { CollectionMappings } from "./Mappings";
+
+/**
+ * TypeScript types of Elasticsearch field types.
+ *
+ * This interface can be augmented to support other field types:
+ *
+ * @example
+ * ```
+ * declare module "kuzzle-sdk" {
+ *   interface MappingsTypes {
+ *     my_plugin_type: string;
+ *   }
+ * }
+ * ```
+ */
+export interface MappingsTypes {
+  binary: string;
+  boolean: boolean;
+  byte: number;
+  completion: string;
+  constant_keyword: string;
+  date: string | number;
+  date_nanos: string | number;
+  double: number;
+  flattened: JSONObject;
+  float: number;
+  geo_point: { lat: number; lon: number } | string | [number, number];
+  geo_shape: JSONObject;
+  half_float: number;
+  integer: number;
+  ip: string;
+  keyword: string;
+  long: number;
+  object: JSONObject;
+  nested: JSONObject[];
+  scaled_float: number;
+  search_as_you_type: string;
+  short: number;
+  text: string;
+  token_count: number;
+  unsigned_long: number;
+  wildcard: string;
+}
+
+/**
+ * Content type of a mapped field
+ */
+export type MappingsPropertyContent<TProperty> = TProperty extends {
+  type: "nested";
+  properties: any;
+}
+  ? Array<MappingsPropertiesContent<TProperty>>
+  : TProperty extends { properties: any }
+  ? MappingsPropertiesContent<TProperty>
+  : TProperty extends { type: infer TType }
+  ? TType extends keyof MappingsTypes
+    ? MappingsTypes[TType]
+    : any
+  : any;
+
+/**
+ * Content type of an object field, or of a whole document
+ */
+export type MappingsPropertiesContent<TObject> = TObject extends {
+  properties: infer TProperties;
+}
+  ? {
+      -readonly [TName in keyof TProperties]?: MappingsPropertyContent<
+        TProperties[TName]
+      >;
+    }
+  : JSONObject;
+
+/**
+ * Document content type derived from collection mappings.
+ *
+ * Mappings must be declared with a const assertion so field types
+ * are not widened to `string`.
+ *
+ * @example
+ * ```
+ * const deviceMappings = {
+ *   properties: {
+ *     model: { type: "keyword" },
+ *     battery: { type: "integer" },
+ *   },
+ * } as const;
+ *
+ * type DeviceContent = MappingsContent<typeof deviceMappings>;
+ * // { model?: string; battery?: number; _kuzzle_info?: KDocumentKuzzleInfo }
+ * ```
+ */
+export type MappingsContent<TMappings extends CollectionMappings> =
+  KDocumentContent & MappingsPropertiesContent<TMappings>;
@@ -8,6 +8,8 @@ export * from "./JSONObject";
 
 export * from "./Mappings";
 
+export * from "./MappingsContent";
+
 export * from "./Notification";
 
 export * from "./ProfilePolicy";
@@ -27,3 +29,5 @@ export * from "./RequestPayload";
 export * from "./ResponsePayload";
 
 export * from "./BaseRequest";
+
+export * from "./CollectionSpecifications";
@@ -25,12 +25,32 @@ export type mCreateOrReplaceRequest<
    * Document content
    */
   body: Partial<TKDocumentContent>;
+
+  /**
+   * Only writes the document if its version is still this one
+   */
+  ifVersion?: number;
 }>;
 
 export type mReplaceRequest<TKDocumentContent extends KDocumentContentGeneric> =
-  mCreateOrReplaceRequest<TKDocumentContent>;
+  Array<{
+    /**
+     * Document unique identifier
+     */
+    _id: string;
+
+    /**
+     * Document content
+     */
+    body: Partial<TKDocumentContent>;
+
+    /**
+     * Only writes the document if its version is still this one
+     */
+    ifVersion?: number;
+  }>;
 export type mUpdateRequest<TKDocumentContent extends KDocumentContentGeneric> =
-  mCreateOrReplaceRequest<TKDocumentContent>;
+  mReplaceRequest<TKDocumentContent>;
 
 export type mUpsertRequest<TKDocumentContent extends KDocumentContentGeneric> =
   Array<{
@@ -48,6 +68,24 @@ export type mUpsertRequest<TKDocumentContent extends KDocumentContentGeneric> =
      * Document fields to add to the "update" part if the document is created
      */
     default?: Partial<TKDocumentContent>;
+
+    /**
+     * Only writes the document if its version is still this one
+     */
+    ifVersion?: number;
   }>;
 
-export type mDeleteRequest = string[];
+export type mDeleteRequest = Array<
+  | string
+  | {
+      /**
+       * Document unique identifier
+       */
+      _id: string;
+
+      /**
+       * Only deletes the document if its version is still this one
+       */
+      ifVersion?: number;
+    }
+>;
@@ -11,3 +11,86 @@ export function omit(object: JSONObject, omitted: string[]): JSONObject {
 
   return result;
 }
+
+/**
+ * Flattens nested objects into a single level object, with keys being
+ * the path of the values (e.g. `{ a: { b: 1 } }` => `{ "a.b": 1 }`).
+ *
+ * Arrays are kept as values.
+ */
+export function flatten(object: JSONObject, prefix = ""): JSONObject {
+  const result = {};
+
+  for (const [key, value] of Object.entries(object)) {
+    const path = prefix + key;
+
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      Object.assign(result, flatten(value, `${path}.`));
+    } else {
+      result[path] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Deeply compares two JSON values
+ */
+export function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") {
+    return false;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+
+  if (keys.length !== Object.keys(b).length) {
+    return false;
+  }
+
+  return keys.every((key) => isEqual(a[key], b[key]));
+}
+
+/**
+ * Checks if every value of an object is deeply included in another one.
+ *
+ * Arrays must be equal.
+ */
+export function isSubset(subset: any, object: any): boolean {
+  if (
+    !subset ||
+    !object ||
+    typeof subset !== "object" ||
+    typeof object !== "object" ||
+    Array.isArray(subset)
+  ) {
+    return isEqual(subset, object);
+  }
+
+  return Object.keys(subset).every((key) => isSubset(subset[key], object[key]));
+}
+
+/**
+ * Reads a nested value from its dot-separated path (e.g. `"a.b"`)
+ */
+export function getField(object: JSONObject, path: string): any {
+  let value: any = object;
+
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+
+    value = value[key];
+  }
+
+  return value;
+}
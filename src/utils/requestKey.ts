@@ -0,0 +1,95 @@
+import { JSONObject } from "../types";
+
+export type RequestKeyOptions = {
+  /**
+   * Dot-separated paths of request fields ignored when matching requests
+   */
+  ignore?: string[];
+
+  /**
+   * Names of fields ignored at any depth when matching requests
+   */
+  ignoreKeys?: string[];
+};
+
+/**
+ * Request fields changing between two runs of the same code
+ */
+export const DEFAULT_IGNORED_FIELDS = [
+  "requestId",
+  "jwt",
+  "volatile.sdkInstanceId",
+  "volatile.sdkName",
+];
+
+/**
+ * Timestamps, changing between two runs of the same code
+ */
+export const DEFAULT_IGNORED_KEYS = ["timestamp", "createdAt", "updatedAt"];
+
+function deletePath(object: JSONObject, path: string) {
+  const keys = path.split(".");
+  let current = object;
+
+  for (const key of keys.slice(0, -1)) {
+    if (current === null || typeof current !== "object") {
+      return;
+    }
+
+    current = current[key];
+  }
+
+  if (current !== null && typeof current === "object") {
+    delete current[keys[keys.length - 1]];
+  }
+}
+
+/**
+ * Serializes a value with sorted object keys, ignoring the given keys
+ */
+export function stableStringify(value: any, ignoredKeys: Set<string>): string {
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) => stableStringify(item, ignoredKeys))
+      .join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => !ignoredKeys.has(key) && value[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(value[key], ignoredKeys)}`
+      )
+      .join(",")}}`;
+  }
+
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+/**
+ * Returns a key identifying a request regardless of the fields changing
+ * between runs: two requests match if their keys are equal.
+ *
+ * Used to match recorded requests and to cache responses.
+ */
+export function requestKey(
+  request: JSONObject,
+  options: RequestKeyOptions = {}
+): string {
+  const copy = JSON.parse(JSON.stringify(request));
+
+  for (const path of [...DEFAULT_IGNORED_FIELDS, ...(options.ignore || [])]) {
+    deletePath(copy, path);
+  }
+
+  if (copy.volatile && Object.keys(copy.volatile).length === 0) {
+    delete copy.volatile;
+  }
+
+  return stableStringify(
+    copy,
+    new Set(options.ignoreKeys || DEFAULT_IGNORED_KEYS)
+  );
+}
@@ -0,0 +1,67 @@
+import { JSONObject } from "../types";
+import { getField } from "./object";
+
+/**
+ * Sort fields with their order, as `[["age", -1], ["_id", 1]]`
+ */
+export type SortOrder = Array<[string, 1 | -1]>;
+
+export function toSortOrder(sort: any): SortOrder {
+  if (!sort) {
+    return [];
+  }
+
+  const list = Array.isArray(sort)
+    ? sort
+    : Object.keys(sort).map((field) => ({ [field]: sort[field] }));
+
+  return list.map((item): [string, 1 | -1] => {
+    if (typeof item === "string") {
+      return [item, 1];
+    }
+
+    const field = Object.keys(item)[0];
+    const order =
+      item[field] !== null && typeof item[field] === "object"
+        ? item[field].order
+        : item[field];
+
+    return [field, String(order).toLowerCase() === "desc" ? -1 : 1];
+  });
+}
+
+/**
+ * Values of the sort fields of a document
+ */
+export function sortValues(document: JSONObject, order: SortOrder): any[] {
+  return order.map(([field]) => getField(document, field));
+}
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null;
+}
+
+/**
+ * Compares the sort values of two documents, missing values being sorted last
+ */
+export function compareSortValues(
+  a: any[],
+  b: any[],
+  order: SortOrder
+): number {
+  for (let i = 0; i < order.length; i++) {
+    if (isMissing(a[i]) || isMissing(b[i])) {
+      if (isMissing(a[i]) && isMissing(b[i])) {
+        continue;
+      }
+
+      return isMissing(a[i]) ? 1 : -1;
+    }
+
+    if (a[i] !== b[i]) {
+      return (a[i] < b[i] ? -1 : 1) * order[i][1];
+    }
+  }
+
+  return 0;
+}
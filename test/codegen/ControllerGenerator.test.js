@@ -0,0 +1,258 @@
+const should = require("should");
+const ts = require("typescript");
+
+const {
+  ControllerGenerator,
+} = require("../../src/codegen/ControllerGenerator");
+
+describe("ControllerGenerator", () => {
+  let generator;
+
+  const publicApi = {
+    document: {
+      get: {
+        action: "get",
+        controller: "document",
+        http: [{ url: "/:index/:collection/:_id", verb: "GET" }],
+      },
+    },
+    "my-plugin/greeter": {
+      sayHello: {
+        action: "sayHello",
+        controller: "my-plugin/greeter",
+        http: [
+          { url: "/_/greeter/:name", verb: "GET" },
+          { url: "/_/greeter/:name/:lang", verb: "POST" },
+        ],
+      },
+    },
+  };
+
+  const openapi = {
+    components: {
+      schemas: {
+        Greeting: {
+          properties: {
+            message: { type: "string" },
+            next: { $ref: "#/components/schemas/Greeting" },
+            tags: { items: { type: "string" }, type: "array" },
+          },
+          required: ["message"],
+          type: "object",
+        },
+      },
+    },
+    openapi: "3.0.1",
+    paths: {
+      "/_/greeter/{name}": {
+        get: {
+          description: "Says hello",
+          operationId: "my-plugin/greeter:sayHello",
+          parameters: [
+            {
+              description: "Name to greet",
+              in: "path",
+              name: "name",
+              schema: { type: "string" },
+            },
+            {
+              in: "query",
+              name: "lang",
+              schema: { enum: ["en", "fr"], type: "string" },
+            },
+          ],
+          responses: {
+            200: {
+              content: {
+                "application/json": {
+                  schema: {
+                    properties: {
+                      result: { $ref: "#/components/schemas/Greeting" },
+                      status: { type: "integer" },
+                    },
+                    type: "object",
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/_/greeter/{delete}": {
+        post: {
+          "x-kuzzle-action": "query",
+          "x-kuzzle-controller": "greeter",
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: {
+                  properties: { "a-b": { nullable: true, type: "number" } },
+                  type: "object",
+                },
+              },
+            },
+            required: true,
+          },
+        },
+      },
+      "/{index}/{collection}/{_id}": {
+        get: { operationId: "get", tags: ["document"] },
+      },
+    },
+  };
+
+  const checkSyntax = (code) => {
+    const { diagnostics } = ts.transpileModule(code, {
+      reportDiagnostics: true,
+    });
+
+    should(diagnostics).be.empty();
+  };
+
+  beforeEach(() => {
+    generator = new ControllerGenerator();
+  });
+
+  describe("#constructor", () => {
+    it("should throw if the controllers option is not an array", () => {
+      should(() => new ControllerGenerator({ controllers: "foo" })).throw(
+        /Invalid "controllers" option/
+      );
+    });
+  });
+
+  describe("#parsePublicApi", () => {
+    it("should parse custom controllers only by default", () => {
+      const controllers = generator.parse(publicApi);
+
+      should(controllers).have.length(1);
+      should(controllers[0].name).be.eql("my-plugin/greeter");
+      should(controllers[0].actions).match([
+        {
+          body: { required: false, type: "JSONObject" },
+          name: "sayHello",
+          pathParameters: [{ name: "name", required: true, type: "string" }],
+          queryParameters: [{ name: "lang", required: false, type: "string" }],
+          result: "any",
+        },
+      ]);
+    });
+
+    it("should parse native controllers on demand", () => {
+      generator = new ControllerGenerator({ includeNative: true });
+
+      const controllers = generator.parse(publicApi);
+
+      should(controllers.map(({ name }) => name)).be.eql([
+        "document",
+        "my-plugin/greeter",
+      ]);
+      should(controllers[0].actions[0].body).be.null();
+      should(
+        controllers[0].actions[0].pathParameters.map(({ name }) => name)
+      ).be.eql(["index", "collection", "_id"]);
+    });
+
+    it("should only parse the selected controllers", () => {
+      generator = new ControllerGenerator({ controllers: ["document"] });
+
+      should(generator.parse(publicApi).map(({ name }) => name)).be.eql([
+        "document",
+      ]);
+    });
+  });
+
+  describe("#parseOpenApi", () => {
+    it("should map operations to controller actions", () => {
+      const controllers = generator.parse(openapi);
+
+      should(controllers.map(({ name }) => name)).be.eql([
+        "greeter",
+        "my-plugin/greeter",
+      ]);
+      should(controllers[1].actions[0]).match({
+        description: "Says hello",
+        name: "sayHello",
+        pathParameters: [
+          {
+            description: "Name to greet",
+            name: "name",
+            required: true,
+            type: "string",
+          },
+        ],
+        queryParameters: [
+          { name: "lang", required: false, type: '"en" | "fr"' },
+        ],
+      });
+    });
+
+    it("should type results from the response schema", () => {
+      const [, controller] = generator.parse(openapi);
+
+      should(controller.actions[0].result).be.eql(
+        "{ message: string; next?: JSONObject; tags?: Array<string>; }"
+      );
+    });
+
+    it("should type request bodies and path templates", () => {
+      const [controller] = generator.parse(openapi);
+
+      should(controller.actions[0]).match({
+        body: { required: true, type: '{ "a-b"?: number | null; }' },
+        name: "query",
+        pathParameters: [{ name: "delete", required: true, type: "string" }],
+        result: "any",
+      });
+    });
+
+    it("should throw on invalid API descriptions", () => {
+      should(() => generator.parse(null)).throw(/Invalid API description/);
+      should(() => generator.parse([])).throw(/Invalid API description/);
+    });
+  });
+
+  describe("#generate", () => {
+    it("should generate controllers extending BaseController", () => {
+      const code = generator.generate(publicApi);
+
+      checkSyntax(code);
+
+      should(code).containEql(
+        'import { ArgsDefault, BaseController, JSONObject, Kuzzle } from "kuzzle-sdk";'
+      );
+      should(code).containEql(
+        "export interface ArgsMyPluginGreeterControllerSayHello extends ArgsDefault {\n  lang?: string;\n}"
+      );
+      should(code).containEql(
+        "export class MyPluginGreeterController extends BaseController {"
+      );
+      should(code).containEql('super(kuzzle, "my-plugin/greeter");');
+      should(code).containEql(
+        "sayHello(name: string, body?: JSONObject, options: ArgsMyPluginGreeterControllerSayHello = {}): Promise<ResultMyPluginGreeterControllerSayHello> {"
+      );
+      should(code).containEql(
+        'kuzzle.useController(MyPluginGreeterController, "myPluginGreeter");'
+      );
+    });
+
+    it("should generate valid identifiers", () => {
+      const code = generator.generate(openapi);
+
+      checkSyntax(code);
+
+      should(code).containEql(
+        'queryAction(_delete: string, body: { "a-b"?: number | null; }, options: ArgsGreeterControllerQuery = {})'
+      );
+      should(code).containEql("      delete: _delete,");
+    });
+
+    it("should import the SDK from the configured module", () => {
+      generator = new ControllerGenerator({ sdkModule: "../sdk" });
+
+      should(generator.generate({})).containEql(
+        'import { ArgsDefault, BaseController, Kuzzle } from "../sdk";'
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const should = require("should");
+
+const { parseArgs, run } = require("../../src/codegen/cli");
+
+describe("kuzzle-sdk-codegen", () => {
+  let dir;
+  let output;
+
+  const writable = () => {
+    const stream = { data: "" };
+    stream.write = (chunk) => {
+      stream.data += chunk;
+    };
+    return stream;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzzle-codegen-"));
+    output = { stderr: writable(), stdout: writable() };
+
+    fs.writeFileSync(
+      path.join(dir, "publicApi.json"),
+      JSON.stringify({
+        greeter: {
+          hello: { http: [{ url: "/_/greeter/:name", verb: "GET" }] },
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { force: true, recursive: true });
+  });
+
+  describe("#parseArgs", () => {
+    it("should parse flags and options", () => {
+      should(
+        parseArgs(["--ssl", "--host", "kuzzle", "--controllers", "a,b"])
+      ).be.eql({ controllers: "a,b", host: "kuzzle", ssl: true });
+    });
+
+    it("should reject unknown or incomplete options", () => {
+      should(() => parseArgs(["--foo"])).throw('Unknown option "--foo"');
+      should(() => parseArgs(["--host"])).throw(
+        'Missing value for option "--host"'
+      );
+      should(() => parseArgs(["foo"])).throw('Unexpected argument "foo"');
+    });
+  });
+
+  describe("#run", () => {
+    it("should print the generated code", async () => {
+      const code = await run(
+        ["--input", path.join(dir, "publicApi.json")],
+        output
+      );
+
+      should(code).be.eql(0);
+      should(output.stdout.data).containEql(
+        "export class GreeterController extends BaseController {"
+      );
+    });
+
+    it("should write the generated code to a file", async () => {
+      const file = path.join(dir, "controllers.ts");
+      const code = await run(
+        [
+          "--input",
+          path.join(dir, "publicApi.json"),
+          "--output",
+          file,
+          "--sdk-module",
+          "../sdk",
+        ],
+        output
+      );
+
+      should(code).be.eql(0);
+      should(output.stdout.data).be.empty();
+      should(fs.readFileSync(file, "utf8")).containEql('from "../sdk";');
+    });
+
+    it("should print the usage on errors", async () => {
+      const code = await run(["--input", path.join(dir, "none.json")], output);
+
+      should(code).be.eql(1);
+      should(output.stderr.data).match(/ENOENT/);
+      should(output.stderr.data).containEql("Usage: kuzzle-sdk-codegen");
+    });
+  });
+});
@@ -2,6 +2,8 @@ const sinon = require("sinon");
 const should = require("should");
 
 const { DocumentController } = require("../../src/controllers/Document");
+const { KuzzleError } = require("../../src/KuzzleError");
+const { VersionConflictError } = require("../../src/VersionConflictError");
 const {
   DocumentSearchResult,
 } = require("../../src/core/searchResult/Document");
@@ -139,6 +141,23 @@ describe("Document Controller", () => {
           should(res).equal("document-id");
         });
     });
+
+    it("should only delete the document if it is at the expected version", async () => {
+      kuzzle.query.resolves({ result: { _id: "document-id", _version: 2 } });
+
+      await should(
+        kuzzle.document.delete("index", "collection", "document-id", {
+          ifVersion: 1,
+        })
+      ).be.rejectedWith(VersionConflictError, { action: "delete" });
+
+      await kuzzle.document.delete("index", "collection", "document-id", {
+        ifVersion: 2,
+      });
+
+      should(kuzzle.query.lastCall.args[0]).match({ action: "delete" });
+      should(kuzzle.query.lastCall.args[1]).be.eql({});
+    });
   });
 
   describe("deleteFields", () => {
@@ -337,6 +356,75 @@ describe("Document Controller", () => {
           should(res).be.equal(result);
         });
     });
+
+    it("should report documents which do not exist anymore instead of creating them", async () => {
+      kuzzle.query.onFirstCall().resolves({
+        result: {
+          errors: ["deleted"],
+          successes: [{ _id: "same", _version: 2 }],
+        },
+      });
+      kuzzle.query.onSecondCall().resolves({
+        result: { errors: [], successes: [{ _id: "same" }, { _id: "new" }] },
+      });
+
+      const res = await kuzzle.document.mCreateOrReplace(
+        "index",
+        "collection",
+        [
+          { _id: "same", body: { foo: 1 }, ifVersion: 2 },
+          { _id: "deleted", body: { foo: 2 }, ifVersion: 1 },
+          { _id: "new", body: { foo: 3 } },
+        ]
+      );
+
+      should(kuzzle.query.secondCall.args[0].body).be.eql({
+        documents: [
+          { _id: "same", body: { foo: 1 } },
+          { _id: "new", body: { foo: 3 } },
+        ],
+      });
+      should(res.successes).be.eql([{ _id: "same" }, { _id: "new" }]);
+      should(res.errors).be.eql([
+        {
+          document: { _id: "deleted", _source: { foo: 2 } },
+          reason:
+            'Document "index":"collection":"deleted" does not exist anymore (expected version 1)',
+          status: 409,
+        },
+      ]);
+    });
+  });
+
+  describe("mUpsert", () => {
+    it("should report documents which are not at the expected version anymore", async () => {
+      kuzzle.query.onFirstCall().resolves({
+        result: { errors: [], successes: [{ _id: "changed", _version: 3 }] },
+      });
+      kuzzle.query.onSecondCall().resolves({
+        result: { errors: [], successes: [{ _id: "unchecked" }] },
+      });
+
+      const res = await kuzzle.document.mUpsert("index", "collection", [
+        { _id: "changed", changes: { foo: 1 }, ifVersion: 2 },
+        { _id: "unchecked", changes: { foo: 2 }, default: { bar: 2 } },
+      ]);
+
+      should(kuzzle.query.secondCall.args[0]).match({
+        action: "mUpsert",
+        body: {
+          documents: [
+            { _id: "unchecked", changes: { foo: 2 }, default: { bar: 2 } },
+          ],
+        },
+      });
+      should(res.successes).be.eql([{ _id: "unchecked" }]);
+      should(res.errors[0]).match({
+        document: { _id: "changed", _source: { foo: 1 } },
+        reason: /is at version 3 instead of version 2/,
+        status: 409,
+      });
+    });
   });
 
   describe("upsert", () => {
@@ -412,6 +500,45 @@ describe("Document Controller", () => {
           should(res).be.equal(result);
         });
     });
+
+    it("should report documents which are not at the expected version anymore", async () => {
+      kuzzle.query.onFirstCall().resolves({
+        result: {
+          errors: [],
+          successes: [
+            { _id: "same", _version: 1 },
+            { _id: "changed", _version: 3 },
+          ],
+        },
+      });
+      kuzzle.query.onSecondCall().resolves({
+        result: { errors: [], successes: ["same", "unchecked"] },
+      });
+
+      const res = await kuzzle.document.mDelete("index", "collection", [
+        { _id: "same", ifVersion: 1 },
+        { _id: "changed", ifVersion: 2 },
+        "unchecked",
+      ]);
+
+      should(kuzzle.query.firstCall.args[0]).match({
+        action: "mGet",
+        body: { ids: ["same", "changed"] },
+      });
+      should(kuzzle.query.secondCall.args[0].body).be.eql({
+        ids: ["same", "unchecked"],
+      });
+      should(res).be.eql({
+        errors: [
+          {
+            _id: "changed",
+            reason:
+              'Document "index":"collection":"changed" is at version 3 instead of version 2',
+          },
+        ],
+        successes: ["same", "unchecked"],
+      });
+    });
   });
 
   describe("mGet", () => {
@@ -536,6 +663,87 @@ describe("Document Controller", () => {
           should(res).be.equal(result);
         });
     });
+
+    it("should report documents which are not at the expected version anymore", async () => {
+      kuzzle.query.onFirstCall().resolves({
+        result: {
+          errors: ["missing"],
+          successes: [
+            { _id: "same", _version: 1 },
+            { _id: "changed", _version: 3 },
+          ],
+        },
+      });
+      kuzzle.query.onSecondCall().resolves({
+        result: {
+          errors: [{ document: { _id: "missing" }, status: 404 }],
+          successes: [{ _id: "same" }, { _id: "unchecked" }],
+        },
+      });
+
+      const res = await kuzzle.document.mUpdate("index", "collection", [
+        { _id: "same", body: { foo: 1 }, ifVersion: 1 },
+        { _id: "changed", body: { foo: 2 }, ifVersion: 2 },
+        { _id: "missing", body: { foo: 3 }, ifVersion: 1 },
+        { _id: "unchecked", body: { foo: 4 } },
+      ]);
+
+      should(kuzzle.query.firstCall.args[0]).match({
+        action: "mGet",
+        body: { ids: ["same", "changed", "missing"] },
+      });
+      should(kuzzle.query.secondCall.args[0].body).be.eql({
+        documents: [
+          { _id: "same", body: { foo: 1 } },
+          { _id: "missing", body: { foo: 3 } },
+          { _id: "unchecked", body: { foo: 4 } },
+        ],
+      });
+
+      should(res.successes).be.eql([{ _id: "same" }, { _id: "unchecked" }]);
+      should(res.errors).have.length(2);
+      should(res.errors[0]).match({
+        document: { _id: "changed", _source: { foo: 2 } },
+        reason: /is at version 3 instead of version 2/,
+        status: 409,
+      });
+      should(res.errors[1]).match({ document: { _id: "missing" } });
+    });
+
+    it("should not send a request if every document is in conflict", async () => {
+      kuzzle.query.resolves({
+        result: { errors: [], successes: [{ _id: "changed", _version: 3 }] },
+      });
+
+      const res = await kuzzle.document.mReplace("index", "collection", [
+        { _id: "changed", body: { foo: 2 }, ifVersion: 2 },
+      ]);
+
+      should(kuzzle.query).be.calledOnce();
+      should(res.successes).be.empty();
+      should(res.errors[0]).match({ status: 409 });
+    });
+
+    it("should reject with a VersionConflictError in strict mode", async () => {
+      kuzzle.query.resolves({
+        result: { errors: [], successes: [{ _id: "changed", _version: 3 }] },
+      });
+
+      await should(
+        kuzzle.document.mUpdate(
+          "index",
+          "collection",
+          [{ _id: "changed", body: { foo: 2 }, ifVersion: 2 }],
+          { strict: true }
+        )
+      ).be.rejectedWith(VersionConflictError, {
+        action: "mUpdate",
+        currentVersion: 3,
+        expectedVersion: 2,
+      });
+
+      should(kuzzle.query).be.calledOnce();
+    });
   });
 
   describe("replace", () => {
@@ -570,6 +778,62 @@ describe("Document Controller", () => {
           should(res).be.equal(result);
         });
     });
+
+    it("should replace the document if it is still at the expected version", async () => {
+      kuzzle.query
+        .onFirstCall()
+        .resolves({ result: { _id: "document-id", _version: 3 } });
+      kuzzle.query.onSecondCall().resolves({ result: { _version: 4 } });
+
+      const res = await kuzzle.document.replace(
+        "index",
+        "collection",
+        "document-id",
+        { foo: "bar" },
+        { ifVersion: 3, timeout: 42 }
+      );
+
+      should(kuzzle.query).be.calledTwice();
+      should(kuzzle.query.firstCall).be.calledWithMatch(
+        { action: "get", _id: "document-id" },
+        { timeout: 42 }
+      );
+      should(kuzzle.query.secondCall.args[0]).match({
+        action: "replace",
+        body: { foo: "bar" },
+      });
+      should(kuzzle.query.secondCall.args[1]).be.eql({ timeout: 42 });
+      should(res).be.eql({ _version: 4 });
+    });
+
+    it("should reject with a VersionConflictError if the document has been modified", async () => {
+      kuzzle.query.resolves({ result: { _id: "document-id", _version: 4 } });
+
+      const error = await should(
+        kuzzle.document.replace(
+          "index",
+          "collection",
+          "document-id",
+          { foo: "bar" },
+          { ifVersion: 3 }
+        )
+      ).be.rejected();
+
+      should(error).be.instanceOf(VersionConflictError);
+      should(error).be.instanceOf(KuzzleError);
+      should(error).match({
+        _id: "document-id",
+        action: "replace",
+        collection: "collection",
+        controller: "document",
+        currentVersion: 4,
+        expectedVersion: 3,
+        id: "services.storage.version_conflict",
+        index: "index",
+        status: 409,
+      });
+      should(kuzzle.query).be.calledOnce();
+    });
   });
 
   describe("search", () => {
@@ -746,9 +1010,150 @@ describe("Document Controller", () => {
           should(request.from).be.undefined();
         });
     });
+
+    it('should add an "_id" tiebreaker to the sort of searches paginated with search_after', () => {
+      kuzzle.document.query = sinon
+        .stub()
+        .resolves({ result: { hits: [], total: 0 } });
+      kuzzle.protocol = { name: "websocket" };
+
+      return kuzzle.document
+        .search("index", "collection", { sort: ["foo"] }, { size: 2 })
+        .then(() => {
+          const request = kuzzle.document.query.getCall(0).args[0];
+          should(request.body.sort).be.eql(["foo", "_id"]);
+
+          return kuzzle.document.search(
+            "index",
+            "collection",
+            { sort: { foo: "desc" } },
+            { size: 2 }
+          );
+        })
+        .then(() => {
+          const request = kuzzle.document.query.getCall(1).args[0];
+          should(request.body.sort).be.eql({ foo: "desc", _id: "asc" });
+
+          return kuzzle.document.search(
+            "index",
+            "collection",
+            { sort: ["foo", { _id: "desc" }] },
+            { size: 2 }
+          );
+        })
+        .then(() => {
+          const request = kuzzle.document.query.getCall(2).args[0];
+          should(request.body.sort).be.eql(["foo", { _id: "desc" }]);
+
+          return kuzzle.document.search(
+            "index",
+            "collection",
+            {},
+            { size: 2, pagination: "searchAfter" }
+          );
+        })
+        .then(() => {
+          const request = kuzzle.document.query.getCall(3).args[0];
+          should(request.body.sort).be.eql(["_id"]);
+          should(kuzzle.document.query.getCall(3).args[1]).not.have.property(
+            "pagination"
+          );
+        });
+    });
+
+    it("should not modify the search body given by the caller", async () => {
+      kuzzle.document.query = sinon
+        .stub()
+        .resolves({ result: { hits: [], total: 0 } });
+      kuzzle.protocol = { name: "websocket" };
+
+      const body = { sort: [{ age: "desc" }] };
+      const objectBody = { sort: { age: "desc" } };
+
+      await kuzzle.document.search("index", "collection", body, { size: 2 });
+      await kuzzle.document.search("index", "collection", objectBody, {
+        size: 2,
+      });
+
+      should(body).eql({ sort: [{ age: "desc" }] });
+      should(objectBody).eql({ sort: { age: "desc" } });
+    });
+
+    it("should not change the sort of searches paginated with another strategy", () => {
+      kuzzle.document.query = sinon
+        .stub()
+        .resolves({ result: { hits: [], total: 0 } });
+      kuzzle.protocol = { name: "websocket" };
+
+      return kuzzle.document
+        .search(
+          "index",
+          "collection",
+          { sort: ["foo"] },
+          { size: 2, pagination: "fromSize" }
+        )
+        .then(() => {
+          const request = kuzzle.document.query.getCall(0).args[0];
+          should(request.body.sort).be.eql(["foo"]);
+
+          return kuzzle.document.search(
+            "index",
+            "collection",
+            { sort: ["foo"] },
+            { size: 2, scroll: "10s" }
+          );
+        })
+        .then(() => {
+          const request = kuzzle.document.query.getCall(1).args[0];
+          should(request.body.sort).be.eql(["foo"]);
+        });
+    });
+
+    it("should throw on unknown pagination strategies", () => {
+      kuzzle.protocol = { name: "websocket" };
+
+      should(() =>
+        kuzzle.document.search(
+          "index",
+          "collection",
+          {},
+          { pagination: "foobar" }
+        )
+      ).throw(/Unknown pagination strategy "foobar"/);
+    });
   });
 
   describe("update", () => {
+    it("should only update the document if it is at the expected version", async () => {
+      kuzzle.query.resolves({ result: { _id: "document-id", _version: 2 } });
+
+      await should(
+        kuzzle.document.update(
+          "index",
+          "collection",
+          "document-id",
+          { foo: "bar" },
+          { ifVersion: 1, retryOnConflict: 2 }
+        )
+      ).be.rejectedWith(VersionConflictError, { action: "update" });
+
+      should(kuzzle.query).be.calledOnce();
+
+      await kuzzle.document.update(
+        "index",
+        "collection",
+        "document-id",
+        { foo: "bar" },
+        { ifVersion: 2, retryOnConflict: 2 }
+      );
+
+      should(kuzzle.query.lastCall.args[0]).match({
+        action: "update",
+        retryOnConflict: 2,
+      });
+      should(kuzzle.query.lastCall.args[1]).be.eql({ retryOnConflict: 2 });
+    });
+
     it("should call document/update query and return a Promise which resolves the updated document", () => {
       const result = {
         _id: "document-id",
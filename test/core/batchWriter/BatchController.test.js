@@ -7,6 +7,7 @@ const {
 const {
   BatchController,
 } = require("../../../src/core/batchWriter/BatchController");
+const { DocumentController } = require("../../../src/controllers/Document");
 const { KuzzleError } = require("../../../src/KuzzleError");
 
 describe("BatchController", () => {
@@ -192,6 +193,34 @@ describe("BatchController", () => {
         new Error('Cannot replace document in "city":"galle" : some reason')
       );
     });
+
+    it("should not batch replacements checking the document version", async () => {
+      const replace = sinon
+        .stub(DocumentController.prototype, "replace")
+        .resolves({ _id: "dana", _version: 2 });
+
+      try {
+        const document = await batchController.replace(
+          "city",
+          "galle",
+          "dana",
+          { name: "Dana" },
+          { ifVersion: 1 }
+        );
+
+        should(document).be.eql({ _id: "dana", _version: 2 });
+        should(replace).be.calledWith(
+          "city",
+          "galle",
+          "dana",
+          { name: "Dana" },
+          { ifVersion: 1 }
+        );
+        should(writer.addReplace).not.be.called();
+      } finally {
+        replace.restore();
+      }
+    });
   });
 
   describe("#createOrReplace", () => {
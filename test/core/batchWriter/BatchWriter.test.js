@@ -18,6 +18,7 @@ describe("BatchWriter", () => {
         mGet: sinon.stub().resolves(),
         mDelete: sinon.stub().resolves(),
       },
+      emit: sinon.stub(),
     };
 
     writer = new BatchWriter(sdk);
@@ -322,4 +323,174 @@ describe("BatchWriter", () => {
       should(tbilisi.promise.promise).be.rejectedWith("error");
     });
   });
+
+  describe("auto flush", () => {
+    beforeEach(() => {
+      writer = new BatchWriter(sdk, {
+        maxReadBufferSize: 3,
+        maxWriteBufferSize: 2,
+      });
+      writer.begin();
+    });
+
+    afterEach(() => writer.dispose());
+
+    it("should send a collection buffer as soon as it reaches the max size", async () => {
+      sdk.document.mCreate.resolves("mCreate");
+
+      const dana = writer.addCreate(
+        "city",
+        "tbilisi",
+        { name: "Dana" },
+        "dana"
+      );
+      should(sdk.document.mCreate).not.be.called();
+
+      writer.addCreate("city", "tbilisi", { name: "Aschen" }, "aschen");
+      const ugo = writer.addCreate("city", "tbilisi", { name: "Ugo" }, "ugo");
+
+      should(sdk.document.mCreate)
+        .be.calledOnce()
+        .be.calledWith("city", "tbilisi", [
+          { _id: "dana", body: { name: "Dana" } },
+          { _id: "aschen", body: { name: "Aschen" } },
+        ]);
+      should(await dana.promise.promise).be.eql("mCreate");
+      should(ugo.idx).be.eql(0);
+      should(writer.buffers.create.indexes.get("city").get("tbilisi")).match({
+        documents: [{ _id: "ugo" }],
+      });
+    });
+
+    it("should use the read buffer size for get and exists", () => {
+      writer.addGet("city", "tbilisi", undefined, "dana");
+      writer.addGet("city", "tbilisi", undefined, "aschen");
+      should(sdk.document.mGet).not.be.called();
+
+      writer.addGet("city", "tbilisi", undefined, "ugo");
+      should(sdk.document.mGet).be.calledWith("city", "tbilisi", [
+        "dana",
+        "aschen",
+        "ugo",
+      ]);
+    });
+  });
+
+  describe("oversized buffers", () => {
+    beforeEach(() => {
+      writer = new BatchWriter(sdk, {
+        maxReadBufferSize: 2,
+        maxWriteBufferSize: 2,
+      });
+    });
+
+    it("should split write buffers and merge the results", async () => {
+      sdk.document.mCreate
+        .onCall(0)
+        .resolves({
+          errors: [],
+          successes: [{ _id: "dana" }, { _id: "aschen" }],
+        })
+        .onCall(1)
+        .resolves({ errors: [{ document: { _id: "ugo" } }], successes: [] });
+
+      const { promise } = writer.buffers.create.add(
+        "city",
+        "tbilisi",
+        {},
+        "dana"
+      );
+      writer.buffers.create.add("city", "tbilisi", {}, "aschen");
+      writer.buffers.create.add("city", "tbilisi", {}, "ugo");
+
+      await writer.sendCreateBuffer(writer.buffers.create);
+
+      should(sdk.document.mCreate).be.calledTwice();
+      should(sdk.document.mCreate.getCall(1).args[2]).eql([
+        { _id: "ugo", body: {} },
+      ]);
+      should(await promise.promise).eql({
+        errors: [{ document: { _id: "ugo" } }],
+        successes: [{ _id: "dana" }, { _id: "aschen" }],
+      });
+    });
+
+    it("should split exists buffers and keep the results order", async () => {
+      sdk.document.mGet
+        .onCall(0)
+        .resolves({ successes: [{ _id: "aschen" }] })
+        .onCall(1)
+        .resolves({ successes: [{ _id: "ugo" }] });
+
+      const { promise } = writer.buffers.exists.add(
+        "city",
+        "tbilisi",
+        undefined,
+        "dana"
+      );
+      writer.buffers.exists.add("city", "tbilisi", undefined, "aschen");
+      writer.buffers.exists.add("city", "tbilisi", undefined, "ugo");
+
+      await writer.sendExistsBuffer(writer.buffers.exists);
+
+      should(await promise.promise).eql([false, true, true]);
+    });
+
+    it("should reject if one of the requests fails", async () => {
+      const error = new Error("too many documents");
+      sdk.document.mDelete.onCall(1).rejects(error);
+
+      const { promise } = writer.buffers.delete.add(
+        "city",
+        "tbilisi",
+        undefined,
+        "dana"
+      );
+      writer.buffers.delete.add("city", "tbilisi", undefined, "aschen");
+      writer.buffers.delete.add("city", "tbilisi", undefined, "ugo");
+
+      await writer.sendDeleteBuffer(writer.buffers.delete);
+
+      await should(promise.promise).be.rejectedWith(error);
+    });
+  });
+
+  describe("metrics", () => {
+    it("should emit a batchFlush event per request", async () => {
+      writer.buffers.get.add("city", "tbilisi", undefined, "dana");
+      writer.buffers.get.add("city", "tbilisi", undefined, "aschen");
+
+      await writer.sendGetBuffer(writer.buffers.get);
+
+      should(sdk.emit).be.calledOnce().be.calledWithMatch("batchFlush", {
+        action: "mGet",
+        collection: "tbilisi",
+        index: "city",
+        size: 2,
+      });
+      should(sdk.emit.getCall(0).args[1].duration).be.a.Number();
+    });
+
+    it("should emit a batchFlushError event when a request fails", async () => {
+      const error = new Error("failure");
+      sdk.document.mCreate.rejects(error);
+      const { promise } = writer.buffers.create.add(
+        "city",
+        "tbilisi",
+        {},
+        "dana"
+      );
+
+      await writer.sendCreateBuffer(writer.buffers.create);
+
+      await should(promise.promise).be.rejectedWith(error);
+      should(sdk.emit).be.calledOnce().be.calledWithMatch("batchFlushError", {
+        action: "mCreate",
+        collection: "tbilisi",
+        error,
+        index: "city",
+        size: 1,
+      });
+    });
+  });
 });
@@ -0,0 +1,211 @@
+const { EventEmitter } = require("events");
+const sinon = require("sinon");
+const should = require("should");
+
+const {
+  CollectionExporter,
+} = require("../../../src/core/export/CollectionExporter");
+const {
+  DocumentSearchResult,
+} = require("../../../src/core/searchResult/Document");
+
+describe("CollectionExporter", () => {
+  let kuzzle, sdk, pages;
+
+  function hit(_id, name) {
+    return { _id, _source: { name } };
+  }
+
+  beforeEach(() => {
+    pages = [
+      { hits: [hit("foo", "Foo"), hit("bar", "Bar")], scrollId: "s", total: 3 },
+      { hits: [hit("baz", "Baz")], scrollId: "s", total: 3 },
+    ];
+
+    kuzzle = {
+      query: sinon.stub().resolves({ result: pages[1] }),
+    };
+
+    sdk = {
+      document: {
+        search: sinon.stub().callsFake((index, collection, body, options) =>
+          Promise.resolve(
+            new DocumentSearchResult(
+              kuzzle,
+              Object.assign(
+                {
+                  action: "search",
+                  body,
+                  collection,
+                  controller: "document",
+                  index,
+                },
+                options
+              ),
+              {},
+              pages[0]
+            )
+          )
+        ),
+      },
+    };
+  });
+
+  async function collect(exporter) {
+    const chunks = [];
+    const iterator = exporter.chunks();
+    let item = await iterator.next();
+
+    while (!item.done) {
+      chunks.push(item.value);
+      item = await iterator.next();
+    }
+
+    return chunks;
+  }
+
+  describe("#chunks", () => {
+    it("should search with a scroll cursor and yield one chunk per page", async () => {
+      const exporter = new CollectionExporter(sdk, "index", "collection", {
+        query: { match: { name: "Foo" } },
+        size: 2,
+      });
+
+      const chunks = await collect(exporter);
+
+      should(sdk.document.search).be.calledWith(
+        "index",
+        "collection",
+        { query: { match: { name: "Foo" } } },
+        { lang: undefined, scroll: "20s", size: 2 }
+      );
+      should(kuzzle.query).be.calledOnce().be.calledWithMatch({
+        action: "scroll",
+        scrollId: "s",
+      });
+      should(chunks).be.eql([
+        '{"_id":"foo","body":{"name":"Foo"}}\n{"_id":"bar","body":{"name":"Bar"}}\n',
+        '{"_id":"baz","body":{"name":"Baz"}}\n',
+      ]);
+    });
+
+    it("should write the header and footer of the format", async () => {
+      const exporter = new CollectionExporter(sdk, "index", "collection", {
+        format: "json",
+      });
+
+      const chunks = await collect(exporter);
+
+      should(JSON.parse(chunks.join(""))).be.eql([
+        { _id: "foo", body: { name: "Foo" } },
+        { _id: "bar", body: { name: "Bar" } },
+        { _id: "baz", body: { name: "Baz" } },
+      ]);
+    });
+
+    it("should write the CSV header of empty collections", async () => {
+      pages[0] = { hits: [], total: 0 };
+
+      const exporter = new CollectionExporter(sdk, "index", "collection", {
+        fields: ["_id", "name"],
+        format: "csv",
+      });
+
+      should(await collect(exporter)).be.eql(["_id,name\n"]);
+    });
+
+    it("should emit progress events", async () => {
+      const exporter = new CollectionExporter(sdk, "index", "collection");
+      const listener = sinon.stub();
+
+      exporter.on("progress", listener);
+
+      await collect(exporter);
+
+      should(listener).be.calledTwice();
+      should(listener.firstCall).be.calledWith({ exported: 2, total: 3 });
+      should(listener.secondCall).be.calledWith({ exported: 3, total: 3 });
+    });
+  });
+
+  describe("#pipe", () => {
+    let destination;
+
+    beforeEach(() => {
+      destination = new EventEmitter();
+      destination.write = sinon.stub().returns(true);
+      destination.end = sinon.stub();
+    });
+
+    it("should write every chunk, end the stream and resolve the progress", async () => {
+      const exporter = new CollectionExporter(sdk, "index", "collection", {
+        fields: ["name"],
+        format: "csv",
+      });
+
+      const progress = await exporter.pipe(destination);
+
+      should(destination.write).be.calledTwice();
+      should(destination.write.firstCall).be.calledWith("name\nFoo\nBar\n");
+      should(destination.write.secondCall).be.calledWith("Baz\n");
+      should(destination.end).be.calledOnce();
+      should(progress).be.eql({ exported: 3, total: 3 });
+    });
+
+    it("should wait for the stream to be drained", async () => {
+      destination.write.onFirstCall().returns(false);
+
+      const exporter = new CollectionExporter(sdk, "index", "collection");
+      const promise = exporter.pipe(destination, { end: false });
+
+      await new Promise((resolve) => setImmediate(resolve));
+
+      should(destination.write).be.calledOnce();
+
+      destination.emit("drain");
+      await promise;
+
+      should(destination.write).be.calledTwice();
+      should(destination.end).not.be.called();
+    });
+
+    it("should reject and release the scroll cursor on stream errors", async () => {
+      destination.write.returns(false);
+
+      const exporter = new CollectionExporter(sdk, "index", "collection");
+      const promise = exporter.pipe(destination);
+
+      await new Promise((resolve) => setImmediate(resolve));
+      destination.emit("error", new Error("disk full"));
+
+      await should(promise).be.rejectedWith("disk full");
+
+      should(kuzzle.query).be.calledOnce().be.calledWithMatch({
+        action: "scroll",
+        scroll: "1s",
+      });
+      should(destination.end).not.be.called();
+    });
+  });
+
+  describe("#toReadableStream", () => {
+    it("should stream the export as UTF-8 bytes", async () => {
+      const exporter = new CollectionExporter(sdk, "index", "collection", {
+        fields: ["name"],
+        format: "csv",
+      });
+      const reader = exporter.toReadableStream().getReader();
+      const decoder = new TextDecoder();
+      let text = "";
+      let item = await reader.read();
+
+      while (!item.done) {
+        should(item.value).be.instanceOf(Uint8Array);
+        text += decoder.decode(item.value);
+        item = await reader.read();
+      }
+
+      should(text).be.eql("name\nFoo\nBar\nBaz\n");
+    });
+  });
+});
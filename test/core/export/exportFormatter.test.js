@@ -0,0 +1,80 @@
+const should = require("should");
+
+const {
+  createExportFormatter,
+} = require("../../../src/core/export/ExportFormatter");
+
+describe("ExportFormatter", () => {
+  const documents = [
+    { _id: "foo", body: { name: "Foo", address: { city: "Montpellier" } } },
+    { _id: "bar", body: { name: 'Bar, "the" bar', tags: ["a", "b"] } },
+  ];
+
+  function render(formatter, pages) {
+    let text = formatter.begin(pages[0] || []);
+
+    for (const page of pages) {
+      for (const document of page) {
+        text += formatter.format(document);
+      }
+    }
+
+    return text + formatter.end();
+  }
+
+  it("should throw on unknown formats", () => {
+    should(() => createExportFormatter("xml")).throw(
+      /Unknown export format "xml"/
+    );
+  });
+
+  describe("ndjson", () => {
+    it("should write one document per line", () => {
+      should(render(createExportFormatter("ndjson"), [documents])).be.eql(
+        JSON.stringify(documents[0]) +
+          "\n" +
+          JSON.stringify(documents[1]) +
+          "\n"
+      );
+    });
+  });
+
+  describe("json", () => {
+    it("should write an array of documents", () => {
+      const text = render(createExportFormatter("json"), [
+        documents.slice(0, 1),
+        documents.slice(1),
+      ]);
+
+      should(JSON.parse(text)).be.eql(documents);
+    });
+
+    it("should write an empty array without documents", () => {
+      should(JSON.parse(render(createExportFormatter("json"), []))).be.eql([]);
+    });
+  });
+
+  describe("csv", () => {
+    it("should use the fields of the first documents as columns", () => {
+      should(render(createExportFormatter("csv"), [documents])).be.eql(
+        [
+          "_id,name,address.city,tags",
+          "foo,Foo,Montpellier,",
+          'bar,"Bar, ""the"" bar",,"[""a"",""b""]"',
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("should write the selected columns with the separator", () => {
+      const formatter = createExportFormatter("csv", {
+        fields: ["address.city", "_id"],
+        separator: ";",
+      });
+
+      should(render(formatter, [documents])).be.eql(
+        "address.city;_id\nMontpellier;foo\n;bar\n"
+      );
+    });
+  });
+});
@@ -0,0 +1,276 @@
+const sinon = require("sinon");
+const should = require("should");
+
+const { FixturesLoader } = require("../../../src/core/fixtures/FixturesLoader");
+
+describe("FixturesLoader", () => {
+  let sdk, loader, fixtures;
+
+  beforeEach(() => {
+    sdk = {
+      bulk: {
+        import: sinon.stub().resolves({ errors: [], successes: [] }),
+      },
+      collection: {
+        create: sinon.stub().resolves(),
+        exists: sinon.stub().resolves(true),
+        getMapping: sinon.stub().resolves({
+          dynamic: "false",
+          properties: {
+            _kuzzle_info: { properties: {} },
+            name: { type: "keyword" },
+          },
+        }),
+      },
+      document: {
+        mGet: sinon.stub().resolves({
+          errors: [],
+          successes: [
+            { _id: "taxi-1", _source: { name: "Marco", _kuzzle_info: {} } },
+            { _id: "taxi-2", _source: { name: "Luigi" } },
+          ],
+        }),
+      },
+      index: {
+        create: sinon.stub().resolves(),
+        exists: sinon.stub().resolves(true),
+      },
+      security: {
+        createOrReplaceProfile: sinon.stub().resolves(),
+        createOrReplaceRole: sinon.stub().resolves(),
+        createUser: sinon.stub().resolves(),
+        mGetProfiles: sinon.stub().resolves([]),
+        mGetRoles: sinon.stub().resolves([]),
+        mGetUsers: sinon.stub().resolves([]),
+        replaceUser: sinon.stub().resolves(),
+      },
+    };
+
+    fixtures = {
+      indexes: {
+        nyc: {
+          collections: {
+            taxi: {
+              documents: [
+                { _id: "taxi-1", body: { name: "Marco" } },
+                { _id: "taxi-2", body: { name: "Mario" } },
+                { _id: "taxi-3", body: { name: "Peach" } },
+              ],
+              mappings: { properties: { name: { type: "keyword" } } },
+            },
+          },
+        },
+      },
+    };
+
+    loader = new FixturesLoader(sdk, { refresh: "wait_for" });
+  });
+
+  describe("#diff", () => {
+    it("should list the changes without applying them", async () => {
+      const changes = await loader.diff(fixtures);
+
+      should(changes).be.eql([
+        { action: "unchanged", index: "nyc", type: "index" },
+        {
+          action: "unchanged",
+          collection: "taxi",
+          index: "nyc",
+          type: "collection",
+        },
+        {
+          _id: "taxi-1",
+          action: "unchanged",
+          collection: "taxi",
+          index: "nyc",
+          type: "document",
+        },
+        {
+          _id: "taxi-2",
+          action: "update",
+          collection: "taxi",
+          index: "nyc",
+          type: "document",
+        },
+        {
+          _id: "taxi-3",
+          action: "create",
+          collection: "taxi",
+          index: "nyc",
+          type: "document",
+        },
+      ]);
+
+      should(sdk.index.create).not.be.called();
+      should(sdk.collection.create).not.be.called();
+      should(sdk.bulk.import).not.be.called();
+    });
+
+    it("should detect mappings changes", async () => {
+      fixtures.indexes.nyc.collections.taxi.mappings.properties.age = {
+        type: "integer",
+      };
+
+      const changes = await loader.diff(fixtures);
+
+      should(changes[1]).match({ action: "update", type: "collection" });
+    });
+
+    it("should not fetch the content of missing indexes", async () => {
+      sdk.index.exists.resolves(false);
+
+      const changes = await loader.diff(fixtures);
+
+      should(changes.map(({ action }) => action)).be.eql([
+        "create",
+        "create",
+        "create",
+        "create",
+        "create",
+      ]);
+      should(sdk.collection.exists).not.be.called();
+      should(sdk.document.mGet).not.be.called();
+    });
+  });
+
+  describe("#apply", () => {
+    it("should only apply the changes", async () => {
+      await loader.apply(fixtures);
+
+      should(sdk.index.create).not.be.called();
+      should(sdk.collection.create).not.be.called();
+      should(sdk.bulk.import)
+        .be.calledOnce()
+        .be.calledWith(
+          "nyc",
+          "taxi",
+          [
+            { index: { _id: "taxi-2" } },
+            { name: "Mario" },
+            { index: { _id: "taxi-3" } },
+            { name: "Peach" },
+          ],
+          { refresh: "wait_for" }
+        );
+    });
+
+    it("should create missing indexes and collections", async () => {
+      sdk.index.exists.resolves(false);
+      fixtures.indexes.nyc.collections.taxi.settings = { number_of_shards: 1 };
+
+      await loader.apply(fixtures);
+
+      should(sdk.index.create).be.calledWith("nyc");
+      should(sdk.collection.create).be.calledWith("nyc", "taxi", {
+        mappings: { properties: { name: { type: "keyword" } } },
+        settings: { number_of_shards: 1 },
+      });
+      should(sdk.index.create.calledBefore(sdk.collection.create)).be.true();
+      should(sdk.collection.create.calledBefore(sdk.bulk.import)).be.true();
+    });
+
+    it("should write documents by batches", async () => {
+      loader = new FixturesLoader(sdk, { batchSize: 2 });
+
+      await loader.apply(fixtures);
+
+      should(sdk.document.mGet).be.calledTwice();
+      should(sdk.document.mGet.firstCall).be.calledWith("nyc", "taxi", [
+        "taxi-1",
+        "taxi-2",
+      ]);
+      should(sdk.bulk.import).be.calledTwice();
+    });
+
+    it("should reject documents without ID before applying any change", async () => {
+      sdk.index.exists.resolves(false);
+      fixtures.indexes.nyc.collections.taxi.documents.push({
+        body: { name: "Toad" },
+      });
+
+      await should(loader.apply(fixtures)).be.rejectedWith(
+        'Invalid fixtures: document #3 of "nyc":"taxi" has no _id'
+      );
+
+      should(sdk.index.create).not.be.called();
+      should(sdk.bulk.import).not.be.called();
+    });
+
+    it("should reject if documents are rejected", async () => {
+      sdk.bulk.import.resolves({
+        errors: [{ index: { _id: "taxi-2", status: 400 } }],
+        successes: [],
+      });
+
+      await should(loader.apply(fixtures)).be.rejectedWith(
+        /Unable to load 1 documents in "nyc":"taxi"/
+      );
+    });
+
+    it("should create or replace roles, profiles and users", async () => {
+      sdk.security.mGetRoles.resolves([
+        {
+          _id: "driver",
+          controllers: { document: { actions: { get: true } } },
+        },
+      ]);
+      sdk.security.mGetProfiles.resolves([
+        { _id: "driver", policies: [{ roleId: "guest" }], rateLimit: 0 },
+      ]);
+      sdk.security.mGetUsers.resolves([
+        { _id: "luigi", _source: { name: "Luigi", profileIds: ["driver"] } },
+      ]);
+
+      const changes = await loader.apply({
+        profiles: { driver: { policies: [{ roleId: "driver" }] } },
+        roles: {
+          admin: { controllers: { "*": { actions: { "*": true } } } },
+          driver: { controllers: { document: { actions: { get: true } } } },
+        },
+        users: {
+          luigi: { content: { name: "Luigi", profileIds: ["admin"] } },
+          marco: {
+            content: { profileIds: ["driver"] },
+            credentials: { local: { password: "p", username: "marco" } },
+          },
+        },
+      });
+
+      should(changes).be.eql([
+        { _id: "admin", action: "create", type: "role" },
+        { _id: "driver", action: "unchanged", type: "role" },
+        { _id: "driver", action: "update", type: "profile" },
+        { _id: "luigi", action: "update", type: "user" },
+        { _id: "marco", action: "create", type: "user" },
+      ]);
+
+      should(sdk.security.mGetRoles).be.calledWith(["admin", "driver"]);
+      should(sdk.security.createOrReplaceRole)
+        .be.calledOnce()
+        .be.calledWith("admin", {
+          controllers: { "*": { actions: { "*": true } } },
+        });
+      should(sdk.security.createOrReplaceProfile).be.calledWith("driver", {
+        policies: [{ roleId: "driver" }],
+      });
+      should(sdk.security.replaceUser).be.calledWith("luigi", {
+        name: "Luigi",
+        profileIds: ["admin"],
+      });
+      should(sdk.security.createUser).be.calledWith("marco", {
+        content: { profileIds: ["driver"] },
+        credentials: { local: { password: "p", username: "marco" } },
+      });
+      should(
+        sdk.security.createOrReplaceRole.calledBefore(
+          sdk.security.createOrReplaceProfile
+        )
+      ).be.true();
+      should(
+        sdk.security.createOrReplaceProfile.calledBefore(
+          sdk.security.replaceUser
+        )
+      ).be.true();
+    });
+  });
+});
@@ -0,0 +1,274 @@
+const { Readable } = require("stream");
+const sinon = require("sinon");
+const should = require("should");
+
+const {
+  CollectionImporter,
+} = require("../../../src/core/import/CollectionImporter");
+
+describe("CollectionImporter", () => {
+  let sdk;
+
+  function ndjson(count) {
+    const lines = [];
+
+    for (let i = 0; i < count; i++) {
+      lines.push(JSON.stringify({ _id: `doc-${i}`, body: { i } }));
+    }
+
+    return lines.join("\n");
+  }
+
+  beforeEach(() => {
+    sdk = {
+      bulk: {
+        import: sinon.stub().callsFake((index, collection, bulkData) =>
+          Promise.resolve({
+            errors: [],
+            successes: bulkData.filter((item, i) => i % 2 === 1),
+          })
+        ),
+      },
+      document: {
+        mCreateOrReplace: sinon
+          .stub()
+          .callsFake((index, collection, documents) =>
+            Promise.resolve({ errors: [], successes: documents })
+          ),
+      },
+      server: {
+        getConfig: sinon
+          .stub()
+          .resolves({ limits: { documentsWriteCount: 200 } }),
+      },
+    };
+  });
+
+  it("should write documents by batches with mCreateOrReplace", async () => {
+    const importer = new CollectionImporter(sdk, "index", "collection", {
+      batchSize: 2,
+      refresh: "wait_for",
+    });
+    const progress = sinon.stub();
+
+    importer.on("progress", progress);
+
+    const result = await importer.import([ndjson(5)]);
+
+    should(result).be.eql({ failed: 0, failures: [], imported: 5 });
+    should(sdk.document.mCreateOrReplace).be.calledThrice();
+    should(sdk.document.mCreateOrReplace.firstCall).be.calledWith(
+      "index",
+      "collection",
+      [
+        { _id: "doc-0", body: { i: 0 } },
+        { _id: "doc-1", body: { i: 1 } },
+      ],
+      { refresh: "wait_for", silent: undefined }
+    );
+    should(sdk.document.mCreateOrReplace.thirdCall.args[2]).be.eql([
+      { _id: "doc-4", body: { i: 4 } },
+    ]);
+    should(progress).be.calledThrice();
+    should(progress.lastCall).be.calledWith({ failed: 0, imported: 5 });
+  });
+
+  it("should cap the batch size with the server write limit", async () => {
+    sdk.server.getConfig.resolves({ limits: { documentsWriteCount: 3 } });
+
+    await new CollectionImporter(sdk, "index", "collection", {
+      batchSize: 10,
+    }).import([ndjson(5)]);
+
+    should(sdk.document.mCreateOrReplace).be.calledTwice();
+    should(sdk.document.mCreateOrReplace.firstCall.args[2]).have.length(3);
+
+    sdk.document.mCreateOrReplace.resetHistory();
+
+    await new CollectionImporter(sdk, "index", "collection").import([
+      ndjson(7),
+    ]);
+
+    should(sdk.document.mCreateOrReplace).be.calledThrice();
+  });
+
+  it("should write documents with bulk:import", async () => {
+    const importer = new CollectionImporter(sdk, "index", "collection", {
+      format: "csv",
+      method: "import",
+    });
+
+    const result = await importer.import(["_id,name\nfoo,Foo\n,Bar\n"]);
+
+    should(result.imported).be.eql(2);
+    should(sdk.bulk.import).be.calledOnce();
+
+    const [index, collection, bulkData, options] =
+      sdk.bulk.import.firstCall.args;
+
+    should(index).be.eql("index");
+    should(collection).be.eql("collection");
+    should(options).be.eql({ refresh: undefined });
+    should(bulkData).have.length(4);
+    should(bulkData[0]).be.eql({ index: { _id: "foo" } });
+    should(bulkData[1]).be.eql({ name: "Foo" });
+    should(bulkData[2].index._id).be.a.String().and.not.be.empty();
+    should(bulkData[3]).be.eql({ name: "Bar" });
+  });
+
+  it("should map bulk:import errors of documents without ID to their rows", async () => {
+    sdk.bulk.import.callsFake((index, collection, bulkData) =>
+      Promise.resolve({
+        errors: [
+          {
+            index: {
+              _id: bulkData[2].index._id,
+              error: { reason: "mapping error" },
+              status: 400,
+            },
+          },
+        ],
+        successes: [
+          { index: { _id: bulkData[0].index._id, status: 201 } },
+          { index: { _id: bulkData[4].index._id, status: 201 } },
+        ],
+      })
+    );
+
+    const importer = new CollectionImporter(sdk, "index", "collection", {
+      method: "import",
+    });
+
+    const result = await importer.import(['{"a":1}\n{"a":"b"}\n{"a":3}']);
+
+    should(result.imported).be.eql(2);
+    should(result.failures).be.eql([
+      { _id: null, reason: "mapping error", row: 2, status: 400 },
+    ]);
+  });
+
+  it("should report rejected documents and invalid rows without aborting", async () => {
+    sdk.document.mCreateOrReplace.onFirstCall().resolves({
+      errors: [
+        {
+          document: { _id: "doc-1", _source: { i: 1 } },
+          reason: "oh noes",
+          status: 400,
+        },
+      ],
+      successes: [{ _id: "doc-0" }],
+    });
+
+    const importer = new CollectionImporter(sdk, "index", "collection", {
+      batchSize: 2,
+    });
+
+    const result = await importer.import([
+      ndjson(3) + '\n{"name":"no id"}\nnot json',
+    ]);
+
+    should(result.imported).be.eql(2);
+    should(result.failed).be.eql(3);
+    should(result.failures).containEql({
+      _id: null,
+      reason: "Missing document _id",
+      row: 4,
+      status: 400,
+    });
+    should(result.failures.find(({ row }) => row === 5)).match({
+      _id: null,
+      reason: /^Invalid JSON/,
+      status: 400,
+    });
+    should(result.failures).containEql({
+      _id: "doc-1",
+      reason: "oh noes",
+      row: 2,
+      status: 400,
+    });
+  });
+
+  it("should map wrapped bulk:import errors to their rows", async () => {
+    sdk.bulk.import.resolves({
+      errors: [
+        {
+          index: {
+            _id: "foo",
+            error: {
+              reason: "mapping error",
+              type: "mapper_parsing_exception",
+            },
+            status: 400,
+          },
+        },
+      ],
+      successes: [],
+    });
+
+    const importer = new CollectionImporter(sdk, "index", "collection", {
+      method: "import",
+    });
+
+    const result = await importer.import(['{"_id":"foo","a":1}']);
+
+    should(result.failures).be.eql([
+      { _id: "foo", reason: "mapping error", row: 1, status: 400 },
+    ]);
+  });
+
+  it("should not run more requests than the concurrency at the same time", async () => {
+    const resolvers = [];
+
+    sdk.document.mCreateOrReplace.callsFake(
+      () =>
+        new Promise((resolve) => {
+          resolvers.push(() => resolve({ errors: [], successes: [{}] }));
+        })
+    );
+
+    const source = Readable.from([ndjson(4)]);
+    const importer = new CollectionImporter(sdk, "index", "collection", {
+      batchSize: 1,
+      concurrency: 2,
+    });
+    const promise = importer.import(source);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    should(sdk.document.mCreateOrReplace).be.calledTwice();
+
+    resolvers.shift()();
+    await new Promise((resolve) => setImmediate(resolve));
+    should(sdk.document.mCreateOrReplace).be.calledThrice();
+
+    while (resolvers.length > 0) {
+      resolvers.shift()();
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    should((await promise).imported).be.eql(4);
+  });
+
+  it("should reject if a request fails", async () => {
+    sdk.document.mCreateOrReplace
+      .onSecondCall()
+      .rejects(new Error("forbidden"));
+
+    const importer = new CollectionImporter(sdk, "index", "collection", {
+      batchSize: 1,
+      concurrency: 1,
+    });
+
+    await should(importer.import([ndjson(5)])).be.rejectedWith("forbidden");
+    should(sdk.document.mCreateOrReplace).be.calledTwice();
+  });
+
+  it("should reject unknown methods", async () => {
+    const importer = new CollectionImporter(sdk, "index", "collection", {
+      method: "foo",
+    });
+
+    await should(importer.import([])).be.rejectedWith(
+      /Unknown import method "foo"/
+    );
+  });
+});
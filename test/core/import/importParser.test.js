@@ -0,0 +1,120 @@
+const should = require("should");
+
+const { parseImportRows } = require("../../../src/core/import/ImportParser");
+
+describe("ImportParser", () => {
+  async function collect(source, format, options) {
+    const rows = [];
+    const iterator = parseImportRows(source, format, options);
+    let item = await iterator.next();
+
+    while (!item.done) {
+      rows.push(item.value);
+      item = await iterator.next();
+    }
+
+    return rows;
+  }
+
+  it("should throw on unknown formats", () => {
+    should(() => parseImportRows([], "xml")).throw(
+      /Unknown import format "xml"/
+    );
+  });
+
+  describe("ndjson", () => {
+    it("should parse documents split across chunks", async () => {
+      const rows = await collect(
+        [
+          '{"_id":"foo","body":{"na',
+          'me":"Foo"}}\n\n{"_id":"bar","name":"Bar"}',
+        ],
+        "ndjson"
+      );
+
+      should(rows).be.eql([
+        { document: { _id: "foo", body: { name: "Foo" } }, row: 1 },
+        { document: { _id: "bar", body: { name: "Bar" } }, row: 3 },
+      ]);
+    });
+
+    it("should decode bytes split in the middle of a character", async () => {
+      const bytes = Buffer.from('{"name":"Forêt"}\n');
+
+      const rows = await collect(
+        [bytes.subarray(0, 13), bytes.subarray(13)],
+        "ndjson"
+      );
+
+      should(rows[0].document.body).be.eql({ name: "Forêt" });
+    });
+
+    it("should report invalid lines", async () => {
+      const rows = await collect(['{"name":"Foo"}\nfoo\n[1]\n'], "ndjson");
+
+      should(rows).have.length(3);
+      should(rows[1].row).be.eql(2);
+      should(rows[1].error).match(/^Invalid JSON/);
+      should(rows[2]).be.eql({
+        error: "A document must be a JSON object",
+        row: 3,
+      });
+    });
+  });
+
+  describe("csv", () => {
+    it("should parse records with quoted values and nested fields", async () => {
+      const rows = await collect(
+        [
+          '_id,name,address.city\r\nfoo,"Foo, ""the""',
+          ' foo",Montpellier\nbar,"Multi\nline",\n',
+        ],
+        "csv"
+      );
+
+      should(rows).be.eql([
+        {
+          document: {
+            _id: "foo",
+            body: { name: 'Foo, "the" foo', address: { city: "Montpellier" } },
+          },
+          row: 2,
+        },
+        {
+          document: { _id: "bar", body: { name: "Multi\nline" } },
+          row: 3,
+        },
+      ]);
+    });
+
+    it("should cast values and use the separator", async () => {
+      const rows = await collect(["name;age\nFoo;42"], "csv", {
+        cast: (value, field) => (field === "age" ? Number(value) : value),
+        separator: ";",
+      });
+
+      should(rows).be.eql([
+        { document: { body: { name: "Foo", age: 42 } }, row: 2 },
+      ]);
+    });
+
+    it("should report records with a wrong number of values", async () => {
+      const rows = await collect(["a,b\n1,2,3\n"], "csv");
+
+      should(rows).be.eql([{ error: "Expected 2 values, got 3", row: 2 }]);
+    });
+  });
+
+  it("should read web ReadableStream", async () => {
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"name":"Foo"}\n'));
+        controller.close();
+      },
+    });
+
+    const rows = await collect(stream, "ndjson");
+
+    should(rows).be.eql([{ document: { body: { name: "Foo" } }, row: 1 }]);
+  });
+});
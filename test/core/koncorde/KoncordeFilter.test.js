@@ -0,0 +1,193 @@
+const should = require("should");
+
+const { KuzzleError } = require("../../../src/KuzzleError");
+const { KoncordeFilter } = require("../../../src/core/koncorde/KoncordeFilter");
+
+describe("KoncordeFilter", () => {
+  const document = {
+    _id: "taxi-1",
+    age: 42,
+    city: { name: "Antwerp" },
+    location: { lat: 51.2194, lon: 4.4025 },
+    name: "Aschen",
+    tags: ["yellow", "fast"],
+  };
+
+  const test = (filters, doc = document) =>
+    new KoncordeFilter(filters).test(doc);
+
+  describe("#test", () => {
+    it("should match every document with empty filters", () => {
+      should(test({})).be.true();
+    });
+
+    it("should test field values", () => {
+      should(test({ equals: { "city.name": "Antwerp" } })).be.true();
+      should(test({ equals: { name: "Ricky" } })).be.false();
+      should(test({ in: { name: ["Aschen", "Ricky"] } })).be.true();
+      should(test({ range: { age: { gte: 42, lt: 50 } } })).be.true();
+      should(test({ range: { age: { gt: 42 } } })).be.false();
+      should(test({ range: { name: { gt: 1 } } })).be.false();
+      should(
+        test({ regexp: { name: { flags: "i", value: "^asch" } } })
+      ).be.true();
+      should(test({ regexp: { name: "^asch" } })).be.false();
+    });
+
+    it("should test the presence of fields and array values", () => {
+      should(test({ exists: "city.name" })).be.true();
+      should(test({ exists: { field: "deletedAt" } })).be.false();
+      should(test({ missing: "deletedAt" })).be.true();
+      should(test({ exists: 'tags["fast"]' })).be.true();
+      should(test({ exists: 'tags["slow"]' })).be.false();
+    });
+
+    it("should test document IDs", () => {
+      const filter = new KoncordeFilter({ ids: { values: ["taxi-1"] } });
+
+      should(filter.test(document)).be.true();
+      should(filter.test({ name: "Aschen" }, "taxi-1")).be.true();
+      should(filter.test(document, "taxi-2")).be.false();
+    });
+
+    it("should test distances to a geopoint", () => {
+      // Antwerp to Brussels: about 41km
+      const brussels = { lat: 50.8503, lon: 4.3517 };
+
+      should(
+        test({ geoDistance: { distance: "45km", location: brussels } })
+      ).be.true();
+      should(
+        test({ geoDistance: { distance: "40 km", location: brussels } })
+      ).be.false();
+      should(
+        test({ geoDistance: { distance: 45000, location: "50.8503, 4.3517" } })
+      ).be.true();
+      should(
+        test(
+          { geoDistance: { distance: "1mi", location: [51.2194, 4.4025] } },
+          { location: "u155khj" }
+        )
+      ).be.true();
+    });
+
+    it("should test whether geopoints are in a bounding box", () => {
+      should(
+        test({
+          geoBoundingBox: {
+            location: { bottom: 51, left: 4, right: 5, top: 52 },
+          },
+        })
+      ).be.true();
+      should(
+        test({
+          geoBoundingBox: {
+            location: { bottomRight: "51, 4.4", topLeft: [52, 4] },
+          },
+        })
+      ).be.false();
+      should(
+        test(
+          {
+            geoBoundingBox: {
+              location: { bottom: -20, left: 170, right: -170, top: 20 },
+            },
+          },
+          { location: { lat: 0, lon: 179 } }
+        )
+      ).be.true();
+      should(
+        test(
+          {
+            geoBoundingBox: {
+              location: { bottom: 51, left: 4, right: 5, top: 52 },
+            },
+          },
+          { location: "not a geopoint" }
+        )
+      ).be.false();
+    });
+
+    it("should combine filters", () => {
+      should(
+        test({
+          and: [{ equals: { name: "Aschen" } }, { exists: "age" }],
+        })
+      ).be.true();
+      should(
+        test({ or: [{ equals: { name: "Ricky" } }, { exists: "foo" }] })
+      ).be.false();
+      should(test({ not: { range: { age: { gt: 18 } } } })).be.false();
+      should(
+        test({
+          bool: {
+            must: [{ in: { name: ["Aschen", "Ricky"] } }],
+            must_not: [{ exists: "deletedAt" }],
+            should: [{ equals: { age: 12 } }, { exists: "tags" }],
+            should_not: { equals: { age: 42 } },
+          },
+        })
+      ).be.false();
+    });
+  });
+
+  describe("#constructor", () => {
+    it("should throw a KuzzleError on invalid filters", () => {
+      let error;
+
+      try {
+        new KoncordeFilter({ bool: { must: [{ near: { age: 42 } }] } });
+      } catch (e) {
+        error = e;
+      }
+
+      should(error).be.instanceOf(KuzzleError);
+      should(error).match({ id: "api.assert.koncorde_dsl_error", status: 400 });
+      should(error.message).containEql('"bool.must[0].near"');
+    });
+  });
+
+  describe("#validate", () => {
+    it("should accept valid filters", () => {
+      should(
+        KoncordeFilter.validate({
+          or: [{ equals: { name: "Aschen" } }, { range: { age: { lt: 5 } } }],
+        })
+      ).eql({ valid: true });
+    });
+
+    it("should report invalid filters", () => {
+      const invalid = [
+        [{ equals: { name: "a" }, exists: "b" }, '""'],
+        [{ equals: { name: { foo: "bar" } } }, '"equals.name"'],
+        [{ in: { name: [1] } }, '"in.name"'],
+        [{ range: { age: { gt: 1, gte: 2 } } }, '"range.age"'],
+        [{ range: { age: { gt: "1" } } }, '"range.age.gt"'],
+        [{ exists: "" }, '"exists"'],
+        [{ regexp: { name: { value: "(" } } }, '"regexp.name"'],
+        [
+          { geoDistance: { distance: "far", location: "0,0" } },
+          '"geoDistance.distance"',
+        ],
+        [
+          { geoDistance: { distance: "1km", location: { lat: 91, lon: 0 } } },
+          '"geoDistance.location"',
+        ],
+        [
+          { geoBoundingBox: { location: { top: 1 } } },
+          '"geoBoundingBox.location"',
+        ],
+        [{ and: [] }, '"and"'],
+        [{ not: [] }, '"not"'],
+        [{ bool: { filter: [] } }, '"bool"'],
+      ];
+
+      for (const [filters, path] of invalid) {
+        const result = KoncordeFilter.validate(filters);
+
+        should(result.valid).be.false();
+        should(result.reason).startWith(path);
+      }
+    });
+  });
+});
@@ -0,0 +1,225 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const { Kuzzle } = require("../../src/Kuzzle");
+const { LiveQuery } = require("../../src/core/LiveQuery");
+const { default: MemoryProtocol } = require("../../src/protocols/Memory");
+
+describe("LiveQuery", () => {
+  let kuzzle;
+  let liveQuery;
+  let events;
+
+  const ids = () => liveQuery.documents.map(({ _id }) => _id);
+
+  // Waits for the searches refilling the result set
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+  const record = (event) => (payload) => events.push([event, payload]);
+
+  const watch = (query) => {
+    events = [];
+
+    for (const event of ["added", "removed", "changed", "moved"]) {
+      query.on(event, record(event));
+    }
+
+    return query;
+  };
+
+  const write = (_id, body) =>
+    kuzzle.document.createOrReplace("nyc-open-data", "yellow-taxi", _id, body);
+
+  beforeEach(async () => {
+    kuzzle = new Kuzzle(new MemoryProtocol());
+
+    await kuzzle.connect();
+    await kuzzle.index.create("nyc-open-data");
+    await kuzzle.collection.create("nyc-open-data", "yellow-taxi");
+
+    await kuzzle.document.mCreate(
+      "nyc-open-data",
+      "yellow-taxi",
+      [
+        { _id: "a", body: { rating: 5, status: "available" } },
+        { _id: "b", body: { rating: 4, status: "available" } },
+        { _id: "c", body: { rating: 3, status: "available" } },
+        { _id: "d", body: { rating: 2, status: "available" } },
+        { _id: "e", body: { rating: 1, status: "busy" } },
+      ],
+      { refresh: "wait_for" }
+    );
+
+    liveQuery = watch(
+      new LiveQuery(
+        kuzzle,
+        "nyc-open-data",
+        "yellow-taxi",
+        {
+          query: { term: { status: "available" } },
+          sort: [{ rating: "desc" }],
+        },
+        { size: 3 }
+      )
+    );
+
+    await liveQuery.start();
+  });
+
+  afterEach(async () => {
+    await liveQuery.stop();
+    kuzzle.disconnect();
+  });
+
+  describe("#start", () => {
+    it("should run the search and subscribe with equivalent filters", () => {
+      should(ids()).eql(["a", "b", "c"]);
+      should(liveQuery.running).be.true();
+      should(liveQuery.filters).eql({ equals: { status: "available" } });
+      should(events.map(([event, { index }]) => [event, index])).eql([
+        ["added", 0],
+        ["added", 1],
+        ["added", 2],
+      ]);
+    });
+  });
+
+  describe("notifications", () => {
+    beforeEach(() => {
+      events = [];
+    });
+
+    it("should insert matching documents at their sorted position", async () => {
+      await write("f", { rating: 4.5, status: "available" });
+
+      should(ids()).eql(["a", "f", "b"]);
+      should(events).match([
+        ["removed", { document: { _id: "c" }, index: 2 }],
+        ["added", { document: { _id: "f" }, index: 1 }],
+      ]);
+    });
+
+    it("should ignore matching documents sorted after a truncated result set", async () => {
+      await write("f", { rating: 0, status: "available" });
+
+      should(ids()).eql(["a", "b", "c"]);
+      should(events).be.empty();
+    });
+
+    it("should refill the result set when a document leaves it", async () => {
+      await write("b", { rating: 4, status: "busy" });
+      await settle();
+
+      should(ids()).eql(["a", "c", "d"]);
+      should(events).match([
+        ["removed", { document: { _id: "b" }, index: 1 }],
+        ["added", { document: { _id: "d" }, index: 2 }],
+      ]);
+    });
+
+    it("should emit changed and moved events", async () => {
+      await kuzzle.document.update("nyc-open-data", "yellow-taxi", "c", {
+        rating: 10,
+      });
+
+      should(ids()).eql(["c", "a", "b"]);
+      should(events).match([
+        [
+          "changed",
+          {
+            document: { _id: "c", _source: { rating: 10 } },
+            previous: { _source: { rating: 3 } },
+          },
+        ],
+        ["moved", { document: { _id: "c" }, from: 2, to: 0 }],
+      ]);
+    });
+
+    it("should remove deleted documents", async () => {
+      await kuzzle.document.delete("nyc-open-data", "yellow-taxi", "a");
+      await settle();
+
+      should(ids()).eql(["b", "c", "d"]);
+    });
+  });
+
+  describe("#stop", () => {
+    it("should stop updating the result set", async () => {
+      await liveQuery.stop();
+      events = [];
+
+      await write("f", { rating: 10, status: "available" });
+
+      should(liveQuery.running).be.false();
+      should(ids()).eql(["a", "b", "c"]);
+      should(events).be.empty();
+    });
+  });
+
+  describe("#constructor", () => {
+    const create = (searchBody, options) =>
+      new LiveQuery(
+        kuzzle,
+        "nyc-open-data",
+        "yellow-taxi",
+        searchBody,
+        options
+      );
+
+    it("should translate queries to Koncorde filters", () => {
+      should(
+        create({
+          query: {
+            bool: {
+              filter: [{ terms: { status: ["available", "busy"] } }],
+              must_not: { exists: { field: "deletedAt" } },
+              should: [{ prefix: { name: "a.b" } }],
+            },
+          },
+        }).filters
+      ).eql({
+        bool: {
+          must: [{ in: { status: ["available", "busy"] } }],
+          must_not: [{ exists: "deletedAt" }],
+        },
+      });
+
+      should(create({ query: { range: { rating: { gte: 3 } } } }).filters).eql({
+        range: { rating: { gte: 3 } },
+      });
+
+      should(create({ query: { prefix: { name: "a.b" } } }).filters).eql({
+        regexp: { name: { value: "^a\\.b" } },
+      });
+    });
+
+    it("should use Koncorde filters as is", () => {
+      const query = { geoDistance: { distance: "1km", location: "0, 0" } };
+
+      should(create({ query }, { lang: "koncorde" }).filters).eql(query);
+    });
+
+    it("should throw if the query has no Koncorde equivalent", () => {
+      should(() => create({ query: { match: { name: "foo" } } })).throw(
+        /"match" query clause has no Koncorde equivalent/
+      );
+      should(() =>
+        create({ query: { in: { name: "foo" } } }, { lang: "koncorde" })
+      ).throw(/invalid Koncorde filters/);
+    });
+  });
+
+  describe("#refresh", () => {
+    it("should chain refreshes requested during a search", async () => {
+      const search = sinon.spy(kuzzle.document, "search");
+
+      await Promise.all([
+        liveQuery.refresh(),
+        liveQuery.refresh(),
+        liveQuery.refresh(),
+      ]);
+
+      should(search).be.calledTwice();
+    });
+  });
+});
@@ -0,0 +1,359 @@
+const sinon = require("sinon");
+const should = require("should");
+
+const {
+  MigrationRunner,
+} = require("../../../src/core/migrations/MigrationRunner");
+
+describe("MigrationRunner", () => {
+  let sdk, migrations, runner;
+
+  function alreadyExists() {
+    const error = new Error("Document already exists");
+    error.id = "services.storage.document_already_exists";
+    return error;
+  }
+
+  beforeEach(() => {
+    sdk = {
+      collection: {
+        create: sinon.stub().resolves(),
+        updateMapping: sinon.stub().resolves({}),
+        updateSpecifications: sinon.stub().resolves({}),
+      },
+      document: {
+        create: sinon.stub().resolves(),
+        delete: sinon.stub().resolves(),
+        deleteByQuery: sinon.stub().resolves([]),
+        get: sinon.stub().rejects(new Error("not found")),
+        mGet: sinon.stub().resolves({ errors: [], successes: [] }),
+        updateByQuery: sinon.stub().resolves({ errors: [], successes: [] }),
+      },
+      index: {
+        create: sinon.stub().resolves(),
+        exists: sinon.stub().resolves(true),
+      },
+      server: {
+        getConfig: sinon
+          .stub()
+          .resolves({ limits: { documentsReadCount: 200 } }),
+      },
+    };
+
+    migrations = [
+      { down: sinon.stub().resolves(), name: "first", up: sinon.stub() },
+      { down: sinon.stub().resolves(), name: "second", up: sinon.stub() },
+      { down: sinon.stub().resolves(), name: "third", up: sinon.stub() },
+    ];
+
+    runner = new MigrationRunner(sdk, migrations, {
+      index: "app",
+      owner: "deployer",
+    });
+  });
+
+  function applied(...names) {
+    sdk.document.mGet.resolves({
+      errors: [],
+      successes: names.map((name) => ({
+        _id: name,
+        _source: { appliedAt: 42, name },
+      })),
+    });
+  }
+
+  describe("constructor", () => {
+    it("should require an index", () => {
+      should(() => new MigrationRunner(sdk, migrations, {})).throw(
+        /options.index is required/
+      );
+    });
+
+    it("should reject invalid or duplicate migration names", () => {
+      should(
+        () => new MigrationRunner(sdk, [{ name: "_foo" }], { index: "app" })
+      ).throw(/invalid migration name "_foo"/);
+
+      should(
+        () =>
+          new MigrationRunner(sdk, [{ name: "foo" }, { name: "foo" }], {
+            index: "app",
+          })
+      ).throw(/duplicate migration name "foo"/);
+
+      should(
+        () =>
+          new MigrationRunner(sdk, [{ name: "migrations-lock" }], {
+            index: "app",
+          })
+      ).throw(/duplicate migration name/);
+    });
+  });
+
+  describe("#status", () => {
+    it("should create the ledger and list the applied migrations", async () => {
+      sdk.index.exists.resolves(false);
+      applied("first");
+
+      const status = await runner.status();
+
+      should(sdk.index.create).be.calledWith("app");
+      should(sdk.collection.create).be.calledWith("app", "migrations");
+      should(sdk.document.mGet).be.calledWith(
+        "app",
+        "migrations",
+        ["first", "second", "third"],
+        { cache: false }
+      );
+
+      should(status).be.eql([
+        { applied: true, appliedAt: 42, name: "first" },
+        { applied: false, appliedAt: null, name: "second" },
+        { applied: false, appliedAt: null, name: "third" },
+      ]);
+    });
+
+    it("should read the ledger by chunks of the server read limit", async () => {
+      sdk.server.getConfig.resolves({ limits: { documentsReadCount: 2 } });
+      sdk.document.mGet
+        .onFirstCall()
+        .resolves({
+          errors: [],
+          successes: [{ _id: "first", _source: { appliedAt: 42 } }],
+        })
+        .onSecondCall()
+        .resolves({
+          errors: [],
+          successes: [{ _id: "third", _source: { appliedAt: 43 } }],
+        });
+
+      const status = await runner.status();
+
+      should(sdk.document.mGet).be.calledTwice();
+      should(sdk.document.mGet.firstCall.args[2]).be.eql(["first", "second"]);
+      should(sdk.document.mGet.secondCall.args[2]).be.eql(["third"]);
+      should(status).be.eql([
+        { applied: true, appliedAt: 42, name: "first" },
+        { applied: false, appliedAt: null, name: "second" },
+        { applied: true, appliedAt: 43, name: "third" },
+      ]);
+    });
+  });
+
+  describe("#up", () => {
+    it("should apply pending migrations in order and record them", async () => {
+      applied("first");
+
+      const names = await runner.up();
+
+      should(names).be.eql(["second", "third"]);
+      should(migrations[0].up).not.be.called();
+      should(migrations[1].up).be.calledOnce();
+      should(migrations[2].up).be.calledOnce();
+      should(migrations[1].up.calledBefore(migrations[2].up)).be.true();
+
+      should(sdk.document.create).be.calledWithMatch(
+        "app",
+        "migrations",
+        { name: "second" },
+        "second",
+        { refresh: "wait_for" }
+      );
+      should(sdk.document.create).be.calledWithMatch(
+        "app",
+        "migrations",
+        { name: "third" },
+        "third"
+      );
+    });
+
+    it("should stop at the given migration", async () => {
+      const names = await runner.up({ to: "second" });
+
+      should(names).be.eql(["first", "second"]);
+      should(migrations[2].up).not.be.called();
+    });
+
+    it("should reject an unknown migration", async () => {
+      await should(runner.up({ to: "foo" })).be.rejectedWith(
+        /unknown migration "foo"/
+      );
+
+      should(sdk.document.create).not.be.called();
+    });
+
+    it("should give helpers to migrations", async () => {
+      migrations[0].up = async ({
+        updateByQuery,
+        updateMapping,
+        updateSpecifications,
+      }) => {
+        await updateMapping("app", "devices", { properties: {} });
+        await updateSpecifications("app", "devices", { fields: {} });
+        await updateByQuery("app", "devices", { query: {} }, { v: 2 });
+      };
+
+      await runner.up({ to: "first" });
+
+      should(sdk.collection.updateMapping).be.calledWith("app", "devices", {
+        properties: {},
+      });
+      should(sdk.collection.updateSpecifications).be.calledWith(
+        "app",
+        "devices",
+        { fields: {} }
+      );
+      should(sdk.document.updateByQuery).be.calledWith(
+        "app",
+        "devices",
+        { query: {} },
+        { v: 2 },
+        { refresh: "wait_for" }
+      );
+    });
+
+    it("should not record a failed migration, and release the lock", async () => {
+      migrations[1].up.rejects(new Error("failed"));
+
+      await should(runner.up()).be.rejectedWith("failed");
+
+      should(sdk.document.create).be.calledWith(
+        "app",
+        "migrations",
+        sinon.match({ name: "first" }),
+        "first"
+      );
+      should(sdk.document.create).not.be.calledWith(
+        "app",
+        "migrations",
+        sinon.match.any,
+        "second"
+      );
+      should(migrations[2].up).not.be.called();
+      should(sdk.document.deleteByQuery).be.calledOnce();
+      should(sdk.document.deleteByQuery.firstCall.args[2]).be.eql({
+        query: {
+          bool: {
+            filter: [
+              { ids: { values: ["migrations-lock"] } },
+              { term: { owner: "deployer" } },
+            ],
+          },
+        },
+      });
+    });
+  });
+
+  describe("#down", () => {
+    it("should only revert the last applied migration by default", async () => {
+      applied("first", "second");
+
+      const names = await runner.down();
+
+      should(names).be.eql(["second"]);
+      should(migrations[1].down).be.calledOnce();
+      should(migrations[0].down).not.be.called();
+      should(sdk.document.delete).be.calledOnce();
+      should(sdk.document.delete).be.calledWith("app", "migrations", "second", {
+        refresh: "wait_for",
+      });
+    });
+
+    it("should revert the first migration", async () => {
+      applied("first");
+
+      const names = await runner.down();
+
+      should(names).be.eql(["first"]);
+      should(migrations[0].down).be.calledOnce();
+    });
+
+    it("should revert migrations after the given one, in reverse order", async () => {
+      applied("first", "second", "third");
+
+      const names = await runner.down({ to: "first" });
+
+      should(names).be.eql(["third", "second"]);
+      should(migrations[2].down.calledBefore(migrations[1].down)).be.true();
+      should(migrations[0].down).not.be.called();
+    });
+
+    it("should reject if a migration cannot be reverted", async () => {
+      applied("first", "second");
+      delete migrations[1].down;
+
+      await should(runner.down()).be.rejectedWith(
+        /"second" cannot be reverted/
+      );
+
+      should(sdk.document.delete).not.be.called();
+      should(sdk.document.deleteByQuery).be.calledOnce();
+    });
+  });
+
+  describe("lock", () => {
+    it("should reject if another runner holds the lock", async () => {
+      sdk.document.create.onFirstCall().rejects(alreadyExists());
+      sdk.document.get.resolves({
+        _id: "migrations-lock",
+        _source: {
+          expiresAt: Date.now() + 60000,
+          lockedAt: 0,
+          owner: "other",
+        },
+      });
+
+      await should(runner.up()).be.rejectedWith(
+        'Migrations are locked by "other" since 1970-01-01T00:00:00.000Z'
+      );
+
+      should(sdk.document.get).be.calledWith(
+        "app",
+        "migrations",
+        "migrations-lock",
+        { cache: false }
+      );
+
+      should(migrations[0].up).not.be.called();
+      should(sdk.document.deleteByQuery).not.be.called();
+    });
+
+    it("should take over an expired lock", async () => {
+      sdk.document.create.onFirstCall().rejects(alreadyExists());
+      sdk.document.get.resolves({
+        _id: "migrations-lock",
+        _source: { expiresAt: Date.now() - 1, lockedAt: 0, owner: "crashed" },
+      });
+
+      await runner.up();
+
+      should(sdk.document.deleteByQuery.firstCall.args[2]).be.eql({
+        query: {
+          bool: {
+            filter: [
+              { ids: { values: ["migrations-lock"] } },
+              { term: { owner: "crashed" } },
+            ],
+          },
+        },
+      });
+      should(sdk.document.create.secondCall).be.calledWithMatch(
+        "app",
+        "migrations",
+        { owner: "deployer" },
+        "migrations-lock"
+      );
+      should(migrations[0].up).be.calledOnce();
+    });
+
+    it("should not take over a lock twice", async () => {
+      sdk.document.create.rejects(alreadyExists());
+
+      await should(runner.up()).be.rejectedWith(
+        "Migrations are locked by another runner"
+      );
+
+      should(sdk.document.create).be.calledTwice();
+    });
+  });
+});
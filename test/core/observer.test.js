@@ -65,6 +65,15 @@ describe("Observer", () => {
       should(observer.options.pullingDelay).be.eql(5000);
     });
 
+    it("should choose realtime mode with HTTP protocol streaming notifications", () => {
+      sdk.protocol.name = "http";
+      sdk.protocol.realtimeStreaming = true;
+
+      observer = new Observer(sdk);
+
+      should(observer.mode).be.eql("realtime");
+    });
+
     it("should save the SDK instance", () => {
       observer = new Observer(sdk);
 
@@ -0,0 +1,75 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const {
+  BrowserQueueStorage,
+} = require("../../../src/core/offlineQueue/BrowserQueueStorage");
+
+describe("BrowserQueueStorage", () => {
+  let store;
+  let storage;
+  let queue;
+
+  beforeEach(() => {
+    const items = new Map();
+
+    store = {
+      getItem: sinon.spy((key) => (items.has(key) ? items.get(key) : null)),
+      removeItem: sinon.spy((key) => items.delete(key)),
+      setItem: sinon.spy((key, value) => items.set(key, value)),
+    };
+
+    storage = new BrowserQueueStorage({ store });
+
+    queue = [
+      {
+        request: { action: "get", controller: "document", requestId: "foo" },
+        timeout: 1000,
+        ts: 42,
+      },
+    ];
+  });
+
+  it("should throw if no store is available", () => {
+    should(() => new BrowserQueueStorage()).throw(
+      /localStorage is not available/
+    );
+  });
+
+  it("should save and load the queue using the default key", async () => {
+    await storage.save(queue);
+
+    should(store.setItem).be.calledWith(
+      "kuzzle-sdk-offline-queue",
+      JSON.stringify(queue)
+    );
+    should(await storage.load()).be.eql(queue);
+  });
+
+  it("should use a custom key", async () => {
+    storage = new BrowserQueueStorage({ key: "my-app", store });
+
+    await storage.save(queue);
+
+    should(store.setItem).be.calledWith("my-app");
+  });
+
+  it("should remove the stored item when the queue is empty", async () => {
+    await storage.save(queue);
+    await storage.save([]);
+
+    should(store.removeItem).be.calledWith("kuzzle-sdk-offline-queue");
+    should(await storage.load()).be.eql([]);
+  });
+
+  it("should support asynchronous stores", async () => {
+    const asyncStore = {
+      getItem: sinon.stub().resolves(JSON.stringify(queue)),
+      removeItem: sinon.stub().resolves(),
+      setItem: sinon.stub().resolves(),
+    };
+    storage = new BrowserQueueStorage({ store: asyncStore });
+
+    should(await storage.load()).be.eql(queue);
+  });
+});
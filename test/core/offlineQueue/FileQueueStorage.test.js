@@ -0,0 +1,56 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const should = require("should");
+
+const {
+  FileQueueStorage,
+} = require("../../../src/core/offlineQueue/FileQueueStorage");
+
+describe("FileQueueStorage", () => {
+  let dir;
+  let file;
+  let storage;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzzle-sdk-queue-"));
+    file = path.join(dir, "queue.json");
+    storage = new FileQueueStorage(file);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { force: true, recursive: true });
+  });
+
+  it("should throw if no path is provided", () => {
+    should(() => new FileQueueStorage()).throw(
+      'FileQueueStorage: "path" argument missing'
+    );
+  });
+
+  it("should load an empty queue if the file does not exist", () => {
+    should(storage.load()).be.eql([]);
+  });
+
+  it("should save and reload the queue", () => {
+    const queue = [
+      {
+        request: { action: "get", controller: "document", requestId: "foo" },
+        timeout: -1,
+        ts: 42,
+      },
+    ];
+
+    storage.save(queue);
+
+    should(JSON.parse(fs.readFileSync(file, "utf8"))).be.eql(queue);
+    should(new FileQueueStorage(file).load()).be.eql(queue);
+    should(fs.existsSync(`${file}.tmp`)).be.false();
+  });
+
+  it("should throw if the file does not contain an array", () => {
+    fs.writeFileSync(file, '{"foo": "bar"}');
+
+    should(() => storage.load()).throw(/expected an array/);
+  });
+});
@@ -0,0 +1,150 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const { Kuzzle } = require("../../src/Kuzzle");
+const { QueryCache } = require("../../src/core/QueryCache");
+const { default: MemoryProtocol } = require("../../src/protocols/Memory");
+
+describe("QueryCache", () => {
+  let kuzzle;
+  let send;
+
+  beforeEach(async () => {
+    kuzzle = new Kuzzle(new MemoryProtocol(), { cache: true });
+
+    await kuzzle.connect();
+    await kuzzle.index.create("nyc-open-data");
+    await kuzzle.collection.create("nyc-open-data", "yellow-taxi");
+    await kuzzle.document.create(
+      "nyc-open-data",
+      "yellow-taxi",
+      { rating: 5 },
+      "foo"
+    );
+    await kuzzle.document.create(
+      "nyc-open-data",
+      "yellow-taxi",
+      { rating: 4 },
+      "bar"
+    );
+
+    send = sinon.spy(kuzzle.protocol, "send");
+  });
+
+  afterEach(() => {
+    kuzzle.disconnect();
+  });
+
+  const get = (id = "foo", options) =>
+    kuzzle.document.get("nyc-open-data", "yellow-taxi", id, options);
+
+  it("should coalesce concurrent identical requests", async () => {
+    const [first, second] = await Promise.all([get(), get()]);
+
+    should(send).be.calledOnce();
+    should(first).be.eql(second).and.not.be.exactly(second);
+
+    await get("bar");
+    should(send).be.calledTwice();
+  });
+
+  it("should cache responses until their TTL expires", async () => {
+    const clock = sinon.useFakeTimers({ shouldAdvanceTime: true });
+
+    try {
+      await get();
+      await get();
+      should(send).be.calledOnce();
+
+      clock.tick(1001);
+
+      await get();
+      should(send).be.calledTwice();
+    } finally {
+      clock.restore();
+    }
+  });
+
+  it("should not cache requests sent with the cache option set to false", async () => {
+    await get();
+    await get("foo", { cache: false });
+
+    should(send).be.calledTwice();
+    should(send.secondCall.args[0]).not.have.property("cache");
+  });
+
+  it("should not use cached responses to check document versions", async () => {
+    await get();
+
+    await should(
+      kuzzle.document.replace(
+        "nyc-open-data",
+        "yellow-taxi",
+        "foo",
+        { rating: 1 },
+        { ifVersion: 1 }
+      )
+    ).be.fulfilled();
+
+    should(send).be.calledThrice();
+    should(send.secondCall.args[0]).match({ _id: "foo", action: "get" });
+    should(send.thirdCall.args[0]).match({ action: "replace" });
+  });
+
+  it("should invalidate responses on writes", async () => {
+    await get();
+    await get("bar");
+
+    await kuzzle.document.update("nyc-open-data", "yellow-taxi", "foo", {
+      rating: 1,
+    });
+    send.resetHistory();
+
+    should((await get())._source.rating).be.eql(1);
+    await get("bar");
+    should(send).be.calledOnce();
+
+    await kuzzle.collection.truncate("nyc-open-data", "yellow-taxi");
+    send.resetHistory();
+
+    await should(get("bar")).be.rejected();
+    should(send).be.calledOnce();
+  });
+
+  it("should invalidate responses on document notifications", async () => {
+    const other = new Kuzzle(
+      new MemoryProtocol({ backend: kuzzle.protocol.backend })
+    );
+    await other.connect();
+
+    await kuzzle.realtime.subscribe(
+      "nyc-open-data",
+      "yellow-taxi",
+      {},
+      () => {}
+    );
+    await get();
+
+    await other.document.update("nyc-open-data", "yellow-taxi", "foo", {
+      rating: 1,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    should((await get())._source.rating).be.eql(1);
+    other.disconnect();
+  });
+
+  it("should clear the cache on login and logout", async () => {
+    await get();
+    should(kuzzle.queryCache.size).be.eql(1);
+
+    kuzzle.emit("logoutAttempt", { success: true });
+    should(kuzzle.queryCache.size).be.eql(0);
+  });
+
+  it("should throw on invalid TTLs", () => {
+    should(() => new QueryCache({ ttls: { "document:get": -1 } })).throw(
+      /"document:get"/
+    );
+  });
+});
@@ -0,0 +1,126 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const { QueryMiddlewareChain } = require("../../src/core/QueryMiddleware");
+
+describe("QueryMiddlewareChain", () => {
+  let chain;
+  let request;
+  let options;
+  let send;
+
+  beforeEach(() => {
+    chain = new QueryMiddlewareChain();
+    request = { action: "now", controller: "server" };
+    options = { timeout: 100 };
+    send = sinon.stub().resolves({ result: "response" });
+  });
+
+  describe("#add", () => {
+    it("should reject invalid middlewares", () => {
+      should(() => chain.add(null)).throw(
+        "Invalid middleware: expected an object"
+      );
+      should(() => chain.add({ beforeSend: "foo", name: "tracer" })).throw(
+        'Invalid middleware "tracer": "beforeSend" must be a function'
+      );
+    });
+
+    it("should add and remove middlewares", () => {
+      const middleware = {};
+
+      chain.add(middleware);
+      should(chain.size).be.eql(1);
+
+      should(chain.remove(middleware)).be.true();
+      should(chain.remove(middleware)).be.false();
+      should(chain.size).be.eql(0);
+    });
+  });
+
+  describe("#run", () => {
+    it("should call beforeSend hooks in order with the request and options", async () => {
+      const calls = [];
+
+      chain.add({
+        beforeSend: async (req, opts) => {
+          calls.push("first");
+          req.volatile = { traceId: "foo" };
+          opts.timeout = 42;
+        },
+      });
+      chain.add({ beforeSend: () => calls.push("second") });
+
+      await chain.run(request, options, send);
+
+      should(calls).be.eql(["first", "second"]);
+      should(request.volatile).be.eql({ traceId: "foo" });
+      should(options.timeout).be.eql(42);
+      should(send).be.calledOnce();
+    });
+
+    it("should call afterResponse hooks in reverse order and allow to replace the response", async () => {
+      const calls = [];
+
+      chain.add({
+        afterResponse: (response) => {
+          calls.push("first");
+          return Object.assign({}, response, { first: true });
+        },
+      });
+      chain.add({
+        afterResponse: async (response, req, opts) => {
+          calls.push("second");
+          should(req).be.eql(request);
+          should(opts).be.eql(options);
+        },
+      });
+
+      const response = await chain.run(request, options, send);
+
+      should(calls).be.eql(["second", "first"]);
+      should(response).be.eql({ first: true, result: "response" });
+    });
+
+    it("should let onError hooks recover from an error", async () => {
+      const error = new Error("foo");
+      send.rejects(error);
+
+      const onError = sinon.stub().resolves({ result: "recovered" });
+      chain.add({ onError });
+
+      const response = await chain.run(request, options, send);
+
+      should(onError).be.calledWith(error, request, options);
+      should(response).be.eql({ result: "recovered" });
+    });
+
+    it("should let onError hooks replace the error", async () => {
+      send.rejects(new Error("foo"));
+
+      chain.add({
+        onError: (error) => {
+          throw new Error(`wrapped: ${error.message}`);
+        },
+      });
+      chain.add({ onError: () => undefined });
+
+      await should(chain.run(request, options, send)).be.rejectedWith(
+        "wrapped: foo"
+      );
+    });
+
+    it("should not send the request if a beforeSend hook throws", async () => {
+      chain.add({
+        beforeSend: () => {
+          throw new Error("unsigned");
+        },
+      });
+
+      await should(chain.run(request, options, send)).be.rejectedWith(
+        "unsigned"
+      );
+      should(send).not.be.called();
+    });
+  });
+});
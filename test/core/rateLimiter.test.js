@@ -0,0 +1,116 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const { RateLimiter } = require("../../src/core/RateLimiter");
+const { RequestAbortedError } = require("../../src/RequestAbortedError");
+const { Profile } = require("../../src/core/security/Profile");
+
+describe("RateLimiter", () => {
+  let clock;
+  let send;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+    send = sinon.stub().resolves("response");
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it("should not limit requests by default", async () => {
+    const limiter = new RateLimiter();
+
+    for (let i = 0; i < 100; i++) {
+      limiter.schedule({}, send);
+    }
+
+    should(limiter.limit).be.eql(0);
+    should(send).have.callCount(100);
+  });
+
+  it("should delay requests exceeding the limit, in order", async () => {
+    const limiter = new RateLimiter(2);
+    const promises = ["a", "b", "c", "d", "e"].map((id) =>
+      limiter.schedule({ requestId: id }, () => send(id))
+    );
+
+    should(send).be.calledTwice();
+    should(limiter.pending).be.eql(3);
+
+    await clock.tickAsync(499);
+    should(send).be.calledTwice();
+
+    await clock.tickAsync(1);
+    should(send).be.calledThrice();
+    should(send.thirdCall.args[0]).be.eql("c");
+
+    await clock.tickAsync(1000);
+    await should(Promise.all(promises)).be.fulfilled();
+    should(send.getCalls().map((call) => call.args[0])).be.eql([
+      "a",
+      "b",
+      "c",
+      "d",
+      "e",
+    ]);
+    should(limiter.pending).be.eql(0);
+  });
+
+  it("should allow bursts up to the burst option", async () => {
+    const limiter = new RateLimiter({ burst: 1, limit: 10 });
+
+    limiter.schedule({}, send);
+    limiter.schedule({}, send);
+
+    should(send).be.calledOnce();
+
+    await clock.tickAsync(100);
+    should(send).be.calledTwice();
+  });
+
+  it("should release waiting requests when the limit is lifted", () => {
+    const limiter = new RateLimiter(1);
+
+    limiter.schedule({}, send);
+    limiter.schedule({}, send);
+    should(send).be.calledOnce();
+
+    limiter.limit = 0;
+    should(send).be.calledTwice();
+  });
+
+  it("should reject waiting requests when they are aborted", async () => {
+    const limiter = new RateLimiter(1);
+    const controller = new AbortController();
+    const request = { requestId: "foo" };
+
+    limiter.schedule({}, send);
+    const promise = limiter.schedule(request, send, controller.signal);
+
+    controller.abort();
+
+    await should(promise).be.rejectedWith(RequestAbortedError, { request });
+    should(limiter.pending).be.eql(0);
+
+    await clock.tickAsync(2000);
+    should(send).be.calledOnce();
+  });
+
+  it("should throw on invalid options", () => {
+    should(() => new RateLimiter(-1)).throw(/"limit"/);
+    should(() => new RateLimiter({ burst: "foo", limit: 1 })).throw(/"burst"/);
+  });
+
+  describe("#profilesLimit", () => {
+    it("should return the most permissive limit", () => {
+      const profile = (rateLimit) => new Profile(null, "foo", { rateLimit });
+
+      should(
+        RateLimiter.profilesLimit([profile(10), profile(50), profile(20)])
+      ).be.eql(50);
+      should(RateLimiter.profilesLimit([profile(10), profile(0)])).be.eql(0);
+      should(RateLimiter.profilesLimit([])).be.eql(0);
+    });
+  });
+});
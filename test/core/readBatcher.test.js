@@ -0,0 +1,107 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const { Kuzzle } = require("../../src/Kuzzle");
+const { KuzzleError } = require("../../src/KuzzleError");
+const { default: MemoryProtocol } = require("../../src/protocols/Memory");
+const { MemoryBackend } = require("../../src/protocols/memory/MemoryBackend");
+
+describe("ReadBatcher", () => {
+  let kuzzle;
+  let send;
+
+  const actions = () =>
+    send.getCalls().map(({ args: [request] }) => request.action);
+
+  const create = async (options = {}, backendOptions = {}) => {
+    const protocol = new MemoryProtocol({
+      backend: new MemoryBackend(backendOptions),
+    });
+
+    kuzzle = new Kuzzle(protocol, { batchReads: options });
+
+    await kuzzle.connect();
+    await kuzzle.index.create("nyc-open-data");
+    await kuzzle.collection.create("nyc-open-data", "yellow-taxi");
+    await kuzzle.document.mCreate("nyc-open-data", "yellow-taxi", [
+      { _id: "foo", body: { name: "foo" } },
+      { _id: "bar", body: { name: "bar" } },
+      { _id: "baz", body: { name: "baz" } },
+    ]);
+
+    send = sinon.spy(protocol, "send");
+  };
+
+  const get = (_id) => kuzzle.document.get("nyc-open-data", "yellow-taxi", _id);
+
+  afterEach(() => {
+    kuzzle.disconnect();
+  });
+
+  it("should batch the reads made during the same tick", async () => {
+    await create({ maxBatchSize: 10 });
+
+    const [foo, bar, exists, missing] = await Promise.all([
+      get("foo"),
+      get("bar"),
+      kuzzle.document.exists("nyc-open-data", "yellow-taxi", "foo"),
+      kuzzle.document.exists("nyc-open-data", "yellow-taxi", "qux"),
+    ]);
+
+    should(actions()).be.eql(["mGet"]);
+    should(send.firstCall.args[0].body.ids).be.eql(["foo", "bar", "qux"]);
+    should(foo).match({ _id: "foo", _source: { name: "foo" } });
+    should(bar).match({ _id: "bar", _source: { name: "bar" } });
+    should(exists).be.true();
+    should(missing).be.false();
+  });
+
+  it("should reject the reads of missing documents", async () => {
+    await create({ maxBatchSize: 10 });
+
+    const [foo, missing] = await Promise.allSettled([get("foo"), get("qux")]);
+
+    should(foo.status).be.eql("fulfilled");
+    should(missing.reason)
+      .be.instanceOf(KuzzleError)
+      .and.match({ id: "services.storage.not_found", status: 404 });
+  });
+
+  it("should send single reads as is", async () => {
+    await create({ maxBatchSize: 10 });
+
+    await get("foo");
+
+    should(actions()).be.eql(["get"]);
+  });
+
+  it("should not batch reads made with options", async () => {
+    await create({ maxBatchSize: 10 });
+
+    await Promise.all([
+      get("foo"),
+      kuzzle.document.get("nyc-open-data", "yellow-taxi", "bar", {
+        queuable: false,
+      }),
+    ]);
+
+    should(actions()).be.eql(["get", "get"]);
+  });
+
+  it("should split batches according to the server limits", async () => {
+    await create({}, { limits: { documentsFetchCount: 2 } });
+
+    await Promise.all([get("foo"), get("bar"), get("baz")]);
+
+    should(actions()).be.eql(["getConfig", "mGet", "get"]);
+    should(send.secondCall.args[0].body.ids).be.eql(["foo", "bar"]);
+    should(send.thirdCall.args[0]._id).be.eql("baz");
+  });
+
+  it("should throw on invalid options", () => {
+    should(
+      () =>
+        new Kuzzle(new MemoryProtocol(), { batchReads: { maxBatchSize: 0 } })
+    ).throw(/"maxBatchSize"/);
+  });
+});
@@ -0,0 +1,215 @@
+const sinon = require("sinon");
+const should = require("should");
+
+const { CollectionReindexer } = require("../../src/core/reindex");
+const {
+  DocumentSearchResult,
+} = require("../../src/core/searchResult/Document");
+
+describe("CollectionReindexer", () => {
+  let source, target, kuzzle, pages;
+
+  function reindex(...args) {
+    return new CollectionReindexer(...args).reindex();
+  }
+
+  function mockSdk() {
+    return {
+      bulk: {
+        mWrite: sinon
+          .stub()
+          .callsFake((index, collection, documents) =>
+            Promise.resolve({ errors: [], successes: documents })
+          ),
+      },
+      collection: {
+        create: sinon.stub().resolves(),
+        getMapping: sinon
+          .stub()
+          .resolves({ properties: { name: { type: "keyword" } } }),
+      },
+      document: {
+        search: sinon.stub().callsFake((index, collection, body, options) =>
+          Promise.resolve(
+            new DocumentSearchResult(
+              kuzzle,
+              Object.assign(
+                {
+                  action: "search",
+                  body,
+                  collection,
+                  controller: "document",
+                  index,
+                },
+                options
+              ),
+              {},
+              pages[0]
+            )
+          )
+        ),
+      },
+      index: {
+        create: sinon.stub().resolves(),
+        exists: sinon.stub().resolves(true),
+      },
+      server: {
+        getConfig: sinon
+          .stub()
+          .resolves({ limits: { documentsWriteCount: 200 } }),
+      },
+    };
+  }
+
+  beforeEach(() => {
+    pages = [
+      {
+        hits: [
+          { _id: "foo", _source: { name: "Foo" } },
+          { _id: "bar", _source: { name: "Bar" } },
+        ],
+        scrollId: "s",
+        total: 3,
+      },
+      { hits: [{ _id: "baz", _source: { name: "Baz" } }], total: 3 },
+    ];
+
+    kuzzle = { query: sinon.stub().resolves({ result: pages[1] }) };
+
+    source = { collection: "devices", index: "iot", sdk: mockSdk() };
+    target = { collection: "devices-v2", index: "iot" };
+  });
+
+  it("should copy the mappings and every document", async () => {
+    const onProgress = sinon.stub();
+    const reindexer = new CollectionReindexer(source, target, { size: 2 });
+    reindexer.on("progress", onProgress);
+
+    const result = await reindexer.reindex();
+
+    should(source.sdk.collection.getMapping).be.calledWith("iot", "devices");
+    should(source.sdk.index.create).not.be.called();
+    should(source.sdk.collection.create).be.calledWith("iot", "devices-v2", {
+      mappings: { properties: { name: { type: "keyword" } } },
+    });
+    should(source.sdk.document.search).be.calledWith(
+      "iot",
+      "devices",
+      {},
+      { lang: undefined, scroll: "20s", size: 2 }
+    );
+    should(source.sdk.bulk.mWrite).be.calledTwice();
+    should(source.sdk.bulk.mWrite.firstCall).be.calledWith(
+      "iot",
+      "devices-v2",
+      [
+        { _id: "foo", _source: { name: "Foo" } },
+        { _id: "bar", _source: { name: "Bar" } },
+      ],
+      { notify: undefined, refresh: undefined }
+    );
+    should(onProgress).be.calledTwice();
+    should(onProgress.lastCall).be.calledWith({
+      copied: 3,
+      failed: 0,
+      skipped: 0,
+      total: 3,
+    });
+    should(result).be.eql({
+      copied: 3,
+      failed: 0,
+      failures: [],
+      skipped: 0,
+      total: 3,
+    });
+  });
+
+  it("should cap the page size with the write limit of the target", async () => {
+    target.sdk = mockSdk();
+    target.sdk.server.getConfig.resolves({
+      limits: { documentsWriteCount: 50 },
+    });
+
+    await reindex(source, target, { size: 500 });
+
+    should(source.sdk.server.getConfig).not.be.called();
+    should(source.sdk.document.search.firstCall.args[3]).match({ size: 50 });
+  });
+
+  it("should use a default write limit if the configuration cannot be fetched", async () => {
+    source.sdk.server.getConfig.rejects(new Error("forbidden"));
+
+    await reindex(source, target, { size: 500 });
+
+    should(source.sdk.document.search.firstCall.args[3]).match({ size: 200 });
+  });
+
+  it("should reindex across two Kuzzle instances", async () => {
+    target.sdk = mockSdk();
+    target.sdk.index.exists.resolves(false);
+
+    await reindex(source, target, {
+      mappings: { properties: {} },
+      query: { match: { name: "Foo" } },
+    });
+
+    should(source.sdk.collection.getMapping).not.be.called();
+    should(source.sdk.document.search).be.calledWithMatch("iot", "devices", {
+      query: { match: { name: "Foo" } },
+    });
+    should(target.sdk.index.create).be.calledWith("iot");
+    should(target.sdk.collection.create).be.calledWith("iot", "devices-v2", {
+      mappings: { properties: {} },
+    });
+    should(source.sdk.bulk.mWrite).not.be.called();
+    should(target.sdk.bulk.mWrite).be.calledTwice();
+  });
+
+  it("should transform and discard documents", async () => {
+    const result = await reindex(source, target, {
+      transform: async ({ _id, body }) =>
+        _id === "bar"
+          ? null
+          : { _id: `new-${_id}`, body: { label: body.name } },
+    });
+
+    should(source.sdk.bulk.mWrite.firstCall.args[2]).be.eql([
+      { _id: "new-foo", _source: { label: "Foo" } },
+    ]);
+    should(result).match({ copied: 2, skipped: 1 });
+  });
+
+  it("should report rejected documents", async () => {
+    source.sdk.bulk.mWrite.onFirstCall().resolves({
+      errors: [
+        { document: { _id: "bar" }, reason: "mapping error", status: 400 },
+      ],
+      successes: [{ _id: "foo" }],
+    });
+
+    const result = await reindex(source, target);
+
+    should(result).match({ copied: 2, failed: 1 });
+    should(result.failures).be.eql([
+      { _id: "bar", reason: "mapping error", status: 400 },
+    ]);
+  });
+
+  it("should release the scroll cursor if a page cannot be written", async () => {
+    source.sdk.bulk.mWrite.rejects(new Error("forbidden"));
+
+    await should(reindex(source, target)).be.rejectedWith("forbidden");
+
+    should(kuzzle.query).be.calledOnce().be.calledWithMatch({
+      action: "scroll",
+      scroll: "1s",
+    });
+  });
+
+  it("should throw if the source and target collections are the same", () => {
+    should(
+      () =>
+        new CollectionReindexer(source, { collection: "devices", index: "iot" })
+    ).throw(/must be different/);
+  });
+});
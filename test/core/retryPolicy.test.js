@@ -0,0 +1,257 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const { RetryPolicy } = require("../../src/core/RetryPolicy");
+const { KuzzleError } = require("../../src/KuzzleError");
+const { NetworkError } = require("../../src/NetworkError");
+const { RequestAbortedError } = require("../../src/RequestAbortedError");
+const { RequestTimeoutError } = require("../../src/RequestTimeoutError");
+
+describe("RetryPolicy", () => {
+  let clock;
+  let policy;
+  let request;
+  let send;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+    policy = new RetryPolicy({ jitter: false });
+    request = { action: "get", controller: "document", requestId: "foo" };
+    send = sinon.stub();
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it("should be disabled by default", async () => {
+    policy = new RetryPolicy();
+    send.rejects(new NetworkError("network"));
+
+    should(policy.enabled).be.false();
+    await should(policy.execute(request, undefined, send)).be.rejectedWith(
+      "network"
+    );
+    should(send).be.calledOnce();
+  });
+
+  it("should throw on invalid options", () => {
+    should(() => new RetryPolicy({ maxAttempts: "foo" })).throw(
+      'Invalid retry option "maxAttempts": expected a number greater than or equal to 1'
+    );
+    should(() => new RetryPolicy({ maxAttempts: 0 })).throw(
+      'Invalid retry option "maxAttempts": expected a number greater than or equal to 1'
+    );
+    should(() => new RetryPolicy({ baseDelay: -1 })).throw(
+      'Invalid retry option "baseDelay": expected a number greater than or equal to 0'
+    );
+    should(
+      () => new RetryPolicy({ statuses: { 429: { maxAttempts: 0 } } })
+    ).throw(
+      'Invalid retry option "statuses.429.maxAttempts": expected a number greater than or equal to 1'
+    );
+    should(() => new RetryPolicy({ actions: "document:get" })).throw(
+      'Invalid retry option "actions": expected an array'
+    );
+  });
+
+  it("should send the first attempt synchronously", () => {
+    send.resolves("response");
+
+    policy.execute(request, undefined, send);
+
+    should(send).be.calledOnce().be.calledWith(request);
+  });
+
+  it("should retry network errors with exponential backoff", async () => {
+    const onRetry = sinon.stub();
+    send
+      .onFirstCall()
+      .rejects(new NetworkError("network"))
+      .onSecondCall()
+      .rejects(new NetworkError("network"))
+      .onThirdCall()
+      .resolves("response");
+
+    const promise = policy.execute(request, undefined, send, onRetry);
+
+    await clock.tickAsync(99);
+    should(send).be.calledOnce();
+    await clock.tickAsync(1);
+    should(send).be.calledTwice();
+    await clock.tickAsync(200);
+
+    await should(promise).be.fulfilledWith("response");
+    should(send).be.calledThrice();
+    should(onRetry.firstCall.args[0]).match({ attempt: 2, delay: 100 });
+    should(onRetry.secondCall.args[0]).match({ attempt: 3, delay: 200 });
+    should(send.secondCall.args[0].requestId).not.be.eql("foo");
+    should(send.secondCall.args[0]).match({
+      action: "get",
+      controller: "document",
+    });
+  });
+
+  it("should give up after maxAttempts", async () => {
+    send.rejects(new NetworkError("network"));
+
+    const promise = should(
+      policy.execute(request, { maxAttempts: 2 }, send)
+    ).be.rejectedWith("network");
+    await clock.tickAsync(1000);
+
+    await promise;
+    should(send).be.calledTwice();
+  });
+
+  it("should retry timeouts and Node.js connection errors", async () => {
+    const refused = new Error("connect ECONNREFUSED");
+    refused.code = "ECONNREFUSED";
+    send
+      .onFirstCall()
+      .rejects(new RequestTimeoutError(request, 1000))
+      .onSecondCall()
+      .rejects(refused)
+      .onThirdCall()
+      .resolves("response");
+
+    const promise = policy.execute(request, undefined, send);
+    await clock.tickAsync(1000);
+
+    await should(promise).be.fulfilledWith("response");
+    should(send).be.calledThrice();
+  });
+
+  it("should not retry other errors without a status", async () => {
+    send.rejects(new Error("invalid argument"));
+
+    const promise = should(
+      policy.execute(request, undefined, send)
+    ).be.rejectedWith("invalid argument");
+    await clock.tickAsync(1000);
+
+    await promise;
+    should(send).be.calledOnce();
+  });
+
+  it("should not retry scrolls by default", async () => {
+    request = { action: "scroll", controller: "document" };
+    send.rejects(new NetworkError("network"));
+
+    const promise = should(
+      policy.execute(request, undefined, send)
+    ).be.rejectedWith("network");
+    await clock.tickAsync(1000);
+
+    await promise;
+    should(send).be.calledOnce();
+  });
+
+  it("should only retry configured API error statuses", async () => {
+    send.rejects(new KuzzleError({ message: "not found", status: 404 }));
+
+    const promise = should(
+      policy.execute(request, undefined, send)
+    ).be.rejectedWith("not found");
+    await clock.tickAsync(1000);
+
+    await promise;
+    should(send).be.calledOnce();
+  });
+
+  it("should apply status specific rules", async () => {
+    policy = new RetryPolicy({
+      jitter: false,
+      statuses: { 429: { baseDelay: 1000, maxAttempts: 2 }, 503: true },
+    });
+    send
+      .onFirstCall()
+      .rejects(new KuzzleError({ message: "too many", status: 429 }))
+      .onSecondCall()
+      .resolves("response");
+
+    const promise = policy.execute(request, undefined, send);
+
+    await clock.tickAsync(999);
+    should(send).be.calledOnce();
+    await clock.tickAsync(1);
+
+    await should(promise).be.fulfilledWith("response");
+  });
+
+  it("should not retry actions missing from the allow-list", async () => {
+    request = { action: "create", controller: "document" };
+    send.rejects(new NetworkError("network"));
+
+    const promise = should(
+      policy.execute(request, undefined, send)
+    ).be.rejectedWith("network");
+    await clock.tickAsync(1000);
+
+    await promise;
+    should(send).be.calledOnce();
+  });
+
+  it("should allow to disable or enable retries per request", async () => {
+    send.rejects(new NetworkError("network"));
+
+    const disabled = should(policy.execute(request, false, send)).be.rejected();
+    await clock.tickAsync(1000);
+    await disabled;
+    should(send).be.calledOnce();
+
+    send.resetHistory();
+    policy = new RetryPolicy();
+
+    const enabled = should(
+      policy.execute(
+        { action: "create", controller: "document" },
+        { actions: ["document:create"], jitter: false },
+        send
+      )
+    ).be.rejected();
+    await clock.tickAsync(1000);
+    await enabled;
+    should(send).be.calledThrice();
+  });
+
+  it("should stop retrying aborted requests", async () => {
+    const controller = new AbortController();
+    send.rejects(new NetworkError("network"));
+
+    const promise = should(
+      policy.execute(request, true, send, undefined, controller.signal)
+    ).be.rejectedWith(RequestAbortedError);
+    await clock.tickAsync(50);
+    controller.abort();
+
+    await promise;
+    await clock.tickAsync(1000);
+    should(send).be.calledOnce();
+
+    send.resetHistory();
+    send.rejects(new RequestAbortedError(request));
+
+    await should(policy.execute(request, true, send)).be.rejectedWith(
+      RequestAbortedError
+    );
+    should(send).be.calledOnce();
+  });
+
+  describe("#computeDelay", () => {
+    it("should cap the delay and apply jitter", () => {
+      const rule = { baseDelay: 100, maxDelay: 300 };
+
+      should(policy.computeDelay(rule, 1, false)).be.eql(100);
+      should(policy.computeDelay(rule, 2, false)).be.eql(200);
+      should(policy.computeDelay(rule, 5, false)).be.eql(300);
+
+      sinon.stub(Math, "random").returns(0.5);
+      try {
+        should(policy.computeDelay(rule, 2, true)).be.eql(100);
+      } finally {
+        Math.random.restore();
+      }
+    });
+  });
+});
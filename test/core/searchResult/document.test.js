@@ -363,5 +363,240 @@ describe("DocumentSearchResult", () => {
         });
       });
     });
+
+    describe("#with an explicit pagination strategy", () => {
+      beforeEach(() => {
+        request.size = 2;
+        request.scroll = "10s";
+        request.body.sort = ["foo", "_id"];
+
+        result = {
+          hits: [
+            { _id: "document1", _source: { foo: "bar" } },
+            { _id: "document2", _source: { foo: "barbar" } },
+          ],
+          scrollId: "scroll-id",
+          total: 30,
+        };
+
+        kuzzle.query.resolves({ result: { hits: [], total: 30 } });
+      });
+
+      it("should paginate with the requested strategy", () => {
+        searchResult = new DocumentSearchResult(
+          kuzzle,
+          request,
+          { pagination: "fromSize" },
+          result
+        );
+
+        return searchResult
+          .next()
+          .then(() => {
+            should(kuzzle.query).be.calledWithMatch({
+              action: "search",
+              from: 2,
+            });
+            should(request.body.search_after).be.undefined();
+
+            searchResult = new DocumentSearchResult(
+              kuzzle,
+              request,
+              { pagination: "searchAfter" },
+              result
+            );
+
+            return searchResult.next();
+          })
+          .then(() => {
+            should(kuzzle.query.secondCall).be.calledWithMatch({
+              action: "search",
+              body: { search_after: ["barbar", "document2"] },
+            });
+            should(kuzzle.query.firstCall.args[1]).not.have.property(
+              "pagination"
+            );
+            should(kuzzle.query.secondCall.args[1]).not.have.property(
+              "pagination"
+            );
+          });
+      });
+
+      it("should reject if the search does not support the requested strategy", () => {
+        delete request.scroll;
+
+        searchResult = new DocumentSearchResult(
+          kuzzle,
+          request,
+          { pagination: "scroll" },
+          result
+        );
+
+        return should(searchResult.next())
+          .be.rejectedWith(/"scroll" pagination strategy/)
+          .then(() => {
+            should(kuzzle.query).not.be.called();
+          });
+      });
+    });
+
+    describe("#concurrent modifications", () => {
+      beforeEach(() => {
+        kuzzle.emit = sinon.stub();
+
+        request.size = 2;
+
+        result = {
+          hits: [
+            { _id: "document1", _source: { foo: "bar" } },
+            { _id: "document2", _source: { foo: "barbar" } },
+          ],
+          total: 30,
+        };
+        searchResult = new DocumentSearchResult(
+          kuzzle,
+          request,
+          options,
+          result
+        );
+      });
+
+      it('should emit a "searchConcurrentModification" event if the total changed between pages', () => {
+        kuzzle.query.resolves({ result: { hits: [], total: 28 } });
+
+        return searchResult.next().then((nextSearchResult) => {
+          should(kuzzle.emit)
+            .be.calledOnce()
+            .be.calledWith("searchConcurrentModification", {
+              fetched: 2,
+              previousTotal: 30,
+              request,
+              total: 28,
+            });
+          should(nextSearchResult.total).be.eql(28);
+        });
+      });
+
+      it("should not emit an event if the total did not change", () => {
+        kuzzle.query.resolves({ result: { hits: [], total: 30 } });
+
+        return searchResult.next().then(() => {
+          should(kuzzle.emit).not.be.called();
+        });
+      });
+
+      it("should not emit an event for scroll searches", () => {
+        request.scroll = "10s";
+        kuzzle.query.resolves({ result: { hits: [], total: 28 } });
+
+        return searchResult.next().then(() => {
+          should(kuzzle.emit).not.be.called();
+        });
+      });
+    });
+  });
+
+  describe("async iteration", () => {
+    const page = (ids, scrollId) => ({
+      hits: ids.map((_id) => ({ _id, _source: {} })),
+      scrollId,
+      total: 5,
+    });
+
+    beforeEach(() => {
+      request.scroll = "10s";
+
+      kuzzle.query
+        .onFirstCall()
+        .resolves({ result: page(["doc3", "doc4"], "scroll-id-2") })
+        .onSecondCall()
+        .resolves({ result: page(["doc5"], "scroll-id-3") });
+
+      searchResult = new DocumentSearchResult(
+        kuzzle,
+        request,
+        options,
+        page(["doc1", "doc2"], "scroll-id-1")
+      );
+    });
+
+    // Equivalent of a "for await" loop, optionally left early
+    const collect = async (iterable, stop = () => false) => {
+      const iterator = iterable[Symbol.asyncIterator]();
+      const values = [];
+
+      for (;;) {
+        const { done, value } = await iterator.next();
+
+        if (done) {
+          return values;
+        }
+
+        values.push(value);
+
+        if (stop(value)) {
+          await iterator.return();
+          return values;
+        }
+      }
+    };
+
+    it("should iterate over every page", async () => {
+      const pages = await collect(searchResult);
+
+      should(pages.map((current) => current.hits.map(({ _id }) => _id))).be.eql(
+        [["doc1", "doc2"], ["doc3", "doc4"], ["doc5"]]
+      );
+      should(pages[0]).be.equal(searchResult);
+      should(kuzzle.query).be.calledTwice();
+    });
+
+    it("should iterate over every hit", async () => {
+      const hits = await collect(searchResult.iterateHits());
+
+      should(hits.map(({ _id }) => _id)).be.eql([
+        "doc1",
+        "doc2",
+        "doc3",
+        "doc4",
+        "doc5",
+      ]);
+    });
+
+    it("should clear the scroll cursor when leaving the loop early", async () => {
+      await collect(searchResult.iterateHits(), (hit) => hit._id === "doc3");
+
+      should(kuzzle.query).be.calledTwice();
+      should(kuzzle.query.secondCall).be.calledWith({
+        action: "scroll",
+        controller: "document",
+        scroll: "1s",
+        scrollId: "scroll-id-2",
+      });
+    });
+
+    it("should not clear searches without scroll cursor", async () => {
+      delete request.scroll;
+
+      await collect(searchResult.iteratePages(), () => true);
+
+      should(kuzzle.query).not.be.called();
+    });
+
+    it("should clear the scroll cursor if a page cannot be fetched", async () => {
+      const error = new Error("foo");
+      kuzzle.query.onFirstCall().rejects(error);
+
+      const pages = searchResult.iteratePages();
+
+      await pages.next();
+      await should(pages.next()).be.rejectedWith(error);
+
+      should(kuzzle.query).be.calledTwice();
+      should(kuzzle.query.secondCall).be.calledWithMatch({
+        scroll: "1s",
+        scrollId: "scroll-id-1",
+      });
+    });
   });
 });
@@ -0,0 +1,165 @@
+const sinon = require("sinon");
+const should = require("should");
+
+const { TypedCollection } = require("../../src/core/TypedCollection");
+
+describe("TypedCollection", () => {
+  let sdk;
+  let collection;
+
+  beforeEach(() => {
+    sdk = {
+      document: {
+        count: sinon.stub().resolves(42),
+        create: sinon.stub().resolves({ _id: "foo" }),
+        createOrReplace: sinon.stub().resolves({ _id: "foo" }),
+        delete: sinon.stub().resolves("foo"),
+        exists: sinon.stub().resolves(true),
+        get: sinon.stub().resolves({ _id: "foo" }),
+        mGet: sinon.stub().resolves({ errors: [], successes: [] }),
+        replace: sinon.stub().resolves({ _id: "foo" }),
+        search: sinon.stub().resolves({ hits: [] }),
+        update: sinon.stub().resolves({ _id: "foo" }),
+      },
+    };
+
+    collection = new TypedCollection(sdk, "index", "collection");
+  });
+
+  describe("#constructor", () => {
+    it("should bind the index and collection", () => {
+      should(collection.index).be.eql("index");
+      should(collection.collection).be.eql("collection");
+      should(collection.mappings).be.null();
+    });
+
+    it("should throw if the index or the collection is missing", () => {
+      should(() => new TypedCollection(sdk, "", "collection")).throw(
+        "TypedCollection: index is required"
+      );
+      should(() => new TypedCollection(sdk, "index")).throw(
+        "TypedCollection: collection is required"
+      );
+    });
+
+    it("should keep the mappings with fromMappings", () => {
+      const mappings = { properties: { name: { type: "keyword" } } };
+
+      collection = TypedCollection.fromMappings(
+        sdk,
+        "index",
+        "collection",
+        mappings
+      );
+
+      should(collection).be.instanceOf(TypedCollection);
+      should(collection.mappings).be.eql(mappings);
+    });
+  });
+
+  describe("document methods", () => {
+    const options = { refresh: "wait_for" };
+
+    it("should call document:get", async () => {
+      should(await collection.get("foo", options)).be.eql({ _id: "foo" });
+      should(sdk.document.get).be.calledWith(
+        "index",
+        "collection",
+        "foo",
+        options
+      );
+    });
+
+    it("should call document:create", async () => {
+      await collection.create({ name: "foo" });
+      await collection.create({ name: "foo" }, "foo", options);
+
+      should(sdk.document.create.firstCall).be.calledWith(
+        "index",
+        "collection",
+        { name: "foo" },
+        null,
+        {}
+      );
+      should(sdk.document.create.secondCall).be.calledWith(
+        "index",
+        "collection",
+        { name: "foo" },
+        "foo",
+        options
+      );
+    });
+
+    it("should call document:update", async () => {
+      await collection.update("foo", { name: "bar" }, options);
+
+      should(sdk.document.update).be.calledWith(
+        "index",
+        "collection",
+        "foo",
+        { name: "bar" },
+        options
+      );
+    });
+
+    it("should call document:search", async () => {
+      const query = { query: { match_all: {} } };
+
+      should(await collection.search(query, options)).be.eql({ hits: [] });
+      should(sdk.document.search).be.calledWith(
+        "index",
+        "collection",
+        query,
+        options
+      );
+    });
+
+    it("should call the other document actions", async () => {
+      await collection.count({ query: {} }, options);
+      await collection.createOrReplace("foo", { name: "bar" }, options);
+      await collection.delete("foo", options);
+      await collection.exists("foo", options);
+      await collection.mGet(["foo"], options);
+      await collection.replace("foo", { name: "bar" }, options);
+
+      should(sdk.document.count).be.calledWith(
+        "index",
+        "collection",
+        { query: {} },
+        options
+      );
+      should(sdk.document.createOrReplace).be.calledWith(
+        "index",
+        "collection",
+        "foo",
+        { name: "bar" },
+        options
+      );
+      should(sdk.document.delete).be.calledWith(
+        "index",
+        "collection",
+        "foo",
+        options
+      );
+      should(sdk.document.exists).be.calledWith(
+        "index",
+        "collection",
+        "foo",
+        options
+      );
+      should(sdk.document.mGet).be.calledWith(
+        "index",
+        "collection",
+        ["foo"],
+        options
+      );
+      should(sdk.document.replace).be.calledWith(
+        "index",
+        "collection",
+        "foo",
+        { name: "bar" },
+        options
+      );
+    });
+  });
+});
@@ -0,0 +1,252 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const {
+  SpecificationsValidator,
+} = require("../../../src/core/validation/SpecificationsValidator");
+const { KuzzleError } = require("../../../src/KuzzleError");
+
+describe("SpecificationsValidator", () => {
+  let validator;
+
+  const specifications = {
+    fields: {
+      address: { type: "object", typeOptions: { strict: true } },
+      "address/city": { mandatory: true, type: "string" },
+      "address/zipcode": { type: "integer" },
+      age: { type: "integer", typeOptions: { range: { max: 120, min: 0 } } },
+      name: {
+        mandatory: true,
+        type: "string",
+        typeOptions: { length: { max: 10, min: 2 } },
+      },
+      status: {
+        defaultValue: "active",
+        type: "enum",
+        typeOptions: { values: ["active", "inactive"] },
+      },
+      tags: {
+        multivalued: { maxCount: 2, minCount: 1, value: true },
+        type: "string",
+      },
+    },
+    strict: true,
+  };
+
+  beforeEach(() => {
+    validator = new SpecificationsValidator(specifications);
+  });
+
+  describe("#constructor", () => {
+    it("should reject unknown types", () => {
+      should(
+        () => new SpecificationsValidator({ fields: { foo: { type: "bar" } } })
+      ).throw('Invalid specifications for field "foo": unknown type "bar"');
+    });
+
+    it("should reject unsupported type options", () => {
+      should(
+        () =>
+          new SpecificationsValidator({
+            fields: { foo: { type: "integer", typeOptions: { length: {} } } },
+          })
+      ).throw(/option "length" is not supported by the "integer" type/);
+    });
+
+    it("should reject enums without values", () => {
+      should(
+        () => new SpecificationsValidator({ fields: { foo: { type: "enum" } } })
+      ).throw(/enum fields require a list of values/);
+    });
+
+    it("should reject nested fields without an object parent", () => {
+      should(
+        () =>
+          new SpecificationsValidator({
+            fields: { "foo/bar": { type: "string" } },
+          })
+      ).throw(/parent fields must be declared with the "object" type/);
+    });
+
+    it("should reject invalid default values", () => {
+      should(
+        () =>
+          new SpecificationsValidator({
+            fields: { foo: { defaultValue: "bar", type: "integer" } },
+          })
+      ).throw(/the default value does not match the field/);
+    });
+  });
+
+  describe("#validate", () => {
+    it("should accept a valid document and apply default values", () => {
+      const content = {
+        address: { city: "Montpellier", zipcode: 34000 },
+        name: "foo",
+        tags: ["bar"],
+      };
+
+      const result = validator.validate(content);
+
+      should(result.valid).be.true();
+      should(result.errors).be.empty();
+      should(result.document).be.eql(
+        Object.assign({ status: "active" }, content)
+      );
+      should(content.status).be.undefined();
+    });
+
+    it("should report every invalid field", () => {
+      const result = validator.validate({
+        address: { foo: "bar", zipcode: "34000" },
+        age: 130,
+        name: "f",
+        status: "deleted",
+        tags: [],
+        unknown: true,
+      });
+
+      should(result.valid).be.false();
+      should(result.errors).eql([
+        { field: "address/city", message: "Field is mandatory." },
+        { field: "address/zipcode", message: "Value must be an integer." },
+        {
+          field: "address/foo",
+          message: "Field is not allowed by the specifications.",
+        },
+        { field: "age", message: "Value must be lower than or equal to 120." },
+        {
+          field: "name",
+          message: "Value must contain at least 2 characters.",
+        },
+        {
+          field: "status",
+          message: "Value must be one of: active, inactive.",
+        },
+        { field: "tags", message: "Field must contain at least 1 values." },
+        {
+          field: "unknown",
+          message: "Field is not allowed by the specifications.",
+        },
+      ]);
+    });
+
+    it("should allow missing mandatory fields in partial documents", () => {
+      const result = validator.validate({ age: 42 }, { partial: true });
+
+      should(result.valid).be.true();
+      should(result.document).be.eql({ age: 42 });
+    });
+
+    it("should reject null mandatory fields in partial documents", () => {
+      should(
+        validator.validate({ name: null }, { partial: true }).errors
+      ).be.eql([{ field: "name", message: "Field is mandatory." }]);
+    });
+
+    it("should reject non-object documents", () => {
+      should(validator.validate("foo").valid).be.false();
+    });
+
+    it("should check field types", () => {
+      const check = (type, value, typeOptions) =>
+        new SpecificationsValidator({
+          fields: { foo: { type, typeOptions } },
+        }).validate({ foo: value }).valid;
+
+      should(check("boolean", false)).be.true();
+      should(check("boolean", "false")).be.false();
+      should(check("date", "2020-01-01T00:00:00Z")).be.true();
+      should(check("date", 1577836800000)).be.true();
+      should(check("date", "not a date")).be.false();
+      should(
+        check("date", "2019-01-01", { range: { min: "2020-01-01" } })
+      ).be.false();
+      should(check("email", "foo@bar.com")).be.true();
+      should(check("email", "foo")).be.false();
+      should(check("email", "", { notEmpty: true })).be.false();
+      should(check("geo_point", { lat: 43.6, lon: 3.8 })).be.true();
+      should(check("geo_point", "43.6, 3.8")).be.true();
+      should(check("geo_point", [3.8, 43.6])).be.true();
+      should(check("geo_point", { lat: 100, lon: 3.8 })).be.false();
+      should(
+        check("geo_shape", { coordinates: [1, 2], type: "point" })
+      ).be.true();
+      should(
+        check(
+          "geo_shape",
+          { coordinates: [1, 2], type: "point" },
+          { shapeTypes: ["polygon"] }
+        )
+      ).be.false();
+      should(check("integer", 1.5)).be.false();
+      should(check("ip_address", "192.168.0.1")).be.true();
+      should(check("ip_address", "::1")).be.true();
+      should(check("ip_address", "300.0.0.1")).be.false();
+      should(check("numeric", 1.5, { range: { min: 2 } })).be.false();
+      should(check("numeric", Infinity)).be.false();
+      should(check("object", [])).be.false();
+      should(check("url", "https://kuzzle.io")).be.true();
+      should(check("url", "kuzzle")).be.false();
+      should(check("anything", ["foo", 42])).be.true();
+      should(check("string", ["foo"])).be.false();
+    });
+  });
+
+  describe("#assert", () => {
+    it("should return the document with default values", () => {
+      should(
+        validator.assert({ address: { city: "Paris" }, name: "foo" })
+      ).be.eql({ address: { city: "Paris" }, name: "foo", status: "active" });
+    });
+
+    it("should throw a KuzzleError shaped like the API one", () => {
+      const request = { collection: "collection", index: "index" };
+
+      try {
+        validator.assert({ age: -1 }, { partial: true, request });
+        should.fail("should have thrown");
+      } catch (error) {
+        should(error).be.instanceOf(KuzzleError);
+        should(error.id).be.eql("validation.check.failed_document");
+        should(error.status).be.eql(400);
+        should(error.index).be.eql("index");
+        should(error.collection).be.eql("collection");
+        should(error.count).be.eql(1);
+        should(error.errors).be.eql([
+          {
+            field: "age",
+            message: "Value must be greater than or equal to 0.",
+          },
+        ]);
+        should(error.message).match(/Field "age": Value must be greater/);
+      }
+    });
+  });
+
+  describe("#fromCollection", () => {
+    it("should fetch the collection specifications", async () => {
+      const sdk = {
+        collection: {
+          getSpecifications: sinon.stub().resolves({
+            collection: "collection",
+            index: "index",
+            validation: specifications,
+          }),
+        },
+      };
+
+      validator = await SpecificationsValidator.fromCollection(
+        sdk,
+        "index",
+        "collection"
+      );
+
+      should(sdk.collection.getSpecifications).be.calledWith(
+        "index",
+        "collection"
+      );
+      should(validator.specifications).be.eql(specifications);
+    });
+  });
+});
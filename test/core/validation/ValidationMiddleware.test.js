@@ -0,0 +1,150 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const {
+  ValidationMiddleware,
+} = require("../../../src/core/validation/ValidationMiddleware");
+const {
+  SpecificationsValidator,
+} = require("../../../src/core/validation/SpecificationsValidator");
+
+describe("ValidationMiddleware", () => {
+  let middleware;
+
+  const specifications = {
+    fields: {
+      age: { type: "integer" },
+      name: { mandatory: true, type: "string" },
+    },
+  };
+
+  const request = (action, body) => ({
+    action,
+    body,
+    collection: "collection",
+    controller: "document",
+    index: "index",
+  });
+
+  beforeEach(() => {
+    middleware = new ValidationMiddleware();
+    middleware.register("index", "collection", specifications);
+  });
+
+  it("should register validators", () => {
+    const validator = new SpecificationsValidator(specifications);
+
+    should(middleware.register("index", "other", validator)).be.equal(
+      validator
+    );
+    should(middleware.get("index", "other")).be.equal(validator);
+    should(middleware.unregister("index", "other")).be.true();
+    should(middleware.get("index", "other")).be.undefined();
+  });
+
+  it("should load the specifications of a collection", async () => {
+    const sdk = {
+      collection: {
+        getSpecifications: sinon
+          .stub()
+          .resolves({ validation: specifications }),
+      },
+    };
+
+    await middleware.load(sdk, "index", "other");
+
+    should(middleware.get("index", "other").specifications).be.eql(
+      specifications
+    );
+  });
+
+  it("should reject invalid documents", () => {
+    should(() =>
+      middleware.beforeSend(request("create", { age: "foo" }))
+    ).throw({
+      errors: [
+        { field: "age", message: "Value must be an integer." },
+        { field: "name", message: "Field is mandatory." },
+      ],
+      id: "validation.check.failed_document",
+      status: 400,
+    });
+  });
+
+  it("should validate updates as partial documents", () => {
+    should(() =>
+      middleware.beforeSend(request("update", { age: 42 }))
+    ).not.throw();
+
+    should(() =>
+      middleware.beforeSend(request("update", { age: "foo" }))
+    ).throw({ id: "validation.check.failed_document" });
+  });
+
+  it("should validate every document of m* actions", () => {
+    should(() =>
+      middleware.beforeSend(
+        request("mCreate", {
+          documents: [{ body: { name: "foo" } }, { body: { age: 42 } }],
+        })
+      )
+    ).throw({
+      errors: [{ field: "documents/1/name", message: "Field is mandatory." }],
+    });
+
+    should(() =>
+      middleware.beforeSend(
+        request("mUpdate", {
+          documents: [{ _id: "foo", body: { age: 42 } }],
+        })
+      )
+    ).not.throw();
+  });
+
+  it("should validate the changes and default values of upserts", () => {
+    should(() =>
+      middleware.beforeSend(
+        request("upsert", { changes: { age: 42 }, default: { name: "foo" } })
+      )
+    ).not.throw();
+
+    should(() =>
+      middleware.beforeSend(
+        request("upsert", { changes: { name: "foo" }, default: { age: "bar" } })
+      )
+    ).throw({
+      errors: [{ field: "age", message: "Value must be an integer." }],
+    });
+
+    should(() =>
+      middleware.beforeSend(
+        request("mUpsert", {
+          documents: [
+            { _id: "foo", changes: { age: 42 } },
+            { _id: "bar", changes: { age: "baz" } },
+          ],
+        })
+      )
+    ).throw({
+      errors: [
+        { field: "documents/1/age", message: "Value must be an integer." },
+      ],
+    });
+  });
+
+  it("should ignore other requests", () => {
+    const invalid = { age: "foo" };
+
+    should(() => middleware.beforeSend(request("search", invalid))).not.throw();
+    should(() =>
+      middleware.beforeSend(
+        Object.assign(request("create", invalid), { collection: "other" })
+      )
+    ).not.throw();
+    should(() =>
+      middleware.beforeSend(
+        Object.assign(request("create", invalid), { controller: "foo" })
+      )
+    ).not.throw();
+  });
+});
@@ -21,6 +21,8 @@ describe("Kuzzle listeners management", () => {
 
   it("should only listen to allowed events", () => {
     const knownEvents = [
+      "batchFlush",
+      "batchFlushError",
       "callbackError",
       "connected",
       "discarded",
@@ -31,9 +33,11 @@ describe("Kuzzle listeners management", () => {
       "offlineQueuePush",
       "offlineQueuePop",
       "queryError",
+      "queryRetry",
       "reAuthenticated",
       "reconnected",
       "reconnectionError",
+      "searchConcurrentModification",
       "tokenExpired",
     ];
 
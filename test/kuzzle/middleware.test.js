@@ -0,0 +1,94 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const ProtocolMock = require("../mocks/protocol.mock");
+const { Kuzzle } = require("../../src/Kuzzle");
+const { BaseController } = require("../../src/controllers/Base");
+
+describe("Kuzzle middlewares", () => {
+  let kuzzle;
+
+  beforeEach(() => {
+    kuzzle = new Kuzzle(new ProtocolMock("somewhere"));
+    kuzzle._timeoutRequest = sinon.stub().resolves({ result: "foo" });
+  });
+
+  it("should register middlewares passed to the constructor", () => {
+    const middleware = { beforeSend: sinon.stub() };
+
+    kuzzle = new Kuzzle(new ProtocolMock("somewhere"), {
+      middlewares: [middleware],
+    });
+
+    should(kuzzle.middlewares).be.eql([middleware]);
+  });
+
+  it("should execute middlewares around each query", async () => {
+    kuzzle.useMiddleware({
+      afterResponse: (response) =>
+        Object.assign({}, response, { traced: true }),
+      beforeSend: (request, options) => {
+        request.volatile.traceId = "trace";
+        options.timeout = 42;
+      },
+    });
+
+    const response = await kuzzle.query(
+      { action: "now", controller: "server" },
+      { timeout: 10 }
+    );
+
+    should(kuzzle._timeoutRequest).be.calledWithMatch(42, {
+      volatile: { sdkName: kuzzle.sdkName, traceId: "trace" },
+    });
+    should(response).be.eql({ result: "foo", traced: true });
+  });
+
+  it("should execute middlewares for custom controllers", async () => {
+    class CustomController extends BaseController {
+      constructor(sdk) {
+        super(sdk, "custom");
+      }
+
+      hello() {
+        return this.query({ action: "hello" });
+      }
+    }
+    const beforeSend = sinon.stub();
+
+    kuzzle.useController(CustomController, "custom");
+    kuzzle.useMiddleware({ beforeSend });
+
+    await kuzzle.custom.hello();
+
+    should(beforeSend).be.calledWithMatch({
+      action: "hello",
+      controller: "custom",
+    });
+  });
+
+  it("should allow a middleware to prevent a request from being queued", async () => {
+    kuzzle.startQueuing();
+    kuzzle.useMiddleware({
+      beforeSend: (request, options) => {
+        options.queuable = false;
+      },
+    });
+
+    await should(
+      kuzzle.query({ action: "now", controller: "server" })
+    ).be.rejectedWith(/not connected to a Kuzzle server/);
+    should(kuzzle.offlineQueue).be.empty();
+  });
+
+  it("should remove middlewares", async () => {
+    const middleware = { beforeSend: sinon.stub() };
+
+    kuzzle.useMiddleware(middleware);
+    should(kuzzle.removeMiddleware(middleware)).be.true();
+
+    await kuzzle.query({ action: "now", controller: "server" });
+
+    should(middleware.beforeSend).not.be.called();
+  });
+});
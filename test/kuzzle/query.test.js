@@ -4,7 +4,9 @@ const should = require("should"),
   sinon = require("sinon"),
   ProtocolMock = require("../mocks/protocol.mock"),
   generateJwt = require("../mocks/generateJwt.mock"),
-  { Kuzzle } = require("../../src/Kuzzle");
+  { Kuzzle } = require("../../src/Kuzzle"),
+  { NetworkError } = require("../../src/NetworkError"),
+  { RequestAbortedError } = require("../../src/RequestAbortedError");
 
 describe("Kuzzle query management", () => {
   describe("#_timeoutRequest", () => {
@@ -347,6 +349,134 @@ describe("Kuzzle query management", () => {
       should(request).be.eql({ controller: "server", action: "now" });
     });
 
+    it("should retry idempotent requests according to the retry option", async () => {
+      const retryStub = sinon.stub();
+      kuzzle.addListener("queryRetry", retryStub);
+      kuzzle._timeoutRequest
+        .onFirstCall()
+        .rejects(new NetworkError("network"))
+        .onSecondCall()
+        .resolves(response);
+
+      const result = await kuzzle.query(
+        { action: "get", controller: "document" },
+        { retry: { baseDelay: 0 } }
+      );
+
+      should(result).be.eql(response);
+      should(kuzzle._timeoutRequest).be.calledTwice();
+      should(kuzzle._timeoutRequest.firstCall.args[1]).not.have.property(
+        "retry"
+      );
+      should(retryStub).be.calledOnce().be.calledWithMatch({ attempt: 2 });
+    });
+
+    it("should not retry requests by default", async () => {
+      kuzzle._timeoutRequest.rejects(new Error("network"));
+
+      await should(
+        kuzzle.query({ action: "get", controller: "document" })
+      ).be.rejectedWith("network");
+      should(kuzzle._timeoutRequest).be.calledOnce();
+    });
+
+    it("should pass the abort signal to the protocol without sending it", async () => {
+      const controller = new AbortController();
+
+      await kuzzle.query(
+        { action: "now", controller: "server" },
+        { signal: controller.signal }
+      );
+
+      should(kuzzle._timeoutRequest.firstCall.args[1]).not.have.property(
+        "signal"
+      );
+      should(kuzzle._timeoutRequest.firstCall.args[2].signal).be.exactly(
+        controller.signal
+      );
+    });
+
+    it("should reject aborted requests without sending them", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await should(
+        kuzzle.query(
+          { action: "now", controller: "server" },
+          { signal: controller.signal }
+        )
+      ).be.rejectedWith(RequestAbortedError);
+      should(kuzzle._timeoutRequest).not.be.called();
+    });
+
+    it("should drop queued requests when they are aborted", async () => {
+      const controller = new AbortController();
+      const popStub = sinon.stub();
+      kuzzle.addListener("offlineQueuePop", popStub);
+      kuzzle._queuing = true;
+
+      const request = { action: "bar", controller: "foo" };
+      const promise = kuzzle.query(request, { signal: controller.signal });
+
+      should(kuzzle._offlineQueue.length).be.eql(1);
+
+      controller.abort();
+
+      await should(promise).be.rejectedWith(RequestAbortedError);
+      should(kuzzle._offlineQueue.length).be.eql(0);
+      should(popStub).be.calledOnce().be.calledWithMatch(request);
+    });
+
+    it("should delay requests exceeding the rate limit", async () => {
+      const clock = sinon.useFakeTimers();
+
+      try {
+        kuzzle = new Kuzzle(new ProtocolMock("somewhere"), { rateLimit: 1 });
+        kuzzle._timeoutRequest = sinon.stub().resolves(response);
+
+        kuzzle.query({ action: "now", controller: "server" });
+        kuzzle.query({ action: "now", controller: "server" });
+
+        should(kuzzle._timeoutRequest).be.calledOnce();
+        should(kuzzle.rateLimiter.pending).be.eql(1);
+
+        await clock.tickAsync(1000);
+        should(kuzzle._timeoutRequest).be.calledTwice();
+      } finally {
+        clock.restore();
+      }
+    });
+
+    it("should derive the rate limit from the user profiles", async () => {
+      kuzzle = new Kuzzle(new ProtocolMock("somewhere"), {
+        rateLimit: "auto",
+      });
+      kuzzle.auth.getCurrentUser = sinon.stub().resolves({
+        getProfiles: sinon.stub().resolves([
+          { _id: "default", rateLimit: 10 },
+          { _id: "admin", rateLimit: 50 },
+        ]),
+      });
+
+      kuzzle.emit("loginAttempt", { success: true });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      should(kuzzle.rateLimiter.auto).be.true();
+      should(kuzzle.rateLimiter.limit).be.eql(50);
+    });
+
+    it("should not update the rate limit on failed logins", async () => {
+      kuzzle = new Kuzzle(new ProtocolMock("somewhere"), {
+        rateLimit: "auto",
+      });
+      kuzzle.auth.getCurrentUser = sinon.stub().resolves();
+
+      kuzzle.emit("loginAttempt", { error: "bad password", success: false });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      should(kuzzle.auth.getCurrentUser).not.be.called();
+    });
+
     it("should call logDeprecation with the response", async () => {
       kuzzle.deprecationHandler.logDeprecation = sinon.stub().returns(response);
       await kuzzle.query(query);
@@ -2,6 +2,7 @@ const should = require("should");
 const sinon = require("sinon");
 
 const ProtocolMock = require("../mocks/protocol.mock");
+const generateJwt = require("../mocks/generateJwt.mock");
 
 const { Kuzzle } = require("../../src/Kuzzle");
 
@@ -203,4 +204,128 @@ describe("Kuzzle queue", () => {
       should(rejectedRequest).calledTwice().calledWith(query.request);
     });
   });
+
+  describe("offline queue storage", () => {
+    let storage;
+    let persisted;
+
+    beforeEach(() => {
+      persisted = [
+        {
+          request: {
+            requestId: "restored",
+            action: "action",
+            controller: "controller",
+          },
+          timeout: -1,
+          ts: Date.now(),
+        },
+      ];
+
+      storage = {
+        load: sinon.stub().returns(persisted),
+        save: sinon.stub(),
+      };
+    });
+
+    it("should restore the persisted queue on instantiation", () => {
+      kuzzle = new Kuzzle(new ProtocolMock("somewhere"), {
+        offlineQueueStorage: storage,
+      });
+
+      should(kuzzle.offlineQueueStorage).be.eql(storage);
+      should(kuzzle.offlineQueue).have.length(1);
+      should(kuzzle.offlineQueue[0].request).be.eql(persisted[0].request);
+      should(kuzzle.offlineQueue[0].restored).be.true();
+    });
+
+    it("should restore an asynchronously loaded queue before playing it", async () => {
+      storage.load.resolves(persisted);
+      kuzzle = new Kuzzle(new ProtocolMock("somewhere"), {
+        offlineQueueStorage: storage,
+      });
+      kuzzle._timeoutRequest = sinon.stub().resolves();
+      kuzzle.protocol.isReady.returns(true);
+      kuzzle.jwt = generateJwt();
+
+      const loading = kuzzle._offlineQueueLoading;
+      kuzzle.playQueue();
+      await loading;
+
+      should(kuzzle._timeoutRequest).be.calledOnce();
+      should(kuzzle._timeoutRequest.getCall(0).args[1]).match({
+        jwt: kuzzle.jwt,
+        requestId: "restored",
+      });
+    });
+
+    it("should persist queued requests without their authentication token", () => {
+      kuzzle = new Kuzzle(new ProtocolMock("somewhere"), {
+        offlineQueueStorage: storage,
+      });
+      kuzzle.flushQueue();
+      kuzzle.jwt = generateJwt();
+      kuzzle.startQueuing();
+
+      kuzzle.query({ action: "action", controller: "controller" });
+
+      const saved = storage.save.lastCall.args[0];
+      should(saved).have.length(1);
+      should(saved[0].request).not.have.property("jwt");
+      should(saved[0].request.action).be.eql("action");
+      should(saved[0].ts).be.a.Number();
+    });
+
+    it("should persist the queue when requests are played", () => {
+      kuzzle = new Kuzzle(new ProtocolMock("somewhere"), {
+        offlineQueueStorage: storage,
+      });
+      kuzzle._timeoutRequest = sinon.stub().resolves();
+      kuzzle.protocol.isReady.returns(true);
+
+      kuzzle.playQueue();
+
+      should(storage.save).be.calledWith([]);
+    });
+
+    it("should persist the requests returned by offlineQueueLoader", async () => {
+      kuzzle = new Kuzzle(new ProtocolMock("somewhere"), {
+        offlineQueueStorage: storage,
+      });
+      kuzzle.flushQueue();
+      kuzzle.offlineQueueLoader = () => [
+        {
+          request: {
+            action: "action",
+            controller: "controller",
+            requestId: "loaded",
+          },
+        },
+      ];
+      kuzzle._timeoutRequest = sinon.stub().resolves();
+      kuzzle.protocol.isReady.returns(true);
+      storage.save.resetHistory();
+
+      await kuzzle._dequeue();
+
+      // Persisted before being played
+      should(storage.save.firstCall.args[0]).match([
+        { request: { requestId: "loaded" } },
+      ]);
+    });
+
+    it("should ignore storage errors", () => {
+      storage.load.throws(new Error("corrupted"));
+      storage.save.throws(new Error("disk full"));
+
+      kuzzle = new Kuzzle(new ProtocolMock("somewhere"), {
+        offlineQueueStorage: storage,
+      });
+      kuzzle.startQueuing();
+
+      kuzzle.query({ action: "action", controller: "controller" });
+
+      should(kuzzle.offlineQueue).have.length(1);
+    });
+  });
 });
@@ -0,0 +1,80 @@
+const { EventEmitter } = require("events");
+const sinon = require("sinon");
+
+/**
+ * Minimal stand-in of a MQTT broker fronting Kuzzle.
+ *
+ * Requests published on the request topic are passed to the `handler`
+ * function, whose result is published back on the response topic.
+ */
+class MqttBrokerMock {
+  constructor(handler = () => ({ result: {} })) {
+    this.handler = handler;
+    this.clients = [];
+    this.connect = sinon.spy((url, options) =>
+      this._createClient(url, options)
+    );
+  }
+
+  get client() {
+    return this.clients[this.clients.length - 1];
+  }
+
+  /**
+   * Publishes a message to every client subscribed to a topic
+   */
+  publish(topic, message) {
+    for (const client of this.clients) {
+      if (client.connected && client.topics.has(topic)) {
+        client.emit("message", topic, Buffer.from(JSON.stringify(message)));
+      }
+    }
+  }
+
+  _createClient(url, options) {
+    const broker = this;
+    const client = new EventEmitter();
+
+    Object.assign(client, {
+      connected: false,
+      end: sinon.spy(() => {
+        client.connected = false;
+        client.emit("close");
+      }),
+      options,
+      publish: sinon.spy((topic, payload) => {
+        const request = JSON.parse(payload);
+
+        setImmediate(() => {
+          const response = Object.assign(
+            {
+              action: request.action,
+              controller: request.controller,
+              requestId: request.requestId,
+              room: request.requestId,
+              status: 200,
+            },
+            broker.handler(request)
+          );
+
+          broker.publish("Kuzzle/response", response);
+        });
+      }),
+      subscribe: sinon.spy((topic) => client.topics.add(topic)),
+      topics: new Set(),
+      unsubscribe: sinon.spy((topic) => client.topics.delete(topic)),
+      url,
+    });
+
+    this.clients.push(client);
+
+    setImmediate(() => {
+      client.connected = true;
+      client.emit("connect");
+    });
+
+    return client;
+  }
+}
+
+module.exports = MqttBrokerMock;
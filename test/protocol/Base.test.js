@@ -2,6 +2,7 @@ const should = require("should");
 const sinon = require("sinon");
 
 const { KuzzleError } = require("../../src/KuzzleError");
+const { RequestAbortedError } = require("../../src/RequestAbortedError");
 const { KuzzleAbstractProtocol } = require("../../src/protocols/abstract/Base");
 const {
   PendingRequest,
@@ -267,6 +268,34 @@ describe("Common Protocol", () => {
           should(error.count).eql(42);
         });
     });
+
+    it("should reject a pending request when it is aborted", async () => {
+      protocol.send = () => {};
+      const controller = new AbortController();
+      const request = { requestId: "bar" };
+
+      const promise = protocol.query(request, { signal: controller.signal });
+
+      controller.abort("cancelled");
+
+      await should(promise).be.rejectedWith(RequestAbortedError, {
+        reason: "cancelled",
+        request,
+      });
+      should(protocol.pendingRequests.has("bar")).be.false();
+      should(protocol.listeners("bar")).be.empty();
+    });
+
+    it("should not send requests already aborted", async () => {
+      const controller = new AbortController();
+
+      controller.abort();
+
+      await should(
+        protocol.query({ requestId: "bar" }, { signal: controller.signal })
+      ).be.rejectedWith(RequestAbortedError);
+      should(sendSpy).not.be.called();
+    });
   });
 
   describe("#clear", () => {
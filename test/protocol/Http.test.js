@@ -1,3 +1,4 @@
+const http = require("http");
 const proxyquire = require("proxyquire");
 const should = require("should");
 const sinon = require("sinon");
@@ -732,6 +733,21 @@ describe("HTTP networking module", () => {
       );
     });
 
+    it("should call http.request with the abort signal", () => {
+      const controller = new AbortController();
+
+      protocol._sendHttpRequest({
+        method: "VERB",
+        path: "/foo/bar",
+        signal: controller.signal,
+      });
+
+      should(httpRequestStub).be.calledOnce();
+      should(httpRequestStub.firstCall.args[2].signal).be.exactly(
+        controller.signal
+      );
+    });
+
     it("should reject the request in case of error", () => {
       httpRequestStub.rejects("My HTTP Error");
 
@@ -887,6 +903,339 @@ describe("HTTP networking module", () => {
     });
   });
 
+  describe("realtime streams", () => {
+    let streams;
+    let MockHttp;
+
+    beforeEach(() => {
+      streams = [];
+
+      class SseStreamMock {
+        constructor(url, options) {
+          this.url = url;
+          this.options = options;
+          this.close = sinon.stub();
+          this.open = sinon.stub().returns(this);
+          streams.push(this);
+        }
+
+        receive(event, data) {
+          this.options.onEvent({ data: JSON.stringify(data), event });
+        }
+      }
+
+      MockHttp = proxyquire("../../src/protocols/Http", {
+        "./SseStream": { SseStream: SseStreamMock },
+      }).default;
+
+      protocol = new MockHttp("address", {
+        port: 1234,
+        sse: { path: "/_stream", reconnectionDelay: 42 },
+      });
+      protocol.emit = sinon.stub();
+    });
+
+    const subscribeRequest = {
+      action: "subscribe",
+      body: { equals: { foo: "bar" } },
+      collection: "collection",
+      controller: "realtime",
+      index: "index",
+      jwt: "token",
+      requestId: "requestId",
+      scope: "in",
+    };
+
+    it("should not stream notifications by default", () => {
+      should(new Http("address").realtimeStreaming).be.false();
+      should(protocol.realtimeStreaming).be.true();
+    });
+
+    it("should open a stream for realtime:subscribe requests", () => {
+      protocol.send(subscribeRequest);
+
+      should(streams).have.length(1);
+      should(streams[0].open).be.calledOnce();
+      should(streams[0].options.reconnectionDelay).be.eql(42);
+
+      const url = new URL(streams[0].url);
+      should(url.origin).be.eql("http://address:1234");
+      should(url.pathname).be.eql("/_stream");
+      should(url.searchParams.get("index")).be.eql("index");
+      should(url.searchParams.get("collection")).be.eql("collection");
+      should(url.searchParams.get("scope")).be.eql("in");
+      should(url.searchParams.has("jwt")).be.false();
+      should(streams[0].options.headers).match({
+        authorization: "Bearer token",
+      });
+      should(JSON.parse(url.searchParams.get("body"))).be.eql({
+        equals: { foo: "bar" },
+      });
+    });
+
+    it("should reject authenticated streams without cookie auth in browsers", () => {
+      global.EventSource = class {};
+
+      try {
+        protocol.send(subscribeRequest);
+      } finally {
+        delete global.EventSource;
+      }
+
+      should(streams).be.empty();
+      should(protocol.emit).be.calledWithMatch("requestId", { status: 401 });
+      should(protocol.emit.firstCall.args[1].error.message).match(
+        /require the cookieAuth option/
+      );
+
+      protocol.send(Object.assign({}, subscribeRequest, { jwt: undefined }));
+
+      should(streams).have.length(1);
+    });
+
+    it("should resolve the subscription when the server confirms it", () => {
+      protocol.send(subscribeRequest);
+      streams[0].receive("subscribed", { channel: "channel", roomId: "room" });
+
+      should(protocol.emit).be.calledWithMatch("requestId", {
+        requestId: "requestId",
+        result: { channel: "channel", roomId: "room" },
+        status: 200,
+      });
+    });
+
+    it("should emit notifications on the subscription channel", () => {
+      protocol.send(subscribeRequest);
+      streams[0].receive("subscribed", { channel: "channel", roomId: "room" });
+      streams[0].receive("message", { _id: "foo", room: "other" });
+
+      should(protocol.emit).be.calledWithMatch("channel", {
+        _id: "foo",
+        room: "channel",
+      });
+    });
+
+    it("should reject the subscription on error events", () => {
+      protocol.send(subscribeRequest);
+      streams[0].receive("error", {
+        error: { id: "security.token.invalid", status: 401 },
+      });
+
+      should(streams[0].close).be.calledOnce();
+      should(protocol.emit).be.calledWithMatch("requestId", {
+        error: { id: "security.token.invalid" },
+        status: 401,
+      });
+    });
+
+    it("should reject the subscription if the stream cannot be opened", () => {
+      const error = new Error("ECONNREFUSED");
+
+      protocol.send(subscribeRequest);
+      streams[0].options.onError(error);
+
+      should(streams[0].close).be.calledOnce();
+      should(protocol.emit).be.calledWith("requestId", {
+        error,
+        requestId: "requestId",
+      });
+    });
+
+    it("should emit realtimeStreamError when an established stream is lost", () => {
+      const error = new Error("ended");
+
+      protocol.send(subscribeRequest);
+      streams[0].receive("subscribed", { channel: "channel", roomId: "room" });
+      streams[0].options.onError(error);
+
+      should(streams[0].close).not.be.called();
+      should(protocol.emit).be.calledWith("realtimeStreamError", {
+        error,
+        roomId: "room",
+      });
+    });
+
+    it("should close the stream on realtime:unsubscribe requests", () => {
+      protocol.send(subscribeRequest);
+      streams[0].receive("subscribed", { channel: "channel", roomId: "room" });
+
+      protocol.send({
+        action: "unsubscribe",
+        body: { roomId: "room" },
+        controller: "realtime",
+        requestId: "unsubscribeId",
+      });
+
+      should(streams[0].close).be.calledOnce();
+      should(protocol.emit).be.calledWithMatch("unsubscribeId", {
+        result: { roomId: "room" },
+      });
+    });
+
+    it("should reject unsubscriptions from unknown rooms", () => {
+      protocol.send({
+        action: "unsubscribe",
+        body: { roomId: "room" },
+        controller: "realtime",
+        requestId: "unsubscribeId",
+      });
+
+      should(protocol.emit).be.calledWithMatch("unsubscribeId", {
+        error: { id: "core.realtime.unknown_room" },
+        status: 404,
+      });
+    });
+
+    it("should close every stream when the protocol is closed", () => {
+      protocol.send(subscribeRequest);
+      streams[0].receive("subscribed", { channel: "channel", roomId: "room" });
+
+      protocol.close();
+
+      should(streams[0].close).be.calledOnce();
+    });
+  });
+
+  // Server side contract expected from the plugin exposing the stream endpoint
+  describe("realtime streams contract", () => {
+    let server;
+    let requests;
+    let handler;
+
+    beforeEach((done) => {
+      requests = [];
+      handler = (req, res) => {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write(
+          'event: subscribed\ndata: {"roomId":"room","channel":"channel"}\n\n'
+        );
+      };
+
+      server = http.createServer((req, res) => {
+        requests.push(req);
+        handler(req, res);
+      });
+
+      server.listen(0, "127.0.0.1", () => {
+        protocol = new Http("127.0.0.1", {
+          port: server.address().port,
+          sse: { reconnectionDelay: 10 },
+        });
+        done();
+      });
+    });
+
+    afterEach((done) => {
+      protocol.close();
+      server.closeAllConnections();
+      server.close(() => done());
+    });
+
+    const subscribe = (options) => {
+      const request = Object.assign(
+        {
+          action: "subscribe",
+          body: { equals: { foo: "bar" } },
+          collection: "collection",
+          controller: "realtime",
+          index: "index",
+          requestId: "requestId",
+        },
+        options
+      );
+
+      return new Promise((resolve) => {
+        protocol.once(request.requestId, resolve);
+        protocol.send(request);
+      });
+    };
+
+    it("should send the subscription in a GET request on /_sse", async () => {
+      const response = await subscribe({ jwt: "token", scope: "in" });
+
+      should(response.result).be.eql({ channel: "channel", roomId: "room" });
+      should(requests).have.length(1);
+      should(requests[0].method).be.eql("GET");
+      should(requests[0].headers).match({
+        accept: "text/event-stream",
+        authorization: "Bearer token",
+      });
+
+      const url = new URL(requests[0].url, "http://127.0.0.1");
+      should(url.pathname).be.eql("/_sse");
+      should(Object.fromEntries(url.searchParams)).be.eql({
+        body: '{"equals":{"foo":"bar"}}',
+        collection: "collection",
+        index: "index",
+        scope: "in",
+      });
+    });
+
+    it("should emit the message events on the subscription channel", async () => {
+      const notification = new Promise((resolve) =>
+        protocol.once("channel", resolve)
+      );
+      handler = (req, res) => {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write(
+          'event: subscribed\ndata: {"roomId":"room","channel":"channel"}\n\n'
+        );
+        res.write('data: {"type":"document","action":"create"}\n\n');
+      };
+
+      await subscribe({});
+
+      should(await notification).be.eql({
+        action: "create",
+        room: "channel",
+        type: "document",
+      });
+    });
+
+    it("should reject the subscription with the API error of an error event", async () => {
+      handler = (req, res) => {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write(
+          'event: error\ndata: {"error":{"id":"security.rights.forbidden","status":403}}\n\n'
+        );
+      };
+
+      const response = await subscribe({});
+
+      should(response).match({
+        error: { id: "security.rights.forbidden" },
+        status: 403,
+      });
+    });
+
+    it("should reject the subscription if the endpoint does not exist", async () => {
+      handler = (req, res) => {
+        res.writeHead(404);
+        res.end();
+      };
+
+      const response = await subscribe({});
+
+      should(response.error.message).match(/HTTP status 404/);
+      should(requests).have.length(1);
+    });
+
+    it("should end the subscription by closing the stream", async () => {
+      await subscribe({});
+
+      const closed = new Promise((resolve) => requests[0].on("close", resolve));
+
+      protocol.send({
+        action: "unsubscribe",
+        body: { roomId: "room" },
+        controller: "realtime",
+        requestId: "unsubscribeId",
+      });
+
+      await closed;
+    });
+  });
+
   describe("#isReady", () => {
     it("should be ready if the instance is ready", () => {
       protocol.state = "ready";
@@ -0,0 +1,428 @@
+const should = require("should");
+
+const { Kuzzle } = require("../../src/Kuzzle");
+const { KuzzleError } = require("../../src/KuzzleError");
+const { default: MemoryProtocol } = require("../../src/protocols/Memory");
+const { MemoryBackend } = require("../../src/protocols/memory/MemoryBackend");
+const { compileQuery } = require("../../src/protocols/memory/queries");
+
+describe("Memory protocol", () => {
+  let backend;
+  let kuzzle;
+
+  beforeEach(async () => {
+    backend = new MemoryBackend({
+      users: {
+        alyx: {
+          content: { name: "Alyx" },
+          credentials: { local: { password: "secret", username: "alyx" } },
+        },
+      },
+    });
+    kuzzle = new Kuzzle(new MemoryProtocol({ backend }));
+
+    await kuzzle.connect();
+    await kuzzle.index.create("nyc-open-data");
+    await kuzzle.collection.create("nyc-open-data", "yellow-taxi", {
+      mappings: { properties: { name: { type: "keyword" } } },
+    });
+  });
+
+  afterEach(() => {
+    kuzzle.disconnect();
+  });
+
+  describe("#connect", () => {
+    it("should be ready once connected", () => {
+      should(kuzzle.protocol.isReady()).be.true();
+      should(kuzzle.connected).be.true();
+    });
+
+    it("should reject requests once closed", async () => {
+      kuzzle.disconnect();
+
+      await should(kuzzle.server.now()).be.rejected();
+    });
+  });
+
+  describe("indexes and collections", () => {
+    it("should list and delete indexes and collections", async () => {
+      should(await kuzzle.index.list()).eql(["nyc-open-data"]);
+      should(await kuzzle.collection.list("nyc-open-data")).eql({
+        collections: [{ name: "yellow-taxi", type: "stored" }],
+        type: "all",
+      });
+      should(
+        await kuzzle.collection.getMapping("nyc-open-data", "yellow-taxi")
+      ).match({ properties: { name: { type: "keyword" } } });
+
+      await kuzzle.collection.delete("nyc-open-data", "yellow-taxi");
+      should(
+        await kuzzle.collection.exists("nyc-open-data", "yellow-taxi")
+      ).be.false();
+
+      await kuzzle.index.delete("nyc-open-data");
+      should(await kuzzle.index.exists("nyc-open-data")).be.false();
+    });
+
+    it("should reject with API errors", async () => {
+      const error = await should(
+        kuzzle.document.get("nyc-open-data", "unknown", "foo")
+      ).be.rejectedWith(KuzzleError);
+
+      should(error.id).eql("services.storage.unknown_collection");
+      should(error.status).eql(404);
+
+      await should(kuzzle.index.create("nyc-open-data")).be.rejectedWith({
+        id: "services.storage.index_already_exists",
+        status: 412,
+      });
+    });
+
+    it("should reject unsupported actions", async () => {
+      await should(
+        kuzzle.query({ action: "createFirstAdmin", controller: "security" })
+      ).be.rejectedWith({ id: "api.process.action_not_found", status: 404 });
+    });
+  });
+
+  describe("documents", () => {
+    it("should create, update, replace and delete documents", async () => {
+      const created = await kuzzle.document.create(
+        "nyc-open-data",
+        "yellow-taxi",
+        { name: "Aschen", tags: { color: "yellow" } },
+        "taxi-1"
+      );
+
+      should(created._version).eql(1);
+      should(created._source._kuzzle_info.author).eql("-1");
+
+      await should(
+        kuzzle.document.create("nyc-open-data", "yellow-taxi", {}, "taxi-1")
+      ).be.rejectedWith({ status: 409 });
+
+      const updated = await kuzzle.document.update(
+        "nyc-open-data",
+        "yellow-taxi",
+        "taxi-1",
+        { tags: { size: "L" } },
+        { source: true }
+      );
+
+      should(updated._version).eql(2);
+      should(updated._source).match({
+        name: "Aschen",
+        tags: { color: "yellow", size: "L" },
+      });
+
+      await kuzzle.document.replace("nyc-open-data", "yellow-taxi", "taxi-1", {
+        name: "Ricky",
+      });
+
+      const document = await kuzzle.document.get(
+        "nyc-open-data",
+        "yellow-taxi",
+        "taxi-1"
+      );
+
+      should(document._version).eql(3);
+      should(document._source.tags).be.undefined();
+
+      await kuzzle.document.delete("nyc-open-data", "yellow-taxi", "taxi-1");
+
+      should(
+        await kuzzle.document.exists("nyc-open-data", "yellow-taxi", "taxi-1")
+      ).be.false();
+    });
+
+    it("should report rejected documents of multiple writes", async () => {
+      await kuzzle.document.create(
+        "nyc-open-data",
+        "yellow-taxi",
+        {},
+        "taxi-1"
+      );
+
+      const result = await kuzzle.document.mCreate(
+        "nyc-open-data",
+        "yellow-taxi",
+        [
+          { _id: "taxi-1", body: { name: "Aschen" } },
+          { _id: "taxi-2", body: { name: "Ricky" } },
+        ]
+      );
+
+      should(result.successes.map(({ _id }) => _id)).eql(["taxi-2"]);
+      should(result.errors).match([
+        { document: { _id: "taxi-1" }, status: 409 },
+      ]);
+
+      should(
+        await kuzzle.document.mGet("nyc-open-data", "yellow-taxi", [
+          "taxi-2",
+          "taxi-3",
+        ])
+      ).match({ errors: ["taxi-3"], successes: [{ _id: "taxi-2" }] });
+    });
+
+    it("should search documents with pagination", async () => {
+      await kuzzle.document.mCreate(
+        "nyc-open-data",
+        "yellow-taxi",
+        [1, 2, 3, 4, 5].map((i) => ({
+          _id: `taxi-${i}`,
+          body: { age: i, city: i % 2 ? "Antwerp" : "Ghent" },
+        }))
+      );
+
+      const result = await kuzzle.document.search(
+        "nyc-open-data",
+        "yellow-taxi",
+        {
+          query: { term: { city: "Antwerp" } },
+          sort: [{ age: "desc" }],
+        },
+        { size: 2 }
+      );
+
+      should(result.total).eql(3);
+      should(result.hits.map(({ _id }) => _id)).eql(["taxi-5", "taxi-3"]);
+
+      const next = await result.next();
+
+      should(next.hits.map(({ _id }) => _id)).eql(["taxi-1"]);
+      should(await next.next()).be.null();
+
+      should(
+        await kuzzle.document.count("nyc-open-data", "yellow-taxi", {
+          query: { range: { age: { gte: 4 } } },
+        })
+      ).eql(2);
+    });
+
+    it("should report the total of the whole query with search_after", async () => {
+      await kuzzle.document.mCreate(
+        "nyc-open-data",
+        "yellow-taxi",
+        [0, 1, 2, 3, 4, 5, 6].map((i) => ({ _id: `d${i}`, body: { age: i } }))
+      );
+
+      let result = await kuzzle.document.search(
+        "nyc-open-data",
+        "yellow-taxi",
+        { sort: [{ age: "desc" }] },
+        { size: 3 }
+      );
+      const ids = [];
+
+      while (result) {
+        should(result.total).eql(7);
+        ids.push(...result.hits.map(({ _id }) => _id));
+        result = await result.next();
+      }
+
+      should(ids).eql(["d6", "d5", "d4", "d3", "d2", "d1", "d0"]);
+    });
+
+    it("should validate documents with the collection specifications", async () => {
+      await kuzzle.collection.updateSpecifications(
+        "nyc-open-data",
+        "yellow-taxi",
+        { fields: { name: { mandatory: true, type: "string" } } }
+      );
+
+      await should(
+        kuzzle.document.create("nyc-open-data", "yellow-taxi", { age: 42 })
+      ).be.rejectedWith({ status: 400 });
+    });
+  });
+
+  describe("auth", () => {
+    it("should log users in and out", async () => {
+      await should(
+        kuzzle.auth.login("local", { password: "nope", username: "alyx" })
+      ).be.rejectedWith({ id: "security.credentials.invalid" });
+
+      await kuzzle.auth.login("local", {
+        password: "secret",
+        username: "alyx",
+      });
+
+      should(kuzzle.authenticated).be.true();
+
+      const user = await kuzzle.auth.getCurrentUser();
+
+      should(user._id).eql("alyx");
+      should(user.content.name).eql("Alyx");
+
+      const document = await kuzzle.document.create(
+        "nyc-open-data",
+        "yellow-taxi",
+        {}
+      );
+
+      should(document._source._kuzzle_info.author).eql("alyx");
+
+      await kuzzle.auth.logout();
+
+      should((await kuzzle.auth.getCurrentUser())._id).eql("-1");
+    });
+  });
+
+  describe("realtime", () => {
+    let other;
+
+    beforeEach(async () => {
+      other = new Kuzzle(new MemoryProtocol({ backend }));
+      await other.connect();
+    });
+
+    afterEach(() => {
+      other.disconnect();
+    });
+
+    it("should notify subscribers of documents entering and leaving their scope", async () => {
+      const notifications = [];
+
+      await kuzzle.realtime.subscribe(
+        "nyc-open-data",
+        "yellow-taxi",
+        { range: { age: { gte: 18 } } },
+        (notification) => notifications.push(notification)
+      );
+
+      await other.document.create(
+        "nyc-open-data",
+        "yellow-taxi",
+        { age: 12 },
+        "taxi-1"
+      );
+      await other.document.update("nyc-open-data", "yellow-taxi", "taxi-1", {
+        age: 21,
+      });
+      await other.document.update("nyc-open-data", "yellow-taxi", "taxi-1", {
+        age: 16,
+      });
+      await other.document.create(
+        "nyc-open-data",
+        "yellow-taxi",
+        { age: 30 },
+        "taxi-2"
+      );
+      await other.document.delete("nyc-open-data", "yellow-taxi", "taxi-2");
+
+      should(
+        notifications.map(({ event, scope, result }) => [
+          event,
+          scope,
+          result._id,
+        ])
+      ).eql([
+        ["write", "in", "taxi-1"],
+        ["write", "out", "taxi-1"],
+        ["write", "in", "taxi-2"],
+        ["delete", "out", "taxi-2"],
+      ]);
+    });
+
+    it("should deliver published messages and user notifications", async () => {
+      const notifications = [];
+
+      await kuzzle.realtime.subscribe(
+        "nyc-open-data",
+        "yellow-taxi",
+        {},
+        (notification) => notifications.push(notification),
+        { users: "all" }
+      );
+      const roomId = await other.realtime.subscribe(
+        "nyc-open-data",
+        "yellow-taxi",
+        {},
+        () => {}
+      );
+
+      should(await kuzzle.realtime.count(roomId)).eql(2);
+
+      await other.realtime.publish("nyc-open-data", "yellow-taxi", {
+        message: "hello",
+      });
+      await other.realtime.unsubscribe(roomId);
+
+      should(notifications.map(({ type }) => type)).eql([
+        "user",
+        "document",
+        "user",
+      ]);
+      should(notifications[0]).match({ result: { count: 2 }, user: "in" });
+      should(notifications[1]).match({
+        event: "publish",
+        result: { _source: { message: "hello" } },
+      });
+      should(notifications[2]).match({ result: { count: 1 }, user: "out" });
+    });
+
+    it("should reject invalid filters", async () => {
+      await should(
+        kuzzle.realtime.subscribe(
+          "nyc-open-data",
+          "yellow-taxi",
+          { near: { age: 42 } },
+          () => {}
+        )
+      ).be.rejectedWith({ id: "api.assert.koncorde_dsl_error", status: 400 });
+    });
+
+    it("should remove the subscriptions of closed connections", async () => {
+      const roomId = await kuzzle.realtime.subscribe(
+        "nyc-open-data",
+        "yellow-taxi",
+        {},
+        () => {}
+      );
+
+      await other.realtime.subscribe(
+        "nyc-open-data",
+        "yellow-taxi",
+        {},
+        () => {}
+      );
+      other.disconnect();
+
+      should(await kuzzle.realtime.count(roomId)).eql(1);
+    });
+  });
+
+  describe("queries", () => {
+    const document = {
+      _id: "taxi-1",
+      description: "A yellow taxi from Antwerp",
+      tags: ["yellow", "fast"],
+    };
+
+    it("should evaluate Elasticsearch queries", () => {
+      should(compileQuery(undefined)(document)).be.true();
+      should(compileQuery({ term: { tags: "fast" } })(document)).be.true();
+      should(
+        compileQuery({ match: { description: "antwerp TAXI" } })(document)
+      ).be.true();
+      should(
+        compileQuery({
+          bool: {
+            filter: [{ prefix: { _id: "taxi" } }],
+            minimum_should_match: 1,
+            should: [{ term: { tags: "slow" } }],
+          },
+        })(document)
+      ).be.false();
+    });
+
+    it("should reject unsupported queries", () => {
+      should(() => compileQuery({ geo_shape: {} })).throw({
+        id: "services.storage.invalid_search_query",
+        status: 400,
+      });
+    });
+  });
+});
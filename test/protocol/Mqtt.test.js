@@ -0,0 +1,209 @@
+const should = require("should");
+const sinon = require("sinon");
+
+const { default: MqttProtocol } = require("../../src/protocols/Mqtt");
+const MqttBrokerMock = require("../mocks/mqttBroker.mock");
+
+describe("MQTT networking module", () => {
+  let broker;
+  let mqtt;
+
+  beforeEach(() => {
+    broker = new MqttBrokerMock((request) => {
+      if (request.controller === "realtime" && request.action === "subscribe") {
+        return { result: { channel: "room-id-channel", roomId: "room-id" } };
+      }
+
+      if (request.action === "fail") {
+        return {
+          error: { id: "api.assert.forbidden", message: "nope", status: 403 },
+          status: 403,
+        };
+      }
+
+      return { result: { now: 42 } };
+    });
+
+    mqtt = new MqttProtocol("address", { mqtt: broker, reconnectionDelay: 10 });
+  });
+
+  afterEach(() => {
+    mqtt.close();
+  });
+
+  describe("#constructor", () => {
+    it("should throw if an invalid host is provided", () => {
+      should(() => new MqttProtocol()).throw("host is required");
+    });
+
+    it("should use the default Kuzzle MQTT port and topics", () => {
+      should(mqtt.port).be.eql(1883);
+      should(mqtt.name).be.eql("mqtt");
+      should(mqtt.requestTopic).be.eql("Kuzzle/request");
+      should(mqtt.responseTopic).be.eql("Kuzzle/response");
+    });
+
+    it("should throw on invalid options", () => {
+      should(() => new MqttProtocol("address", { mqtt: {} })).throw(
+        'Invalid "mqtt" option: expected a "connect" method'
+      );
+      should(() => new MqttProtocol("address", { qos: 3 })).throw(
+        'Invalid "qos" option: expected 0, 1 or 2'
+      );
+    });
+  });
+
+  describe("#connect", () => {
+    it("should connect to the broker and subscribe to the response topic", async () => {
+      mqtt = new MqttProtocol("address", {
+        clientId: "my-device",
+        mqtt: broker,
+        port: 1234,
+        ssl: true,
+      });
+      const connectListener = sinon.stub();
+      mqtt.on("connect", connectListener);
+
+      await mqtt.connect();
+
+      should(broker.connect).be.calledWithMatch("mqtts://address:1234", {
+        clientId: "my-device",
+        reconnectPeriod: 0,
+      });
+      should(broker.client.subscribe).be.calledWith("Kuzzle/response");
+      should(mqtt.isReady()).be.true();
+      should(connectListener).be.calledOnce();
+    });
+
+    it("should reject and try to reconnect on a connection error", async () => {
+      const clock = sinon.useFakeTimers({ toFake: ["setTimeout"] });
+      const errorListener = sinon.stub();
+      mqtt.on("networkError", errorListener);
+
+      try {
+        const promise = mqtt.connect();
+        broker.client.emit("error", new Error("ECONNREFUSED"));
+
+        await should(promise).be.rejectedWith("ECONNREFUSED");
+        should(errorListener).be.calledOnce();
+
+        clock.tick(10);
+        should(broker.connect).be.calledTwice();
+      } finally {
+        clock.restore();
+      }
+    });
+
+    it("should emit a disconnect event when the broker closes the connection", async () => {
+      const disconnectListener = sinon.stub();
+      mqtt.autoReconnect = false;
+      mqtt.on("disconnect", disconnectListener);
+
+      await mqtt.connect();
+      broker.client.emit("close");
+
+      should(disconnectListener).be.calledOnce();
+      should(mqtt.isReady()).be.false();
+    });
+  });
+
+  describe("#query", () => {
+    beforeEach(() => mqtt.connect());
+
+    it("should publish requests and resolve with the correlated response", async () => {
+      const response = await mqtt.query(
+        { action: "now", controller: "server", requestId: "req-1" },
+        {}
+      );
+
+      should(broker.client.publish).be.calledWith("Kuzzle/request");
+      should(JSON.parse(broker.client.publish.firstCall.args[1])).be.eql({
+        action: "now",
+        controller: "server",
+        requestId: "req-1",
+      });
+      should(response.result).be.eql({ now: 42 });
+    });
+
+    it("should ignore responses to other requests", async () => {
+      const listener = sinon.stub();
+      mqtt.on("other-request", listener);
+
+      broker.publish("Kuzzle/response", { requestId: "other-request" });
+
+      should(listener).not.be.called();
+    });
+
+    it("should reject with a KuzzleError on API errors", async () => {
+      await should(
+        mqtt.query({ action: "fail", controller: "server", requestId: "req" })
+      ).be.rejectedWith({ id: "api.assert.forbidden", status: 403 });
+    });
+  });
+
+  describe("realtime notifications", () => {
+    beforeEach(() => mqtt.connect());
+
+    it("should subscribe to channels and deliver notifications", async () => {
+      const listener = sinon.stub();
+
+      const response = await mqtt.query({
+        action: "subscribe",
+        body: {},
+        controller: "realtime",
+        requestId: "sub",
+      });
+      mqtt.on(response.result.channel, listener);
+
+      should(broker.client.subscribe).be.calledWith("room-id-channel");
+
+      broker.publish("room-id-channel", {
+        room: "room-id-channel",
+        type: "document",
+      });
+
+      should(listener).be.calledOnce().be.calledWithMatch({ type: "document" });
+    });
+
+    it("should unsubscribe from channels of a room", async () => {
+      await mqtt.query({
+        action: "subscribe",
+        body: {},
+        controller: "realtime",
+        requestId: "sub",
+      });
+      await mqtt.query({
+        action: "unsubscribe",
+        body: { roomId: "room-id" },
+        controller: "realtime",
+        requestId: "unsub",
+      });
+
+      should(broker.client.unsubscribe).be.calledWith("room-id-channel");
+    });
+
+    it("should emit tokenExpired on TokenExpired messages", async () => {
+      const listener = sinon.stub();
+      mqtt.on("tokenExpired", listener);
+
+      broker.publish("Kuzzle/response", { type: "TokenExpired" });
+
+      should(listener).be.calledOnce();
+    });
+  });
+
+  describe("#close", () => {
+    it("should end the client and emit a disconnect event", async () => {
+      const listener = sinon.stub();
+      await mqtt.connect();
+      const client = broker.client;
+      mqtt.on("disconnect", listener);
+
+      mqtt.close();
+
+      should(client.end).be.calledOnce();
+      should(listener).be.calledOnce();
+      should(mqtt.state).be.eql("offline");
+    });
+  });
+});
@@ -0,0 +1,230 @@
+const should = require("should");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const { Kuzzle } = require("../../src/Kuzzle");
+const { default: MemoryProtocol } = require("../../src/protocols/Memory");
+const { default: ReplayProtocol } = require("../../src/protocols/Replay");
+const {
+  CassetteRecorder,
+} = require("../../src/protocols/replay/CassetteRecorder");
+const { requestKey } = require("../../src/utils/requestKey");
+
+describe("Replay protocol", () => {
+  const users = {
+    alyx: { credentials: { local: { password: "secret", username: "alyx" } } },
+  };
+
+  /**
+   * Scenario run against the recorded and the replayed protocols
+   */
+  async function scenario(kuzzle) {
+    const notifications = [];
+
+    await kuzzle.connect();
+    await kuzzle.auth.login("local", { password: "secret", username: "alyx" });
+    await kuzzle.index.create("nyc-open-data");
+    await kuzzle.collection.create("nyc-open-data", "yellow-taxi");
+    await kuzzle.realtime.subscribe(
+      "nyc-open-data",
+      "yellow-taxi",
+      {},
+      (notification) => notifications.push(notification)
+    );
+
+    const document = await kuzzle.document.create(
+      "nyc-open-data",
+      "yellow-taxi",
+      { createdAt: Date.now(), name: "Aschen" },
+      "taxi-1"
+    );
+    const count = await kuzzle.document.count("nyc-open-data", "yellow-taxi");
+
+    return { count, document, notifications };
+  }
+
+  let recorder;
+  let recorded;
+
+  beforeEach(async () => {
+    const protocol = new MemoryProtocol({ users });
+    const kuzzle = new Kuzzle(protocol);
+
+    recorder = new CassetteRecorder(protocol).start();
+    recorded = await scenario(kuzzle);
+    recorder.stop();
+    kuzzle.disconnect();
+  });
+
+  describe("CassetteRecorder", () => {
+    it("should record requests with their responses and notifications", () => {
+      const { interactions } = recorder.cassette;
+
+      should(interactions.map(({ request }) => request.action)).eql([
+        "checkToken",
+        "login",
+        "create",
+        "create",
+        "subscribe",
+        "create",
+        "count",
+      ]);
+      should(interactions[5].response.result._id).eql("taxi-1");
+      should(interactions[5].notifications).match([
+        { payload: { result: { _id: "taxi-1" }, type: "document" } },
+      ]);
+      should(interactions.every(({ request }) => !request.jwt)).be.true();
+    });
+
+    it("should not record login credentials unless asked to", async () => {
+      should(recorder.cassette.interactions[1].request).not.have.property(
+        "body"
+      );
+      should(JSON.stringify(recorder.cassette)).not.match(/secret/);
+
+      const protocol = new MemoryProtocol({ users });
+      const kuzzle = new Kuzzle(protocol);
+      const keeping = new CassetteRecorder(protocol, {
+        keepCredentials: true,
+      }).start();
+
+      await kuzzle.connect();
+      await kuzzle.auth.login("local", {
+        password: "secret",
+        username: "alyx",
+      });
+      keeping.stop();
+      kuzzle.disconnect();
+
+      should(keeping.cassette.interactions[1].request.body).eql({
+        password: "secret",
+        username: "alyx",
+      });
+    });
+
+    it("should record SDK errors as API-like errors without status", () => {
+      const protocol = new MemoryProtocol();
+      const recording = new CassetteRecorder(protocol).start();
+
+      protocol.query({ action: "now", controller: "server", requestId: "r" });
+      protocol.emit("r", { error: new Error("network down") });
+      recording.stop();
+
+      should(recording.cassette.interactions[0].response).eql({
+        error: { message: "network down" },
+      });
+    });
+
+    it("should restore the protocol methods once stopped", () => {
+      const protocol = new MemoryProtocol();
+
+      new CassetteRecorder(protocol).start().stop();
+
+      should(protocol).not.have.ownProperty("query");
+      should(protocol).not.have.ownProperty("emit");
+    });
+
+    it("should write the cassette to a file", () => {
+      const file = path.join(
+        os.tmpdir(),
+        `cassette-${process.pid}-${Date.now()}.json`
+      );
+
+      try {
+        recorder.save(file);
+
+        should(JSON.parse(fs.readFileSync(file, "utf8"))).eql(
+          recorder.cassette
+        );
+      } finally {
+        fs.unlinkSync(file);
+      }
+    });
+  });
+
+  describe("ReplayProtocol", () => {
+    it("should replay recorded responses and notifications", async () => {
+      const protocol = new ReplayProtocol(recorder.cassette);
+      const kuzzle = new Kuzzle(protocol);
+
+      const replayed = await scenario(kuzzle);
+
+      should(kuzzle.authenticated).be.true();
+      kuzzle.disconnect();
+
+      should(replayed.count).eql(recorded.count);
+      should(replayed.document).eql(recorded.document);
+      should(replayed.notifications).have.length(1);
+      should(replayed.notifications[0].result).eql(
+        recorded.notifications[0].result
+      );
+      should(protocol.remaining).eql(0);
+    });
+
+    it("should reject requests which have not been recorded", async () => {
+      const kuzzle = new Kuzzle(new ReplayProtocol(recorder.cassette));
+
+      await kuzzle.connect();
+
+      await should(kuzzle.index.create("other-index")).be.rejectedWith(
+        /No recorded interaction matches the request/
+      );
+
+      kuzzle.disconnect();
+    });
+
+    it("should replay identical requests in their recorded order", async () => {
+      const kuzzle = new Kuzzle(
+        new ReplayProtocol({
+          interactions: [1, 2].map((now) => ({
+            notifications: [],
+            request: { action: "now", controller: "server", requestId: "foo" },
+            response: { requestId: "foo", result: { now }, status: 200 },
+          })),
+          version: 1,
+        })
+      );
+
+      await kuzzle.connect();
+
+      should(await kuzzle.server.now()).eql(1);
+      should(await kuzzle.server.now()).eql(2);
+
+      kuzzle.disconnect();
+    });
+  });
+
+  describe("requestKey", () => {
+    it("should ignore request IDs, tokens and timestamps", () => {
+      should(
+        requestKey({
+          action: "create",
+          body: { createdAt: 1, name: "foo" },
+          jwt: "jwt-1",
+          requestId: "request-1",
+          volatile: { sdkInstanceId: "sdk-1" },
+        })
+      ).eql(
+        requestKey({
+          action: "create",
+          body: { createdAt: 2, name: "foo" },
+          jwt: "jwt-2",
+          requestId: "request-2",
+          volatile: { sdkInstanceId: "sdk-2" },
+        })
+      );
+    });
+
+    it("should ignore additional fields", () => {
+      const request = { action: "search", body: { query: { term: 1 } } };
+
+      should(requestKey(request, { ignore: ["body.query"] })).eql(
+        requestKey({ action: "search", body: {} })
+      );
+      should(requestKey(request, { ignoreKeys: ["term"] })).eql(
+        requestKey({ action: "search", body: { query: {} } })
+      );
+    });
+  });
+});
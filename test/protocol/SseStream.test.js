@@ -0,0 +1,155 @@
+const http = require("http");
+const should = require("should");
+const sinon = require("sinon");
+
+const { SseStream } = require("../../src/protocols/SseStream");
+
+describe("SseStream", () => {
+  let server;
+  let url;
+  let requests;
+  let handler;
+  let stream;
+
+  beforeEach((done) => {
+    requests = [];
+    handler = (req, res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+    };
+
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      handler(req, res);
+    });
+
+    server.listen(0, "127.0.0.1", () => {
+      url = `http://127.0.0.1:${server.address().port}/_sse?foo=bar`;
+      done();
+    });
+  });
+
+  afterEach((done) => {
+    if (stream) {
+      stream.close();
+      stream = null;
+    }
+
+    server.closeAllConnections();
+    server.close(() => done());
+  });
+
+  const waitFor = (predicate) =>
+    new Promise((resolve) => {
+      const check = () => {
+        if (predicate()) {
+          resolve();
+        } else {
+          setTimeout(check, 5);
+        }
+      };
+
+      check();
+    });
+
+  it("should open the stream with the event-stream headers", async () => {
+    stream = new SseStream(url, {
+      headers: { authorization: "Bearer token" },
+      onEvent: sinon.stub(),
+    }).open();
+
+    await waitFor(() => requests.length === 1);
+
+    should(requests[0].url).be.eql("/_sse?foo=bar");
+    should(requests[0].headers.accept).be.eql("text/event-stream");
+    should(requests[0].headers.authorization).be.eql("Bearer token");
+    should(requests[0].headers["last-event-id"]).be.undefined();
+  });
+
+  it("should parse received events", async () => {
+    const events = [];
+
+    handler = (req, res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write(": keep-alive\n\n");
+      res.write('data: {"foo":"bar"}\n\n');
+      res.write("event: subscribed\nid: 42\n");
+      res.write("data: line1\ndata:line2\n\n");
+    };
+
+    stream = new SseStream(url, {
+      onEvent: (event) => events.push(event),
+    }).open();
+
+    await waitFor(() => events.length === 2);
+
+    should(events[0]).match({ data: '{"foo":"bar"}', event: "message" });
+    should(events[1]).match({
+      data: "line1\nline2",
+      event: "subscribed",
+      id: "42",
+    });
+  });
+
+  it("should reopen the stream when it ends, with the last event ID", async () => {
+    const onError = sinon.stub();
+
+    handler = (req, res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+
+      if (requests.length === 1) {
+        res.end("id: 7\ndata: foo\n\n");
+      }
+    };
+
+    stream = new SseStream(url, {
+      onError,
+      onEvent: sinon.stub(),
+      reconnectionDelay: 10,
+    }).open();
+
+    await waitFor(() => requests.length === 2);
+
+    should(onError).be.calledOnce();
+    should(onError.firstCall.args[0].message).match(/ended/);
+    should(requests[1].headers["last-event-id"]).be.eql("7");
+  });
+
+  it("should report HTTP errors", async () => {
+    const onError = sinon.stub();
+
+    handler = (req, res) => {
+      res.writeHead(404);
+      res.end();
+    };
+
+    stream = new SseStream(url, {
+      onError,
+      onEvent: sinon.stub(),
+      reconnectionDelay: 1000,
+    }).open();
+
+    await waitFor(() => onError.called);
+
+    should(onError.firstCall.args[0].message).match(/HTTP status 404/);
+  });
+
+  it("should not reopen a closed stream", async () => {
+    const onError = sinon.stub();
+
+    stream = new SseStream(url, {
+      onError,
+      onEvent: sinon.stub(),
+      reconnectionDelay: 10,
+    }).open();
+
+    await waitFor(() => requests.length === 1);
+
+    stream.close();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    should(stream.closed).be.true();
+    should(requests).have.length(1);
+    should(onError).not.be.called();
+  });
+});
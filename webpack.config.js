@@ -1,3 +1,4 @@
+const path = require('path');
 const webpack = require('webpack');
 
 const { version } = require('./package.json');
@@ -28,7 +29,7 @@ module.exports = {
   },
   plugins: [
     new webpack.IgnorePlugin({
-      resourceRegExp: /^(http|min-req-promise|package|ws)$/
+      resourceRegExp: /^(http|min-req-promise|mqtt|package|ws)$/
     }),
     new webpack.DefinePlugin({
       SDKVERSION: JSON.stringify(version),
@@ -37,8 +38,14 @@ module.exports = {
     new webpack.BannerPlugin('Kuzzle Javascript SDK version ' + version),
   ],
   resolve: {
+    // Node.js only tools, exported as empty modules by the browser build
+    alias: {
+      [path.resolve(__dirname, 'src/codegen/ControllerGenerator.js')]: false,
+      [path.resolve(__dirname, 'src/core/offlineQueue/FileQueueStorage.js')]: false,
+    },
     fallback: {
       buffer: false,
+      fs: false,
       http: false,
       https: false,
       url: false,